@@ -0,0 +1,117 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { parse } from "ts-command-line-args";
+import SwaggerParser from "@apidevtools/swagger-parser";
+import { OpenAPIV3 } from "openapi-types";
+import { writeFile } from "projen/lib/util";
+import { ApiChange, detectChanges } from "./detect-changes";
+
+interface Arguments {
+  /**
+   * Path to the current (parsed) OpenAPI specification
+   */
+  readonly specPath: string;
+  /**
+   * The baseline to compare against. Either a path to a saved specification (eg. a previous .api.json), or a git ref
+   */
+  readonly baseline: string;
+  /**
+   * Path to the specification to read from the git ref when the baseline is a git ref. Must be a path to a
+   * specification which is committed to the repository.
+   * @default specPath
+   */
+  readonly baselineSpecPath?: string;
+  /**
+   * Exit with an error when breaking changes are detected
+   */
+  readonly failOnBreakingChanges?: boolean;
+  /**
+   * Optional path to write the detected changes to as json
+   */
+  readonly outputPath?: string;
+}
+
+const git = (args: string[]): string => execFileSync("git", args, { encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"] });
+
+/**
+ * Write the directory containing the specification at the given git ref to a temporary directory, such that specs
+ * split across multiple files may be bundled, and return the path to the specification within it.
+ */
+const checkoutSpecAtRef = (ref: string, specPath: string, tmpDir: string): string => {
+  const prefix = git(["rev-parse", "--show-prefix"]).trim();
+  const specPathInRepo = path.posix.join(prefix, path.relative(".", specPath).split(path.sep).join("/"));
+  const specDirInRepo = path.posix.dirname(specPathInRepo);
+
+  const files = git(["ls-tree", "-r", "--name-only", "--full-tree", ref, "--", specDirInRepo]).split("\n").filter((f) => f);
+  if (!files.includes(specPathInRepo)) {
+    throw new Error(`${specPathInRepo} does not exist at git ref ${ref}. Note that only committed specifications can be used as a baseline.`);
+  }
+  files.forEach((file) => {
+    const filePath = path.join(tmpDir, path.posix.relative(specDirInRepo, file));
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, execFileSync("git", ["show", `${ref}:${file}`]));
+  });
+  return path.join(tmpDir, path.posix.basename(specPathInRepo));
+};
+
+const loadBaseline = async (args: Arguments): Promise<OpenAPIV3.Document> => {
+  if (fs.existsSync(args.baseline)) {
+    return await SwaggerParser.bundle(args.baseline) as OpenAPIV3.Document;
+  }
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "type-safe-api-baseline-"));
+  try {
+    return await SwaggerParser.bundle(checkoutSpecAtRef(args.baseline, args.baselineSpecPath ?? args.specPath, tmpDir)) as OpenAPIV3.Document;
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+};
+
+const formatChange = (change: ApiChange) => `  ${change.location}: ${change.message}`;
+
+/**
+ * Compare the api against a baseline version and report the changes, classified as breaking or non-breaking
+ */
+export default async (argv: string[]) => {
+  const args = parse<Arguments>({
+    specPath: { type: String, alias: "s" },
+    baseline: { type: String, alias: "b" },
+    baselineSpecPath: { type: String, optional: true },
+    failOnBreakingChanges: { type: Boolean, optional: true },
+    outputPath: { type: String, optional: true },
+  }, { argv });
+
+  const baselineSpec = await loadBaseline(args);
+  const currentSpec = await SwaggerParser.bundle(args.specPath) as OpenAPIV3.Document;
+
+  const changes = detectChanges(baselineSpec, currentSpec);
+  const breakingChanges = changes.filter((c) => c.breaking);
+  const nonBreakingChanges = changes.filter((c) => !c.breaking);
+
+  if (args.outputPath) {
+    writeFile(args.outputPath, JSON.stringify(changes, null, 2), {
+      readonly: true,
+    });
+  }
+
+  if (changes.length === 0) {
+    console.log(`No changes detected compared to ${args.baseline}`);
+    return;
+  }
+  if (breakingChanges.length > 0) {
+    console.log(`Breaking changes (${breakingChanges.length}):`);
+    breakingChanges.forEach((c) => console.log(formatChange(c)));
+  }
+  if (nonBreakingChanges.length > 0) {
+    console.log(`Non-breaking changes (${nonBreakingChanges.length}):`);
+    nonBreakingChanges.forEach((c) => console.log(formatChange(c)));
+  }
+
+  if (breakingChanges.length > 0 && args.failOnBreakingChanges) {
+    console.error(`Detected ${breakingChanges.length} breaking change(s) compared to ${args.baseline}`);
+    process.exit(1);
+  }
+};
@@ -0,0 +1,377 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { OpenAPIV3 } from "openapi-types";
+import { isRef, resolveRef } from "../common/spec-utils";
+
+/**
+ * A change between two versions of an api
+ */
+export interface ApiChange {
+  /**
+   * Whether existing clients or server implementations may break as a result of the change
+   */
+  readonly breaking: boolean;
+  /**
+   * Where in the api the change was made, eg "sayHello request body /name"
+   */
+  readonly location: string;
+  /**
+   * Description of the change
+   */
+  readonly message: string;
+}
+
+/**
+ * The direction in which data flows for a schema. Narrowing a request schema may break existing clients, whereas
+ * narrowing a response schema is safe but removing or loosening the guarantees it makes is not.
+ */
+type Direction = "request" | "response";
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "patch", "head", "options", "trace"] as const;
+
+// Constraints which, when increased, narrow the values accepted by a schema
+const LOWER_BOUND_CONSTRAINTS = ["minimum", "minLength", "minItems", "minProperties"] as const;
+// Constraints which, when decreased, narrow the values accepted by a schema
+const UPPER_BOUND_CONSTRAINTS = ["maximum", "maxLength", "maxItems", "maxProperties"] as const;
+
+interface Operation {
+  readonly method: string;
+  readonly path: string;
+  readonly parameters: OpenAPIV3.ParameterObject[];
+  readonly operation: OpenAPIV3.OperationObject;
+}
+
+/**
+ * Return all operations in the spec keyed by operation id, or method and path for operations without an id
+ */
+const getOperations = (spec: OpenAPIV3.Document): { [id: string]: Operation } =>
+  Object.fromEntries(Object.entries(spec.paths ?? {}).flatMap(([p, pathItem]) =>
+    HTTP_METHODS.filter((method) => pathItem?.[method]).map((method) => {
+      const operation = pathItem![method]!;
+      // Operation parameters override path level parameters
+      const parameters: { [key: string]: OpenAPIV3.ParameterObject } = {};
+      [...(pathItem!.parameters ?? []), ...(operation.parameters ?? [])].forEach((parameterOrRef) => {
+        const parameter = resolveRef(spec, parameterOrRef);
+        parameters[`${parameter.in}.${parameter.name}`] = parameter;
+      });
+      return [operation.operationId ?? `${method.toUpperCase()} ${p}`, {
+        method,
+        path: p,
+        parameters: Object.values(parameters),
+        operation,
+      }];
+    })));
+
+const getJsonSchema = (content?: { [media: string]: OpenAPIV3.MediaTypeObject }) => {
+  const mediaType = Object.keys(content ?? {}).find((m) => m.includes("json")) ?? Object.keys(content ?? {})[0];
+  return mediaType ? content![mediaType].schema : undefined;
+};
+
+/**
+ * Flatten allOf compositions so that properties and required fields from every member are compared together
+ */
+const flattenSchema = (spec: OpenAPIV3.Document, schemaOrRef: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject): OpenAPIV3.SchemaObject => {
+  const schema = resolveRef(spec, schemaOrRef);
+  if (!schema.allOf) {
+    return schema;
+  }
+  const members = schema.allOf.map((member) => flattenSchema(spec, member));
+  return {
+    ...schema,
+    allOf: undefined,
+    type: schema.type ?? members.find((m) => m.type)?.type,
+    properties: Object.assign({}, ...members.map((m) => m.properties ?? {}), schema.properties ?? {}),
+    required: [...new Set([...members.flatMap((m) => m.required ?? []), ...(schema.required ?? [])])],
+  } as OpenAPIV3.SchemaObject;
+};
+
+/**
+ * Name a oneOf/anyOf variant by the model it references, falling back to its position
+ */
+const variantName = (variant: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject, index: number) =>
+  isRef(variant) ? variant.$ref.split("/").pop()! : `#${index}`;
+
+/**
+ * Compares the schemas of two versions of an api
+ */
+class SchemaComparator {
+  // Pairs of referenced schemas currently being compared, to avoid infinite recursion for recursive models
+  private readonly comparing = new Set<string>();
+
+  constructor(
+    private readonly baselineSpec: OpenAPIV3.Document,
+    private readonly currentSpec: OpenAPIV3.Document,
+    private readonly changes: ApiChange[],
+  ) {}
+
+  public compare(
+    location: string,
+    direction: Direction,
+    baselineSchemaOrRef: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject,
+    currentSchemaOrRef: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject,
+  ): void {
+    const key = isRef(baselineSchemaOrRef) && isRef(currentSchemaOrRef) ? `${baselineSchemaOrRef.$ref}:${currentSchemaOrRef.$ref}` : undefined;
+    if (key && this.comparing.has(key)) {
+      return;
+    }
+    if (!key) {
+      return this.compareSchemas(location, direction, baselineSchemaOrRef, currentSchemaOrRef);
+    }
+    this.comparing.add(key);
+    this.compareSchemas(location, direction, baselineSchemaOrRef, currentSchemaOrRef);
+    this.comparing.delete(key);
+  }
+
+  private compareSchemas(
+    location: string,
+    direction: Direction,
+    baselineSchemaOrRef: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject,
+    currentSchemaOrRef: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject,
+  ): void {
+    const baseline = flattenSchema(this.baselineSpec, baselineSchemaOrRef);
+    const current = flattenSchema(this.currentSpec, currentSchemaOrRef);
+    const add = (breaking: boolean, message: string) => this.changes.push({ breaking, location, message });
+
+    if (baseline.type !== current.type) {
+      // Widening an integer to a number is only safe for values sent to the api
+      const widened = baseline.type === "integer" && current.type === "number";
+      add(!widened || direction === "response", `type changed from ${baseline.type ?? "any"} to ${current.type ?? "any"}`);
+      return;
+    }
+    if (baseline.format !== current.format) {
+      add(true, `format changed from ${baseline.format ?? "none"} to ${current.format ?? "none"}`);
+    }
+
+    this.compareEnums(direction, baseline, current, add);
+    this.compareConstraints(direction, baseline, current, add);
+    this.compareProperties(location, direction, baseline, current, add);
+
+    if (baseline.type === "array" && "items" in baseline && "items" in current) {
+      this.compare(`${location}[]`, direction, baseline.items, current.items);
+    }
+    if (typeof baseline.additionalProperties === "object" && typeof current.additionalProperties === "object") {
+      this.compare(`${location}{}`, direction, baseline.additionalProperties, current.additionalProperties);
+    }
+
+    this.compareVariants(location, direction, "oneOf", baseline, current, add);
+    this.compareVariants(location, direction, "anyOf", baseline, current, add);
+  }
+
+  private compareEnums(
+    direction: Direction,
+    baseline: OpenAPIV3.SchemaObject,
+    current: OpenAPIV3.SchemaObject,
+    add: (breaking: boolean, message: string) => void,
+  ) {
+    if (!baseline.enum && !current.enum) {
+      return;
+    }
+    if (!current.enum) {
+      add(direction === "response", "enum constraint removed");
+      return;
+    }
+    if (!baseline.enum) {
+      add(direction === "request", "enum constraint added");
+      return;
+    }
+    const removed = baseline.enum.filter((v) => !current.enum!.includes(v));
+    const added = current.enum.filter((v) => !baseline.enum!.includes(v));
+    if (removed.length > 0) {
+      // Removing an enum value also removes it from the generated enum types, so is breaking in either direction
+      add(true, `enum values removed: ${removed.join(", ")}`);
+    }
+    if (added.length > 0) {
+      // Clients may fail to deserialise response values they don't know about
+      add(direction === "response", `enum values added: ${added.join(", ")}`);
+    }
+  }
+
+  private compareConstraints(
+    direction: Direction,
+    baseline: OpenAPIV3.SchemaObject,
+    current: OpenAPIV3.SchemaObject,
+    add: (breaking: boolean, message: string) => void,
+  ) {
+    const describe = (value: unknown) => value === undefined ? "none" : String(value);
+    LOWER_BOUND_CONSTRAINTS.forEach((constraint) => {
+      const before = baseline[constraint];
+      const after = current[constraint];
+      if (before !== after) {
+        const narrowed = after !== undefined && (before === undefined || after > before);
+        add(narrowed === (direction === "request"), `${constraint} changed from ${describe(before)} to ${describe(after)}`);
+      }
+    });
+    UPPER_BOUND_CONSTRAINTS.forEach((constraint) => {
+      const before = baseline[constraint];
+      const after = current[constraint];
+      if (before !== after) {
+        const narrowed = after !== undefined && (before === undefined || after < before);
+        add(narrowed === (direction === "request"), `${constraint} changed from ${describe(before)} to ${describe(after)}`);
+      }
+    });
+    if (baseline.pattern !== current.pattern) {
+      add(direction === "request" ? current.pattern !== undefined : baseline.pattern !== undefined,
+        `pattern changed from ${describe(baseline.pattern)} to ${describe(current.pattern)}`);
+    }
+    if (!baseline.nullable && current.nullable) {
+      add(direction === "response", "became nullable");
+    } else if (baseline.nullable && !current.nullable) {
+      add(direction === "request", "is no longer nullable");
+    }
+  }
+
+  private compareProperties(
+    location: string,
+    direction: Direction,
+    baseline: OpenAPIV3.SchemaObject,
+    current: OpenAPIV3.SchemaObject,
+    add: (breaking: boolean, message: string) => void,
+  ) {
+    const baselineProperties = baseline.properties ?? {};
+    const currentProperties = current.properties ?? {};
+    const baselineRequired = new Set(baseline.required ?? []);
+    const currentRequired = new Set(current.required ?? []);
+
+    Object.keys(baselineProperties).filter((name) => !(name in currentProperties)).forEach((name) => {
+      add(true, `property ${name} removed`);
+    });
+    Object.keys(currentProperties).filter((name) => !(name in baselineProperties)).forEach((name) => {
+      if (currentRequired.has(name)) {
+        add(direction === "request", `required property ${name} added`);
+      } else {
+        add(false, `optional property ${name} added`);
+      }
+    });
+    Object.keys(baselineProperties).filter((name) => name in currentProperties).forEach((name) => {
+      if (!baselineRequired.has(name) && currentRequired.has(name)) {
+        add(direction === "request", `property ${name} became required`);
+      } else if (baselineRequired.has(name) && !currentRequired.has(name)) {
+        add(direction === "response", `property ${name} became optional`);
+      }
+      this.compare(`${location}/${name}`, direction, baselineProperties[name], currentProperties[name]);
+    });
+  }
+
+  private compareVariants(
+    location: string,
+    direction: Direction,
+    composition: "oneOf" | "anyOf",
+    baseline: OpenAPIV3.SchemaObject,
+    current: OpenAPIV3.SchemaObject,
+    add: (breaking: boolean, message: string) => void,
+  ) {
+    const baselineVariants = Object.fromEntries((baseline[composition] ?? []).map((v, i) => [variantName(v, i), v]));
+    const currentVariants = Object.fromEntries((current[composition] ?? []).map((v, i) => [variantName(v, i), v]));
+    Object.keys(baselineVariants).forEach((name) => {
+      if (name in currentVariants) {
+        this.compare(`${location}(${name})`, direction, baselineVariants[name], currentVariants[name]);
+      } else {
+        add(true, `${composition} variant ${name} removed`);
+      }
+    });
+    Object.keys(currentVariants).filter((name) => !(name in baselineVariants)).forEach((name) => {
+      add(direction === "response", `${composition} variant ${name} added`);
+    });
+  }
+}
+
+/**
+ * Detect the changes between a baseline version of an api and the current version, classifying whether each change
+ * is breaking.
+ */
+export const detectChanges = (baselineSpec: OpenAPIV3.Document, currentSpec: OpenAPIV3.Document): ApiChange[] => {
+  const changes: ApiChange[] = [];
+  const schemas = new SchemaComparator(baselineSpec, currentSpec, changes);
+  const baselineOperations = getOperations(baselineSpec);
+  const currentOperations = getOperations(currentSpec);
+
+  Object.entries(baselineOperations).forEach(([operationId, baseline]) => {
+    const current = currentOperations[operationId];
+    if (!current) {
+      changes.push({ breaking: true, location: operationId, message: "operation removed" });
+      return;
+    }
+    if (baseline.method !== current.method || baseline.path !== current.path) {
+      changes.push({
+        breaking: true,
+        location: operationId,
+        message: `moved from ${baseline.method.toUpperCase()} ${baseline.path} to ${current.method.toUpperCase()} ${current.path}`,
+      });
+    }
+
+    // Parameters
+    const currentParameters = Object.fromEntries(current.parameters.map((p) => [`${p.in}.${p.name}`, p]));
+    const baselineParameters = Object.fromEntries(baseline.parameters.map((p) => [`${p.in}.${p.name}`, p]));
+    Object.entries(baselineParameters).forEach(([key, baselineParameter]) => {
+      const location = `${operationId} parameter ${key}`;
+      const currentParameter = currentParameters[key];
+      if (!currentParameter) {
+        changes.push({ breaking: true, location, message: "parameter removed" });
+        return;
+      }
+      if (!baselineParameter.required && currentParameter.required) {
+        changes.push({ breaking: true, location, message: "parameter became required" });
+      }
+      if (baselineParameter.schema && currentParameter.schema) {
+        schemas.compare(location, "request", baselineParameter.schema, currentParameter.schema);
+      }
+    });
+    Object.entries(currentParameters).filter(([key]) => !(key in baselineParameters)).forEach(([key, parameter]) => {
+      changes.push({
+        breaking: !!parameter.required,
+        location: `${operationId} parameter ${key}`,
+        message: `${parameter.required ? "required" : "optional"} parameter added`,
+      });
+    });
+
+    // Request body
+    const baselineBody = baseline.operation.requestBody && resolveRef(baselineSpec, baseline.operation.requestBody);
+    const currentBody = current.operation.requestBody && resolveRef(currentSpec, current.operation.requestBody);
+    const bodyLocation = `${operationId} request body`;
+    if (baselineBody && !currentBody) {
+      changes.push({ breaking: true, location: bodyLocation, message: "request body removed" });
+    } else if (!baselineBody && currentBody) {
+      changes.push({
+        breaking: !!currentBody.required,
+        location: bodyLocation,
+        message: `${currentBody.required ? "required" : "optional"} request body added`,
+      });
+    } else if (baselineBody && currentBody) {
+      if (!baselineBody.required && currentBody.required) {
+        changes.push({ breaking: true, location: bodyLocation, message: "request body became required" });
+      }
+      const baselineSchema = getJsonSchema(baselineBody.content);
+      const currentSchema = getJsonSchema(currentBody.content);
+      if (baselineSchema && currentSchema) {
+        schemas.compare(bodyLocation, "request", baselineSchema, currentSchema);
+      }
+    }
+
+    // Responses
+    const baselineResponses = baseline.operation.responses ?? {};
+    const currentResponses = current.operation.responses ?? {};
+    Object.entries(baselineResponses).forEach(([code, baselineResponseOrRef]) => {
+      const location = `${operationId} response ${code}`;
+      if (!(code in currentResponses)) {
+        changes.push({ breaking: true, location, message: "response removed" });
+        return;
+      }
+      const baselineSchema = getJsonSchema(resolveRef(baselineSpec, baselineResponseOrRef).content);
+      const currentSchema = getJsonSchema(resolveRef(currentSpec, currentResponses[code]).content);
+      if (baselineSchema && !currentSchema) {
+        changes.push({ breaking: true, location, message: "response body removed" });
+      } else if (baselineSchema && currentSchema) {
+        schemas.compare(location, "response", baselineSchema, currentSchema);
+      }
+    });
+    Object.keys(currentResponses).filter((code) => !(code in baselineResponses)).forEach((code) => {
+      changes.push({ breaking: false, location: `${operationId} response ${code}`, message: "response added" });
+    });
+  });
+
+  Object.keys(currentOperations).filter((operationId) => !(operationId in baselineOperations)).forEach((operationId) => {
+    changes.push({ breaking: false, location: operationId, message: "operation added" });
+  });
+
+  return changes;
+};
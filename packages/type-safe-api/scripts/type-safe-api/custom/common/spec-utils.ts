@@ -0,0 +1,32 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { OpenAPIV3 } from "openapi-types";
+import _get from "lodash/get";
+import { validateSchema as validateSchemaWithResolver } from "../../generators/validate-schema";
+
+export const isRef = (obj: unknown): obj is OpenAPIV3.ReferenceObject => !!obj && typeof obj === "object" && "$ref" in obj;
+
+/**
+ * Resolve a local reference in the spec (following any chained references), eg #/components/schemas/Pet
+ */
+export const resolveRef = <T>(spec: OpenAPIV3.Document, refOrObject: T | OpenAPIV3.ReferenceObject): T => {
+  if (!isRef(refOrObject)) {
+    return refOrObject;
+  }
+  const refParts = refOrObject.$ref.slice(2).split('/').map(p => p.replace(/~1/g, "/").replace(/~0/g, "~"));
+  const resolved = _get(spec, refParts) as T | undefined;
+  if (!resolved) {
+    throw new Error(`Unable to resolve ref ${refOrObject.$ref} in spec`);
+  }
+  return resolveRef(spec, resolved);
+};
+
+/**
+ * Validate a value against a schema in the spec, returning a list of validation errors
+ */
+export const validateSchema = (
+  spec: OpenAPIV3.Document,
+  schemaOrRef: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject,
+  value: unknown,
+  pointer: string = "",
+): string[] => validateSchemaWithResolver((schema) => resolveRef(spec, schema), schemaOrRef, value, pointer);
@@ -0,0 +1,165 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { Faker } from "@faker-js/faker";
+import { OpenAPIV3 } from "openapi-types";
+import { generateMockDataForSchema } from "../mock-data/generate-mock-data";
+import { resolveRef, validateSchema } from "../common/spec-utils";
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "patch", "head", "options", "trace"] as const;
+
+/**
+ * Options for generating request data
+ */
+export interface ContractTestDataOptions {
+  readonly faker: Faker;
+  readonly maxArrayLength: number;
+}
+
+/**
+ * A request which exercises an operation in the spec
+ */
+export interface ContractTestCase {
+  readonly operationId: string;
+  readonly method: string;
+  readonly path: string;
+  readonly operation: OpenAPIV3.OperationObject;
+  /**
+   * Request path with generated path parameters, and the query string
+   */
+  readonly url: string;
+  readonly headers: { [name: string]: string };
+  readonly body?: string;
+}
+
+/**
+ * A response received from the api
+ */
+export interface ContractTestResponse {
+  readonly status: number;
+  readonly body: string;
+}
+
+const isJsonMediaType = (mediaType: string) => /json/i.test(mediaType);
+
+const generateValue = (
+  spec: OpenAPIV3.Document,
+  options: ContractTestDataOptions,
+  schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject,
+  propertyName?: string,
+) => generateMockDataForSchema(spec, { ...options, maxCircularReferenceDepth: 2 }, schema, propertyName);
+
+/**
+ * Serialise a parameter value, using the default styles for path and header parameters (simple) and query parameters (form)
+ */
+const serialiseParameter = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.map((v) => typeof v === "object" ? JSON.stringify(v) : String(v));
+  }
+  return [typeof value === "object" ? JSON.stringify(value) : String(value)];
+};
+
+/**
+ * Build a valid request for every operation in the spec, using generated mock data for parameters and request bodies.
+ * Only required query and header parameters are included.
+ */
+export const buildContractTestCases = (spec: OpenAPIV3.Document, options: ContractTestDataOptions): ContractTestCase[] =>
+  Object.entries(spec.paths ?? {}).flatMap(([p, pathItem]) =>
+    HTTP_METHODS.filter((method) => pathItem?.[method]).map((method) => {
+      const operation = pathItem![method]!;
+
+      // Operation parameters override path level parameters
+      const parameters = new Map<string, OpenAPIV3.ParameterObject>();
+      [...(pathItem!.parameters ?? []), ...(operation.parameters ?? [])]
+        .map((parameter) => resolveRef(spec, parameter))
+        .forEach((parameter) => parameters.set(`${parameter.in}.${parameter.name}`, parameter));
+
+      const values = [...parameters.values()]
+        .filter((parameter) => parameter.in === "path" || parameter.required)
+        .map((parameter) => ({
+          parameter,
+          value: serialiseParameter(parameter.example ?? (parameter.schema ? generateValue(spec, options, parameter.schema, parameter.name) : "")),
+        }));
+
+      let requestPath = p;
+      const query = new URLSearchParams();
+      const headers: { [name: string]: string } = {};
+      values.forEach(({ parameter, value }) => {
+        switch (parameter.in) {
+          case "path":
+            requestPath = requestPath.replace(new RegExp(`\\{${parameter.name}(\\+?)\\}`), (_match, greedy) =>
+              greedy ? value.join(",").split("/").map(encodeURIComponent).join("/") : encodeURIComponent(value.join(",")));
+            break;
+          case "query":
+            value.forEach((v) => query.append(parameter.name, v));
+            break;
+          case "header":
+            headers[parameter.name] = value.join(",");
+            break;
+          default:
+            break;
+        }
+      });
+
+      let body: string | undefined;
+      if (operation.requestBody) {
+        const requestBody = resolveRef(spec, operation.requestBody);
+        const [mediaType, content] = Object.entries(requestBody.content ?? {})[0] ?? [];
+        if (mediaType && content?.schema) {
+          const data = content.example ?? generateValue(spec, options, content.schema);
+          headers["Content-Type"] = mediaType;
+          body = isJsonMediaType(mediaType) ? JSON.stringify(data) : String(data);
+        }
+      }
+
+      const queryString = query.toString();
+      return {
+        operationId: operation.operationId ?? `${method}${p}`,
+        method: method.toUpperCase(),
+        path: p,
+        operation,
+        url: `${requestPath}${queryString ? `?${queryString}` : ""}`,
+        headers,
+        body,
+      };
+    }),
+  );
+
+/**
+ * Validate a response against the responses defined for the operation, returning a list of mismatches. Since test
+ * cases are valid requests, any response other than a 2XX is a mismatch, even when it is defined for the operation.
+ */
+export const validateContractTestResponse = (
+  spec: OpenAPIV3.Document,
+  testCase: ContractTestCase,
+  response: ContractTestResponse,
+): string[] => {
+  const responses = testCase.operation.responses ?? {};
+  const statusCode = [String(response.status), `${String(response.status)[0]}XX`, "default"]
+    .find((code) => responses[code]);
+  if (!statusCode) {
+    return [`Unexpected status code ${response.status} (expected one of: ${Object.keys(responses).join(", ")})`];
+  }
+
+  const mismatches = response.status >= 200 && response.status < 300
+    ? []
+    : [`Unexpected status code ${response.status} for a valid request (expected a 2XX response)`];
+
+  // Only JSON response bodies are validated against their schema
+  const content = resolveRef(spec, responses[statusCode]).content ?? {};
+  const mediaType = Object.keys(content).find(isJsonMediaType);
+  const schema = mediaType && content[mediaType].schema;
+  if (!schema) {
+    return mismatches;
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(response.body);
+  } catch (e) {
+    return [...mismatches, `Invalid ${response.status} response body: unable to parse JSON`];
+  }
+  return [
+    ...mismatches,
+    ...validateSchema(spec, schema, body).map((error) => `Invalid ${response.status} response body: ${error}`),
+  ];
+};
@@ -0,0 +1,154 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { allFakers } from "@faker-js/faker";
+import { parse } from "ts-command-line-args";
+import SwaggerParser from "@apidevtools/swagger-parser";
+import { OpenAPIV3 } from "openapi-types";
+import { writeFile } from "projen/lib/util";
+import { buildContractTestCases, ContractTestCase, validateContractTestResponse } from "./contract-test-cases";
+
+interface Arguments {
+  /**
+   * Path to the (parsed) OpenAPI specification
+   */
+  readonly specPath: string;
+  /**
+   * Base URL of the api to test, for example a deployed stage or the local development server
+   * @default - the API_BASE_URL environment variable
+   */
+  readonly baseUrl?: string;
+  /**
+   * Headers to send with every request, in the form "Name: value", for example to authenticate requests
+   */
+  readonly header?: string[];
+  /**
+   * Operation ids of operations to skip
+   */
+  readonly skipOperations?: string[];
+  /**
+   * Locale of generated request data
+   */
+  readonly locale: string;
+  /**
+   * Maximum length of generated arrays
+   */
+  readonly maxArrayLength: number;
+  /**
+   * Seed for faker to generate request data with
+   */
+  readonly seed: number;
+  /**
+   * Optional path to write the test results to as json
+   */
+  readonly outputPath?: string;
+}
+
+/**
+ * The result of testing a single operation
+ */
+interface ContractTestResult {
+  readonly operationId: string;
+  readonly method: string;
+  readonly path: string;
+  readonly url: string;
+  readonly status?: number;
+  readonly mismatches: string[];
+}
+
+const runTestCase = async (
+  spec: OpenAPIV3.Document,
+  baseUrl: string,
+  headers: { [name: string]: string },
+  testCase: ContractTestCase,
+): Promise<ContractTestResult> => {
+  const { operationId, method, path, url } = testCase;
+  try {
+    const response = await fetch(`${baseUrl}${url}`, {
+      method,
+      headers: { ...testCase.headers, ...headers },
+      body: testCase.body,
+    });
+    return {
+      operationId,
+      method,
+      path,
+      url,
+      status: response.status,
+      mismatches: validateContractTestResponse(spec, testCase, {
+        status: response.status,
+        body: await response.text(),
+      }),
+    };
+  } catch (e: any) {
+    return { operationId, method, path, url, mismatches: [`Request failed: ${e?.cause?.message ?? e?.message ?? e}`] };
+  }
+};
+
+/**
+ * Exercise every operation in the api with a valid request, and check that each response status code and body
+ * conforms to the spec
+ */
+export default async (argv: string[]) => {
+  const args = parse<Arguments>({
+    specPath: { type: String },
+    baseUrl: { type: String, optional: true },
+    header: { type: String, multiple: true, optional: true },
+    skipOperations: { type: String, multiple: true, optional: true },
+    locale: { type: String, defaultValue: 'en' },
+    maxArrayLength: { type: Number, defaultValue: 3 },
+    seed: { type: Number, defaultValue: 1337 },
+    outputPath: { type: String, optional: true },
+  }, { argv });
+
+  const baseUrl = (args.baseUrl ?? process.env.API_BASE_URL)?.replace(/\/$/, "");
+  if (!baseUrl) {
+    throw new Error("No base url specified. Specify --baseUrl or set the API_BASE_URL environment variable.");
+  }
+
+  const faker = allFakers[args.locale as keyof typeof allFakers];
+  if (!faker) {
+    throw new Error(`Locale ${args.locale} is not supported.`);
+  }
+  faker.seed(args.seed);
+  faker.setDefaultRefDate(new Date("2021-06-10"));
+
+  // Dereference all but circular references, as for mock data
+  const spec = await SwaggerParser.dereference(
+    await SwaggerParser.bundle(args.specPath) as OpenAPIV3.Document,
+    { dereference: { circular: 'ignore' } },
+  ) as OpenAPIV3.Document;
+
+  const headers = Object.fromEntries((args.header ?? []).map((header) => {
+    const separator = header.indexOf(":");
+    if (separator < 1) {
+      throw new Error(`Invalid header ${header}, expected the form "Name: value"`);
+    }
+    return [header.slice(0, separator).trim(), header.slice(separator + 1).trim()];
+  }));
+
+  const skipOperations = new Set(args.skipOperations ?? []);
+  const testCases = buildContractTestCases(spec, { faker, maxArrayLength: args.maxArrayLength })
+    .filter((testCase) => !skipOperations.has(testCase.operationId));
+
+  // Operations are tested one at a time to avoid throttling
+  const results: ContractTestResult[] = [];
+  for (const testCase of testCases) {
+    const result = await runTestCase(spec, baseUrl, headers, testCase);
+    console.log(`${result.mismatches.length === 0 ? "PASS" : "FAIL"} ${result.operationId} (${result.method} ${result.url}${result.status ? ` -> ${result.status}` : ""})`);
+    result.mismatches.forEach((mismatch) => console.log(`  ${mismatch}`));
+    results.push(result);
+  }
+
+  if (args.outputPath) {
+    writeFile(args.outputPath, JSON.stringify(results, null, 2), {
+      readonly: true,
+    });
+  }
+
+  const failed = results.filter((result) => result.mismatches.length > 0);
+  console.log(`${results.length - failed.length} of ${results.length} operation(s) conform to the spec`);
+  if (failed.length > 0) {
+    console.error(`Detected contract mismatches for ${failed.length} operation(s) against ${baseUrl}`);
+    process.exit(1);
+  }
+};
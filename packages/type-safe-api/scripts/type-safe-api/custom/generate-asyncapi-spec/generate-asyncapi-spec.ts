@@ -3,6 +3,7 @@ SPDX-License-Identifier: Apache-2.0 */
 import SwaggerParser from "@apidevtools/swagger-parser";
 import { writeFile } from "projen/lib/util";
 import { parse } from "ts-command-line-args";
+import { withWebSocketErrorOperation } from "../../generators/websocket-error";
 
 /**
  * Arguments for generating an AsyncAPI specification
@@ -133,7 +134,8 @@ export default async (argv: string[]) => {
 
   const openApiSpec = (await SwaggerParser.bundle(args.specPath)) as any;
 
-  const asyncApiSpec = generateAsyncApiSpec(openApiSpec);
+  // Include the error frames which the server may send to clients
+  const asyncApiSpec = generateAsyncApiSpec(withWebSocketErrorOperation(openApiSpec));
 
   writeFile(args.outputPath, JSON.stringify(asyncApiSpec, null, 2), {
     readonly: true,
@@ -0,0 +1,83 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as fs from "fs";
+import { allFakers } from "@faker-js/faker";
+import { parse } from "ts-command-line-args";
+import SwaggerParser from "@apidevtools/swagger-parser";
+import { OpenAPIV3 } from "openapi-types";
+import { writeFile } from "projen/lib/util";
+import { buildContractTestCases, ContractTestCase } from "../contract-tests/contract-test-cases";
+import { LoadTestConfig, renderLoadTestScript } from "./load-test-script";
+
+interface Arguments {
+  /**
+   * Path to the (parsed) OpenAPI specification
+   */
+  readonly specPath: string;
+  /**
+   * Path to write the k6 script to
+   */
+  readonly outputPath: string;
+  /**
+   * Optional path to a json file containing load test profiles and thresholds
+   */
+  readonly configPath?: string;
+  /**
+   * Number of different example requests to generate per operation
+   */
+  readonly examplesPerOperation: number;
+  /**
+   * Locale of generated request data
+   */
+  readonly locale: string;
+  /**
+   * Maximum length of generated arrays
+   */
+  readonly maxArrayLength: number;
+  /**
+   * Seed for faker to generate request data with
+   */
+  readonly seed: number;
+}
+
+/**
+ * Generate a k6 load test script with a scenario for every operation in the api
+ */
+export default async (argv: string[]) => {
+  const args = parse<Arguments>({
+    specPath: { type: String },
+    outputPath: { type: String },
+    configPath: { type: String, optional: true },
+    examplesPerOperation: { type: Number, defaultValue: 5 },
+    locale: { type: String, defaultValue: 'en' },
+    maxArrayLength: { type: Number, defaultValue: 3 },
+    seed: { type: Number, defaultValue: 1337 },
+  }, { argv });
+
+  const config: LoadTestConfig = args.configPath ? JSON.parse(fs.readFileSync(args.configPath, "utf-8")) : {};
+
+  const faker = allFakers[args.locale as keyof typeof allFakers];
+  if (!faker) {
+    throw new Error(`Locale ${args.locale} is not supported.`);
+  }
+  faker.seed(args.seed);
+  faker.setDefaultRefDate(new Date("2021-06-10"));
+
+  // Dereference all but circular references, as for mock data
+  const spec = await SwaggerParser.dereference(
+    await SwaggerParser.bundle(args.specPath) as OpenAPIV3.Document,
+    { dereference: { circular: 'ignore' } },
+  ) as OpenAPIV3.Document;
+
+  const skipOperations = new Set(config.skipOperations ?? []);
+  const examples: { [operationId: string]: ContractTestCase[] } = {};
+  for (let i = 0; i < args.examplesPerOperation; i++) {
+    buildContractTestCases(spec, { faker, maxArrayLength: args.maxArrayLength })
+      .filter((testCase) => !skipOperations.has(testCase.operationId))
+      .forEach((testCase) => {
+        examples[testCase.operationId] = [...(examples[testCase.operationId] ?? []), testCase];
+      });
+  }
+
+  writeFile(args.outputPath, renderLoadTestScript(spec, examples, config), { readonly: true });
+};
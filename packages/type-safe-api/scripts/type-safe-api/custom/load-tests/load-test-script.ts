@@ -0,0 +1,196 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { OpenAPIV3 } from "openapi-types";
+import { ContractTestCase } from "../contract-tests/contract-test-cases";
+
+/**
+ * A stage of a load test profile, during which the request rate ramps to the given target
+ */
+export interface LoadTestStage {
+  readonly durationSeconds: number;
+  readonly requestsPerSecond: number;
+}
+
+/**
+ * A load test profile, applied to every operation
+ */
+export interface LoadTestProfile {
+  readonly stages: LoadTestStage[];
+  readonly startRequestsPerSecond?: number;
+  readonly preAllocatedVirtualUsers?: number;
+  readonly maxVirtualUsers?: number;
+}
+
+/**
+ * Pass/fail criteria for an operation
+ */
+export interface LoadTestThresholds {
+  readonly p95ResponseTimeMs?: number;
+  readonly maxErrorRate?: number;
+  readonly maxUnexpectedResponseRate?: number;
+}
+
+/**
+ * Configuration for the generated load test script
+ */
+export interface LoadTestConfig {
+  readonly baseUrl?: string;
+  readonly defaultProfile?: string;
+  readonly profiles?: { [name: string]: LoadTestProfile };
+  readonly thresholds?: LoadTestThresholds;
+  readonly operationThresholds?: { [operationId: string]: LoadTestThresholds };
+  readonly skipOperations?: string[];
+}
+
+export const DEFAULT_LOAD_TEST_PROFILES: { [name: string]: LoadTestProfile } = {
+  // A single request per second to each operation, to check the script and api before applying load
+  smoke: {
+    startRequestsPerSecond: 1,
+    stages: [{ durationSeconds: 30, requestsPerSecond: 1 }],
+  },
+  // Ramp up to and hold a moderate request rate
+  load: {
+    stages: [
+      { durationSeconds: 60, requestsPerSecond: 10 },
+      { durationSeconds: 180, requestsPerSecond: 10 },
+      { durationSeconds: 60, requestsPerSecond: 0 },
+    ],
+  },
+};
+
+const DEFAULT_LOAD_TEST_THRESHOLDS: Required<LoadTestThresholds> = {
+  p95ResponseTimeMs: 500,
+  maxErrorRate: 0.01,
+  maxUnexpectedResponseRate: 0,
+};
+
+interface StatusRange {
+  readonly min: number;
+  readonly max: number;
+}
+
+/**
+ * Return the range of status codes covered by a response in the spec, eg 200, 4XX or default
+ */
+const toStatusRange = (statusCode: string): StatusRange => {
+  if (statusCode === "default") {
+    return { min: 100, max: 599 };
+  }
+  if (/^[1-5]XX$/i.test(statusCode)) {
+    const min = Number(statusCode[0]) * 100;
+    return { min, max: min + 99 };
+  }
+  return { min: Number(statusCode), max: Number(statusCode) };
+};
+
+/**
+ * Build the k6 threshold expressions for a scenario
+ */
+const toK6Thresholds = (operationId: string, thresholds: Required<LoadTestThresholds>) => ({
+  [`http_req_duration{scenario:${operationId}}`]: [`p(95)<${thresholds.p95ResponseTimeMs}`],
+  [`http_req_failed{scenario:${operationId}}`]: [`rate<=${thresholds.maxErrorRate}`],
+  [`checks{scenario:${operationId}}`]: [`rate>=${1 - thresholds.maxUnexpectedResponseRate}`],
+});
+
+/**
+ * Build the arrival rate executor options for a profile
+ */
+const toK6Profile = (profile: LoadTestProfile) => ({
+  startRate: profile.startRequestsPerSecond ?? 0,
+  preAllocatedVUs: profile.preAllocatedVirtualUsers ?? 10,
+  maxVUs: profile.maxVirtualUsers ?? 100,
+  stages: profile.stages.map((stage) => ({ duration: `${stage.durationSeconds}s`, target: stage.requestsPerSecond })),
+});
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+/**
+ * Render a k6 script with a scenario per operation. Each scenario sends requests from the given examples, and checks
+ * that the response status codes are modelled for the operation.
+ * @param spec the api specification
+ * @param examples example requests, keyed by operation id
+ * @param config load test configuration
+ */
+export const renderLoadTestScript = (
+  spec: OpenAPIV3.Document,
+  examples: { [operationId: string]: ContractTestCase[] },
+  config: LoadTestConfig,
+): string => {
+  const profiles = { ...DEFAULT_LOAD_TEST_PROFILES, ...config.profiles };
+  const defaultProfile = config.defaultProfile ?? "smoke";
+  if (!profiles[defaultProfile]) {
+    throw new Error(`Default load test profile ${defaultProfile} is not defined. Available profiles are: ${Object.keys(profiles).join(", ")}`);
+  }
+
+  const operations = Object.fromEntries(Object.entries(examples).map(([operationId, testCases]) => {
+    const modelled = Object.keys(testCases[0].operation.responses ?? {}).map(toStatusRange);
+    // Responses in the 4XX and 5XX ranges are counted as errors
+    const expected = modelled
+      .filter((range) => range.min < 400)
+      .map((range) => ({ min: range.min, max: Math.min(range.max, 399) }));
+    return [operationId, {
+      method: testCases[0].method,
+      modelledStatuses: modelled,
+      expectedStatuses: expected.length > 0 ? expected : [{ min: 200, max: 399 }],
+      requests: testCases.map(({ url, headers, body }) => ({ url, headers, body })),
+    }];
+  }));
+
+  const thresholds = Object.assign({}, ...Object.keys(operations).map((operationId) => toK6Thresholds(operationId, {
+    ...DEFAULT_LOAD_TEST_THRESHOLDS,
+    ...config.thresholds,
+    ...config.operationThresholds?.[operationId],
+  })));
+
+  return `// Load tests for ${spec.info.title}, generated by Type Safe API. Do not edit.
+// Run with: k6 run load-test.js -e LOAD_PROFILE=<profile> -e API_BASE_URL=<url>
+import http from "k6/http";
+import { check } from "k6";
+import execution from "k6/execution";
+
+const BASE_URL = (__ENV.API_BASE_URL || ${JSON.stringify(config.baseUrl ?? "")}).replace(/\\/$/, "");
+if (!BASE_URL) {
+  throw new Error("Please specify the api to load test with -e API_BASE_URL=<url>");
+}
+
+// Additional headers to send with every request, as a JSON object, eg. -e 'API_HEADERS={"Authorization":"..."}'
+const HEADERS = __ENV.API_HEADERS ? JSON.parse(__ENV.API_HEADERS) : {};
+
+const PROFILE = __ENV.LOAD_PROFILE || ${JSON.stringify(defaultProfile)};
+
+const PROFILES = ${json(Object.fromEntries(Object.entries(profiles).map(([name, profile]) => [name, toK6Profile(profile)])))};
+
+if (!PROFILES[PROFILE]) {
+  throw new Error(\`Unknown load profile \${PROFILE}. Available profiles are: \${Object.keys(PROFILES).join(", ")}\`);
+}
+
+const OPERATIONS = ${json(operations)};
+
+const EXPECTED_STATUSES = Object.fromEntries(Object.entries(OPERATIONS).map(([operationId, operation]) =>
+  [operationId, http.expectedStatuses(...operation.expectedStatuses)]));
+
+export const options = {
+  // A scenario per operation, each applying the load profile
+  scenarios: Object.fromEntries(Object.keys(OPERATIONS).map((operationId) => [operationId, {
+    executor: "ramping-arrival-rate",
+    exec: "callOperation",
+    timeUnit: "1s",
+    ...PROFILES[PROFILE],
+  }])),
+  thresholds: ${json(thresholds).replace(/\n/g, "\n  ")},
+};
+
+export function callOperation() {
+  const operationId = execution.scenario.name;
+  const operation = OPERATIONS[operationId];
+  const request = operation.requests[Math.floor(Math.random() * operation.requests.length)];
+  const response = http.request(operation.method, \`\${BASE_URL}\${request.url}\`, request.body ?? null, {
+    headers: { ...request.headers, ...HEADERS },
+    responseCallback: EXPECTED_STATUSES[operationId],
+  });
+  check(response, {
+    "status is modelled": (r) => operation.modelledStatuses.some(({ min, max }) => r.status >= min && r.status <= max),
+  });
+}
+`;
+};
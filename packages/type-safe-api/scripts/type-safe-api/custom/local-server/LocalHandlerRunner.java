@@ -0,0 +1,53 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import com.amazonaws.services.lambda.runtime.Context;
+import com.amazonaws.services.lambda.runtime.LambdaLogger;
+import com.amazonaws.services.lambda.runtime.RequestHandler;
+import com.amazonaws.services.lambda.runtime.events.APIGatewayProxyRequestEvent;
+import com.google.gson.Gson;
+
+import java.lang.reflect.Proxy;
+import java.nio.file.Files;
+import java.nio.file.Path;
+import java.util.UUID;
+
+/**
+ * Invokes a generated Java handler with an API Gateway proxy event for the local development server.
+ * Usage: java -cp handlers.jar LocalHandlerRunner.java handlerClassName eventPath resultPath
+ */
+public class LocalHandlerRunner {
+    @SuppressWarnings("unchecked")
+    public static void main(String[] args) throws Exception {
+        Gson gson = new Gson();
+        APIGatewayProxyRequestEvent event = gson.fromJson(Files.readString(Path.of(args[1])), APIGatewayProxyRequestEvent.class);
+
+        RequestHandler<APIGatewayProxyRequestEvent, Object> handler = (RequestHandler<APIGatewayProxyRequestEvent, Object>) Class
+                .forName(args[0]).getDeclaredConstructor().newInstance();
+
+        LambdaLogger logger = (LambdaLogger) Proxy.newProxyInstance(LambdaLogger.class.getClassLoader(),
+                new Class<?>[] { LambdaLogger.class }, (proxy, method, methodArgs) -> {
+                    System.out.println(methodArgs[0] instanceof byte[] ? new String((byte[]) methodArgs[0]) : methodArgs[0]);
+                    return null;
+                });
+        String requestId = UUID.randomUUID().toString();
+        Context context = (Context) Proxy.newProxyInstance(Context.class.getClassLoader(),
+                new Class<?>[] { Context.class }, (proxy, method, methodArgs) -> {
+                    switch (method.getName()) {
+                        case "getAwsRequestId":
+                            return requestId;
+                        case "getFunctionName":
+                            return "local";
+                        case "getRemainingTimeInMillis":
+                            return 30000;
+                        case "getMemoryLimitInMB":
+                            return 1024;
+                        case "getLogger":
+                            return logger;
+                        default:
+                            return null;
+                    }
+                });
+
+        Files.writeString(Path.of(args[2]), gson.toJson(handler.handleRequest(event, context)));
+    }
+}
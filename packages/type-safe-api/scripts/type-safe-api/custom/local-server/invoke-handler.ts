@@ -0,0 +1,179 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { spawn } from "child_process";
+import _kebabCase from "lodash/kebabCase";
+import _upperFirst from "lodash/upperFirst";
+import { OpenAPIV3 } from "openapi-types";
+import { getOperationName } from "parse-openapi/dist/parser/getOperationName";
+import { toPythonName } from "../../generators/generate-next";
+
+/**
+ * Locations of the packaged handlers for each language, as used by the generated infrastructure
+ */
+export interface HandlerLocations {
+  readonly typescriptHandlersPath?: string;
+  readonly pythonHandlersPath?: string;
+  readonly pythonHandlersModule?: string;
+  readonly javaHandlersPath?: string;
+  readonly javaHandlersPackage?: string;
+}
+
+/**
+ * The x-handler vendor extension (or x-connect-handler/x-disconnect-handler for websocket apis), which identifies the
+ * language in which a handler is implemented
+ */
+export interface HandlerVendorExtension {
+  readonly language: string;
+}
+
+/**
+ * An operation which may be annotated with the x-handler vendor extension
+ */
+export type OperationWithHandler = OpenAPIV3.OperationObject<{
+  readonly "x-handler"?: HandlerVendorExtension;
+}>;
+
+/**
+ * A command which invokes a handler with an event read from the file given as the penultimate argument, and writes
+ * the result to the file given as the last argument
+ */
+export interface HandlerCommand {
+  readonly language: string;
+  readonly command: string;
+  readonly args: string[];
+}
+
+/**
+ * Result returned by a lambda proxy integration handler
+ */
+export interface HandlerResult {
+  readonly statusCode: number;
+  readonly headers?: { [name: string]: string | number | boolean };
+  readonly multiValueHeaders?: { [name: string]: (string | number | boolean)[] };
+  readonly body?: string;
+  readonly isBase64Encoded?: boolean;
+}
+
+const TYPESCRIPT_RUNNER = `
+const fs = require("fs");
+const [handlerPath, eventPath, resultPath] = process.argv.slice(1);
+const context = {
+  functionName: "local",
+  awsRequestId: require("crypto").randomUUID(),
+  getRemainingTimeInMillis: () => 30000,
+};
+(async () => {
+  const { handler } = require(handlerPath);
+  const result = await handler(JSON.parse(fs.readFileSync(eventPath, "utf-8")), context);
+  fs.writeFileSync(resultPath, JSON.stringify(result ?? null));
+})().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
+`;
+
+const PYTHON_RUNNER = `
+import importlib, json, sys, uuid
+handlers_path, module_name, event_path, result_path = sys.argv[1:5]
+sys.path.insert(0, handlers_path)
+class Context:
+    function_name = "local"
+    aws_request_id = str(uuid.uuid4())
+    def get_remaining_time_in_millis(self):
+        return 30000
+with open(event_path) as f:
+    event = json.load(f)
+result = importlib.import_module(module_name).handler(event, Context())
+with open(result_path, "w") as f:
+    json.dump(result, f)
+`;
+
+/**
+ * Return the command to invoke the packaged handler for the given operation, or undefined if the handler's language
+ * has no packaged handlers
+ */
+export const getHandlerCommand = (
+  operationId: string,
+  language: string,
+  locations: HandlerLocations,
+  rootScriptDir: string,
+): HandlerCommand | undefined => {
+  const operationName = getOperationName("", "", operationId);
+  switch (language) {
+    case "typescript": {
+      if (!locations.typescriptHandlersPath) {
+        return undefined;
+      }
+      const handlerPath = path.resolve(locations.typescriptHandlersPath, _kebabCase(operationName), "index.js");
+      return { language, command: process.execPath, args: ["-e", TYPESCRIPT_RUNNER, handlerPath] };
+    }
+    case "python": {
+      if (!locations.pythonHandlersPath || !locations.pythonHandlersModule) {
+        return undefined;
+      }
+      return {
+        language,
+        command: "python3",
+        args: [
+          "-c",
+          PYTHON_RUNNER,
+          path.resolve(locations.pythonHandlersPath),
+          `${locations.pythonHandlersModule}.${toPythonName("operation", operationName)}`,
+        ],
+      };
+    }
+    case "java": {
+      if (!locations.javaHandlersPath || !locations.javaHandlersPackage) {
+        return undefined;
+      }
+      return {
+        language,
+        command: "java",
+        args: [
+          "-cp",
+          path.resolve(locations.javaHandlersPath),
+          path.join(rootScriptDir, "custom", "local-server", "LocalHandlerRunner.java"),
+          `${locations.javaHandlersPackage}.${_upperFirst(operationName)}Handler`,
+        ],
+      };
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Invoke a handler with the given API Gateway proxy event. A new process is started for every invocation, so any
+ * changes to the packaged handlers are picked up by the next request.
+ */
+export const invokeHandler = async (handler: HandlerCommand, event: object): Promise<HandlerResult> => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "type-safe-api-local-"));
+  const eventPath = path.join(tmpDir, "event.json");
+  const resultPath = path.join(tmpDir, "result.json");
+  try {
+    fs.writeFileSync(eventPath, JSON.stringify(event));
+
+    // Handler logs are written to this process' stdout and stderr
+    const exitCode = await new Promise<number | null>((resolve, reject) => {
+      const child = spawn(handler.command, [...handler.args, eventPath, resultPath], {
+        stdio: ["ignore", "inherit", "inherit"],
+      });
+      child.on("error", reject);
+      child.on("close", resolve);
+    });
+
+    if (exitCode !== 0 || !fs.existsSync(resultPath)) {
+      throw new Error(`The ${handler.language} handler exited with code ${exitCode}`);
+    }
+    const result = JSON.parse(fs.readFileSync(resultPath, "utf-8"));
+    if (!result || typeof result.statusCode !== "number") {
+      throw new Error(`The ${handler.language} handler returned a malformed proxy response`);
+    }
+    return result;
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+};
@@ -0,0 +1,275 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { parse } from "ts-command-line-args";
+import SwaggerParser from "@apidevtools/swagger-parser";
+import { OpenAPIV3 } from "openapi-types";
+import { getHandlerCommand, HandlerLocations, HandlerResult, invokeHandler, OperationWithHandler } from "./invoke-handler";
+import { validateRequest } from "./validate-request";
+
+interface Arguments extends HandlerLocations {
+  /**
+   * Path to the OpenAPI spec
+   */
+  readonly specPath: string;
+  /**
+   * Port on which to serve the API
+   */
+  readonly port: number;
+  /**
+   * Directory containing generated mock response data, used for operations without a handler
+   */
+  readonly mocksPath?: string;
+  /**
+   * Origins permitted to call the API
+   */
+  readonly allowOrigins: string[];
+}
+
+export const HTTP_METHODS = ["get", "put", "post", "delete", "patch", "head", "options", "trace"] as const;
+
+/**
+ * An operation which can be invoked by the local server
+ */
+interface Route {
+  readonly operationId: string;
+  readonly method: string;
+  readonly path: string;
+  readonly pathPattern: RegExp;
+  readonly pathParameterNames: string[];
+  readonly parameters: (OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject)[];
+  readonly operation: OperationWithHandler;
+}
+
+const escapeRegExp = (str: string) => str.replace(/[.*+?^$()|[\]\\]/g, "\\$&");
+
+/**
+ * Build the routes for every operation in the spec. Paths without parameters take precedence, as in API Gateway.
+ */
+const buildRoutes = (spec: OpenAPIV3.Document): Route[] =>
+  Object.entries(spec.paths ?? {}).flatMap(([p, pathItem]) =>
+    HTTP_METHODS.filter((method) => pathItem?.[method]).map((method) => {
+      const operation = pathItem![method]!;
+      const pathParameterNames = [...p.matchAll(/\{([^}]+?)\+?\}/g)].map((m) => m[1]);
+      const pathPattern = new RegExp(`^${p
+        .split(/(\{[^}]+\})/)
+        .map((part) => part.startsWith("{") ? (part.endsWith("+}") ? "(.+)" : "([^/]+)") : escapeRegExp(part))
+        .join("")}$`);
+      return {
+        operationId: operation.operationId ?? `${method}${p}`,
+        method,
+        path: p,
+        pathPattern,
+        pathParameterNames,
+        // Operation parameters override path level parameters
+        parameters: [...(pathItem!.parameters ?? []), ...(operation.parameters ?? [])],
+        operation,
+      };
+    }),
+  ).sort((a, b) => a.pathParameterNames.length - b.pathParameterNames.length);
+
+const readBody = (req: http.IncomingMessage): Promise<Buffer> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => resolve(Buffer.concat(chunks)));
+  req.on("error", reject);
+});
+
+/**
+ * Convert node's headers into API Gateway proxy event single and multi value headers
+ */
+export const toEventHeaders = (rawHeaders: string[]) => {
+  const headers: { [name: string]: string } = {};
+  const multiValueHeaders: { [name: string]: string[] } = {};
+  for (let i = 0; i < rawHeaders.length; i += 2) {
+    headers[rawHeaders[i]] = rawHeaders[i + 1];
+    multiValueHeaders[rawHeaders[i]] = [...(multiValueHeaders[rawHeaders[i]] ?? []), rawHeaders[i + 1]];
+  }
+  return { headers, multiValueHeaders };
+};
+
+/**
+ * Return the mock response for the operation's first modelled successful response, if any
+ */
+const getMockResult = (route: Route, mocksPath?: string): HandlerResult | undefined => {
+  const statusCode = Object.keys(route.operation.responses ?? {}).find((code) => /^2\d{2}$/.test(code));
+  if (!statusCode) {
+    return undefined;
+  }
+  const mockFilePath = mocksPath && path.join(mocksPath, `${route.method}${route.path.replace(/\//g, "-")}-${statusCode}.json`);
+  if (mockFilePath && fs.existsSync(mockFilePath)) {
+    return {
+      statusCode: Number(statusCode),
+      headers: { "Content-Type": "application/json" },
+      body: fs.readFileSync(mockFilePath, "utf-8"),
+    };
+  }
+  // Operations with no response content can be mocked with an empty response
+  const response = route.operation.responses[statusCode];
+  if (!("$ref" in response) && !response.content) {
+    return { statusCode: Number(statusCode) };
+  }
+  return undefined;
+};
+
+const jsonResult = (statusCode: number, body: object): HandlerResult => ({
+  statusCode,
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+/**
+ * Start a local development server for the api. Requests are routed to the packaged handlers for each operation, or
+ * to mock responses for operations without handlers.
+ */
+export default async (argv: string[], rootScriptDir: string) => {
+  const args = parse<Arguments>({
+    specPath: { type: String },
+    port: { type: Number, defaultValue: 3000 },
+    mocksPath: { type: String, optional: true },
+    allowOrigins: { type: String, multiple: true, defaultValue: ["*"] },
+    typescriptHandlersPath: { type: String, optional: true },
+    pythonHandlersPath: { type: String, optional: true },
+    pythonHandlersModule: { type: String, optional: true },
+    javaHandlersPath: { type: String, optional: true },
+    javaHandlersPackage: { type: String, optional: true },
+  }, { argv });
+
+  const loadSpec = async () => {
+    const spec = await SwaggerParser.bundle(args.specPath) as OpenAPIV3.Document;
+    return { spec, routes: buildRoutes(spec) };
+  };
+
+  let api = await loadSpec();
+
+  // Reload the spec when it changes. The directory is watched since editors may replace the file when saving.
+  // Handlers are invoked in a new process for every request, so changes to packaged handlers and mocks are picked up
+  // without reloading.
+  let reloadTimeout: NodeJS.Timeout | undefined;
+  fs.watch(path.dirname(args.specPath), (_event, fileName) => {
+    if (fileName !== path.basename(args.specPath)) {
+      return;
+    }
+    clearTimeout(reloadTimeout);
+    reloadTimeout = setTimeout(async () => {
+      try {
+        api = await loadSpec();
+        console.log(`Reloaded ${args.specPath}`);
+      } catch (e) {
+        console.error(`Failed to reload ${args.specPath}, continuing with the previous version`, e);
+      }
+    }, 100);
+  });
+
+  const corsHeaders = (origin?: string): { [name: string]: string } => ({
+    "Access-Control-Allow-Origin": args.allowOrigins.includes("*") ? "*" : (origin && args.allowOrigins.includes(origin) ? origin : args.allowOrigins[0]),
+    "Access-Control-Allow-Methods": HTTP_METHODS.map((m) => m.toUpperCase()).join(","),
+    "Access-Control-Allow-Headers": "Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,X-Amz-User-Agent,x-amz-content-sha256",
+  });
+
+  const handleRequest = async (req: http.IncomingMessage): Promise<HandlerResult & { operationId?: string }> => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = (req.method ?? "GET").toLowerCase();
+    const { routes, spec } = api;
+
+    const pathRoutes = routes.filter((route) => route.pathPattern.test(url.pathname));
+    const route = pathRoutes.find((r) => r.method === method);
+    if (!route) {
+      // Respond to CORS preflight requests for paths without an explicit options operation
+      if (method === "options" && pathRoutes.length > 0) {
+        return { statusCode: 204 };
+      }
+      return jsonResult(404, { message: `No operation matches ${method.toUpperCase()} ${url.pathname}` });
+    }
+
+    const pathMatch = url.pathname.match(route.pathPattern)!;
+    const pathParameters = Object.fromEntries(route.pathParameterNames.map((name, i) => [name, decodeURIComponent(pathMatch[i + 1])]));
+    const queryStringParameters = Object.fromEntries(url.searchParams.entries());
+    const multiValueQueryStringParameters: { [name: string]: string[] } = {};
+    url.searchParams.forEach((value, name) => {
+      multiValueQueryStringParameters[name] = [...(multiValueQueryStringParameters[name] ?? []), value];
+    });
+    const { headers, multiValueHeaders } = toEventHeaders(req.rawHeaders);
+    const body = (await readBody(req)).toString("utf-8") || undefined;
+
+    const validationError = validateRequest(spec, route.parameters, route.operation, {
+      pathParameters,
+      queryStringParameters,
+      headers,
+      contentType: req.headers["content-type"],
+      body,
+    });
+    if (validationError) {
+      return { ...jsonResult(400, { message: validationError }), operationId: route.operationId };
+    }
+
+    const language = route.operation["x-handler"]?.language;
+    const handler = language && getHandlerCommand(route.operationId, language, args, rootScriptDir);
+    if (handler) {
+      const requestId = randomUUID();
+      const event = {
+        resource: route.path,
+        path: url.pathname,
+        httpMethod: method.toUpperCase(),
+        headers,
+        multiValueHeaders,
+        queryStringParameters: Object.keys(queryStringParameters).length > 0 ? queryStringParameters : null,
+        multiValueQueryStringParameters: Object.keys(multiValueQueryStringParameters).length > 0 ? multiValueQueryStringParameters : null,
+        pathParameters: route.pathParameterNames.length > 0 ? pathParameters : null,
+        stageVariables: null,
+        requestContext: {
+          resourcePath: route.path,
+          httpMethod: method.toUpperCase(),
+          path: url.pathname,
+          stage: "local",
+          requestId,
+          requestTimeEpoch: Date.now(),
+          identity: { sourceIp: req.socket.remoteAddress },
+        },
+        body: body ?? null,
+        isBase64Encoded: false,
+      };
+      try {
+        return { ...await invokeHandler(handler, event), operationId: route.operationId };
+      } catch (e) {
+        console.error(`Error invoking handler for ${route.operationId}:`, e);
+        return { ...jsonResult(502, { message: "Internal server error" }), operationId: route.operationId };
+      }
+    }
+
+    const mock = getMockResult(route, args.mocksPath);
+    if (mock) {
+      return { ...mock, operationId: route.operationId };
+    }
+    return {
+      ...jsonResult(501, { message: `No handler or mock response is available for operation ${route.operationId}` }),
+      operationId: route.operationId,
+    };
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const start = Date.now();
+    let result: HandlerResult & { operationId?: string };
+    try {
+      result = await handleRequest(req);
+    } catch (e) {
+      console.error(e);
+      result = jsonResult(500, { message: "Internal server error" });
+    }
+
+    res.statusCode = result.statusCode;
+    Object.entries(corsHeaders(req.headers.origin)).forEach(([name, value]) => res.setHeader(name, value));
+    Object.entries(result.headers ?? {}).forEach(([name, value]) => res.setHeader(name, String(value)));
+    Object.entries(result.multiValueHeaders ?? {}).forEach(([name, values]) => res.setHeader(name, values.map(String)));
+    res.end(result.body !== undefined ? Buffer.from(result.body, result.isBase64Encoded ? "base64" : "utf-8") : undefined);
+
+    console.log(`${req.method} ${req.url} ${result.operationId ? `(${result.operationId}) ` : ""}${result.statusCode} ${Date.now() - start}ms`);
+  });
+
+  server.listen(args.port, () => {
+    console.log(`Local server listening on http://localhost:${args.port}`);
+  });
+};
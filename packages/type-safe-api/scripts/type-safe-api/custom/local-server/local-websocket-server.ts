@@ -0,0 +1,425 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { parse } from "ts-command-line-args";
+import { OpenAPIV3 } from "openapi-types";
+import _kebabCase from "lodash/kebabCase";
+import {
+  ApiGatewaySchemaWithRefs,
+  extractWebSocketSchemas,
+} from "../../../../src/construct/prepare-spec-event-handler/websocket-schema";
+import { validateSchema, ValidationSchema } from "../../generators/validate-schema";
+import { WEBSOCKET_ERROR_ROUTE, WebSocketErrorFrame, WebSocketErrorFrameType } from "../../generators/websocket-error";
+import { HandlerResult, HandlerVendorExtension } from "./invoke-handler";
+import { HTTP_METHODS, toEventHeaders } from "./local-server";
+import { getWebSocketAccept, WebSocketConnection } from "./websocket-connection";
+
+interface Arguments {
+  /**
+   * Path to the parsed OpenAPI spec for the websocket api
+   */
+  readonly specPath: string;
+  /**
+   * Port on which to serve the API
+   */
+  readonly port: number;
+  /**
+   * Directory containing the packaged typescript handlers, used for operations with a typescript handler
+   */
+  readonly typescriptHandlersPath?: string;
+}
+
+const STAGE = "local";
+
+/**
+ * An operation in a websocket api spec, annotated with the direction in which its messages are sent
+ */
+type WebSocketOperation = OpenAPIV3.OperationObject<{
+  readonly "x-handler"?: HandlerVendorExtension;
+  readonly "x-async"?: { readonly direction?: string };
+}>;
+
+/**
+ * A websocket api spec, which may also define the handlers for the $connect and $disconnect routes
+ */
+type WebSocketSpec = OpenAPIV3.Document<WebSocketOperation> & {
+  readonly "x-connect-handler"?: HandlerVendorExtension;
+  readonly "x-disconnect-handler"?: HandlerVendorExtension;
+};
+
+/**
+ * An operation which clients can send to the server
+ */
+interface WebSocketRoute {
+  readonly operationId: string;
+  readonly path: string;
+  readonly operation: WebSocketOperation;
+}
+
+/**
+ * Details of a websocket api, derived from the spec in the same way as the generated runtime and infrastructure
+ */
+interface WebSocketApi {
+  readonly spec: WebSocketSpec;
+  /**
+   * Map of route key (the operation's path without slashes) to the route's operation
+   */
+  readonly routes: { [routeKey: string]: WebSocketRoute };
+  /**
+   * Schemas used to validate the payloads of each operation, as deployed as API Gateway models
+   */
+  readonly schemas: { [operationId: string]: ApiGatewaySchemaWithRefs };
+}
+
+/**
+ * A client connected to the local server
+ */
+interface Connection {
+  readonly connectionId: string;
+  readonly websocket: WebSocketConnection;
+  readonly connectedAt: Date;
+  readonly sourceIp?: string;
+  readonly userAgent?: string;
+  lastActiveAt: Date;
+}
+
+/**
+ * Return the details of every operation which clients can send to the server
+ */
+const buildApi = (spec: WebSocketSpec): WebSocketApi => {
+  const routes: WebSocketRoute[] = Object.entries(spec.paths ?? {}).flatMap(([p, pathItem]) =>
+    HTTP_METHODS.flatMap((method) => {
+      const operation = pathItem?.[method];
+      return operation?.operationId && ["client_to_server", "bidirectional"].includes(operation["x-async"]?.direction ?? "")
+        ? [{ operationId: operation.operationId, path: p, operation }]
+        : [];
+    }),
+  );
+  const serverOperationPaths = Object.fromEntries(routes.map((route) => [route.operationId, route.path]));
+  return {
+    spec,
+    routes: Object.fromEntries(routes.map((route) => [route.path.replace(/\//g, ""), route])),
+    schemas: extractWebSocketSchemas(Object.keys(serverOperationPaths), serverOperationPaths, spec),
+  };
+};
+
+/**
+ * Log a warning for each handler which is not implemented in typescript, since only typescript handlers are invoked
+ */
+const warnUnsupportedHandlers = (api: WebSocketApi) => {
+  const handlers: [string, HandlerVendorExtension | undefined][] = [
+    ["$connect", api.spec["x-connect-handler"]],
+    ["$disconnect", api.spec["x-disconnect-handler"]],
+    ...Object.values(api.routes).map(({ operationId, operation }): [string, HandlerVendorExtension | undefined] => [operationId, operation["x-handler"]]),
+  ];
+  handlers
+    .filter(([, handler]) => handler && handler.language !== "typescript")
+    .forEach(([name, handler]) => console.warn(`The ${handler!.language} handler for ${name} is not supported by the local server, so will not be invoked`));
+};
+
+/**
+ * Validate a value against a schema deployed as an API Gateway model, which references the model's definitions
+ */
+const validateModel = (model: ApiGatewaySchemaWithRefs, value: unknown, pointer: string): string[] => {
+  const resolveDefinition = (schema: ValidationSchema): ValidationSchema =>
+    typeof schema.$ref === "string"
+      ? resolveDefinition(model.definitions[schema.$ref.replace(/^#\/definitions\//, "")] ?? {})
+      : schema;
+  return validateSchema(resolveDefinition, model.schema, value, pointer);
+};
+
+/**
+ * Return the path of the packaged handler for the given handler directory, if the handler is implemented in typescript
+ */
+const getTypeScriptHandlerPath = (handler: { language?: string } | undefined, handlerDir: string, args: Arguments): string | undefined =>
+  handler?.language === "typescript" && args.typescriptHandlersPath
+    ? path.resolve(args.typescriptHandlersPath, handlerDir, "index.js")
+    : undefined;
+
+/**
+ * Invoke a packaged typescript handler in this process. The handler is reloaded for every invocation, so changes to
+ * the packaged handlers are picked up without restarting the server.
+ */
+const invokeHandlerInProcess = async (handlerPath: string, event: object): Promise<HandlerResult | undefined> => {
+  const resolvedPath = require.resolve(handlerPath);
+  delete require.cache[resolvedPath];
+  const { handler } = require(resolvedPath);
+  return handler(event, {
+    functionName: "local",
+    awsRequestId: randomUUID(),
+    getRemainingTimeInMillis: () => 30000,
+  });
+};
+
+const isSuccess = (result?: HandlerResult) => !result || (result.statusCode >= 200 && result.statusCode < 300);
+
+/**
+ * Start a local development server for the websocket api. Messages are routed to the packaged handlers for each
+ * operation based on their "route", and the API Gateway management api is served on the same port such that the
+ * handlers can send messages to connected clients.
+ */
+export default async (argv: string[]) => {
+  const args = parse<Arguments>({
+    specPath: { type: String },
+    port: { type: Number, defaultValue: 3000 },
+    typescriptHandlersPath: { type: String, optional: true },
+  }, { argv });
+
+  const loadApi = () => {
+    const loadedApi = buildApi(JSON.parse(fs.readFileSync(args.specPath, "utf-8")));
+    warnUnsupportedHandlers(loadedApi);
+    return loadedApi;
+  };
+
+  let api = loadApi();
+
+  // Reload the spec when it changes. The directory is watched since editors may replace the file when saving.
+  let reloadTimeout: NodeJS.Timeout | undefined;
+  fs.watch(path.dirname(args.specPath), (_event, fileName) => {
+    if (fileName !== path.basename(args.specPath)) {
+      return;
+    }
+    clearTimeout(reloadTimeout);
+    reloadTimeout = setTimeout(() => {
+      try {
+        api = loadApi();
+        console.log(`Reloaded ${args.specPath}`);
+      } catch (e) {
+        console.error(`Failed to reload ${args.specPath}, continuing with the previous version`, e);
+      }
+    }, 100);
+  });
+
+  // Handlers send messages to clients via the management api served by this server
+  process.env.TYPE_SAFE_API_CALLBACK_URL = `http://localhost:${args.port}/${STAGE}`;
+  process.env.AWS_REGION = process.env.AWS_REGION ?? "us-east-1";
+
+  const connections: { [connectionId: string]: Connection } = {};
+
+  const buildRequestContext = (connection: Pick<Connection, "connectionId" | "connectedAt" | "sourceIp" | "userAgent">, eventType: string, routeKey: string) => {
+    const now = new Date();
+    return {
+      routeKey,
+      eventType,
+      extendedRequestId: randomUUID(),
+      requestTime: now.toISOString(),
+      messageDirection: "IN",
+      stage: STAGE,
+      connectedAt: connection.connectedAt.getTime(),
+      requestTimeEpoch: now.getTime(),
+      identity: { sourceIp: connection.sourceIp, userAgent: connection.userAgent },
+      requestId: randomUUID(),
+      domainName: `localhost:${args.port}`,
+      connectionId: connection.connectionId,
+      apiId: STAGE,
+    };
+  };
+
+  /**
+   * Send an error to the client in the same format as API Gateway
+   */
+  const sendError = (connection: Connection, message: string, requestId: string) => {
+    connection.websocket.send(JSON.stringify({ message, connectionId: connection.connectionId, requestId }));
+  };
+
+  const handleMessage = async (connection: Connection, message: string) => {
+    connection.lastActiveAt = new Date();
+    const requestId = randomUUID();
+    const { routes, schemas } = api;
+
+    // Messages are routed by the route selection expression $request.body.route
+    let body: any;
+    try {
+      body = JSON.parse(message);
+    } catch (e) {
+      body = undefined;
+    }
+    const routeKey = typeof body?.route === "string" ? body.route : undefined;
+    const route = routeKey !== undefined ? routes[routeKey] : undefined;
+    if (!route) {
+      // Respond in the same way as the generated $default route function
+      console.log(`MESSAGE ${routeKey ?? "(no route)"} ($default)`);
+      const payload: WebSocketErrorFrame = {
+        type: WebSocketErrorFrameType.UNKNOWN_ROUTE,
+        message: routeKey ? `No operation exists for route ${routeKey}` : "Messages must include a route",
+        route: routeKey,
+      };
+      connection.websocket.send(JSON.stringify({ route: WEBSOCKET_ERROR_ROUTE, payload }));
+      return;
+    }
+
+    // Validate the message against the model for the route
+    const { operationId, operation } = route;
+    const schema = schemas[operationId];
+    if (schema) {
+      const errors = body.payload === undefined
+        ? ["object has missing required properties ([\"payload\"])"]
+        : validateModel(schema, body.payload, "/payload");
+      if (errors.length > 0) {
+        console.log(`MESSAGE ${routeKey} (${operationId}) 400`);
+        return sendError(connection, `Invalid request body: [${errors.join(", ")}]`, requestId);
+      }
+    }
+
+    const handlerPath = getTypeScriptHandlerPath(operation["x-handler"], _kebabCase(operationId), args);
+    if (!handlerPath) {
+      // Operations without a typescript handler are mocked, which accepts the message without a response
+      console.log(`MESSAGE ${routeKey} (${operationId}) mocked`);
+      return;
+    }
+
+    const start = Date.now();
+    try {
+      const result = await invokeHandlerInProcess(handlerPath, {
+        requestContext: { ...buildRequestContext(connection, "MESSAGE", routeKey), messageId: randomUUID(), requestId },
+        body: message,
+        isBase64Encoded: false,
+      });
+      console.log(`MESSAGE ${routeKey} (${operationId}) ${result?.statusCode ?? 200} ${Date.now() - start}ms`);
+    } catch (e) {
+      console.error(`Error invoking handler for ${operationId}:`, e);
+      sendError(connection, "Internal server error", requestId);
+    }
+  };
+
+  const handleDisconnect = async (connection: Connection) => {
+    delete connections[connection.connectionId];
+    const handlerPath = getTypeScriptHandlerPath(api.spec["x-disconnect-handler"], "$disconnect", args);
+    if (handlerPath) {
+      try {
+        await invokeHandlerInProcess(handlerPath, {
+          requestContext: { ...buildRequestContext(connection, "DISCONNECT", "$disconnect"), disconnectStatusCode: 1000, disconnectReason: "" },
+          isBase64Encoded: false,
+        });
+      } catch (e) {
+        console.error("Error invoking handler for $disconnect:", e);
+      }
+    }
+    console.log(`DISCONNECT ${connection.connectionId}`);
+  };
+
+  /**
+   * Handle a request to the API Gateway management api, ie. postToConnection, getConnection or deleteConnection
+   * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/apigateway-how-to-call-websocket-api-connections.html
+   */
+  const handleManagementApiRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const match = url.pathname.match(/^(?:\/[^/]+)?\/@connections\/([^/]+)$/);
+    if (!match) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      return res.end(JSON.stringify({ message: "Not Found" }));
+    }
+
+    const connection = connections[decodeURIComponent(match[1])];
+    if (!connection) {
+      res.writeHead(410, { "Content-Type": "application/json", "x-amzn-ErrorType": "GoneException" });
+      return res.end(JSON.stringify({ message: "" }));
+    }
+
+    switch (req.method) {
+      case "POST": {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+          chunks.push(chunk);
+        }
+        connection.websocket.send(Buffer.concat(chunks));
+        res.writeHead(200);
+        return res.end();
+      }
+      case "GET":
+        res.writeHead(200, { "Content-Type": "application/json" });
+        return res.end(JSON.stringify({
+          connectedAt: connection.connectedAt.toISOString(),
+          identity: { sourceIp: connection.sourceIp, userAgent: connection.userAgent },
+          lastActiveAt: connection.lastActiveAt.toISOString(),
+        }));
+      case "DELETE":
+        connection.websocket.close();
+        res.writeHead(204);
+        return res.end();
+      default:
+        res.writeHead(405);
+        return res.end();
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    handleManagementApiRequest(req, res).catch((e) => {
+      console.error(e);
+      res.writeHead(500);
+      res.end();
+    });
+  });
+
+  server.on("upgrade", async (req: http.IncomingMessage, socket) => {
+    const accept = getWebSocketAccept(req);
+    if (!accept) {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+
+    const connectedAt = new Date();
+    const pendingConnection = {
+      connectionId: randomUUID(),
+      connectedAt,
+      sourceIp: req.socket.remoteAddress,
+      userAgent: req.headers["user-agent"],
+    };
+
+    // Invoke the $connect handler (if any), which may deny the connection
+    const handlerPath = getTypeScriptHandlerPath(api.spec["x-connect-handler"], "$connect", args);
+    let result: HandlerResult | undefined;
+    if (handlerPath) {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const { headers, multiValueHeaders } = toEventHeaders(req.rawHeaders);
+      const queryStringParameters = Object.fromEntries(url.searchParams.entries());
+      try {
+        result = await invokeHandlerInProcess(handlerPath, {
+          requestContext: buildRequestContext(pendingConnection, "CONNECT", "$connect"),
+          headers,
+          multiValueHeaders,
+          queryStringParameters: Object.keys(queryStringParameters).length > 0 ? queryStringParameters : undefined,
+          isBase64Encoded: false,
+        });
+      } catch (e) {
+        console.error("Error invoking handler for $connect:", e);
+        result = { statusCode: 500 };
+      }
+    }
+
+    if (!isSuccess(result)) {
+      console.log(`CONNECT ${pendingConnection.connectionId} ${result!.statusCode}`);
+      socket.end(`HTTP/1.1 ${result!.statusCode} ${http.STATUS_CODES[result!.statusCode] ?? ""}\r\n\r\n`);
+      return;
+    }
+
+    // Subprotocols must be selected by the $connect handler, as in API Gateway
+    const protocol = Object.entries(result?.headers ?? {}).find(([name]) => name.toLowerCase() === "sec-websocket-protocol")?.[1];
+    socket.write([
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      ...(protocol ? [`Sec-WebSocket-Protocol: ${protocol}`] : []),
+      "",
+      "",
+    ].join("\r\n"));
+
+    const connection: Connection = {
+      ...pendingConnection,
+      websocket: new WebSocketConnection(socket),
+      lastActiveAt: connectedAt,
+    };
+    connection.websocket.onMessage = (message) => void handleMessage(connection, message);
+    connection.websocket.onClose = () => void handleDisconnect(connection);
+    connections[connection.connectionId] = connection;
+    console.log(`CONNECT ${connection.connectionId} 200`);
+  });
+
+  server.listen(args.port, () => {
+    console.log(`Local websocket server listening on ws://localhost:${args.port}`);
+  });
+};
@@ -0,0 +1,72 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { OpenAPIV3 } from "openapi-types";
+import { resolveRef, validateSchema } from "../common/spec-utils";
+
+/**
+ * A request to validate against the operation defined in the spec
+ */
+export interface RequestToValidate {
+  readonly pathParameters: { [name: string]: string };
+  readonly queryStringParameters: { [name: string]: string };
+  readonly headers: { [name: string]: string };
+  readonly contentType?: string;
+  readonly body?: string;
+}
+
+/**
+ * Validate a request against the operation, in the same way as the API Gateway request validator which validates both
+ * the request parameters and body. Returns the error message for the first category of validation failure, if any.
+ */
+export const validateRequest = (
+  spec: OpenAPIV3.Document,
+  parameters: (OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject)[],
+  operation: OpenAPIV3.OperationObject,
+  request: RequestToValidate,
+): string | undefined => {
+  const lowerCaseHeaders = Object.fromEntries(Object.entries(request.headers).map(([k, v]) => [k.toLowerCase(), v]));
+
+  const missingParameters = parameters
+    .map((p) => resolveRef(spec, p))
+    .filter((p) => p.required)
+    .filter((p) => {
+      switch (p.in) {
+        case "path":
+          return !request.pathParameters[p.name];
+        case "query":
+          return request.queryStringParameters[p.name] === undefined;
+        case "header":
+          return lowerCaseHeaders[p.name.toLowerCase()] === undefined;
+        default:
+          return false;
+      }
+    })
+    .map((p) => `${p.in === "query" ? "querystring" : p.in}.${p.name}`);
+  if (missingParameters.length > 0) {
+    return `Missing required request parameters: [${missingParameters.join(", ")}]`;
+  }
+
+  if (!operation.requestBody) {
+    return undefined;
+  }
+  const requestBody = resolveRef(spec, operation.requestBody);
+  if (!request.body) {
+    return requestBody.required ? "Required request body is missing" : undefined;
+  }
+
+  // Only JSON bodies are validated against their schema
+  const mediaType = (request.contentType ?? "application/json").split(";")[0].trim().toLowerCase();
+  const schema = requestBody.content?.[mediaType]?.schema;
+  if (!schema || !mediaType.endsWith("json")) {
+    return undefined;
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(request.body);
+  } catch (e) {
+    return "Invalid request body: unable to parse JSON";
+  }
+  const errors = validateSchema(spec, schema, body);
+  return errors.length > 0 ? `[${errors.join(", ")}]` : undefined;
+};
@@ -0,0 +1,171 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { createHash } from "crypto";
+import * as http from "http";
+import { Duplex } from "stream";
+
+/**
+ * Magic string used to compute the Sec-WebSocket-Accept header
+ * @see https://datatracker.ietf.org/doc/html/rfc6455#section-1.3
+ */
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+enum Opcode {
+  CONTINUATION = 0x0,
+  TEXT = 0x1,
+  BINARY = 0x2,
+  CLOSE = 0x8,
+  PING = 0x9,
+  PONG = 0xa,
+}
+
+/**
+ * Encode a single, unfragmented frame. Frames sent by a server are never masked.
+ */
+const encodeFrame = (opcode: Opcode, payload: Buffer): Buffer => {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * Return the Sec-WebSocket-Accept header value for a client's Sec-WebSocket-Key, or undefined if the request is not a
+ * valid websocket upgrade request
+ */
+export const getWebSocketAccept = (req: http.IncomingMessage): string | undefined => {
+  const key = req.headers["sec-websocket-key"];
+  if (req.headers.upgrade?.toLowerCase() !== "websocket" || !key) {
+    return undefined;
+  }
+  return createHash("sha1").update(`${key}${WEBSOCKET_GUID}`).digest("base64");
+};
+
+/**
+ * A minimal server side websocket connection, supporting text and binary messages, fragmentation, ping and close
+ * @see https://datatracker.ietf.org/doc/html/rfc6455
+ */
+export class WebSocketConnection {
+  /**
+   * Called with each complete message received from the client
+   */
+  public onMessage: (message: string) => void = () => {};
+  /**
+   * Called once when the connection is closed by either party
+   */
+  public onClose: () => void = () => {};
+
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closed = false;
+
+  constructor(private readonly socket: Duplex) {
+    socket.on("data", (data: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, data]);
+      this.readFrames();
+    });
+    socket.on("close", () => this.handleClose());
+    socket.on("error", () => this.handleClose());
+  }
+
+  /**
+   * Send a text message to the client
+   */
+  public send(message: string | Buffer) {
+    if (!this.closed) {
+      this.socket.write(encodeFrame(Opcode.TEXT, Buffer.from(message)));
+    }
+  }
+
+  /**
+   * Close the connection with the given status code
+   */
+  public close(code: number = 1000) {
+    if (!this.closed) {
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code);
+      this.socket.end(encodeFrame(Opcode.CLOSE, payload));
+      this.handleClose();
+    }
+  }
+
+  private handleClose() {
+    if (!this.closed) {
+      this.closed = true;
+      this.onClose();
+    }
+  }
+
+  private readFrames() {
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) {
+          return;
+        }
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) {
+          return;
+        }
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      const maskOffset = offset;
+      if (masked) {
+        offset += 4;
+      }
+      if (this.buffer.length < offset + length) {
+        // Wait for the rest of the frame
+        return;
+      }
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= this.buffer[maskOffset + (i % 4)];
+        }
+      }
+      this.buffer = this.buffer.subarray(offset + length);
+
+      switch (opcode) {
+        case Opcode.CONTINUATION:
+        case Opcode.TEXT:
+        case Opcode.BINARY:
+          this.fragments.push(payload);
+          if (fin) {
+            const message = Buffer.concat(this.fragments).toString("utf-8");
+            this.fragments = [];
+            this.onMessage(message);
+          }
+          break;
+        case Opcode.PING:
+          this.socket.write(encodeFrame(Opcode.PONG, payload));
+          break;
+        case Opcode.CLOSE:
+          this.close(payload.length >= 2 ? payload.readUInt16BE(0) : 1000);
+          return;
+        default:
+          break;
+      }
+    }
+  }
+}
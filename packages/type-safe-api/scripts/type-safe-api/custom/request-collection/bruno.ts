@@ -0,0 +1,103 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as path from "path";
+import { OpenAPIV3 } from "openapi-types";
+import {
+  AWS_SIGV4_VARIABLES,
+  CollectionParameter,
+  CollectionRequest,
+  CollectionVariable,
+  toColonPath,
+} from "./build-requests";
+
+const indent = (text: string) => text.split("\n").map((line) => `  ${line}`).join("\n");
+
+const block = (name: string, lines: string[]) => `${name} {\n${lines.map(indent).join("\n")}\n}`;
+
+// Disabled entries are prefixed with ~
+const parameterLines = (parameters: CollectionParameter[]) =>
+  parameters.map((p) => `${p.required ? "" : "~"}${p.name}: ${p.value}`);
+
+/**
+ * Remove characters which may not be used in file names
+ */
+const toFileName = (name: string) => name.replace(/[<>:"/\\|?*]/g, "_");
+
+const authBlock = (request: CollectionRequest): string | undefined => {
+  const auth = request.auth;
+  switch (auth?.type) {
+    case "awsv4":
+      return block("auth:awsv4", [
+        `accessKeyId: {{${AWS_SIGV4_VARIABLES.accessKeyId}}}`,
+        `secretAccessKey: {{${AWS_SIGV4_VARIABLES.secretAccessKey}}}`,
+        `sessionToken: {{${AWS_SIGV4_VARIABLES.sessionToken}}}`,
+        "service: execute-api",
+        `region: {{${AWS_SIGV4_VARIABLES.region}}}`,
+        "profileName: ",
+      ]);
+    case "bearer":
+      return block("auth:bearer", [`token: {{${auth.variable}}}`]);
+    case "basic":
+      return block("auth:basic", [`username: {{${auth.usernameVariable}}}`, `password: {{${auth.passwordVariable}}}`]);
+    case "apikey":
+      return block("auth:apikey", [
+        `key: ${auth.name}`,
+        `value: {{${auth.variable}}}`,
+        `placement: ${auth.in === "query" ? "queryparams" : "header"}`,
+      ]);
+    default:
+      return undefined;
+  }
+};
+
+const renderRequest = (request: CollectionRequest, seq: number): string => {
+  const bodyMode = request.body ? (/json/i.test(request.body.contentType) ? "json" : "text") : "none";
+  const query = request.queryParameters.filter((p) => p.required).map((p) => `${p.name}=${p.value}`).join("&");
+  const docs = request.description ?? request.summary;
+
+  return [
+    block("meta", [`name: ${request.operationId}`, "type: http", `seq: ${seq}`]),
+    block(request.method.toLowerCase(), [
+      `url: {{baseUrl}}${toColonPath(request)}${query ? `?${query}` : ""}`,
+      `body: ${bodyMode}`,
+      `auth: ${request.auth?.type ?? "none"}`,
+    ]),
+    request.queryParameters.length > 0 ? block("params:query", parameterLines(request.queryParameters)) : undefined,
+    request.pathParameters.length > 0 ? block("params:path", parameterLines(request.pathParameters)) : undefined,
+    request.headers.length > 0 ? block("headers", parameterLines(request.headers)) : undefined,
+    authBlock(request),
+    request.body ? block(`body:${bodyMode}`, [request.body.content]) : undefined,
+    docs ? block("docs", [docs]) : undefined,
+  ].filter((b) => b).join("\n\n") + "\n";
+};
+
+/**
+ * Render the requests as a Bruno collection, with a .bru file per request. Requests are grouped into folders by tag.
+ */
+export const renderBrunoCollection = (
+  spec: OpenAPIV3.Document,
+  requests: CollectionRequest[],
+  variables: CollectionVariable[],
+): { [fileName: string]: string } => {
+  const files: { [fileName: string]: string } = {
+    "bruno.json": JSON.stringify({
+      version: "1",
+      name: spec.info.title,
+      type: "collection",
+      ignore: ["node_modules", ".git"],
+    }, null, 2),
+    [path.join("environments", "Default.bru")]: [
+      block("vars", variables.filter((v) => !v.secret).map((v) => `${v.name}: ${v.value}`)),
+      ...(variables.some((v) => v.secret)
+        ? [`vars:secret [\n${variables.filter((v) => v.secret).map((v) => `  ${v.name}`).join(",\n")}\n]`]
+        : []),
+    ].join("\n") + "\n",
+  };
+
+  requests.forEach((request, i) => {
+    const dir = request.tag ? toFileName(request.tag) : "";
+    files[path.join(dir, `${toFileName(request.operationId)}.bru`)] = renderRequest(request, i + 1);
+  });
+
+  return files;
+};
@@ -0,0 +1,243 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { Faker } from "@faker-js/faker";
+import { OpenAPIV3 } from "openapi-types";
+import { generateMockDataForSchema } from "../mock-data/generate-mock-data";
+import { resolveRef } from "../common/spec-utils";
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "patch", "head", "options", "trace"] as const;
+
+/**
+ * Options for generating example request data
+ */
+export interface ExampleDataOptions {
+  readonly faker: Faker;
+  readonly maxArrayLength: number;
+}
+
+/**
+ * Placeholder for the credentials required to call an operation
+ */
+export type CollectionAuth =
+  | { readonly type: "awsv4" }
+  | { readonly type: "bearer"; readonly variable: string }
+  | { readonly type: "basic"; readonly usernameVariable: string; readonly passwordVariable: string }
+  | { readonly type: "apikey"; readonly in: "header" | "query"; readonly name: string; readonly variable: string };
+
+/**
+ * A request parameter with an example value
+ */
+export interface CollectionParameter {
+  readonly name: string;
+  readonly value: string;
+  readonly required: boolean;
+  readonly description?: string;
+}
+
+/**
+ * An example request for an operation, independent of the collection format
+ */
+export interface CollectionRequest {
+  readonly operationId: string;
+  readonly method: string;
+  /**
+   * Path as defined in the spec, eg /pets/{petId}
+   */
+  readonly path: string;
+  /**
+   * First tag of the operation, used to group requests
+   */
+  readonly tag?: string;
+  readonly summary?: string;
+  readonly description?: string;
+  readonly pathParameters: CollectionParameter[];
+  readonly queryParameters: CollectionParameter[];
+  readonly headers: CollectionParameter[];
+  readonly auth?: CollectionAuth;
+  readonly body?: {
+    readonly contentType: string;
+    readonly content: string;
+  };
+}
+
+/**
+ * Variables referenced by a collection, which users set to call the api
+ */
+export interface CollectionVariable {
+  readonly name: string;
+  readonly value: string;
+  readonly secret: boolean;
+}
+
+export const AWS_SIGV4_VARIABLES = {
+  accessKeyId: "awsAccessKeyId",
+  secretAccessKey: "awsSecretAccessKey",
+  sessionToken: "awsSessionToken",
+  region: "awsRegion",
+};
+
+/**
+ * Convert a security scheme name into a variable name, eg. my.api-key -> my_api_key
+ */
+const toVariableName = (name: string) => name.replace(/[^a-zA-Z0-9_]/g, "_");
+
+const toParameterValue = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return value.map(toParameterValue).join(",");
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Build the auth placeholder for a security scheme
+ */
+const toAuth = (name: string, scheme: OpenAPIV3.SecuritySchemeObject): CollectionAuth | undefined => {
+  if (name === "aws.auth.sigv4" || (scheme as any)["x-amazon-apigateway-authtype"] === "awsSigv4") {
+    return { type: "awsv4" };
+  }
+  const variable = toVariableName(name);
+  switch (scheme.type) {
+    case "apiKey":
+      return scheme.in === "header" || scheme.in === "query"
+        ? { type: "apikey", in: scheme.in, name: scheme.name, variable }
+        : undefined;
+    case "http":
+      if (scheme.scheme.toLowerCase() === "basic") {
+        return { type: "basic", usernameVariable: `${variable}Username`, passwordVariable: `${variable}Password` };
+      }
+      return { type: "bearer", variable };
+    case "oauth2":
+    case "openIdConnect":
+      return { type: "bearer", variable };
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Build the auth for an operation. Collections support a single auth method per request, so when an operation requires
+ * several security schemes (eg. IAM and an api key) api keys are sent as additional headers or query parameters.
+ */
+const buildOperationAuth = (spec: OpenAPIV3.Document, operation: OpenAPIV3.OperationObject) => {
+  const requirement = (operation.security ?? spec.security ?? [])[0] ?? {};
+  const auths = Object.keys(requirement)
+    .map((name) => {
+      const scheme = spec.components?.securitySchemes?.[name];
+      return scheme ? toAuth(name, resolveRef(spec, scheme)) : undefined;
+    })
+    .filter((auth): auth is CollectionAuth => !!auth)
+    .sort((a, b) => Number(a.type === "apikey") - Number(b.type === "apikey"));
+
+  const [auth, ...additionalAuths] = auths;
+  const additional = additionalAuths.filter((a): a is Extract<CollectionAuth, { type: "apikey" }> => a.type === "apikey")
+    .map((a) => ({ in: a.in, parameter: { name: a.name, value: `{{${a.variable}}}`, required: true } }));
+  return { auth, additional };
+};
+
+/**
+ * Build an example request for every operation in the spec, using generated mock data for parameters and request
+ * bodies where no examples are defined
+ */
+export const buildCollectionRequests = (spec: OpenAPIV3.Document, options: ExampleDataOptions): CollectionRequest[] => {
+  const generateValue = (schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject, propertyName?: string) =>
+    generateMockDataForSchema(spec, { ...options, maxCircularReferenceDepth: 2 }, schema, propertyName);
+
+  return Object.entries(spec.paths ?? {}).flatMap(([p, pathItem]) =>
+    HTTP_METHODS.filter((method) => pathItem?.[method]).map((method) => {
+      const operation = pathItem![method]!;
+
+      // Operation parameters override path level parameters
+      const parameters = new Map<string, OpenAPIV3.ParameterObject>();
+      [...(pathItem!.parameters ?? []), ...(operation.parameters ?? [])]
+        .map((parameter) => resolveRef(spec, parameter))
+        .forEach((parameter) => parameters.set(`${parameter.in}.${parameter.name}`, parameter));
+
+      const parametersIn = (location: string): CollectionParameter[] => [...parameters.values()]
+        .filter((parameter) => parameter.in === location)
+        .map((parameter) => ({
+          name: parameter.name,
+          value: toParameterValue(parameter.example ?? (parameter.schema ? generateValue(parameter.schema, parameter.name) : "")),
+          required: location === "path" || !!parameter.required,
+          description: parameter.description,
+        }));
+
+      const { auth, additional } = buildOperationAuth(spec, operation);
+      const additionalIn = (location: string) => additional.filter((a) => a.in === location).map((a) => a.parameter);
+
+      let body: CollectionRequest["body"];
+      if (operation.requestBody) {
+        const requestBody = resolveRef(spec, operation.requestBody);
+        const [contentType, content] = Object.entries(requestBody.content ?? {})[0] ?? [];
+        if (contentType && content?.schema) {
+          const data = content.example ?? generateValue(content.schema);
+          body = {
+            contentType,
+            content: /json/i.test(contentType) ? JSON.stringify(data, null, 2) : String(data),
+          };
+        }
+      }
+
+      return {
+        operationId: operation.operationId ?? `${method}${p}`,
+        method: method.toUpperCase(),
+        path: p,
+        tag: operation.tags?.[0],
+        summary: operation.summary,
+        description: operation.description,
+        pathParameters: parametersIn("path"),
+        queryParameters: [...parametersIn("query"), ...additionalIn("query")],
+        headers: [
+          ...parametersIn("header"),
+          ...additionalIn("header"),
+          ...(body ? [{ name: "Content-Type", value: body.contentType, required: true }] : []),
+        ],
+        auth,
+        body,
+      };
+    }),
+  );
+};
+
+/**
+ * Return the variables referenced by the requests, starting with the base url
+ */
+export const buildCollectionVariables = (requests: CollectionRequest[], baseUrl: string): CollectionVariable[] => {
+  const variables = new Map<string, CollectionVariable>();
+  variables.set("baseUrl", { name: "baseUrl", value: baseUrl, secret: false });
+  const addSecret = (name: string) => variables.set(name, { name, value: "", secret: true });
+
+  requests.forEach((request) => {
+    switch (request.auth?.type) {
+      case "awsv4":
+        addSecret(AWS_SIGV4_VARIABLES.accessKeyId);
+        addSecret(AWS_SIGV4_VARIABLES.secretAccessKey);
+        addSecret(AWS_SIGV4_VARIABLES.sessionToken);
+        variables.set(AWS_SIGV4_VARIABLES.region, { name: AWS_SIGV4_VARIABLES.region, value: "", secret: false });
+        break;
+      case "basic":
+        addSecret(request.auth.usernameVariable);
+        addSecret(request.auth.passwordVariable);
+        break;
+      case "bearer":
+      case "apikey":
+        addSecret(request.auth.variable);
+        break;
+      default:
+        break;
+    }
+    [...request.queryParameters, ...request.headers].forEach((parameter) => {
+      const variable = /^\{\{(.+)\}\}$/.exec(parameter.value)?.[1];
+      if (variable) {
+        addSecret(variable);
+      }
+    });
+  });
+
+  return [...variables.values()];
+};
+
+/**
+ * Return the path with path parameters in the form :name, as used by Postman and Bruno
+ */
+export const toColonPath = (request: CollectionRequest): string =>
+  request.path.replace(/\{([^}]+?)\+?\}/g, (_match, name) => `:${name}`);
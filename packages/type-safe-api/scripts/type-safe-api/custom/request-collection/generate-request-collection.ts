@@ -0,0 +1,105 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as fs from "fs";
+import * as path from "path";
+import { allFakers } from "@faker-js/faker";
+import { parse } from "ts-command-line-args";
+import SwaggerParser from "@apidevtools/swagger-parser";
+import { OpenAPIV3 } from "openapi-types";
+import { buildCollectionRequests, buildCollectionVariables, CollectionRequest, CollectionVariable } from "./build-requests";
+import { renderBrunoCollection } from "./bruno";
+import { renderHttpFile } from "./http-file";
+import { renderPostmanCollection } from "./postman";
+
+type Renderer = (spec: OpenAPIV3.Document, requests: CollectionRequest[], variables: CollectionVariable[]) => { [fileName: string]: string };
+
+interface CollectionFormat {
+  readonly render: Renderer;
+  /**
+   * Whether the collection owns the output directory, such that it is cleaned before writing the collection
+   */
+  readonly ownsOutputDirectory: boolean;
+}
+
+const FORMATS: { [format: string]: CollectionFormat } = {
+  postman: { render: renderPostmanCollection, ownsOutputDirectory: false },
+  bruno: { render: renderBrunoCollection, ownsOutputDirectory: true },
+  http: { render: renderHttpFile, ownsOutputDirectory: false },
+};
+
+interface Arguments {
+  /**
+   * Path to the (parsed) OpenAPI specification
+   */
+  readonly specPath: string;
+  /**
+   * Directory to write the collection to
+   */
+  readonly outputPath: string;
+  /**
+   * Format of the collection, one of postman, bruno or http
+   */
+  readonly format: string;
+  /**
+   * Default value for the base url variable
+   */
+  readonly baseUrl: string;
+  /**
+   * Locale of generated example data
+   */
+  readonly locale: string;
+  /**
+   * Maximum length of generated arrays
+   */
+  readonly maxArrayLength: number;
+  /**
+   * Seed for faker to generate example data with
+   */
+  readonly seed: number;
+}
+
+/**
+ * Generate a collection of example requests for every operation in the api, for use with api clients such as Postman
+ */
+export default async (argv: string[]) => {
+  const args = parse<Arguments>({
+    specPath: { type: String },
+    outputPath: { type: String },
+    format: { type: String },
+    baseUrl: { type: String, defaultValue: "http://localhost:3000" },
+    locale: { type: String, defaultValue: 'en' },
+    maxArrayLength: { type: Number, defaultValue: 3 },
+    seed: { type: Number, defaultValue: 1337 },
+  }, { argv });
+
+  const format = FORMATS[args.format];
+  if (!format) {
+    throw new Error(`Unknown collection format ${args.format}. Supported formats are: ${Object.keys(FORMATS).join(", ")}`);
+  }
+
+  const faker = allFakers[args.locale as keyof typeof allFakers];
+  if (!faker) {
+    throw new Error(`Locale ${args.locale} is not supported.`);
+  }
+  faker.seed(args.seed);
+  faker.setDefaultRefDate(new Date("2021-06-10"));
+
+  // Dereference all but circular references, as for mock data
+  const spec = await SwaggerParser.dereference(
+    await SwaggerParser.bundle(args.specPath) as OpenAPIV3.Document,
+    { dereference: { circular: 'ignore' } },
+  ) as OpenAPIV3.Document;
+
+  const requests = buildCollectionRequests(spec, { faker, maxArrayLength: args.maxArrayLength });
+  const files = format.render(spec, requests, buildCollectionVariables(requests, args.baseUrl));
+
+  // Clean up the output directory, such that requests for removed operations are removed
+  if (format.ownsOutputDirectory) {
+    fs.rmSync(args.outputPath, { recursive: true, force: true });
+  }
+  Object.entries(files).forEach(([fileName, contents]) => {
+    const filePath = path.join(args.outputPath, fileName);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, contents);
+  });
+};
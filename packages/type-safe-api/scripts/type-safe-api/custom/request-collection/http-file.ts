@@ -0,0 +1,65 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { OpenAPIV3 } from "openapi-types";
+import { AWS_SIGV4_VARIABLES, CollectionAuth, CollectionRequest, CollectionVariable } from "./build-requests";
+
+/**
+ * Return the authorization header for the auth, in the format supported by the VS Code REST Client
+ * @see https://github.com/Huachao/vscode-restclient#request-headers
+ */
+const authHeader = (auth?: CollectionAuth): string | undefined => {
+  switch (auth?.type) {
+    case "awsv4":
+      return `Authorization: AWS {{${AWS_SIGV4_VARIABLES.accessKeyId}}} {{${AWS_SIGV4_VARIABLES.secretAccessKey}}} token:{{${AWS_SIGV4_VARIABLES.sessionToken}}} region:{{${AWS_SIGV4_VARIABLES.region}}} service:execute-api`;
+    case "bearer":
+      return `Authorization: Bearer {{${auth.variable}}}`;
+    case "basic":
+      return `Authorization: Basic {{${auth.usernameVariable}}}:{{${auth.passwordVariable}}}`;
+    case "apikey":
+      return auth.in === "header" ? `${auth.name}: {{${auth.variable}}}` : undefined;
+    default:
+      return undefined;
+  }
+};
+
+const renderRequest = (request: CollectionRequest): string => {
+  let url = `{{baseUrl}}${request.path}`;
+  request.pathParameters.forEach((p) => {
+    url = url.replace(new RegExp(`\\{${p.name}\\+?\\}`), encodeURIComponent(p.value));
+  });
+  const query = [
+    ...request.queryParameters,
+    ...(request.auth?.type === "apikey" && request.auth.in === "query"
+      ? [{ name: request.auth.name, value: `{{${request.auth.variable}}}`, required: true }]
+      : []),
+  ];
+  const requiredQuery = query.filter((p) => p.required).map((p) => `${p.name}=${p.value}`).join("&");
+
+  const docs = request.summary ?? request.description;
+  return [
+    `### ${request.operationId}`,
+    ...(docs ? docs.split("\n").map((line) => `# ${line}`) : []),
+    `# @name ${request.operationId}`,
+    `${request.method} ${url}${requiredQuery ? `?${requiredQuery}` : ""}`,
+    ...[authHeader(request.auth), ...request.headers.map((h) => `${h.required ? "" : "# "}${h.name}: ${h.value}`)]
+      .filter((h) => h),
+    ...(request.body ? ["", request.body.content] : []),
+  ].join("\n");
+};
+
+/**
+ * Render the requests as a .http file for the VS Code REST Client. Optional headers are included as comments.
+ */
+export const renderHttpFile = (
+  spec: OpenAPIV3.Document,
+  requests: CollectionRequest[],
+  variables: CollectionVariable[],
+): { [fileName: string]: string } => ({
+  "api.http": [
+    `# ${spec.info.title}`,
+    "",
+    ...variables.map((v) => `@${v.name} = ${v.value}`),
+    "",
+    requests.map(renderRequest).join("\n\n"),
+  ].join("\n") + "\n",
+});
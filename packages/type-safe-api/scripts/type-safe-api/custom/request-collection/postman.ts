@@ -0,0 +1,120 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { OpenAPIV3 } from "openapi-types";
+import {
+  AWS_SIGV4_VARIABLES,
+  CollectionAuth,
+  CollectionRequest,
+  CollectionVariable,
+  toColonPath,
+} from "./build-requests";
+
+const POSTMAN_COLLECTION_SCHEMA = "https://schema.getpostman.com/json/collection/v2.1.0/collection.json";
+
+const keyValues = (values: { [key: string]: string }) =>
+  Object.entries(values).map(([key, value]) => ({ key, value, type: "string" }));
+
+const toPostmanAuth = (auth?: CollectionAuth) => {
+  switch (auth?.type) {
+    case "awsv4":
+      return {
+        type: "awsv4",
+        awsv4: keyValues({
+          accessKey: `{{${AWS_SIGV4_VARIABLES.accessKeyId}}}`,
+          secretKey: `{{${AWS_SIGV4_VARIABLES.secretAccessKey}}}`,
+          sessionToken: `{{${AWS_SIGV4_VARIABLES.sessionToken}}}`,
+          region: `{{${AWS_SIGV4_VARIABLES.region}}}`,
+          service: "execute-api",
+        }),
+      };
+    case "bearer":
+      return { type: "bearer", bearer: keyValues({ token: `{{${auth.variable}}}` }) };
+    case "basic":
+      return {
+        type: "basic",
+        basic: keyValues({ username: `{{${auth.usernameVariable}}}`, password: `{{${auth.passwordVariable}}}` }),
+      };
+    case "apikey":
+      return { type: "apikey", apikey: keyValues({ key: auth.name, value: `{{${auth.variable}}}`, in: auth.in }) };
+    default:
+      return { type: "noauth" };
+  }
+};
+
+const toPostmanItem = (request: CollectionRequest) => {
+  const path = toColonPath(request);
+  const query = request.queryParameters.map((p) => ({
+    key: p.name,
+    value: p.value,
+    description: p.description,
+    // Optional parameters are included, but not sent by default
+    disabled: !p.required || undefined,
+  }));
+  const enabledQuery = query.filter((q) => !q.disabled).map((q) => `${q.key}=${q.value}`).join("&");
+
+  return {
+    name: request.operationId,
+    request: {
+      method: request.method,
+      description: request.description ?? request.summary,
+      auth: toPostmanAuth(request.auth),
+      header: request.headers.map((h) => ({
+        key: h.name,
+        value: h.value,
+        description: h.description,
+        disabled: !h.required || undefined,
+      })),
+      url: {
+        raw: `{{baseUrl}}${path}${enabledQuery ? `?${enabledQuery}` : ""}`,
+        host: ["{{baseUrl}}"],
+        path: path.split("/").filter((s) => s),
+        query: query.length > 0 ? query : undefined,
+        variable: request.pathParameters.length > 0
+          ? request.pathParameters.map((p) => ({ key: p.name, value: p.value, description: p.description }))
+          : undefined,
+      },
+      body: request.body ? {
+        mode: "raw",
+        raw: request.body.content,
+        options: /json/i.test(request.body.contentType) ? { raw: { language: "json" } } : undefined,
+      } : undefined,
+    },
+  };
+};
+
+/**
+ * Render the requests as a Postman v2.1 collection. Requests are grouped into folders by tag.
+ */
+export const renderPostmanCollection = (
+  spec: OpenAPIV3.Document,
+  requests: CollectionRequest[],
+  variables: CollectionVariable[],
+): { [fileName: string]: string } => {
+  const items: any[] = [];
+  const folders = new Map<string, any[]>();
+  requests.forEach((request) => {
+    if (!request.tag) {
+      items.push(toPostmanItem(request));
+      return;
+    }
+    if (!folders.has(request.tag)) {
+      const folderItems: any[] = [];
+      folders.set(request.tag, folderItems);
+      items.push({ name: request.tag, item: folderItems });
+    }
+    folders.get(request.tag)!.push(toPostmanItem(request));
+  });
+
+  const collection = {
+    info: {
+      name: spec.info.title,
+      description: spec.info.description,
+      version: spec.info.version,
+      schema: POSTMAN_COLLECTION_SCHEMA,
+    },
+    item: items,
+    variable: variables.map((v) => ({ key: v.name, value: v.value, type: v.secret ? "secret" : "string" })),
+  };
+
+  return { "postman_collection.json": JSON.stringify(collection, null, 2) };
+};
@@ -25,6 +25,7 @@ import { getOperationResponse } from "parse-openapi/dist/parser/getOperationResp
 import { generateMockDataForSchema } from "../custom/mock-data/generate-mock-data";
 import { allFakers, Faker } from "@faker-js/faker";
 import { minimatch } from "minimatch";
+import { withWebSocketErrorOperation } from "./websocket-error";
 
 const TSAPI_WRITE_FILE_START = "###TSAPI_WRITE_FILE###";
 const TSAPI_WRITE_FILE_END = "###/TSAPI_WRITE_FILE###";
@@ -165,7 +166,7 @@ const PYTHON_KEYWORDS = new Set([
   "False", "async", "await",
 ]);
 
-const toPythonName = (namedEntity: 'model' | 'property' | 'operation', name: string) => {
+export const toPythonName = (namedEntity: 'model' | 'property' | 'operation', name: string) => {
   const nameSnakeCase = snakeCase(name);
 
   // Check if the name is a reserved word. Reserved words that overlap with TypeScript will already be escaped
@@ -221,6 +222,98 @@ const toJavaName = (name: string) => {
   return unescapedName;
 };
 
+/**
+ * Return the exported (PascalCase) go name for the given name
+ */
+const toGoName = (name: string) => {
+  const goName = _upperFirst(_camelCase(name));
+  // Identifiers may not start with a digit
+  return /^[0-9]/.test(goName) ? `Var${goName}` : goName;
+};
+
+// @see https://kotlinlang.org/docs/keyword-reference.html#hard-keywords
+const KOTLIN_KEYWORDS = new Set([
+  "as", "break", "class", "continue", "do", "else", "false", "for", "fun", "if", "in", "interface", "is", "null",
+  "object", "package", "return", "super", "this", "throw", "true", "try", "typealias", "typeof", "val", "var",
+  "when", "while",
+]);
+
+const toKotlinName = (name: string) => {
+  // Reserved words that overlap with TypeScript will already be escaped with a leading _ by parseOpenapi
+  const unescapedName = _camelCase(name.startsWith('_') ? name.slice(1) : name);
+  if (/^[0-9]/.test(unescapedName)) {
+    return `var${_upperFirst(unescapedName)}`;
+  }
+  // Reserved words can be used as identifiers when escaped with backticks
+  return KOTLIN_KEYWORDS.has(unescapedName) ? `\`${unescapedName}\`` : unescapedName;
+};
+
+// @see https://learn.microsoft.com/en-us/dotnet/csharp/language-reference/keywords/
+const CSHARP_KEYWORDS = new Set([
+  "abstract", "as", "base", "bool", "break", "byte", "case", "catch", "char", "checked", "class", "const",
+  "continue", "decimal", "default", "delegate", "do", "double", "else", "enum", "event", "explicit", "extern",
+  "false", "finally", "fixed", "float", "for", "foreach", "goto", "if", "implicit", "in", "int", "interface",
+  "internal", "is", "lock", "long", "namespace", "new", "null", "object", "operator", "out", "override", "params",
+  "private", "protected", "public", "readonly", "ref", "return", "sbyte", "sealed", "short", "sizeof", "stackalloc",
+  "static", "string", "struct", "switch", "this", "throw", "true", "try", "typeof", "uint", "ulong", "unchecked",
+  "unsafe", "ushort", "using", "virtual", "void", "volatile", "while",
+]);
+
+/**
+ * Return the PascalCase name used for c# types and properties
+ */
+const toCSharpName = (name: string) => {
+  const csharpName = _upperFirst(_camelCase(name));
+  // Identifiers may not start with a digit
+  return /^[0-9]/.test(csharpName) ? `Var${csharpName}` : csharpName;
+};
+
+/**
+ * Return the camelCase name used for c# method parameters
+ */
+const toCSharpParameterName = (name: string) => {
+  const unescapedName = _camelCase(name.startsWith('_') ? name.slice(1) : name);
+  if (/^[0-9]/.test(unescapedName)) {
+    return `var${_upperFirst(unescapedName)}`;
+  }
+  // Reserved words can be used as identifiers when prefixed with @
+  return CSHARP_KEYWORDS.has(unescapedName) ? `@${unescapedName}` : unescapedName;
+};
+
+const RUST_KEYWORDS = new Set([
+  "abstract", "as", "async", "await", "become", "box", "break", "const", "continue", "do", "dyn", "else", "enum",
+  "extern", "false", "final", "fn", "for", "if", "impl", "in", "let", "loop", "macro", "match", "mod", "move", "mut",
+  "override", "priv", "pub", "ref", "return", "static", "struct", "trait", "true", "try", "type", "typeof", "unsafe",
+  "unsized", "use", "virtual", "where", "while", "yield",
+]);
+
+// Keywords which cannot be used as raw identifiers
+const RUST_RESERVED_NAMES = new Set(["crate", "self", "super", "Self"]);
+
+/**
+ * Return the snake_case name used for rust fields, functions and parameters
+ */
+const toRustName = (name: string) => {
+  const unescapedName = _snakeCase(name);
+  if (/^[0-9]/.test(unescapedName)) {
+    return `var_${unescapedName}`;
+  }
+  if (RUST_RESERVED_NAMES.has(unescapedName)) {
+    return `${unescapedName}_`;
+  }
+  // Reserved words can be used as identifiers when prefixed with r#
+  return RUST_KEYWORDS.has(unescapedName) ? `r#${unescapedName}` : unescapedName;
+};
+
+/**
+ * Return the PascalCase name used for rust enum variants
+ */
+const toRustVariantName = (name: string) => {
+  const rustName = _upperFirst(_camelCase(name));
+  // Identifiers may not start with a digit
+  return /^[0-9]/.test(rustName) ? `Var${rustName}` : rustName;
+};
+
 /**
  * Clean up any generated code that already exists
  */
@@ -491,6 +584,241 @@ const toPythonType = (property: parseOpenapi.Model): string => {
   }
 };
 
+const toGoPrimitive = (property: parseOpenapi.Model): string => {
+  if (property.type === "string" && property.format === "date-time") {
+    return "time.Time";
+  } else if (property.type === "binary" || (property.type === "string" && ["byte", "binary"].includes(property.format as any))) {
+    return "[]byte";
+  } else if (property.type === "number") {
+    switch(property.format) {
+      case "int32":
+        return "int32";
+      case "int64":
+        return "int64";
+      case "float":
+        return "float32";
+      case "double":
+        return "float64";
+      default:
+        break;
+    }
+
+    if ((property as any).openapiType === "integer") {
+      return "int32";
+    }
+    return "float64";
+  } else if (property.type === "boolean") {
+    return "bool";
+  } else if (property.type === "string") {
+    return "string";
+  } else if (property.type === "any") {
+    return "interface{}";
+  }
+  return property.type;
+};
+
+const toGoType = (property: parseOpenapi.Model): string => {
+  switch (property.export) {
+    case "generic":
+    case "reference":
+      return toGoPrimitive(property);
+    case "array":
+      return `[]${property.link && property.link.export !== "enum" ? toGoType(property.link) : property.type}`;
+    case "dictionary":
+      return `map[string]${property.link && property.link.export !== "enum" ? toGoType(property.link) : property.type}`;
+    case "one-of":
+    case "any-of":
+    case "all-of":
+      return property.name;
+    default:
+      // "any" has export = interface
+      if (PRIMITIVE_TYPES.has(property.type)) {
+        return toGoPrimitive(property);
+      }
+      return property.type;
+  }
+};
+
+const toKotlinPrimitive = (property: parseOpenapi.Model): string => {
+  if (property.type === "string" && property.format === "date") {
+    return "LocalDate";
+  } else if (property.type === "string" && property.format === "date-time") {
+    return "OffsetDateTime";
+  } else if (property.type === "string" && (property.format as any) === "uuid") {
+    return "UUID";
+  } else if (property.type === "string" && (property.format as any) === "uri") {
+    return "URI";
+  } else if (property.type === "binary" || (property.type === "string" && ["byte", "binary"].includes(property.format as any))) {
+    return "ByteArray";
+  } else if (property.type === "number") {
+    switch(property.format) {
+      case "int32":
+        return "Int";
+      case "int64":
+        return "Long";
+      case "float":
+        return "Float";
+      case "double":
+        return "Double";
+      default:
+        break;
+    }
+
+    if ((property as any).openapiType === "integer") {
+      return "Int";
+    }
+    return "BigDecimal";
+  } else if (property.type === "boolean") {
+    return "Boolean";
+  } else if (property.type === "string") {
+    return "String";
+  } else if (property.type === "any") {
+    return "Any";
+  }
+  return property.type;
+};
+
+const toKotlinType = (property: parseOpenapi.Model): string => {
+  switch (property.export) {
+    case "generic":
+    case "reference":
+      return toKotlinPrimitive(property);
+    case "array":
+      return `${property.uniqueItems ? 'Set' : 'List'}<${property.link && property.link.export !== "enum" ? toKotlinType(property.link) : property.type}>`;
+    case "dictionary":
+      return `Map<String, ${property.link && property.link.export !== "enum" ? toKotlinType(property.link) : property.type}>`;
+    case "one-of":
+    case "any-of":
+    case "all-of":
+      return property.name;
+    default:
+      // "any" has export = interface
+      if (PRIMITIVE_TYPES.has(property.type)) {
+        return toKotlinPrimitive(property);
+      }
+      return property.type;
+  }
+};
+
+const toCSharpPrimitive = (property: parseOpenapi.Model): string => {
+  if (property.type === "string" && property.format === "date") {
+    return "DateOnly";
+  } else if (property.type === "string" && property.format === "date-time") {
+    return "DateTimeOffset";
+  } else if (property.type === "string" && (property.format as any) === "uuid") {
+    return "Guid";
+  } else if (property.type === "string" && (property.format as any) === "uri") {
+    return "Uri";
+  } else if (property.type === "binary" || (property.type === "string" && ["byte", "binary"].includes(property.format as any))) {
+    return "byte[]";
+  } else if (property.type === "number") {
+    switch(property.format) {
+      case "int32":
+        return "int";
+      case "int64":
+        return "long";
+      case "float":
+        return "float";
+      case "double":
+        return "double";
+      default:
+        break;
+    }
+
+    if ((property as any).openapiType === "integer") {
+      return "int";
+    }
+    return "decimal";
+  } else if (property.type === "boolean") {
+    return "bool";
+  } else if (property.type === "string") {
+    return "string";
+  } else if (property.type === "any") {
+    return "object";
+  }
+  return property.type;
+};
+
+const toCSharpType = (property: parseOpenapi.Model): string => {
+  switch (property.export) {
+    case "generic":
+    case "reference":
+      return toCSharpPrimitive(property);
+    case "array":
+      return `${property.uniqueItems ? 'HashSet' : 'List'}<${property.link && property.link.export !== "enum" ? toCSharpType(property.link) : property.type}>`;
+    case "dictionary":
+      return `Dictionary<string, ${property.link && property.link.export !== "enum" ? toCSharpType(property.link) : property.type}>`;
+    case "one-of":
+    case "any-of":
+    case "all-of":
+      return property.name;
+    default:
+      // "any" has export = interface
+      if (PRIMITIVE_TYPES.has(property.type)) {
+        return toCSharpPrimitive(property);
+      }
+      return property.type;
+  }
+};
+
+const toRustPrimitive = (property: parseOpenapi.Model): string => {
+  if (property.type === "string" && property.format === "date") {
+    return "chrono::NaiveDate";
+  } else if (property.type === "string" && property.format === "date-time") {
+    return "chrono::DateTime<chrono::Utc>";
+  } else if (property.type === "binary") {
+    // Binary data is represented as a base64 encoded string
+    return "String";
+  } else if (property.type === "number") {
+    switch(property.format) {
+      case "int32":
+        return "i32";
+      case "int64":
+        return "i64";
+      case "float":
+        return "f32";
+      case "double":
+        return "f64";
+      default:
+        break;
+    }
+
+    if ((property as any).openapiType === "integer") {
+      return "i32";
+    }
+    return "f64";
+  } else if (property.type === "boolean") {
+    return "bool";
+  } else if (property.type === "string") {
+    return "String";
+  } else if (property.type === "any") {
+    return "serde_json::Value";
+  }
+  return property.type;
+};
+
+const toRustType = (property: parseOpenapi.Model): string => {
+  switch (property.export) {
+    case "generic":
+    case "reference":
+      return toRustPrimitive(property);
+    case "array":
+      return `Vec<${property.link && property.link.export !== "enum" ? toRustType(property.link) : property.type}>`;
+    case "dictionary":
+      return `std::collections::HashMap<String, ${property.link && property.link.export !== "enum" ? toRustType(property.link) : property.type}>`;
+    case "one-of":
+    case "any-of":
+    case "all-of":
+      return property.name;
+    default:
+      // "any" has export = interface
+      if (PRIMITIVE_TYPES.has(property.type)) {
+        return toRustPrimitive(property);
+      }
+      return property.type;
+  }
+};
+
 /**
  * Mutates the given model to add language specific types and names
  */
@@ -504,6 +832,20 @@ const mutateModelWithAdditionalTypes = (model: parseOpenapi.Model) => {
   (model as any).javaType = toJavaType(model);
   (model as any).pythonName = toPythonName('property', model.name);
   (model as any).pythonType = toPythonType(model);
+  (model as any).goName = toGoName(model.name);
+  (model as any).goType = toGoType(model);
+  (model as any).kotlinName = toKotlinName(model.name);
+  (model as any).kotlinType = toKotlinType(model);
+  (model as any).csharpName = toCSharpName(model.name);
+  (model as any).csharpParameterName = toCSharpParameterName(model.name);
+  (model as any).csharpType = toCSharpType(model);
+  (model as any).rustName = toRustName(model.name);
+  (model as any).rustType = toRustType(model);
+  (model.enum ?? []).forEach((enumMember) => {
+    (enumMember as any).goName = toGoName(enumMember.name);
+    (enumMember as any).csharpName = toCSharpName(enumMember.name);
+    (enumMember as any).rustName = toRustVariantName(enumMember.name);
+  });
   (model as any).isPrimitive = PRIMITIVE_TYPES.has(model.type) && !COMPOSED_SCHEMA_TYPES.has(model.export) && !COLLECTION_TYPES.has(model.export);
 };
 
@@ -719,6 +1061,91 @@ const hoistInlineObjectSubSchemas = (nameParts: string[], schema: OpenAPIV3.Sche
   return [...refs, ...recursiveRefs];
 };
 
+/**
+ * Return whether the given security scheme authorizes requests with AWS IAM (ie. Signature Version 4)
+ */
+const isIamSecurityScheme = (name: string, scheme?: OpenAPIV3.SecuritySchemeObject): boolean =>
+  name === "aws.auth.sigv4" || (scheme as any)?.["x-amazon-apigateway-authtype"] === "awsSigv4";
+
+// Schema keywords which are checked by the validation interceptors in the generated runtime packages
+const VALIDATION_SCHEMA_KEYWORDS = new Set([
+  "$ref", "type", "nullable", "enum", "required", "minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum",
+  "minLength", "maxLength", "pattern", "minItems", "maxItems",
+]);
+
+/**
+ * Retain only the parts of a schema used for validation, such that it can be rendered into the generated code
+ */
+const toValidationSchema = (schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject): any => {
+  const validationSchema: any = Object.fromEntries(Object.entries(schema).filter(([key]) => VALIDATION_SCHEMA_KEYWORDS.has(key)));
+  const s = schema as OpenAPIV3.SchemaObject;
+  if (s.properties) {
+    validationSchema.properties = Object.fromEntries(Object.entries(s.properties).map(([name, p]) => [name, toValidationSchema(p)]));
+  }
+  if (s.additionalProperties !== undefined) {
+    validationSchema.additionalProperties = typeof s.additionalProperties === "boolean" ? s.additionalProperties : toValidationSchema(s.additionalProperties);
+  }
+  if ("items" in s && s.items) {
+    validationSchema.items = toValidationSchema(s.items);
+  }
+  (["allOf", "oneOf", "anyOf"] as const).filter((composite) => s[composite]).forEach((composite) => {
+    validationSchema[composite] = s[composite]!.map(toValidationSchema);
+  });
+  return validationSchema;
+};
+
+// OpenAPI schema keywords which are not part of JSON Schema
+const NON_JSON_SCHEMA_KEYWORDS = new Set(["nullable", "discriminator", "xml", "externalDocs", "example"]);
+
+/**
+ * Convert an OpenAPI schema to a standalone JSON Schema (draft 2020-12), where references to other schemas refer to
+ * the JSON Schema file for the referenced schema
+ */
+const toJsonSchema = (schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject): any => {
+  if (isRef(schema)) {
+    return { $ref: `${splitRef(schema.$ref)[2]}.schema.json` };
+  }
+  const jsonSchema: any = Object.fromEntries(Object.entries(schema).filter(([key]) => !NON_JSON_SCHEMA_KEYWORDS.has(key) && !key.startsWith("x-")));
+  if (schema.example !== undefined) {
+    jsonSchema.examples = [schema.example];
+  }
+  // OpenAPI 3.0 exclusive bounds are booleans which apply to the minimum/maximum
+  ([["exclusiveMinimum", "minimum"], ["exclusiveMaximum", "maximum"]] as const).forEach(([exclusive, bound]) => {
+    if (typeof schema[exclusive] === "boolean") {
+      delete jsonSchema[exclusive];
+      if (schema[exclusive] && schema[bound] !== undefined) {
+        jsonSchema[exclusive] = schema[bound];
+        delete jsonSchema[bound];
+      }
+    }
+  });
+  if (schema.properties) {
+    jsonSchema.properties = Object.fromEntries(Object.entries(schema.properties).map(([name, p]) => [name, toJsonSchema(p)]));
+  }
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties !== "boolean") {
+    jsonSchema.additionalProperties = toJsonSchema(schema.additionalProperties);
+  }
+  if ("items" in schema && schema.items) {
+    jsonSchema.items = toJsonSchema(schema.items);
+  }
+  if (schema.not) {
+    jsonSchema.not = toJsonSchema(schema.not);
+  }
+  (["allOf", "oneOf", "anyOf"] as const).filter((composite) => schema[composite]).forEach((composite) => {
+    jsonSchema[composite] = schema[composite]!.map(toJsonSchema);
+  });
+  if (schema.nullable) {
+    if (jsonSchema.enum && !jsonSchema.enum.includes(null)) {
+      jsonSchema.enum = [...jsonSchema.enum, null];
+    }
+    if (!jsonSchema.type) {
+      return { anyOf: [jsonSchema, { type: "null" }] };
+    }
+    jsonSchema.type = [jsonSchema.type, "null"];
+  }
+  return jsonSchema;
+};
+
 const buildData = async (inSpec: OpenAPIV3.Document, metadata: any) => {
   // Using openapi generator, we passed "KEEP_ONLY_FIRST_TAG_IN_OPERATION" to ensure we don't generate duplicate
   // handler wrappers where multiple tags are used.
@@ -732,6 +1159,9 @@ const buildData = async (inSpec: OpenAPIV3.Document, metadata: any) => {
     }
   }) as OpenAPIV3.Document;
 
+  // Model the error frames sent to clients of websocket apis
+  spec = withWebSocketErrorOperation(spec);
+
   // Ensure spec has schemas set
   if (!spec?.components?.schemas) {
     spec.components = {
@@ -950,6 +1380,71 @@ const buildData = async (inSpec: OpenAPIV3.Document, metadata: any) => {
       (op as any).operationIdPascalCase = _upperFirst(op.name);
       (op as any).operationIdKebabCase = _kebabCase(op.name);
       (op as any).operationIdSnakeCase = toPythonName('operation', op.name);
+      (op as any).operationIdRustName = toRustName(op.name);
+
+      // Add the request parameter and response property used to iterate through the pages of paginated operations
+      const paginated = (op as any).vendorExtensions?.['x-paginated'];
+      if (paginated?.inputToken && paginated?.outputToken) {
+        const resultModel = data.models.find((m) => m.name === op.results[0]?.type);
+        const inputParameter = op.parameters.find((p) => p.prop === paginated.inputToken);
+        const outputProperty = resultModel?.properties.find((p) => _trim(p.name, `"'`) === paginated.outputToken);
+        if (inputParameter && outputProperty) {
+          (op as any).pagination = { inputParameter, outputProperty };
+        }
+      }
+
+      // Mark operations which stream their responses, such that streaming handler wrappers and clients are generated.
+      // Events are instances of the 200 response, which is validated to exist when the spec is parsed
+      (op as any).isStreaming = !!(op as any).vendorExtensions?.['x-streaming'] && op.results.length > 0;
+
+      // Mark operations which may be authorized with AWS IAM, such that clients can sign their requests with SigV4
+      if (specOp) {
+        const securityRequirements = specOp.security ?? spec.security ?? [];
+        (op as any).isIamAuthorized = securityRequirements.some((requirement) => Object.keys(requirement).some((name) =>
+          isIamSecurityScheme(name, resolveIfRef(spec, spec.components?.securitySchemes?.[name]))));
+      }
+
+      // Add the schemas used to validate requests and (non-primitive) responses
+      if (specOp) {
+        const specPathParameters = (spec as any).paths[op.path].parameters ?? [];
+        const specParameters = _uniqBy([...(specOp.parameters ?? []), ...specPathParameters]
+          .map((p) => resolveIfRef<OpenAPIV3.ParameterObject>(spec, p)), (p) => `${p.in}||${p.name}`);
+        const specRequestBody = resolveIfRef(spec, specOp.requestBody);
+        const requestBodySchema = specRequestBody?.content?.['application/json']?.schema;
+        (op as any).validationSchema = {
+          parameters: specParameters.filter((p) => ["path", "query", "header"].includes(p.in)).map((p) => ({
+            name: p.name,
+            in: p.in,
+            required: !!p.required,
+            ...(p.schema ? { schema: toValidationSchema(p.schema) } : {}),
+          })),
+          ...(specRequestBody ? {
+            requestBody: {
+              required: !!specRequestBody.required,
+              ...(requestBodySchema ? { schema: toValidationSchema(requestBodySchema) } : {}),
+            },
+          } : {}),
+          responses: Object.fromEntries(((op as any).responses ?? []).filter((r: any) => !r.isPrimitive).flatMap((r: any) => {
+            const specResponse = resolveIfRef(spec, specOp.responses[r.code === 0 ? 'default' : `${r.code}`]);
+            const responseSchema = specResponse?.content?.['application/json']?.schema;
+            return responseSchema ? [[r.code, toValidationSchema(responseSchema)]] : [];
+          })),
+        };
+
+        // Add the JSON Schema for the request, in the shape of the client's request parameters
+        const specParametersByKey = Object.fromEntries(specParameters.map((p) => [`${p.in}||${p.name}`, p]));
+        const requestSchemas = op.parameters.map((parameter) => {
+          const schema = parameter.in === "body"
+            ? specRequestBody?.content?.[parameter.mediaType ?? 'application/json']?.schema
+            : specParametersByKey[`${parameter.in}||${parameter.prop}`]?.schema;
+          return [(parameter as any).typescriptName, schema ? toJsonSchema(schema) : {}] as const;
+        });
+        (op as any).requestJsonSchema = {
+          type: "object",
+          properties: Object.fromEntries(requestSchemas),
+          required: op.parameters.filter((p) => p.isRequired).map((p) => (p as any).typescriptName),
+        };
+      }
     });
 
     // Lexicographical ordering of operations to match openapi generator
@@ -1024,6 +1519,12 @@ const buildData = async (inSpec: OpenAPIV3.Document, metadata: any) => {
     allOperations,
     info: spec.info,
     vendorExtensions,
+    // Schemas referenced by the operation validation schemas
+    validationSchemas: Object.fromEntries(Object.entries(spec.components?.schemas ?? {})
+      .map(([name, schema]) => [name, toValidationSchema(schema)])),
+    // Standalone JSON Schemas for all models
+    jsonSchemas: Object.fromEntries(Object.entries(spec.components?.schemas ?? {})
+      .map(([name, schema]) => [name, toJsonSchema(schema)])),
   };
 };
 
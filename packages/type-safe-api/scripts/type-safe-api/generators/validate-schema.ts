@@ -0,0 +1,116 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+
+// This file is used by the local servers, and is also included verbatim (without exports) in the generated
+// typescript runtimes, so must not import any modules.
+
+/**
+ * A JSON schema, or OpenAPI schema object
+ */
+export type ValidationSchema = { [keyword: string]: any };
+
+/**
+ * Resolves a schema which may be a reference to the schema it references
+ */
+export type ValidationSchemaResolver = (schemaOrRef: ValidationSchema) => ValidationSchema;
+
+const typeOf = (value: unknown): string => {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value;
+};
+
+/**
+ * Validate a value against a schema, returning a list of validation errors. This supports the subset of JSON schema
+ * which API Gateway applies when validating request bodies, and returns errors in the same format.
+ */
+export const validateSchema = (
+  resolveSchema: ValidationSchemaResolver,
+  schemaOrRef: ValidationSchema,
+  value: unknown,
+  pointer: string = "",
+): string[] => {
+  const schema = resolveSchema(schemaOrRef);
+  const at = pointer || "/";
+
+  if (value === null && schema.nullable) {
+    return [];
+  }
+  if (schema.allOf) {
+    return schema.allOf.flatMap((s: ValidationSchema) => validateSchema(resolveSchema, s, value, pointer));
+  }
+  if (schema.oneOf || schema.anyOf) {
+    const candidates: ValidationSchema[] = schema.oneOf ?? schema.anyOf;
+    const matching = candidates.filter((s) => validateSchema(resolveSchema, s, value, pointer).length === 0);
+    if (matching.length === 0 || (schema.oneOf && matching.length > 1)) {
+      return [`instance at ${at} does not match ${schema.oneOf ? "exactly one" : "any"} of the possible schemas`];
+    }
+    return [];
+  }
+
+  const type = typeOf(value);
+  if (schema.type && !(type === schema.type || (schema.type === "number" && type === "integer"))) {
+    return [`instance at ${at} has type ${type} but ${schema.type} is required`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`instance value (${JSON.stringify(value)}) at ${at} not found in enum (possible values: ${JSON.stringify(schema.enum)})`];
+  }
+
+  const errors: string[] = [];
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`string at ${at} is too short (length: ${value.length}, required minimum: ${schema.minLength})`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`string at ${at} is too long (length: ${value.length}, maximum allowed: ${schema.maxLength})`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`string at ${at} does not match pattern ${schema.pattern}`);
+    }
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && (schema.exclusiveMinimum ? value <= schema.minimum : value < schema.minimum)) {
+      errors.push(`numeric instance at ${at} is lower than the required minimum (minimum: ${schema.minimum}, found: ${value})`);
+    }
+    if (schema.maximum !== undefined && (schema.exclusiveMaximum ? value >= schema.maximum : value > schema.maximum)) {
+      errors.push(`numeric instance at ${at} is greater than the required maximum (maximum: ${schema.maximum}, found: ${value})`);
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`array at ${at} is too short (must have at least ${schema.minItems} elements but instance has ${value.length} elements)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`array at ${at} is too long (must have at most ${schema.maxItems} elements but instance has ${value.length} elements)`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateSchema(resolveSchema, schema.items, item, `${pointer}/${i}`)));
+    }
+  }
+  if (type === "object") {
+    // Properties with undefined values are omitted when serialised, so are treated as missing
+    const properties = Object.entries(value as object).filter(([, propertyValue]) => propertyValue !== undefined);
+    const missing = (schema.required ?? []).filter((property: string) => !properties.some(([name]) => name === property));
+    if (missing.length > 0) {
+      errors.push(`object at ${at} has missing required properties (${JSON.stringify(missing)})`);
+    }
+    properties.forEach(([property, propertyValue]) => {
+      const propertySchema = schema.properties?.[property];
+      if (propertySchema) {
+        errors.push(...validateSchema(resolveSchema, propertySchema, propertyValue, `${pointer}/${property}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`object at ${at} has unexpected property ${property}`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(...validateSchema(resolveSchema, schema.additionalProperties, propertyValue, `${pointer}/${property}`));
+      }
+    });
+  }
+  return errors;
+};
@@ -0,0 +1,126 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { OpenAPIV3 } from "openapi-types";
+
+// The error frames sent to websocket clients are modelled as a server_to_client operation, which is added to every
+// websocket api such that the generated server sdks, clients and local server share its route and payload types.
+
+/**
+ * Operation id of the error frames sent to websocket clients
+ */
+export const WEBSOCKET_ERROR_OPERATION_ID = "webSocketError";
+
+/**
+ * Route of the error frames sent to websocket clients
+ */
+export const WEBSOCKET_ERROR_ROUTE = "WebSocketError";
+
+/**
+ * Vendor extension which identifies the error frame operation
+ */
+export const WEBSOCKET_ERROR_VENDOR_EXTENSION = "x-websocket-error";
+
+/**
+ * The kinds of error described by an error frame
+ */
+export enum WebSocketErrorFrameType {
+  INVALID_MESSAGE = "InvalidMessage",
+  UNKNOWN_ROUTE = "UnknownRoute",
+  FORBIDDEN = "Forbidden",
+  SERVER_ERROR = "ServerError",
+}
+
+/**
+ * Payload of an error frame sent to websocket clients
+ */
+export interface WebSocketErrorFrame {
+  readonly type: WebSocketErrorFrameType;
+  readonly message: string;
+  readonly route?: string;
+  readonly errors?: string[];
+}
+
+const ERROR_FRAME_SCHEMA_NAME = "WebSocketErrorFrame";
+const ERROR_FRAME_TYPE_SCHEMA_NAME = "WebSocketErrorFrameType";
+
+const isAsyncOperation = (operation: any): boolean =>
+  !!operation && typeof operation === "object" && !!operation["x-async"];
+
+/**
+ * Add the error frame operation and its schemas to a websocket api specification. The specification is returned
+ * unchanged if it has no async operations, or already defines the error frame operation.
+ */
+export const withWebSocketErrorOperation = <T extends OpenAPIV3.Document>(spec: T): T => {
+  const operations = Object.values(spec.paths ?? {}).flatMap((pathOps) => Object.values(pathOps ?? {}));
+  if (!operations.some(isAsyncOperation) || operations.some((operation: any) => operation?.operationId === WEBSOCKET_ERROR_OPERATION_ID)) {
+    return spec;
+  }
+
+  return {
+    ...spec,
+    paths: {
+      ...spec.paths,
+      [`/${WEBSOCKET_ERROR_ROUTE}`]: {
+        post: {
+          operationId: WEBSOCKET_ERROR_OPERATION_ID,
+          description: "Sent to a client when a message could not be handled",
+          "x-async": {
+            direction: "server_to_client",
+          },
+          [WEBSOCKET_ERROR_VENDOR_EXTENSION]: true,
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: `#/components/schemas/${ERROR_FRAME_SCHEMA_NAME}`,
+                },
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: "Successful response",
+            },
+          },
+        },
+      },
+    },
+    components: {
+      ...spec.components,
+      schemas: {
+        ...spec.components?.schemas,
+        [ERROR_FRAME_SCHEMA_NAME]: {
+          type: "object",
+          description: "Payload of an error frame, sent to a client when a message could not be handled",
+          properties: {
+            type: {
+              $ref: `#/components/schemas/${ERROR_FRAME_TYPE_SCHEMA_NAME}`,
+            },
+            message: {
+              type: "string",
+              description: "Human readable description of the error",
+            },
+            route: {
+              type: "string",
+              description: "The route of the message which was rejected, if any",
+            },
+            errors: {
+              type: "array",
+              description: "Validation errors for the rejected message, if any",
+              items: {
+                type: "string",
+              },
+            },
+          },
+          required: ["type", "message"],
+        },
+        [ERROR_FRAME_TYPE_SCHEMA_NAME]: {
+          type: "string",
+          description: "The kind of error described by an error frame",
+          enum: Object.values(WebSocketErrorFrameType),
+        },
+      },
+    },
+  };
+};
@@ -11,6 +11,9 @@ const SMITHY_HTTP_TRAIT_ID = "smithy.api#http";
 // The OpenAPI vendor extension used for paginated operations
 const PAGINATED_VENDOR_EXTENSION = "x-paginated";
 
+// The OpenAPI vendor extension used for operations which stream their responses
+const STREAMING_VENDOR_EXTENSION = "x-streaming";
+
 // Traits that will "rename" members in the generated OpenAPI spec
 const SMITHY_RENAME_TRAITS = [
   "smithy.api#httpQuery",
@@ -25,6 +28,7 @@ const FULLY_QUALIFIED_TRAIT_TO_SUPPORTED_OPENAPI_VENDOR_EXTENSION: { [key: strin
 // Maps trait names to vendor extensions which we also support specifying in OpenAPI
 const TRAIT_NAME_TO_SUPPORTED_OPENAPI_VENDOR_EXTENSION: { [key: string]: string } = {
   "handler": "x-handler",
+  "streaming": STREAMING_VENDOR_EXTENSION,
   "async": "x-async",
   "connectHandler": "x-connect-handler",
   "disconnectHandler": "x-disconnect-handler",
@@ -203,6 +207,21 @@ export default async (argv: string[]) => {
     process.exit(1);
   }
 
+  // Validate that streaming operations define the type of the events they stream
+  const invalidStreamingOperations: string[] = [];
+  Object.entries(dereferencedSpec.paths || {}).forEach(([p, pathOp]: [string, any]) => {
+    Object.entries(pathOp ?? {}).forEach(([method, operation]: [string, any]) => {
+      if (operation?.[STREAMING_VENDOR_EXTENSION] && !operation?.responses?.["200"]?.content?.["application/json"]?.schema) {
+        invalidStreamingOperations.push(operation.operationId ?? `${method} ${p}`);
+      }
+    });
+  });
+
+  if (invalidStreamingOperations.length > 0) {
+    console.error(`Streaming operations must define a 200 response with an application/json schema for the streamed events. Found invalid operations:\n${invalidStreamingOperations.join('\n')}`);
+    process.exit(1);
+  }
+
   writeFile(args.outputPath, JSON.stringify(spec, null, 2), {
     readonly: true,
   });
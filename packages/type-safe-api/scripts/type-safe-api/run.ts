@@ -6,6 +6,12 @@ import generate from "./generators/generate-next";
 import generateAsyncapiSpec from "./custom/generate-asyncapi-spec/generate-asyncapi-spec";
 import copyGradleWrapper from "./custom/gradle-wrapper/copy-gradle-wrapper";
 import copyAsyncSmithyTransformer from "./custom/smithy-async-transformer/copy-transformer";
+import localServer from "./custom/local-server/local-server";
+import localWebSocketServer from "./custom/local-server/local-websocket-server";
+import breakingChanges from "./custom/breaking-changes/breaking-changes";
+import contractTests from "./custom/contract-tests/contract-tests";
+import generateRequestCollection from "./custom/request-collection/generate-request-collection";
+import generateLoadTests from "./custom/load-tests/generate-load-tests";
 import * as path from "path";
 
 interface SubCommandArgs {
@@ -34,6 +40,18 @@ void (async () => {
       return await copyGradleWrapper(argv, rootScriptDir);
     case "copy-async-smithy-transformer":
       return await copyAsyncSmithyTransformer(argv, rootScriptDir);
+    case "local-server":
+      return await localServer(argv, rootScriptDir);
+    case "local-websocket-server":
+      return await localWebSocketServer(argv);
+    case "breaking-changes":
+      return await breakingChanges(argv);
+    case "contract-tests":
+      return await contractTests(argv);
+    case "generate-request-collection":
+      return await generateRequestCollection(argv);
+    case "generate-load-tests":
+      return await generateLoadTests(argv);
     default:
       throw new Error(`Unknown subcommand ${subCommandArgs.command}`);
   }
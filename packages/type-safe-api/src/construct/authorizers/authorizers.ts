@@ -1,7 +1,7 @@
 /*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
 SPDX-License-Identifier: Apache-2.0 */
 import { AuthorizationType } from "aws-cdk-lib/aws-apigateway";
-import { IUserPool } from "aws-cdk-lib/aws-cognito";
+import { IUserPool, IUserPoolClient } from "aws-cdk-lib/aws-cognito";
 import { IFunction } from "aws-cdk-lib/aws-lambda";
 import { DefaultAuthorizerIds } from "../prepare-spec-event-handler/constants";
 
@@ -59,6 +59,12 @@ export interface CognitoAuthorizerProps {
    * The Cognito user pools associated with this authorizer
    */
   readonly userPools: IUserPool[];
+  /**
+   * The Cognito user pool clients whose tokens are accepted by this authorizer. Required when used with an HTTP API,
+   * since tokens are validated as JWTs with the client ids as the audience.
+   * @default - no user pool clients, which is supported for REST APIs only
+   */
+  readonly userPoolClients?: IUserPoolClient[];
   /**
    * A list of authorization scopes configured on the method. When used as the default authorizer, these scopes will be
    * applied to all methods without an authorizer at the integration level.
@@ -76,6 +82,10 @@ export class CognitoAuthorizer extends Authorizer {
    * The Cognito user pools associated with this authorizer
    */
   public readonly userPools: IUserPool[];
+  /**
+   * The Cognito user pool clients whose tokens are accepted by this authorizer
+   */
+  public readonly userPoolClients?: IUserPoolClient[];
 
   constructor(props: CognitoAuthorizerProps) {
     super({
@@ -84,6 +94,7 @@ export class CognitoAuthorizer extends Authorizer {
       authorizationScopes: props.authorizationScopes,
     });
     this.userPools = props.userPools;
+    this.userPoolClients = props.userPoolClients;
   }
 
   /**
@@ -96,6 +107,82 @@ export class CognitoAuthorizer extends Authorizer {
     return new CognitoAuthorizer({
       authorizerId: this.authorizerId,
       userPools: this.userPools,
+      userPoolClients: this.userPoolClients,
+      authorizationScopes,
+    });
+  }
+}
+
+/**
+ * Properties used to configure a JWT authorizer
+ */
+export interface JwtAuthorizerProps {
+  /**
+   * Unique identifier for this authorizer
+   */
+  readonly authorizerId: string;
+  /**
+   * The base domain of the identity provider that issues the JWT, eg. https://cognito-idp.<region>.amazonaws.com/<user pool id>
+   */
+  readonly issuer: string;
+  /**
+   * The intended recipients of the JWT. A valid JWT must provide an aud (or client_id) that matches at least one entry.
+   */
+  readonly audience: string[];
+  /**
+   * The source of the identity in an incoming request
+   * @default "$request.header.Authorization"
+   */
+  readonly identitySource?: string;
+  /**
+   * A list of authorization scopes configured on the method. When used as the default authorizer, these scopes will be
+   * applied to all methods without an authorizer at the integration level.
+   * @default []
+   */
+  readonly authorizationScopes?: string[];
+}
+
+/**
+ * An authorizer which validates JSON Web Tokens (JWTs). Supported by HTTP APIs only.
+ * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/http-api-jwt-authorizer.html
+ */
+export class JwtAuthorizer extends Authorizer {
+  /**
+   * The base domain of the identity provider that issues the JWT
+   */
+  public readonly issuer: string;
+  /**
+   * The intended recipients of the JWT
+   */
+  public readonly audience: string[];
+  /**
+   * The source of the identity in an incoming request
+   */
+  public readonly identitySource: string;
+
+  constructor(props: JwtAuthorizerProps) {
+    super({
+      authorizerId: props.authorizerId,
+      authorizationType: AuthorizationType.CUSTOM,
+      authorizationScopes: props.authorizationScopes,
+    });
+    this.issuer = props.issuer;
+    this.audience = props.audience;
+    this.identitySource =
+      props.identitySource ?? "$request.header.Authorization";
+  }
+
+  /**
+   * Returns this authorizer with scopes applied, intended for usage in individual operations where scopes may differ
+   * on a per-operation basis
+   * @param authorizationScopes the scopes to apply
+   */
+  public withScopes(...authorizationScopes: string[]) {
+    return new JwtAuthorizer({
+      authorizerId: this.authorizerId,
+      issuer: this.issuer,
+      audience: this.audience,
+      identitySource: this.identitySource,
       authorizationScopes,
     });
   }
@@ -237,6 +324,13 @@ export class Authorizers {
     return new CognitoAuthorizer(props);
   }
 
+  /**
+   * A JWT authorizer, supported by HTTP APIs only
+   */
+  public static jwt(props: JwtAuthorizerProps): JwtAuthorizer {
+    return new JwtAuthorizer(props);
+  }
+
   /**
    * A custom authorizer
    */
@@ -6,16 +6,27 @@ import {
   CognitoAuthorizer,
   CustomAuthorizer,
   IamAuthorizer,
+  JwtAuthorizer,
   NoneAuthorizer,
 } from "./authorizers";
 
+/**
+ * Predicate for narrowing an authorizer to JwtAuthorizer
+ */
+export const isJwtAuthorizer = (
+  authorizer: Authorizer
+): authorizer is JwtAuthorizer =>
+  authorizer.authorizationType === AuthorizationType.CUSTOM &&
+  "issuer" in authorizer;
+
 /**
  * Predicate for narrowing an authorizer to CustomAuthorizer
  */
 export const isCustomAuthorizer = (
   authorizer: Authorizer
 ): authorizer is CustomAuthorizer =>
-  authorizer.authorizationType === AuthorizationType.CUSTOM;
+  authorizer.authorizationType === AuthorizationType.CUSTOM &&
+  !isJwtAuthorizer(authorizer);
 
 /**
  * Predicate for narrowing an authorizer to CognitoAuthorizer
@@ -1,9 +1,11 @@
 /*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
 SPDX-License-Identifier: Apache-2.0 */
 export * from "./type-safe-rest-api";
+export * from "./type-safe-http-api";
 export * from "./type-safe-websocket-api";
 export * from "./websocket/websocket-api-props";
 export * from "./websocket/websocket-stage-props";
+export * from "./websocket/websocket-connection-store";
 export * from "./waf/types";
 export * from "./waf/generated-types";
 export * from "./authorizers";
@@ -0,0 +1,67 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { IRole, Role, ServicePrincipal } from "aws-cdk-lib/aws-iam";
+import { IConstruct } from "constructs";
+import { IntegrationRenderProps } from "./integration";
+import { IntegrationResponseSet } from "./integration-response-set";
+import { IntegrationResponseSets } from "./integration-response-sets";
+import { successStatusCode } from "./utils";
+
+const isRole = (construct: IConstruct): construct is IRole => {
+  return "roleArn" in construct && "grantPrincipal" in construct;
+};
+
+/**
+ * Retrieve or create a role assumed by API Gateway, shared by all integrations in the API scope with the same id
+ * @param scope the API scope
+ * @param executionRoleId the id of the shared role
+ */
+export const getOrCreateExecutionRole = (
+  scope: IConstruct,
+  executionRoleId: string
+): IRole => {
+  const existingExecutionRole = scope.node.tryFindChild(executionRoleId);
+  if (existingExecutionRole) {
+    if (isRole(existingExecutionRole)) {
+      return existingExecutionRole;
+    }
+    throw new Error(
+      `Found construct with ID ${executionRoleId} in API scope which was not a role`
+    );
+  }
+  return new Role(scope, executionRoleId, {
+    assumedBy: new ServicePrincipal("apigateway.amazonaws.com"),
+  });
+};
+
+/**
+ * Return the default integration response set for an AWS service integration, which maps a successful response with
+ * the given template (or passes it through if there's no template) to the operation's modelled successful response,
+ * and errors to a JSON payload with the error message.
+ */
+export const defaultAwsServiceIntegrationResponseSet = (
+  props: IntegrationRenderProps,
+  responseTemplate?: string
+): IntegrationResponseSet =>
+  IntegrationResponseSets.composite(
+    responseTemplate
+      ? IntegrationResponseSets.custom({
+          responses: {
+            default: {
+              statusCode: `${successStatusCode(props)}`,
+              responseParameters: {},
+              responseTemplates: Object.fromEntries(
+                (props.contentTypes ?? ["application/json"]).map(
+                  (contentType) => [contentType, responseTemplate]
+                )
+              ),
+            },
+          },
+        })
+      : IntegrationResponseSets.defaultPassthrough({
+          statusCode: successStatusCode(props),
+        }),
+    IntegrationResponseSets.awsServiceJsonErrorMessage({
+      modelledErrorResponses: true,
+    })
+  );
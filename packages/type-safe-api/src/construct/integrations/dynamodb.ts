@@ -0,0 +1,334 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { AttributeType, ITable, Table } from "aws-cdk-lib/aws-dynamodb";
+import { IRole } from "aws-cdk-lib/aws-iam";
+import { IConstruct } from "constructs";
+import {
+  defaultAwsServiceIntegrationResponseSet,
+  getOrCreateExecutionRole,
+} from "./aws-service";
+import {
+  ApiGatewayIntegration,
+  Integration,
+  IntegrationGrantProps,
+  IntegrationRenderProps,
+} from "./integration";
+import { IntegrationResponseSet } from "./integration-response-set";
+import {
+  escapeJson,
+  notFoundStatusCode,
+  parameterExpression,
+  parameterValue,
+} from "./utils";
+import { serviceActionInvocationUri } from "../spec/utils";
+
+/**
+ * A DynamoDB action which can be performed by a DynamoDB integration
+ */
+export type DynamoDbIntegrationAction =
+  | "GetItem"
+  | "PutItem"
+  | "DeleteItem"
+  | "Query"
+  | "Scan";
+
+/**
+ * Options for paginating the results of a DynamoDB Query or Scan integration. The pagination token is an opaque string
+ * which encodes the key of the last item evaluated by DynamoDB.
+ */
+export interface DynamoDbIntegrationPaginationOptions {
+  /**
+   * The request parameter which supplies the pagination token for the page to return. This is the name of a path,
+   * query string or header parameter, or a JSON path into the request body prefixed with "$." (eg. "$.nextToken").
+   * Corresponds to the inputToken of a paginated operation.
+   */
+  readonly inputToken: string;
+
+  /**
+   * The property of the response body in which the pagination token for the next page is returned, if there are more
+   * results. Corresponds to the outputToken of a paginated operation.
+   */
+  readonly outputToken: string;
+}
+
+/**
+ * Options for DynamoDbIntegration
+ */
+export interface DynamoDbIntegrationProps {
+  /**
+   * The DynamoDB table to be invoked on integration
+   */
+  readonly table: ITable;
+
+  /**
+   * The DynamoDB action to perform
+   */
+  readonly action: DynamoDbIntegrationAction;
+
+  /**
+   * Mapping of DynamoDB key attribute name to the request parameter which supplies its value. Values are the names of
+   * path, query string or header parameters, or a JSON path into the request body prefixed with "$." (eg. "$.id").
+   * For Query, all key attributes are used in the key condition expression.
+   * @default - each path parameter is mapped to a key attribute of the same name
+   */
+  readonly keyParameters?: { [attributeName: string]: string };
+
+  /**
+   * Mapping of DynamoDB key attribute name to its attribute type, used to override the types of key attributes
+   * @default - types are read from the key schema of the table (or index) if it is a Table, otherwise keys are strings
+   */
+  readonly keyAttributeTypes?: { [attributeName: string]: AttributeType };
+
+  /**
+   * The name of the attribute in which the request body is stored for PutItem, and from which the response body is
+   * read for GetItem, Query and Scan
+   * @default "body"
+   */
+  readonly bodyAttribute?: string;
+
+  /**
+   * The name of a global or local secondary index to use for Query or Scan
+   * @default - the table is queried or scanned directly
+   */
+  readonly indexName?: string;
+
+  /**
+   * The property of the response body in which the list of items is returned for Query and Scan. Corresponds to the
+   * items property of a paginated operation.
+   * @default "items"
+   */
+  readonly itemsProperty?: string;
+
+  /**
+   * Paginate the results of a Query or Scan, returning a token for the next page in the response body when DynamoDB
+   * has more results
+   * @default - only the first page of results is returned
+   */
+  readonly pagination?: DynamoDbIntegrationPaginationOptions;
+
+  /**
+   * Override the integration response set for the DynamoDB integration
+   * @default - a response which maps the item(s) to the body of the operation's modelled successful response, combined with IntegrationResponseSets.awsServiceJsonErrorMessage({ modelledErrorResponses: true })
+   */
+  readonly integrationResponseSet?: IntegrationResponseSet;
+}
+
+/**
+ * A DynamoDB integration, which invokes a DynamoDB action directly without the need for a lambda function
+ * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/integrating-api-with-aws-services-dynamodb.html
+ */
+export class DynamoDbIntegration extends Integration {
+  private readonly table: ITable;
+  private readonly action: DynamoDbIntegrationAction;
+  private readonly keyParameters?: { [attributeName: string]: string };
+  private readonly keyAttributeTypes?: {
+    [attributeName: string]: AttributeType;
+  };
+  private readonly bodyAttribute: string;
+  private readonly indexName?: string;
+  private readonly itemsProperty: string;
+  private readonly pagination?: DynamoDbIntegrationPaginationOptions;
+  private readonly integrationResponseSet?: IntegrationResponseSet;
+
+  private readonly executionRoleId = "DynamoDbIntegrationsExecutionRole";
+
+  constructor(props: DynamoDbIntegrationProps) {
+    super();
+
+    this.table = props.table;
+    this.action = props.action;
+    this.keyParameters = props.keyParameters;
+    this.keyAttributeTypes = props.keyAttributeTypes;
+    this.bodyAttribute = props.bodyAttribute ?? "body";
+    this.indexName = props.indexName;
+    this.itemsProperty = props.itemsProperty ?? "items";
+    this.pagination = props.pagination;
+
+    if (this.pagination && this.action !== "Query" && this.action !== "Scan") {
+      throw new Error(
+        `Pagination is only supported for DynamoDB Query and Scan integrations, but action was ${this.action}`
+      );
+    }
+    this.integrationResponseSet = props.integrationResponseSet;
+  }
+
+  private executionRole(scope: IConstruct): IRole {
+    // Retrieve or create the shared DynamoDB execution role
+    return getOrCreateExecutionRole(scope, this.executionRoleId);
+  }
+
+  private resolveKeyParameters({
+    operationId,
+    path,
+  }: IntegrationRenderProps): [string, string][] {
+    const keyParameters = Object.entries(
+      this.keyParameters ??
+        Object.fromEntries(
+          [...path.matchAll(/\{([^\}]*)\}/g)]
+            .map((m) => m[1])
+            .map((param) => [param, param])
+        )
+    );
+    if (this.action !== "Scan" && keyParameters.length === 0) {
+      throw new Error(
+        `DynamoDB ${this.action} integration for operation ${operationId} requires at least one key parameter`
+      );
+    }
+    return keyParameters;
+  }
+
+  private keyAttributeType(attribute: string): AttributeType {
+    const keyAttributeType = this.keyAttributeTypes?.[attribute];
+    if (keyAttributeType) {
+      return keyAttributeType;
+    }
+    // Only tables defined in this app expose their key schema
+    if (this.table instanceof Table) {
+      const { partitionKey, sortKey } = this.table.schema(
+        this.action === "Query" || this.action === "Scan"
+          ? this.indexName
+          : undefined
+      );
+      const key = [partitionKey, sortKey].find((k) => k?.name === attribute);
+      if (key) {
+        return key.type;
+      }
+    }
+    return AttributeType.STRING;
+  }
+
+  private renderRequestTemplate(props: IntegrationRenderProps): string {
+    const keyParameters =
+      this.action === "Scan" ? [] : this.resolveKeyParameters(props);
+    const attributeValues = (attributes: [string, string, AttributeType][]) =>
+      attributes
+        .map(
+          ([attribute, parameter, type]) =>
+            `"${attribute}": {"${type}": "${parameterValue(parameter)}"}`
+        )
+        .join(", ");
+    const keyAttributeValues = (attributes: [string, string][]) =>
+      attributeValues(
+        attributes.map(([attribute, parameter]) => [
+          attribute,
+          parameter,
+          this.keyAttributeType(attribute),
+        ])
+      );
+
+    const request: string[] = [`"TableName": "${this.table.tableName}"`];
+    switch (this.action) {
+      case "GetItem":
+      case "DeleteItem":
+        request.push(`"Key": {${keyAttributeValues(keyParameters)}}`);
+        break;
+      case "PutItem":
+        request.push(
+          `"Item": {${keyAttributeValues(keyParameters)}, "${
+            this.bodyAttribute
+          }": {"S": "${escapeJson("$input.json('$')")}"}}`
+        );
+        break;
+      case "Query":
+        if (this.indexName) {
+          request.push(`"IndexName": "${this.indexName}"`);
+        }
+        request.push(
+          `"KeyConditionExpression": "${keyParameters
+            .map((_, i) => `#k${i} = :k${i}`)
+            .join(" AND ")}"`,
+          `"ExpressionAttributeNames": {${keyParameters
+            .map(([attribute], i) => `"#k${i}": "${attribute}"`)
+            .join(", ")}}`,
+          `"ExpressionAttributeValues": {${attributeValues(
+            keyParameters.map(([attribute, parameter], i) => [
+              `:k${i}`,
+              parameter,
+              this.keyAttributeType(attribute),
+            ])
+          )}}`
+        );
+        break;
+      case "Scan":
+        if (this.indexName) {
+          request.push(`"IndexName": "${this.indexName}"`);
+        }
+        break;
+      default:
+        break;
+    }
+    if (!this.pagination) {
+      return `{${request.join(", ")}}`;
+    }
+    // The pagination token is the base64 encoded LastEvaluatedKey from the previous page
+    return `#set($token = ${parameterExpression(this.pagination.inputToken)})
+{${request.join(
+      ", "
+    )}#if("$!token" != ""), "ExclusiveStartKey": $util.base64Decode($token)#end}`;
+  }
+
+  private renderSuccessResponseTemplate(
+    props: IntegrationRenderProps
+  ): string | undefined {
+    const body = `get('${this.bodyAttribute}').get('S')`;
+    switch (this.action) {
+      case "GetItem":
+        // An empty response indicates there's no item with the given key
+        return `#set($item = $input.path('$.Item'))
+#if("$!item" == "")
+#set($context.responseOverride.status = ${notFoundStatusCode(props)})
+{"message": "Not found"}
+#else
+$item.${body}
+#end
+`;
+      case "Query":
+      case "Scan":
+        return `#set($items = $input.path('$.Items'))
+{"${
+          this.itemsProperty
+        }": [#foreach($item in $items)$item.${body}#if($foreach.hasNext),#end#end]${
+          this.pagination
+            ? `#set($lastEvaluatedKey = $input.path('$.LastEvaluatedKey'))#if("$!lastEvaluatedKey" != ""), "${this.pagination.outputToken}": "$util.base64Encode($input.json('$.LastEvaluatedKey'))"#end`
+            : ""
+        }}
+`;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Render the DynamoDB integration as a snippet of OpenAPI
+   */
+  public render(props: IntegrationRenderProps): ApiGatewayIntegration {
+    const contentTypes = props.contentTypes ?? ["application/json"];
+    const requestTemplate = this.renderRequestTemplate(props);
+    return {
+      type: "AWS",
+      httpMethod: "POST",
+      uri: serviceActionInvocationUri(props.scope, "dynamodb", this.action),
+      credentials: this.executionRole(props.scope).roleArn,
+      passthroughBehavior: "NEVER",
+      requestTemplates: Object.fromEntries(
+        contentTypes.map((contentType) => [contentType, requestTemplate])
+      ),
+      responses: {
+        ...(
+          this.integrationResponseSet ??
+          defaultAwsServiceIntegrationResponseSet(
+            props,
+            this.renderSuccessResponseTemplate(props)
+          )
+        ).render(props),
+      },
+    };
+  }
+
+  /**
+   * Grant API Gateway permissions to perform the DynamoDB action on the table
+   */
+  public grant({ scope }: IntegrationGrantProps) {
+    this.table.grant(this.executionRole(scope), `dynamodb:${this.action}`);
+  }
+}
@@ -0,0 +1,120 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { IEventBus } from "aws-cdk-lib/aws-events";
+import { IRole } from "aws-cdk-lib/aws-iam";
+import { IConstruct } from "constructs";
+import {
+  defaultAwsServiceIntegrationResponseSet,
+  getOrCreateExecutionRole,
+} from "./aws-service";
+import {
+  ApiGatewayIntegration,
+  Integration,
+  IntegrationGrantProps,
+  IntegrationRenderProps,
+} from "./integration";
+import { IntegrationResponseSet } from "./integration-response-set";
+import { escapeJson } from "./utils";
+import { servicePathInvocationUri } from "../spec/utils";
+
+/**
+ * Options for EventBridgeIntegration
+ */
+export interface EventBridgeIntegrationOptions {
+  /**
+   * The source of the events put onto the event bus
+   */
+  readonly source: string;
+
+  /**
+   * The detail type of the events put onto the event bus
+   * @default - the operation id
+   */
+  readonly detailType?: string;
+
+  /**
+   * Override the integration response set for the EventBridge integration
+   * @default - a response which maps the event id to the body of the operation's modelled successful response, combined with IntegrationResponseSets.awsServiceJsonErrorMessage({ modelledErrorResponses: true })
+   */
+  readonly integrationResponseSet?: IntegrationResponseSet;
+}
+
+/**
+ * An EventBridge integration, which puts an event onto an event bus with the request body as the event detail
+ * @see https://docs.aws.amazon.com/eventbridge/latest/APIReference/API_PutEvents.html
+ */
+export class EventBridgeIntegration extends Integration {
+  private readonly eventBus: IEventBus;
+  private readonly source: string;
+  private readonly detailType?: string;
+  private readonly integrationResponseSet?: IntegrationResponseSet;
+
+  private readonly executionRoleId = "EventBridgeIntegrationsExecutionRole";
+
+  constructor(eventBus: IEventBus, options: EventBridgeIntegrationOptions) {
+    super();
+
+    this.eventBus = eventBus;
+    this.source = options.source;
+    this.detailType = options.detailType;
+    this.integrationResponseSet = options.integrationResponseSet;
+  }
+
+  private executionRole(scope: IConstruct): IRole {
+    // Retrieve or create the shared EventBridge execution role
+    return getOrCreateExecutionRole(scope, this.executionRoleId);
+  }
+
+  /**
+   * Render the EventBridge integration as a snippet of OpenAPI
+   */
+  public render(props: IntegrationRenderProps): ApiGatewayIntegration {
+    const requestTemplate = `{"Entries": [{"EventBusName": "${
+      this.eventBus.eventBusArn
+    }", "Source": "${this.source}", "DetailType": "${
+      this.detailType ?? props.operationId
+    }", "Detail": "${escapeJson("$input.json('$')")}"}]}`;
+
+    return {
+      type: "AWS",
+      httpMethod: "POST",
+      uri: servicePathInvocationUri(props.scope, "events"),
+      credentials: this.executionRole(props.scope).roleArn,
+      passthroughBehavior: "NEVER",
+      requestParameters: {
+        "integration.request.header.Content-Type":
+          "'application/x-amz-json-1.1'",
+        "integration.request.header.X-Amz-Target": "'AWSEvents.PutEvents'",
+      },
+      requestTemplates: Object.fromEntries(
+        (props.contentTypes ?? ["application/json"]).map((contentType) => [
+          contentType,
+          requestTemplate,
+        ])
+      ),
+      responses: {
+        ...(
+          this.integrationResponseSet ??
+          // PutEvents succeeds even when entries fail, so we check for failures in the response
+          defaultAwsServiceIntegrationResponseSet(
+            props,
+            `#if($input.path('$.FailedEntryCount') > 0)
+#set($context.responseOverride.status = 500)
+{"message": "${escapeJson("$input.path('$.Entries[0].ErrorMessage')")}"}
+#else
+{"eventId": "$input.path('$.Entries[0].EventId')"}
+#end
+`
+          )
+        ).render(props),
+      },
+    };
+  }
+
+  /**
+   * Grant API Gateway permissions to put events onto the event bus
+   */
+  public grant({ scope }: IntegrationGrantProps) {
+    this.eventBus.grantPutEventsTo(this.executionRole(scope));
+  }
+}
@@ -0,0 +1,152 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { Duration } from "aws-cdk-lib";
+import {
+  ApiGatewayHttpApiIntegration,
+  ApiGatewayIntegration,
+  ApiGatewayIntegrationTlsConfig,
+  Integration,
+  IntegrationRenderProps,
+} from "./integration";
+import { IntegrationResponseSet } from "./integration-response-set";
+import { IntegrationResponseSets } from "./integration-response-sets";
+import { successStatusCode } from "./utils";
+import { Method } from "../spec";
+
+/**
+ * Options for HttpIntegration
+ */
+export interface HttpIntegrationOptions {
+  /**
+   * Proxy the request to the backend and the response back to the client without transformation (HTTP_PROXY).
+   * When false, an HTTP integration is used and responses are mapped using the integration response set.
+   * @default true
+   */
+  readonly proxy?: boolean;
+
+  /**
+   * The HTTP method to use when invoking the backend
+   * @default - integration method is used
+   */
+  readonly httpMethod?: Method;
+
+  /**
+   * The path to append to the url when invoking the backend. Path parameters (eg. {petId}) are substituted with the
+   * values from the request.
+   * @default - integration path is used
+   */
+  readonly path?: string;
+
+  /**
+   * Additional mappings from method request parameters (or static values) to integration request parameters
+   * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/api-gateway-swagger-extensions-integration-requestParameters.html
+   * @default - only path parameters are mapped
+   */
+  readonly requestParameters?: { [property: string]: string };
+
+  /**
+   * Custom timeout for the integration, between 50 milliseconds and 29 seconds
+   * @default Duration.seconds(29)
+   */
+  readonly timeout?: Duration;
+
+  /**
+   * TLS configuration for the integration
+   * @default - certificates are verified
+   */
+  readonly tlsConfig?: ApiGatewayIntegrationTlsConfig;
+
+  /**
+   * Override the integration response set for a non-proxy integration
+   * @default - IntegrationResponseSets.defaultPassthrough() with the status code of the operation's modelled successful response
+   */
+  readonly integrationResponseSet?: IntegrationResponseSet;
+}
+
+/**
+ * An HTTP integration, which forwards requests to an HTTP endpoint
+ * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/setup-http-integrations.html
+ */
+export class HttpIntegration extends Integration {
+  private readonly url: string;
+  private readonly options: HttpIntegrationOptions;
+
+  constructor(url: string, options?: HttpIntegrationOptions) {
+    super();
+
+    // Trim any trailing slash since the path begins with a slash
+    this.url = url.replace(/\/$/, "");
+    this.options = options ?? {};
+  }
+
+  /**
+   * Render the HTTP integration as a snippet of OpenAPI
+   */
+  public render(props: IntegrationRenderProps): ApiGatewayIntegration {
+    const proxy = this.options.proxy ?? true;
+    return {
+      type: proxy ? "HTTP_PROXY" : "HTTP",
+      httpMethod: (this.options.httpMethod ?? props.method).toUpperCase(),
+      uri: `${this.url}${this.options.path ?? props.path}`,
+      passthroughBehavior: "WHEN_NO_MATCH",
+      requestParameters: {
+        // Add every path parameter to the integration request
+        ...Object.fromEntries(
+          [...props.path.matchAll(/\{([^\}]*)\}/g)]
+            .map((m) => m[1])
+            .map((param) => [
+              `integration.request.path.${param}`,
+              `method.request.path.${param}`,
+            ])
+        ),
+        ...this.options.requestParameters,
+      },
+      ...(this.options.timeout
+        ? { timeoutInMillis: this.options.timeout.toMilliseconds() }
+        : {}),
+      ...(this.options.tlsConfig ? { tlsConfig: this.options.tlsConfig } : {}),
+      ...(proxy
+        ? {}
+        : {
+            responses: {
+              ...(
+                this.options.integrationResponseSet ??
+                IntegrationResponseSets.defaultPassthrough({
+                  statusCode: successStatusCode(props),
+                })
+              ).render(props),
+            },
+          }),
+    };
+  }
+
+  /**
+   * Render the HTTP integration as a snippet of OpenAPI for an HTTP API. HTTP APIs support only proxy integrations.
+   */
+  public renderHttpApi(
+    props: IntegrationRenderProps
+  ): ApiGatewayHttpApiIntegration {
+    if (
+      this.options.proxy === false ||
+      this.options.requestParameters ||
+      this.options.tlsConfig
+    ) {
+      throw new Error(
+        `The integration for operation ${props.operationId} is not supported by HTTP APIs: only proxy integrations without requestParameters or tlsConfig are supported`
+      );
+    }
+    return {
+      type: "HTTP_PROXY",
+      httpMethod: (this.options.httpMethod ?? props.method).toUpperCase(),
+      // HTTP APIs substitute path variables in the uri, but do not support the greedy (+) suffix in it
+      uri: `${this.url}${this.options.path ?? props.path}`.replace(
+        /\{([^\}]*)\+\}/g,
+        "{$1}"
+      ),
+      payloadFormatVersion: "1.0",
+      ...(this.options.timeout
+        ? { timeoutInMillis: this.options.timeout.toMilliseconds() }
+        : {}),
+    };
+  }
+}
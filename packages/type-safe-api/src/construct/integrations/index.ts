@@ -3,7 +3,14 @@ SPDX-License-Identifier: Apache-2.0 */
 export * from "./integration";
 export * from "./integrations";
 export * from "./lambda";
+export * from "./streaming-lambda";
 export * from "./mock";
 export * from "./s3";
+export * from "./dynamodb";
+export * from "./stepfunctions";
+export * from "./sqs";
+export * from "./eventbridge";
+export * from "./http";
+export * from "./vpc-link";
 export * from "./integration-response-set";
 export * from "./integration-response-sets";
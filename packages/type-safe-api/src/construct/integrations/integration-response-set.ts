@@ -4,6 +4,7 @@ import {
   ApiGatewayIntegrationResponse,
   IntegrationRenderProps,
 } from "./integration";
+import { clientErrorStatusCode } from "./utils";
 import { generateCorsResponseParameters } from "../prepare-spec-event-handler/prepare-spec";
 
 /**
@@ -112,6 +113,69 @@ export class S3JsonErrorMessageIntegrationResponseSet extends IntegrationRespons
   }
 }
 
+/**
+ * Options for the AwsServiceJsonErrorMessageIntegrationResponseSet
+ */
+export interface AwsServiceJsonErrorMessageIntegrationResponseSetProps {
+  /**
+   * Map all 4XX errors to the operation's modelled client error response (or 400 if none is modelled), and all 5XX
+   * errors to 500, rather than only mapping 400 and 500 errors
+   * @default false
+   */
+  readonly modelledErrorResponses?: boolean;
+}
+
+/**
+ * An integration response set for errors from AWS services with a JSON protocol (eg. DynamoDB), that returns a JSON
+ * payload with the error message from the service
+ */
+export class AwsServiceJsonErrorMessageIntegrationResponseSet extends IntegrationResponseSet {
+  private readonly modelledErrorResponses: boolean;
+
+  constructor(props?: AwsServiceJsonErrorMessageIntegrationResponseSetProps) {
+    super();
+    this.modelledErrorResponses = props?.modelledErrorResponses ?? false;
+  }
+
+  private response(
+    props: IntegrationRenderProps,
+    statusPattern: string,
+    status: number
+  ): {
+    [responseStatusPattern: string]: ApiGatewayIntegrationResponse;
+  } {
+    return {
+      [statusPattern]: {
+        statusCode: `${status}`,
+        responseParameters: props.corsOptions
+          ? generateCorsResponseParameters(props.corsOptions)
+          : {},
+        responseTemplates: {
+          "application/json": `#set($message = $input.path('$.message'))
+#if("$!message" == "")#set($message = $input.path('$.Message'))#end
+{"message": "$util.escapeJavaScript($message).replaceAll("\\'","'")"}
+`,
+        },
+      },
+    };
+  }
+
+  public render(props: IntegrationRenderProps): {
+    [responseStatusPattern: string]: ApiGatewayIntegrationResponse;
+  } {
+    if (this.modelledErrorResponses) {
+      return {
+        ...this.response(props, "4\\d{2}", clientErrorStatusCode(props)),
+        ...this.response(props, "5\\d{2}", 500),
+      };
+    }
+    return {
+      ...this.response(props, "400", 400),
+      ...this.response(props, "500", 500),
+    };
+  }
+}
+
 /**
  * Properties for a custom integration response set
  */
@@ -5,6 +5,8 @@ import {
   CustomIntegrationResponseSet,
   CustomIntegrationResponseSetProps,
   S3JsonErrorMessageIntegrationResponseSet,
+  AwsServiceJsonErrorMessageIntegrationResponseSet,
+  AwsServiceJsonErrorMessageIntegrationResponseSetProps,
   CompositeIntegrationResponseSet,
   IntegrationResponseSet,
   DefaultPassthroughIntegrationResponseSet,
@@ -29,6 +31,17 @@ export class IntegrationResponseSets {
     return new S3JsonErrorMessageIntegrationResponseSet();
   }
 
+  /**
+   * An integration response set that returns the error message from an AWS service with a JSON protocol (such as
+   * DynamoDB) in a "message" property of a JSON object for 400 and 500 errors. Set modelledErrorResponses to instead
+   * return all 4XX errors with the operation's modelled client error status code (or 400), and 5XX errors with 500.
+   */
+  public static awsServiceJsonErrorMessage(
+    props?: AwsServiceJsonErrorMessageIntegrationResponseSetProps
+  ): AwsServiceJsonErrorMessageIntegrationResponseSet {
+    return new AwsServiceJsonErrorMessageIntegrationResponseSet(props);
+  }
+
   /**
    * An integration response set that catches all 4XX and 5XX errors and returns a 500
    */
@@ -1,6 +1,7 @@
 /*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
 SPDX-License-Identifier: Apache-2.0 */
 import { SpecRestApi } from "aws-cdk-lib/aws-apigateway";
+import { CfnApi } from "aws-cdk-lib/aws-apigatewayv2";
 import { Construct } from "constructs";
 import {
   OperationDetails,
@@ -171,6 +172,47 @@ export interface ApiGatewayIntegration {
   readonly tlsConfig?: ApiGatewayIntegrationTlsConfig;
 }
 
+/**
+ * Specifies an HTTP API integration type
+ */
+export type ApiGatewayHttpApiIntegrationType = "AWS_PROXY" | "HTTP_PROXY";
+
+/**
+ * Represents an api gateway integration for an HTTP API
+ * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/http-api-open-api.html
+ */
+export interface ApiGatewayHttpApiIntegration {
+  /**
+   * The type of integration with the specified backend.
+   */
+  readonly type: ApiGatewayHttpApiIntegrationType;
+  /**
+   * The endpoint URI of the backend. For lambda integrations, this is the function invocation uri.
+   * For HTTP proxy integrations, this is the URL of the HTTP endpoint including the https or http scheme.
+   */
+  readonly uri: string;
+  /**
+   * The HTTP method used in the integration request. For Lambda function invocations, the value must be POST.
+   */
+  readonly httpMethod: string;
+  /**
+   * The format of the payload sent to a lambda integration, either 1.0 or 2.0
+   */
+  readonly payloadFormatVersion: string;
+  /**
+   * The ID of a VpcLink for a private integration
+   */
+  readonly connectionId?: string;
+  /**
+   * The integration connection type, either "VPC_LINK" for a private integration or "INTERNET"
+   */
+  readonly connectionType?: ApiGatewayIntegrationConnectionType;
+  /**
+   * Custom timeout between 50 and 30,000 milliseconds. The default value is 30,000 milliseconds.
+   */
+  readonly timeoutInMillis?: number;
+}
+
 /**
  * Properties for rendering an integration into an API Gateway OpenAPI extension
  */
@@ -191,6 +233,11 @@ export interface IntegrationRenderProps extends OperationDetails {
    * Details about all operations in the API
    */
   readonly operationLookup: OperationLookup;
+  /**
+   * Status codes of the responses defined for the operation in the model
+   * @default - no modelled responses are known
+   */
+  readonly responseStatusCodes?: number[];
 }
 
 /**
@@ -215,6 +262,28 @@ export interface IntegrationGrantProps extends OperationDetails {
   readonly operationLookup: OperationLookup;
 }
 
+/**
+ * Properties for granting an HTTP API access to invoke the operation
+ */
+export interface IntegrationHttpApiGrantProps extends OperationDetails {
+  /**
+   * The ID of the operation for which permissions are being granted
+   */
+  readonly operationId: string;
+  /**
+   * The scope in which permission resources can be created
+   */
+  readonly scope: Construct;
+  /**
+   * The HTTP api to grant permissions for
+   */
+  readonly api: CfnApi;
+  /**
+   * Details about all operations in the API
+   */
+  readonly operationLookup: OperationLookup;
+}
+
 /**
  * An integration for an API operation. You can extend this to implement your own integration if you like.
  */
@@ -229,4 +298,21 @@ export abstract class Integration {
   public grant(_props: IntegrationGrantProps) {
     // No permissions to grant by default
   }
+  /**
+   * Render the integration into an API Gateway OpenAPI extension for an HTTP API. Integrations which are not
+   * supported by HTTP APIs throw an error.
+   */
+  public renderHttpApi(
+    props: IntegrationRenderProps
+  ): ApiGatewayHttpApiIntegration {
+    throw new Error(
+      `The integration for operation ${props.operationId} is not supported by HTTP APIs`
+    );
+  }
+  /**
+   * Grant permissions for the HTTP API to invoke the integration
+   */
+  public grantHttpApi(_props: IntegrationHttpApiGrantProps) {
+    // No permissions to grant by default
+  }
 }
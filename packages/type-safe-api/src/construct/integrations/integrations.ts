@@ -1,9 +1,30 @@
 /*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
 SPDX-License-Identifier: Apache-2.0 */
+import { IVpcLink } from "aws-cdk-lib/aws-apigateway";
+import { INetworkLoadBalancer } from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { IEventBus } from "aws-cdk-lib/aws-events";
 import { IFunction } from "aws-cdk-lib/aws-lambda";
+import { IQueue } from "aws-cdk-lib/aws-sqs";
+import { IStateMachine } from "aws-cdk-lib/aws-stepfunctions";
+import { DynamoDbIntegration, DynamoDbIntegrationProps } from "./dynamodb";
+import {
+  EventBridgeIntegration,
+  EventBridgeIntegrationOptions,
+} from "./eventbridge";
+import { HttpIntegration, HttpIntegrationOptions } from "./http";
 import { LambdaIntegration } from "./lambda";
 import { MockIntegration, MockIntegrationResponse } from "./mock";
 import { S3Integration, S3IntegrationProps } from "./s3";
+import { SqsIntegration, SqsIntegrationOptions } from "./sqs";
+import {
+  StepFunctionsIntegration,
+  StepFunctionsIntegrationOptions,
+} from "./stepfunctions";
+import {
+  StreamingLambdaIntegration,
+  StreamingLambdaIntegrationOptions,
+} from "./streaming-lambda";
+import { VpcLinkIntegration, VpcLinkIntegrationOptions } from "./vpc-link";
 
 /**
  * A collection of integrations to connect API operations with a backend to service requests
@@ -17,6 +38,20 @@ export class Integrations {
     return new LambdaIntegration(lambdaFunction);
   }
 
+  /**
+   * An integration that invokes a lambda function which streams its response, for operations marked as streaming. A
+   * function url with response streaming is created for the function, since API Gateway buffers the response.
+   * @param lambdaFunction the function to invoke
+   * @param options the integration options
+   * @see https://docs.aws.amazon.com/lambda/latest/dg/configuration-response-streaming.html
+   */
+  public static streamingLambda(
+    lambdaFunction: IFunction,
+    options?: StreamingLambdaIntegrationOptions
+  ): StreamingLambdaIntegration {
+    return new StreamingLambdaIntegration(lambdaFunction, options);
+  }
+
   /**
    * An integration that returns a hardcoded response
    * @param response the response to return
@@ -33,4 +68,79 @@ export class Integrations {
   public static s3(props: S3IntegrationProps): S3Integration {
     return new S3Integration(props);
   }
+
+  /**
+   * An integration that performs an action on a DynamoDB table, such as GetItem, PutItem or Query
+   * @param props the integration props
+   * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/integrating-api-with-aws-services-dynamodb.html
+   */
+  public static dynamoDb(props: DynamoDbIntegrationProps): DynamoDbIntegration {
+    return new DynamoDbIntegration(props);
+  }
+
+  /**
+   * An integration that starts an execution of a Step Functions state machine
+   * @param stateMachine the state machine to execute
+   * @param options the integration options
+   * @see https://docs.aws.amazon.com/step-functions/latest/dg/tutorial-api-gateway.html
+   */
+  public static stepFunctions(
+    stateMachine: IStateMachine,
+    options?: StepFunctionsIntegrationOptions
+  ): StepFunctionsIntegration {
+    return new StepFunctionsIntegration(stateMachine, options);
+  }
+
+  /**
+   * An integration that sends the request body as a message to an SQS queue
+   * @param queue the queue to send messages to
+   * @param options the integration options
+   * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/integrating-api-with-aws-services-sqs.html
+   */
+  public static sqs(
+    queue: IQueue,
+    options?: SqsIntegrationOptions
+  ): SqsIntegration {
+    return new SqsIntegration(queue, options);
+  }
+
+  /**
+   * An integration that puts the request body as an event onto an EventBridge event bus
+   * @param eventBus the event bus to put events onto
+   * @param options the integration options
+   */
+  public static eventBridge(
+    eventBus: IEventBus,
+    options: EventBridgeIntegrationOptions
+  ): EventBridgeIntegration {
+    return new EventBridgeIntegration(eventBus, options);
+  }
+
+  /**
+   * An integration that forwards requests to an HTTP endpoint. The operation path (including path parameters) is
+   * appended to the url by default.
+   * @param url the base url of the HTTP endpoint, including the scheme
+   * @param options the integration options
+   * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/setup-http-integrations.html
+   */
+  public static http(
+    url: string,
+    options?: HttpIntegrationOptions
+  ): HttpIntegration {
+    return new HttpIntegration(url, options);
+  }
+
+  /**
+   * An integration that forwards requests to a network load balancer in a VPC via a VPC Link. If a network load
+   * balancer is given, a VPC Link targeting it is created.
+   * @param target the network load balancer or VPC Link to forward requests to
+   * @param options the integration options
+   * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/set-up-private-integration.html
+   */
+  public static vpcLink(
+    target: INetworkLoadBalancer | IVpcLink,
+    options?: VpcLinkIntegrationOptions
+  ): VpcLinkIntegration {
+    return new VpcLinkIntegration(target, options);
+  }
 }
@@ -3,9 +3,11 @@ SPDX-License-Identifier: Apache-2.0 */
 import { Stack } from "aws-cdk-lib";
 import { CfnPermission, IFunction } from "aws-cdk-lib/aws-lambda";
 import {
+  ApiGatewayHttpApiIntegration,
   ApiGatewayIntegration,
   Integration,
   IntegrationGrantProps,
+  IntegrationHttpApiGrantProps,
   IntegrationRenderProps,
 } from "./integration";
 import { SnapStartFunction } from "../functions/snap-start-java-function";
@@ -39,6 +41,21 @@ export class LambdaIntegration extends Integration {
     };
   }
 
+  /**
+   * Render the lambda integration as a snippet of OpenAPI for an HTTP API. The 1.0 payload format is used such that
+   * the same handlers can service both REST and HTTP APIs.
+   */
+  public renderHttpApi(
+    _props: IntegrationRenderProps
+  ): ApiGatewayHttpApiIntegration {
+    return {
+      type: "AWS_PROXY",
+      httpMethod: "POST",
+      uri: functionInvocationUri(this.lambdaFunction),
+      payloadFormatVersion: "1.0",
+    };
+  }
+
   private getOperationPermissionId(operationId: string) {
     return `LambdaPermission-${operationId}`;
   }
@@ -46,14 +63,27 @@ export class LambdaIntegration extends Integration {
   /**
    * Grant API Gateway permissions to invoke the lambda
    */
-  public grant({
-    scope,
-    api,
-    operationId,
-    method,
-    path,
-    operationLookup,
-  }: IntegrationGrantProps) {
+  public grant({ api, ...props }: IntegrationGrantProps) {
+    this.grantInvoke(api.restApiId, props);
+  }
+
+  /**
+   * Grant the HTTP API permissions to invoke the lambda
+   */
+  public grantHttpApi({ api, ...props }: IntegrationHttpApiGrantProps) {
+    this.grantInvoke(api.attrApiId, props);
+  }
+
+  private grantInvoke(
+    apiId: string,
+    {
+      scope,
+      operationId,
+      method,
+      path,
+      operationLookup,
+    }: Omit<IntegrationGrantProps, "api">
+  ) {
     // Router permissions are unique to a function
     const routerPermissionId = `LambdaRouterPermission-${this.lambdaFunction.node.addr.slice(
       -8
@@ -89,7 +119,7 @@ export class LambdaIntegration extends Integration {
         functionName: this.lambdaFunction.functionArn,
         sourceArn: Stack.of(scope).formatArn({
           service: "execute-api",
-          resource: api.restApiId,
+          resource: apiId,
           // Permissions for all
           resourceName: "*/*/*",
         }),
@@ -102,7 +132,7 @@ export class LambdaIntegration extends Integration {
         functionName: this.lambdaFunction.functionArn,
         sourceArn: Stack.of(scope).formatArn({
           service: "execute-api",
-          resource: api.restApiId,
+          resource: apiId,
           // Scope permissions to any stage and a specific method and path of the operation.
           // Path parameters (eg {param} are replaced with wildcards)
           resourceName: `*/${method.toUpperCase()}${path.replace(
@@ -1,8 +1,9 @@
 /*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
 SPDX-License-Identifier: Apache-2.0 */
-import { IRole, Role, ServicePrincipal } from "aws-cdk-lib/aws-iam";
+import { IRole } from "aws-cdk-lib/aws-iam";
 import { IBucket } from "aws-cdk-lib/aws-s3";
 import { IConstruct } from "constructs";
+import { getOrCreateExecutionRole } from "./aws-service";
 import {
   ApiGatewayIntegration,
   Integration,
@@ -63,24 +64,9 @@ export class S3Integration extends Integration {
     this.integrationResponseSet = props.integrationResponseSet;
   }
 
-  private isRole(construct: IConstruct): construct is IRole {
-    return "roleArn" in construct && "grantPrincipal" in construct;
-  }
-
   private executionRole(scope: IConstruct): IRole {
     // Retrieve or create the shared S3 execution role
-    const existingExecutionRole = scope.node.tryFindChild(this.executionRoleId);
-    if (existingExecutionRole) {
-      if (this.isRole(existingExecutionRole)) {
-        return existingExecutionRole;
-      }
-      throw new Error(
-        `Found construct with ID ${this.executionRoleId} in API scope which was not a role`
-      );
-    }
-    return new Role(scope, this.executionRoleId, {
-      assumedBy: new ServicePrincipal("apigateway.amazonaws.com"),
-    });
+    return getOrCreateExecutionRole(scope, this.executionRoleId);
   }
 
   /**
@@ -0,0 +1,117 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { IRole } from "aws-cdk-lib/aws-iam";
+import { IQueue } from "aws-cdk-lib/aws-sqs";
+import { IConstruct } from "constructs";
+import {
+  defaultAwsServiceIntegrationResponseSet,
+  getOrCreateExecutionRole,
+} from "./aws-service";
+import {
+  ApiGatewayIntegration,
+  Integration,
+  IntegrationGrantProps,
+  IntegrationRenderProps,
+} from "./integration";
+import { IntegrationResponseSet } from "./integration-response-set";
+import { escapeJson, parameterValue } from "./utils";
+import { servicePathInvocationUri } from "../spec/utils";
+
+/**
+ * Options for SqsIntegration
+ */
+export interface SqsIntegrationOptions {
+  /**
+   * The request parameter which supplies the message group id, required for FIFO queues. This is the name of a path,
+   * query string or header parameter, or a JSON path into the request body prefixed with "$." (eg. "$.customerId").
+   * @default - no message group id is sent
+   */
+  readonly messageGroupId?: string;
+
+  /**
+   * Override the integration response set for the SQS integration
+   * @default - a response which maps the message id to the body of the operation's modelled successful response, combined with IntegrationResponseSets.awsServiceJsonErrorMessage({ modelledErrorResponses: true })
+   */
+  readonly integrationResponseSet?: IntegrationResponseSet;
+}
+
+/**
+ * An SQS integration, which sends the request body as a message to a queue
+ * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/integrating-api-with-aws-services-sqs.html
+ */
+export class SqsIntegration extends Integration {
+  private readonly queue: IQueue;
+  private readonly messageGroupId?: string;
+  private readonly integrationResponseSet?: IntegrationResponseSet;
+
+  private readonly executionRoleId = "SqsIntegrationsExecutionRole";
+
+  constructor(queue: IQueue, options?: SqsIntegrationOptions) {
+    super();
+
+    this.queue = queue;
+    this.messageGroupId = options?.messageGroupId;
+    this.integrationResponseSet = options?.integrationResponseSet;
+  }
+
+  private executionRole(scope: IConstruct): IRole {
+    // Retrieve or create the shared SQS execution role
+    return getOrCreateExecutionRole(scope, this.executionRoleId);
+  }
+
+  /**
+   * Render the SQS integration as a snippet of OpenAPI
+   */
+  public render(props: IntegrationRenderProps): ApiGatewayIntegration {
+    if (this.queue.fifo && !this.messageGroupId) {
+      throw new Error(
+        `SQS integration for operation ${props.operationId} requires a messageGroupId since the queue is a FIFO queue`
+      );
+    }
+
+    const requestTemplate = `{"QueueUrl": "${
+      this.queue.queueUrl
+    }", "MessageBody": "${escapeJson("$input.json('$')")}"${
+      this.messageGroupId
+        ? `, "MessageGroupId": "${parameterValue(this.messageGroupId)}"`
+        : ""
+    }}`;
+
+    return {
+      type: "AWS",
+      httpMethod: "POST",
+      uri: servicePathInvocationUri(props.scope, "sqs"),
+      credentials: this.executionRole(props.scope).roleArn,
+      passthroughBehavior: "NEVER",
+      // Use the SQS JSON protocol
+      requestParameters: {
+        "integration.request.header.Content-Type":
+          "'application/x-amz-json-1.0'",
+        "integration.request.header.X-Amz-Target": "'AmazonSQS.SendMessage'",
+      },
+      requestTemplates: Object.fromEntries(
+        (props.contentTypes ?? ["application/json"]).map((contentType) => [
+          contentType,
+          requestTemplate,
+        ])
+      ),
+      responses: {
+        ...(
+          this.integrationResponseSet ??
+          defaultAwsServiceIntegrationResponseSet(
+            props,
+            `{"messageId": "$input.path('$.MessageId')"}
+`
+          )
+        ).render(props),
+      },
+    };
+  }
+
+  /**
+   * Grant API Gateway permissions to send messages to the queue
+   */
+  public grant({ scope }: IntegrationGrantProps) {
+    this.queue.grantSendMessages(this.executionRole(scope));
+  }
+}
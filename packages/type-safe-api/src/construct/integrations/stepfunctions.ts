@@ -0,0 +1,147 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { IRole } from "aws-cdk-lib/aws-iam";
+import { IStateMachine } from "aws-cdk-lib/aws-stepfunctions";
+import { IConstruct } from "constructs";
+import {
+  defaultAwsServiceIntegrationResponseSet,
+  getOrCreateExecutionRole,
+} from "./aws-service";
+import {
+  ApiGatewayIntegration,
+  Integration,
+  IntegrationGrantProps,
+  IntegrationRenderProps,
+} from "./integration";
+import { IntegrationResponseSet } from "./integration-response-set";
+import { escapeJson } from "./utils";
+import { serviceActionInvocationUri } from "../spec/utils";
+
+/**
+ * Options for StepFunctionsIntegration
+ */
+export interface StepFunctionsIntegrationOptions {
+  /**
+   * Wait for the execution to complete and return its output (StartSyncExecution). This is only supported for
+   * express state machines.
+   * @default false - the execution is started asynchronously (StartExecution) and its ARN is returned
+   */
+  readonly sync?: boolean;
+
+  /**
+   * Override the integration response set for the Step Functions integration
+   * @default - a response which maps the execution output (or ARN if not sync) to the body of the operation's modelled successful response, combined with IntegrationResponseSets.awsServiceJsonErrorMessage({ modelledErrorResponses: true })
+   */
+  readonly integrationResponseSet?: IntegrationResponseSet;
+}
+
+/**
+ * A Step Functions integration, which starts an execution of a state machine. The execution input is a JSON object
+ * containing the request "body", and the "path" and "querystring" parameters.
+ * @see https://docs.aws.amazon.com/step-functions/latest/dg/tutorial-api-gateway.html
+ */
+export class StepFunctionsIntegration extends Integration {
+  private readonly stateMachine: IStateMachine;
+  private readonly sync: boolean;
+  private readonly integrationResponseSet?: IntegrationResponseSet;
+
+  private readonly executionRoleId = "StepFunctionsIntegrationsExecutionRole";
+
+  constructor(
+    stateMachine: IStateMachine,
+    options?: StepFunctionsIntegrationOptions
+  ) {
+    super();
+
+    this.stateMachine = stateMachine;
+    this.sync = options?.sync ?? false;
+    this.integrationResponseSet = options?.integrationResponseSet;
+  }
+
+  private executionRole(scope: IConstruct): IRole {
+    // Retrieve or create the shared Step Functions execution role
+    return getOrCreateExecutionRole(scope, this.executionRoleId);
+  }
+
+  private renderRequestTemplate(): string {
+    // "@@" is used as a placeholder for '"' to avoid escaping within the VTL strings
+    return `#set($allParams = $input.params())
+#set($body = $input.json('$'))
+#if("$!body" == "")#set($body = "{}")#end
+#set($executionInput = "{@@body@@: $body")
+#foreach($location in ["path", "querystring"])
+#set($executionInput = "$executionInput, @@$location@@: {")
+#foreach($name in $allParams.get($location).keySet())
+#set($executionInput = "$executionInput@@$name@@: @@$util.escapeJavaScript($allParams.get($location).get($name))@@")
+#if($foreach.hasNext)#set($executionInput = "$executionInput, ")#end
+#end
+#set($executionInput = "$executionInput}")
+#end
+#set($executionInput = "$executionInput}")
+#set($executionInput = $executionInput.replaceAll("@@", '"'))
+{"stateMachineArn": "${
+      this.stateMachine.stateMachineArn
+    }", "input": "${escapeJson("$executionInput")}"}
+`;
+  }
+
+  private renderSuccessResponseTemplate(): string {
+    if (this.sync) {
+      // Executions which do not succeed are returned as an error
+      return `#if($input.path('$.status') == "SUCCEEDED")
+$input.path('$.output')
+#else
+#set($context.responseOverride.status = 500)
+{"message": "${escapeJson("$input.path('$.cause')")}"}
+#end
+`;
+    }
+    return `{"executionArn": "$input.path('$.executionArn')"}
+`;
+  }
+
+  /**
+   * Render the Step Functions integration as a snippet of OpenAPI
+   */
+  public render(props: IntegrationRenderProps): ApiGatewayIntegration {
+    const requestTemplate = this.renderRequestTemplate();
+    return {
+      type: "AWS",
+      httpMethod: "POST",
+      uri: serviceActionInvocationUri(
+        props.scope,
+        "states",
+        this.sync ? "StartSyncExecution" : "StartExecution"
+      ),
+      credentials: this.executionRole(props.scope).roleArn,
+      passthroughBehavior: "NEVER",
+      requestTemplates: Object.fromEntries(
+        (props.contentTypes ?? ["application/json"]).map((contentType) => [
+          contentType,
+          requestTemplate,
+        ])
+      ),
+      responses: {
+        ...(
+          this.integrationResponseSet ??
+          defaultAwsServiceIntegrationResponseSet(
+            props,
+            this.renderSuccessResponseTemplate()
+          )
+        ).render(props),
+      },
+    };
+  }
+
+  /**
+   * Grant API Gateway permissions to start executions of the state machine
+   */
+  public grant({ scope }: IntegrationGrantProps) {
+    const executionRole = this.executionRole(scope);
+    if (this.sync) {
+      this.stateMachine.grantStartSyncExecution(executionRole);
+    } else {
+      this.stateMachine.grantStartExecution(executionRole);
+    }
+  }
+}
@@ -0,0 +1,83 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import {
+  FunctionUrlAuthType,
+  FunctionUrlCorsOptions,
+  IFunction,
+  IFunctionUrl,
+  InvokeMode,
+} from "aws-cdk-lib/aws-lambda";
+import { LambdaIntegration } from "./lambda";
+
+/**
+ * Options for StreamingLambdaIntegration
+ */
+export interface StreamingLambdaIntegrationOptions {
+  /**
+   * The type of authentication for the function url
+   * @default FunctionUrlAuthType.AWS_IAM
+   */
+  readonly authType?: FunctionUrlAuthType;
+  /**
+   * Cross origin resource sharing configuration for the function url
+   * @default - no cors configuration
+   */
+  readonly cors?: FunctionUrlCorsOptions;
+}
+
+/**
+ * The options each function url was created with, such that integrations sharing a function can detect conflicts
+ */
+const functionUrlOptions = new WeakMap<
+  IFunctionUrl,
+  StreamingLambdaIntegrationOptions
+>();
+
+/**
+ * A lambda integration for operations which stream their responses. API Gateway REST APIs buffer the response of the
+ * lambda, so a function url with response streaming is also created for clients to receive events as they are sent.
+ * @see https://docs.aws.amazon.com/lambda/latest/dg/configuration-response-streaming.html
+ */
+export class StreamingLambdaIntegration extends LambdaIntegration {
+  /**
+   * The function url which streams responses from the lambda function
+   */
+  public readonly functionUrl: IFunctionUrl;
+
+  constructor(
+    lambdaFunction: IFunction,
+    options?: StreamingLambdaIntegrationOptions
+  ) {
+    super(lambdaFunction);
+    const resolvedOptions: StreamingLambdaIntegrationOptions = {
+      authType: options?.authType ?? FunctionUrlAuthType.AWS_IAM,
+      cors: options?.cors,
+    };
+
+    // A function may only have one function url, so it is shared when the same function services multiple streaming
+    // operations, provided they are configured identically
+    const existingFunctionUrl = lambdaFunction.node.tryFindChild(
+      "FunctionUrl"
+    ) as IFunctionUrl | undefined;
+    if (existingFunctionUrl) {
+      const existingOptions = functionUrlOptions.get(existingFunctionUrl);
+      if (!existingOptions) {
+        throw new Error(
+          `Function ${lambdaFunction.node.path} already has a function url which was not created by a streaming lambda integration`
+        );
+      }
+      if (JSON.stringify(existingOptions) !== JSON.stringify(resolvedOptions)) {
+        throw new Error(
+          `Function ${lambdaFunction.node.path} is used by streaming lambda integrations with conflicting authType or cors options`
+        );
+      }
+      this.functionUrl = existingFunctionUrl;
+    } else {
+      this.functionUrl = lambdaFunction.addFunctionUrl({
+        ...resolvedOptions,
+        invokeMode: InvokeMode.RESPONSE_STREAM,
+      });
+      functionUrlOptions.set(this.functionUrl, resolvedOptions);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { IntegrationRenderProps } from "./integration";
+
+/**
+ * Escape a VTL expression for use in a JSON string
+ */
+export const escapeJson = (expression: string) =>
+  `$util.escapeJavaScript(${expression}).replaceAll("\\'","'")`;
+
+/**
+ * Return the VTL expression to retrieve the value of the given request parameter. Parameters are the names of path,
+ * query string or header parameters, or a JSON path into the request body prefixed with "$."
+ */
+export const parameterExpression = (parameter: string) =>
+  parameter.startsWith("$.")
+    ? `$input.path('${parameter}')`
+    : `$input.params('${parameter}')`;
+
+/**
+ * Return the VTL expression to retrieve the value of the given request parameter, escaped for use in a JSON string
+ */
+export const parameterValue = (parameter: string) =>
+  escapeJson(parameterExpression(parameter));
+
+/**
+ * Return the first modelled response status code for the operation within the given range (eg. 200 for 2XX)
+ */
+const modelledStatusCode = (
+  { responseStatusCodes }: IntegrationRenderProps,
+  rangeStart: number,
+  defaultStatusCode: number
+): number =>
+  (responseStatusCodes ?? []).find(
+    (statusCode) => statusCode >= rangeStart && statusCode < rangeStart + 100
+  ) ?? defaultStatusCode;
+
+/**
+ * Return the status code of the operation's modelled successful response, defaulting to 200
+ */
+export const successStatusCode = (props: IntegrationRenderProps): number =>
+  modelledStatusCode(props, 200, 200);
+
+/**
+ * Return the status code of the operation's modelled client error response, defaulting to 400
+ */
+export const clientErrorStatusCode = (props: IntegrationRenderProps): number =>
+  modelledStatusCode(props, 400, 400);
+
+/**
+ * Return the status code to use when a requested resource is not found, which is the operation's modelled 404 response
+ * if defined, otherwise its modelled client error response, defaulting to 404
+ */
+export const notFoundStatusCode = (props: IntegrationRenderProps): number =>
+  (props.responseStatusCodes ?? []).includes(404)
+    ? 404
+    : modelledStatusCode(props, 400, 404);
@@ -0,0 +1,85 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { IVpcLink, VpcLink } from "aws-cdk-lib/aws-apigateway";
+import { INetworkLoadBalancer } from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { IConstruct } from "constructs";
+import { HttpIntegration, HttpIntegrationOptions } from "./http";
+import {
+  ApiGatewayHttpApiIntegration,
+  ApiGatewayIntegration,
+  IntegrationRenderProps,
+} from "./integration";
+
+/**
+ * Options for VpcLinkIntegration
+ */
+export interface VpcLinkIntegrationOptions extends HttpIntegrationOptions {
+  /**
+   * The base url of the backend, to which the path is appended
+   * @default - http://<load balancer dns name> for a network load balancer. Required for a VPC Link.
+   */
+  readonly url?: string;
+}
+
+/**
+ * A private integration, which forwards requests to a network load balancer in a VPC via a VPC Link
+ * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/set-up-private-integration.html
+ */
+export class VpcLinkIntegration extends HttpIntegration {
+  private readonly target: INetworkLoadBalancer | IVpcLink;
+
+  constructor(
+    target: INetworkLoadBalancer | IVpcLink,
+    options?: VpcLinkIntegrationOptions
+  ) {
+    const isVpcLink = "vpcLinkId" in target;
+    if (isVpcLink && !options?.url) {
+      throw new Error(
+        `A url must be provided for a VPC Link integration which targets a VPC Link rather than a network load balancer`
+      );
+    }
+    super(
+      options?.url ??
+        `http://${(target as INetworkLoadBalancer).loadBalancerDnsName}`,
+      options
+    );
+    this.target = target;
+  }
+
+  private vpcLink(scope: IConstruct): IVpcLink {
+    if ("vpcLinkId" in this.target) {
+      return this.target;
+    }
+    // Retrieve or create the VPC Link for the load balancer, shared by all operations which target it
+    const vpcLinkId = `VpcLink-${this.target.node.addr.slice(-8)}`;
+    return (
+      (scope.node.tryFindChild(vpcLinkId) as IVpcLink | undefined) ??
+      new VpcLink(scope, vpcLinkId, {
+        targets: [this.target],
+      })
+    );
+  }
+
+  /**
+   * Render the VPC Link integration as a snippet of OpenAPI
+   */
+  public render(props: IntegrationRenderProps): ApiGatewayIntegration {
+    return {
+      ...super.render(props),
+      connectionType: "VPC_LINK",
+      connectionId: this.vpcLink(props.scope).vpcLinkId,
+    };
+  }
+
+  /**
+   * VPC Links for REST APIs cannot be used with HTTP APIs, which require a VPC Link (v2) targeting an application load
+   * balancer, network load balancer or Cloud Map service
+   */
+  public renderHttpApi(
+    props: IntegrationRenderProps
+  ): ApiGatewayHttpApiIntegration {
+    throw new Error(
+      `The VPC Link integration for operation ${props.operationId} is not supported by HTTP APIs`
+    );
+  }
+}
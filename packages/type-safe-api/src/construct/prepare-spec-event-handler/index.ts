@@ -6,7 +6,12 @@ import { // eslint-disable-line
   GetObjectCommand,
   PutObjectCommand,
 } from "@aws-sdk/client-s3";
-import { prepareApiSpec, PrepareApiSpecOptions } from "./prepare-spec";
+import {
+  prepareApiSpec,
+  PrepareApiSpecOptions,
+  prepareHttpApiSpec,
+  PrepareHttpApiSpecOptions,
+} from "./prepare-spec";
 
 /**
  * Represents an object location in an s3 bucket
@@ -38,6 +43,26 @@ export interface PrepareApiSpecCustomResourceProperties
   readonly outputSpecLocation: S3Location;
 }
 
+/**
+ * Properties required to prepare the api specification for an HTTP API with the given integrations, authorizers, etc
+ */
+export interface PrepareHttpApiSpecCustomResourceProperties
+  extends PrepareHttpApiSpecOptions {
+  /**
+   * Distinguishes the properties from those for preparing a REST API specification
+   */
+  readonly apiType: "http";
+  /**
+   * The location from which to read the spec to prepare
+   */
+  readonly inputSpecLocation: S3Location;
+  /**
+   * The location to write the prepared spec. Note that the key is used as a prefix and the output location will
+   * include a hash.
+   */
+  readonly outputSpecLocation: S3Location;
+}
+
 /**
  * Cloudformation event type for custom resource
  */
@@ -53,7 +78,9 @@ interface OnEventRequest {
   /**
    * Properties for preparing the api
    */
-  readonly ResourceProperties: PrepareApiSpecCustomResourceProperties;
+  readonly ResourceProperties:
+    | PrepareApiSpecCustomResourceProperties
+    | PrepareHttpApiSpecCustomResourceProperties;
 }
 
 /**
@@ -94,7 +121,9 @@ const prepare = async ({
   inputSpecLocation,
   outputSpecLocation,
   ...options
-}: PrepareApiSpecCustomResourceProperties): Promise<S3Location> => {
+}:
+  | PrepareApiSpecCustomResourceProperties
+  | PrepareHttpApiSpecCustomResourceProperties): Promise<S3Location> => {
   // Read the spec from the s3 input location
   const inputSpec = JSON.parse(
     await (
@@ -108,7 +137,10 @@ const prepare = async ({
   );
 
   // Prepare the spec
-  const preparedSpec = prepareApiSpec(inputSpec, options);
+  const preparedSpec =
+    "apiType" in options && options.apiType === "http"
+      ? prepareHttpApiSpec(inputSpec, options)
+      : prepareApiSpec(inputSpec, options as PrepareApiSpecOptions);
   const preparedSpecHash = crypto
     .createHash("sha256")
     .update(JSON.stringify(preparedSpec))
@@ -2,7 +2,10 @@
 SPDX-License-Identifier: Apache-2.0 */
 import type { OpenAPIV3 } from "openapi-types";
 import { DefaultAuthorizerIds, HttpMethods } from "./constants";
-import { ApiGatewayIntegration } from "../integrations";
+import {
+  ApiGatewayHttpApiIntegration,
+  ApiGatewayIntegration,
+} from "../integrations";
 import type {
   Method,
   MethodAndPath,
@@ -37,6 +40,20 @@ export interface SerializedMethodIntegration {
   readonly options?: TypeSafeApiIntegrationOptions;
 }
 
+/**
+ * Serialized integration for a method in an HTTP API
+ */
+export interface SerializedHttpApiMethodIntegration {
+  /**
+   * The integration for the api method
+   */
+  readonly integration: ApiGatewayHttpApiIntegration;
+  /**
+   * The authorizer (if any) to apply to the method
+   */
+  readonly methodAuthorizer?: SerialisedAuthorizerReference;
+}
+
 /**
  * Options for API keys
  */
@@ -82,6 +99,34 @@ export interface PrepareApiSpecOptions {
   readonly apiKeyOptions?: SerializedApiKeyOptions;
 }
 
+/**
+ * Options for preparing an api spec for deployment by api gateway as an HTTP API
+ */
+export interface PrepareHttpApiSpecOptions {
+  /**
+   * Integrations for api operations
+   */
+  readonly integrations: {
+    [operationId: string]: SerializedHttpApiMethodIntegration;
+  };
+  /**
+   * Options for cross-origin resource sharing
+   */
+  readonly corsOptions?: SerializedCorsOptions;
+  /**
+   * Operation id to method and path mapping
+   */
+  readonly operationLookup: OperationLookup;
+  /**
+   * Security schemes to add to the spec
+   */
+  readonly securitySchemes: { [key: string]: OpenAPIV3.SecuritySchemeObject };
+  /**
+   * The default authorizer to reference
+   */
+  readonly defaultAuthorizerReference?: SerialisedAuthorizerReference;
+}
+
 /**
  * API key options when rendering an authorizer
  */
@@ -139,6 +184,23 @@ const applyMethodAuthorizer = (
   return {};
 };
 
+/**
+ * Return the integration for the given operation, throwing if there is none
+ */
+const getMethodIntegration = <T>(
+  integrations: { [operationId: string]: T },
+  operationName: string,
+  method: Method,
+  path: string
+): T => {
+  if (!(operationName in integrations)) {
+    throw new Error(
+      `Missing required integration for operation ${operationName} (${method} ${path})`
+    );
+  }
+  return integrations[operationName as keyof TypeSafeApiIntegrations];
+};
+
 /**
  * Adds API Gateway integrations and auth to the given operation
  */
@@ -155,14 +217,12 @@ const applyMethodIntegration = (
   getOperationName: (methodAndPath: MethodAndPath) => string
 ): OpenAPIV3.OperationObject | undefined => {
   const operationName = getOperationName({ method, path });
-  if (!(operationName in integrations)) {
-    throw new Error(
-      `Missing required integration for operation ${operationName} (${method} ${path})`
-    );
-  }
-
-  let { methodAuthorizer, integration, options } =
-    integrations[operationName as keyof TypeSafeApiIntegrations];
+  let { methodAuthorizer, integration, options } = getMethodIntegration(
+    integrations,
+    operationName,
+    method,
+    path
+  );
 
   validateAuthorizerReference(
     methodAuthorizer,
@@ -213,6 +273,53 @@ const applyMethodIntegration = (
   } as any;
 };
 
+/**
+ * Adds API Gateway HTTP API integrations and auth to the given operation
+ */
+const applyHttpApiMethodIntegration = (
+  path: string,
+  method: Method,
+  { integrations, defaultAuthorizerReference }: PrepareHttpApiSpecOptions,
+  operation: OpenAPIV3.OperationObject,
+  getOperationName: (methodAndPath: MethodAndPath) => string
+): OpenAPIV3.OperationObject => {
+  const operationName = getOperationName({ method, path });
+  const { methodAuthorizer, integration } = getMethodIntegration(
+    integrations,
+    operationName,
+    method,
+    path
+  );
+
+  validateAuthorizerReference(
+    methodAuthorizer,
+    operation.security,
+    operationName
+  );
+
+  // Apply the default authorizer unless a method authorizer is defined
+  const authorizer = methodAuthorizer ?? defaultAuthorizerReference;
+
+  return {
+    ...operation,
+    // https://docs.aws.amazon.com/apigateway/latest/developerguide/http-api-swagger-extensions-integration.html
+    "x-amazon-apigateway-integration": integration,
+    ...(authorizer
+      ? {
+          security:
+            authorizer.authorizerId === DefaultAuthorizerIds.NONE
+              ? []
+              : [
+                  {
+                    [authorizer.authorizerId]:
+                      authorizer.authorizationScopes || [],
+                  },
+                ],
+        }
+      : {}),
+  } as any;
+};
+
 const getCorsHeaderDefinitions = (): {
   [name: string]: OpenAPIV3.HeaderObject;
 } => ({
@@ -505,23 +612,29 @@ const findHeaderParameters = (spec: OpenAPIV3.Document): string[] => {
 };
 
 /**
- * Prepares the api spec for deployment by adding integrations, configuring auth, etc
+ * Build a reverse lookup for the operation name given a method and path
  */
-export const prepareApiSpec = (
-  spec: OpenAPIV3.Document,
-  options: PrepareApiSpecOptions
-): OpenAPIV3.Document => {
-  // Reverse lookup for the operation name given a method and path
+const operationNameGetter = (operationLookup: OperationLookup) => {
   const operationNameByPath = Object.fromEntries(
-    Object.entries<MethodAndPath>(options.operationLookup).map(
+    Object.entries<MethodAndPath>(operationLookup).map(
       ([operationName, methodAndPath]) => [
         concatMethodAndPath(methodAndPath),
         operationName,
       ]
     )
   );
-  const getOperationName = (methodAndPath: MethodAndPath) =>
+  return (methodAndPath: MethodAndPath) =>
     operationNameByPath[concatMethodAndPath(methodAndPath)];
+};
+
+/**
+ * Prepares the api spec for deployment by adding integrations, configuring auth, etc
+ */
+export const prepareApiSpec = (
+  spec: OpenAPIV3.Document,
+  options: PrepareApiSpecOptions
+): OpenAPIV3.Document => {
+  const getOperationName = operationNameGetter(options.operationLookup);
 
   validateSecuritySchemes(
     options.securitySchemes,
@@ -603,3 +716,74 @@ export const prepareApiSpec = (
       : {}),
   } as any;
 };
+
+/**
+ * Prepares the api spec for import as an HTTP API by adding integrations, configuring auth, etc
+ * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/http-api-open-api.html
+ */
+export const prepareHttpApiSpec = (
+  spec: OpenAPIV3.Document,
+  options: PrepareHttpApiSpecOptions
+): OpenAPIV3.Document => {
+  const getOperationName = operationNameGetter(options.operationLookup);
+
+  validateAuthorizerReference(
+    options.defaultAuthorizerReference,
+    spec.security
+  );
+
+  return {
+    ...spec,
+    "x-amazon-apigateway-importexport-version": "1.0",
+    ...(options.corsOptions
+      ? {
+          // HTTP APIs respond to preflight requests, so unlike REST APIs no options methods are required
+          // https://docs.aws.amazon.com/apigateway/latest/developerguide/http-api-swagger-extensions-cors-configuration.html
+          "x-amazon-apigateway-cors": {
+            allowOrigins: options.corsOptions.allowOrigins,
+            allowMethods: options.corsOptions.allowMethods,
+            allowHeaders: [
+              ...options.corsOptions.allowHeaders,
+              ...findHeaderParameters(spec),
+            ],
+          },
+        }
+      : {}),
+    paths: {
+      ...Object.fromEntries(
+        Object.entries(spec.paths).map(([path, pathItem]) => {
+          validatePathItem(path, pathItem!);
+          return [
+            path,
+            {
+              ...pathItem,
+              ...Object.fromEntries(
+                Object.values(HttpMethods)
+                  .filter((method) => pathItem![method])
+                  .map((method) => [
+                    method,
+                    applyHttpApiMethodIntegration(
+                      path,
+                      method,
+                      options,
+                      pathItem![method]!,
+                      getOperationName
+                    ),
+                  ])
+              ),
+            },
+          ];
+        })
+      ),
+    },
+    components: {
+      ...spec.components,
+      securitySchemes: {
+        // Apply any security schemes that already exist in the spec
+        ...spec.components?.securitySchemes,
+        // Construct security schemes override any in the spec with the same id
+        ...options.securitySchemes,
+      },
+    },
+  } as any;
+};
@@ -16,11 +16,13 @@ import {
   CognitoAuthorizer,
   CustomAuthorizer,
   CustomAuthorizerType,
+  JwtAuthorizer,
 } from "../authorizers";
 import {
   isCognitoAuthorizer,
   isCustomAuthorizer,
   isIamAuthorizer,
+  isJwtAuthorizer,
 } from "../authorizers/predicates";
 import { DefaultAuthorizerIds } from "../prepare-spec-event-handler/constants";
 
@@ -62,6 +64,55 @@ export interface CustomApiGatewayAuthorizer {
   readonly authorizerResultTtlInSeconds: number;
 }
 
+/**
+ * Snippet of OpenAPI API Gateway extension for a JWT x-amazon-apigateway-authorizer in an HTTP API
+ * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/http-api-extensions-authorizer.html
+ */
+export interface JwtHttpApiGatewayAuthorizer {
+  /**
+   * The type of authorizer (always jwt)
+   */
+  readonly type: "jwt";
+  /**
+   * The part of the request that denotes the identity of the caller
+   */
+  readonly identitySource: string;
+  /**
+   * The issuer and audience used to validate the JWT
+   */
+  readonly jwtConfiguration: {
+    readonly issuer: string;
+    readonly audience: string[];
+  };
+}
+
+/**
+ * Snippet of OpenAPI API Gateway extension for a lambda x-amazon-apigateway-authorizer in an HTTP API
+ * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/http-api-extensions-authorizer.html
+ */
+export interface CustomHttpApiGatewayAuthorizer {
+  /**
+   * The type of authorizer (always request)
+   */
+  readonly type: "request";
+  /**
+   * The part of the request that denotes the identity of the caller
+   */
+  readonly identitySource: string;
+  /**
+   * The lambda invocation uri for the custom authorizer
+   */
+  readonly authorizerUri: string;
+  /**
+   * The format of the payload sent to the custom authorizer
+   */
+  readonly authorizerPayloadFormatVersion: string;
+  /**
+   * The time in seconds that the authorizer result is cached given the same identity source
+   */
+  readonly authorizerResultTtlInSeconds: number;
+}
+
 /**
  * Open API definition for an api gateway security scheme
  */
@@ -101,10 +152,31 @@ export type CustomSecurityScheme =
  */
 export type IamSecurityScheme = ApiGatewaySecurityScheme;
 
+/**
+ * The security scheme for a JWT (or cognito) authorizer in an HTTP API
+ */
+export interface JwtHttpApiSecurityScheme
+  extends OpenAPIV3.OAuth2SecurityScheme {
+  /**
+   * Details about the authorizer
+   */
+  readonly "x-amazon-apigateway-authorizer": JwtHttpApiGatewayAuthorizer;
+}
+
+/**
+ * The security scheme for a custom authorizer in an HTTP API
+ */
+export type CustomHttpApiSecurityScheme =
+  ApiGatewaySecuritySchemeWithAuthorizer<CustomHttpApiGatewayAuthorizer>;
+
 // Regex to match against a single header identity source
 const SINGLE_HEADER_IDENTITY_SOURCE_REGEX =
   /^method.request.header.(?<header>[^\.\s,]+)$/;
 
+// Regex to match against each REST API identity source, which are mapped to their HTTP API equivalents
+const REST_API_IDENTITY_SOURCE_REGEX =
+  /(^|,\s*)(?:method\.request\.(header|querystring)|(context|stageVariables))\./g;
+
 /**
  * Serialised representation of a method authorizer
  */
@@ -212,6 +284,82 @@ const customSecurityScheme = (
   };
 };
 
+/**
+ * Create an OpenAPI security scheme definition for a JWT authorizer in an HTTP API
+ * @param authorizer jwt authorizer
+ */
+const jwtHttpApiSecurityScheme = (
+  authorizer: JwtAuthorizer
+): JwtHttpApiSecurityScheme => ({
+  type: "oauth2",
+  flows: {},
+  "x-amazon-apigateway-authorizer": {
+    type: "jwt",
+    identitySource: authorizer.identitySource,
+    jwtConfiguration: {
+      issuer: authorizer.issuer,
+      audience: authorizer.audience,
+    },
+  },
+});
+
+/**
+ * Create an OpenAPI security scheme definition for a cognito authorizer in an HTTP API. Cognito tokens are validated
+ * as JWTs issued by the user pool, for the user pool clients.
+ * @param authorizer cognito authorizer
+ */
+const cognitoHttpApiSecurityScheme = (
+  authorizer: CognitoAuthorizer
+): JwtHttpApiSecurityScheme => {
+  if (authorizer.userPools.length !== 1 || !authorizer.userPoolClients) {
+    throw new Error(
+      `Cognito authorizer ${authorizer.authorizerId} must specify a single user pool and its user pool clients for use with an HTTP API`
+    );
+  }
+  return jwtHttpApiSecurityScheme(
+    new JwtAuthorizer({
+      authorizerId: authorizer.authorizerId,
+      issuer: `https://${authorizer.userPools[0].userPoolProviderName}`,
+      audience: authorizer.userPoolClients.map(
+        (client) => client.userPoolClientId
+      ),
+    })
+  );
+};
+
+/**
+ * Create an OpenAPI security scheme definition for a custom authorizer in an HTTP API. HTTP APIs support only request
+ * authorizers, so the identity source is mapped to its HTTP API equivalent, and the 1.0 payload format is used such
+ * that the authorizer receives the same event as it would from a REST API.
+ * @param authorizer custom authorizer
+ */
+const customHttpApiSecurityScheme = (
+  authorizer: CustomAuthorizer
+): CustomHttpApiSecurityScheme => {
+  const singleHeaderMatch = authorizer.identitySource.match(
+    SINGLE_HEADER_IDENTITY_SOURCE_REGEX
+  );
+  return {
+    type: "apiKey",
+    in: "header",
+    name: singleHeaderMatch ? singleHeaderMatch.groups!.header : "Unused",
+    "x-amazon-apigateway-authtype": authorizer.authorizationType,
+    "x-amazon-apigateway-authorizer": {
+      type: "request",
+      identitySource: authorizer.identitySource.replace(
+        REST_API_IDENTITY_SOURCE_REGEX,
+        (_match, separator: string, requestSource?: string, source?: string) =>
+          requestSource
+            ? `${separator}$request.${requestSource}.`
+            : `${separator}$${source}.`
+      ),
+      authorizerUri: functionInvocationUri(authorizer.function),
+      authorizerPayloadFormatVersion: "1.0",
+      authorizerResultTtlInSeconds: authorizer.authorizerResultTtlInSeconds,
+    },
+  };
+};
+
 /**
  * Return a list of all unique authorizers used in the api
  */
@@ -242,6 +390,13 @@ export const prepareSecuritySchemes = (
   // All the defined authorizers
   const allAuthorizers = getAllAuthorizers(integrations, defaultAuthorizer);
 
+  const jwtAuthorizer = allAuthorizers.find(isJwtAuthorizer);
+  if (jwtAuthorizer) {
+    throw new Error(
+      `JWT authorizer ${jwtAuthorizer.authorizerId} is supported by HTTP APIs only`
+    );
+  }
+
   // Cognito, IAM and custom authorizers must be declared in security schemes
   return {
     ...Object.fromEntries(
@@ -273,3 +428,33 @@ export const prepareSecuritySchemes = (
       : {}),
   };
 };
+
+/**
+ * Generate the security schemes section of an OpenAPI specification for an HTTP API
+ */
+export const prepareHttpApiSecuritySchemes = (
+  integrations: TypeSafeApiIntegrations,
+  defaultAuthorizer?: Authorizer
+): { [key: string]: OpenAPIV3.SecuritySchemeObject } =>
+  Object.fromEntries(
+    getAllAuthorizers(integrations, defaultAuthorizer).flatMap(
+      (authorizer): [string, OpenAPIV3.SecuritySchemeObject][] => {
+        if (isJwtAuthorizer(authorizer)) {
+          return [
+            [authorizer.authorizerId, jwtHttpApiSecurityScheme(authorizer)],
+          ];
+        } else if (isCognitoAuthorizer(authorizer)) {
+          return [
+            [authorizer.authorizerId, cognitoHttpApiSecurityScheme(authorizer)],
+          ];
+        } else if (isCustomAuthorizer(authorizer)) {
+          return [
+            [authorizer.authorizerId, customHttpApiSecurityScheme(authorizer)],
+          ];
+        } else if (isIamAuthorizer(authorizer)) {
+          return [[authorizer.authorizerId, iamSecurityScheme()]];
+        }
+        return [];
+      }
+    )
+  );
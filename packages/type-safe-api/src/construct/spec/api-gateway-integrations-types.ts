@@ -1,6 +1,13 @@
 /*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
 SPDX-License-Identifier: Apache-2.0 */
-import { ApiKeySourceType, CorsOptions } from "aws-cdk-lib/aws-apigateway";
+import { Duration } from "aws-cdk-lib";
+import {
+  ApiKeySourceType,
+  CorsOptions,
+  IApiKey,
+  QuotaSettings,
+  ThrottleSettings,
+} from "aws-cdk-lib/aws-apigateway";
 import { Authorizer } from "../authorizers";
 import { Integration } from "../integrations";
 
@@ -14,6 +21,44 @@ export interface TypeSafeApiIntegrationOptions {
    * @default false
    */
   readonly apiKeyRequired?: boolean;
+  /**
+   * Options for caching responses to this operation in the stage cache. When present, the stage cache cluster is
+   * enabled unless explicitly disabled in the deploy options.
+   * @default - responses are not cached
+   */
+  readonly caching?: TypeSafeApiCachingOptions;
+  /**
+   * Throttling limits for this operation, which override the stage throttling limits
+   * @default - the stage throttling limits apply
+   */
+  readonly throttling?: ThrottleSettings;
+}
+
+/**
+ * Options for caching responses to an operation
+ */
+export interface TypeSafeApiCachingOptions {
+  /**
+   * Set to false to disable caching for the operation, for example when caching is enabled for all methods in the
+   * stage deploy options
+   * @default true
+   */
+  readonly enabled?: boolean;
+  /**
+   * Time to live for cached responses
+   * @default Duration.minutes(5)
+   */
+  readonly ttl?: Duration;
+  /**
+   * Request parameters to include in the cache key, eg. method.request.path.id or method.request.querystring.page
+   * @default - only the method and path are included in the cache key
+   */
+  readonly cacheKeyParameters?: string[];
+  /**
+   * Whether the cached responses are encrypted
+   * @default false
+   */
+  readonly dataEncrypted?: boolean;
 }
 
 /**
@@ -101,6 +146,42 @@ export interface ApiKeyOptions {
   readonly requiredByDefault?: boolean;
 }
 
+/**
+ * A usage plan for an API, which applies to the API's deployment stage
+ */
+export interface TypeSafeApiUsagePlan {
+  /**
+   * Name of the usage plan
+   * @default - a name is generated by CloudFormation
+   */
+  readonly name?: string;
+  /**
+   * Description of the usage plan
+   * @default - no description
+   */
+  readonly description?: string;
+  /**
+   * Throttling limits which apply to all operations in the usage plan
+   * @default - no throttling
+   */
+  readonly throttle?: ThrottleSettings;
+  /**
+   * Number of requests clients can make in a given time period
+   * @default - no quota
+   */
+  readonly quota?: QuotaSettings;
+  /**
+   * Throttling limits for individual operations, keyed by operation id
+   * @default - the usage plan throttling limits apply to all operations
+   */
+  readonly operationThrottles?: { [operationId: string]: ThrottleSettings };
+  /**
+   * API keys to associate with the usage plan
+   * @default - no api keys are associated with the usage plan
+   */
+  readonly apiKeys?: IApiKey[];
+}
+
 /**
  * Options required alongside an Open API specification to create API Gateway resources
  */
@@ -1,8 +1,20 @@
 /*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
 SPDX-License-Identifier: Apache-2.0 */
+import {
+  Cors,
+  CorsOptions,
+  MethodDeploymentOptions,
+} from "aws-cdk-lib/aws-apigateway";
 import { IFunction } from "aws-cdk-lib/aws-lambda";
+import { OpenAPIV3 } from "openapi-types";
 import { getAllAuthorizers } from "./api-gateway-auth";
-import { TypeSafeApiOptions } from "./api-gateway-integrations-types";
+import {
+  MethodAndPath,
+  OperationLookup,
+  SerializedCorsOptions,
+  TypeSafeApiIntegration,
+  TypeSafeApiOptions,
+} from "./api-gateway-integrations-types";
 import { CustomAuthorizer } from "../authorizers";
 import { isCustomAuthorizer } from "../authorizers/predicates";
 
@@ -32,3 +44,154 @@ export const getAuthorizerFunctions = (
       label: authorizer.authorizerId,
       function: (authorizer as CustomAuthorizer).function,
     }));
+
+/**
+ * Serialise the cross-origin resource sharing options for the api, applying defaults
+ */
+export const serializeCorsOptions = (
+  corsOptions?: CorsOptions
+): SerializedCorsOptions | undefined =>
+  corsOptions && {
+    allowHeaders: corsOptions.allowHeaders || [
+      ...Cors.DEFAULT_HEADERS,
+      "x-amz-content-sha256",
+    ],
+    allowMethods: corsOptions.allowMethods || Cors.ALL_METHODS,
+    allowOrigins: corsOptions.allowOrigins,
+    statusCode: corsOptions.statusCode || 204,
+  };
+
+/**
+ * Return the status codes of the responses defined for the given operation in the spec. The method is matched case
+ * insensitively, since the generated operation lookup uses upper case methods while spec path items use lower case.
+ * @param spec the OpenAPI spec
+ * @param operation the method and path of the operation
+ */
+export const getResponseStatusCodes = (
+  spec: OpenAPIV3.Document,
+  operation?: MethodAndPath
+): number[] =>
+  Object.keys(
+    (operation &&
+      spec.paths?.[operation.path]?.[
+        operation.method.toLowerCase() as OpenAPIV3.HttpMethods
+      ]?.responses) ??
+      {}
+  )
+    .filter((statusCode) => /^\d{3}$/.test(statusCode))
+    .map((statusCode) => Number(statusCode));
+
+/**
+ * Return the path which identifies an operation in stage method options and usage plan throttles, eg. /pets/{id}/GET
+ */
+export const getMethodOptionsPath = ({ method, path }: MethodAndPath): string =>
+  `${path}/${method.toUpperCase()}`;
+
+/**
+ * Return the method and path of the given operation, throwing if it's not present in the operation lookup
+ * @param operationLookup details about each operation
+ * @param operationId the operation to look up
+ * @param referencedBy description of what references the operation (for clearer error messages)
+ */
+export const lookupOperation = (
+  operationLookup: OperationLookup,
+  operationId: string,
+  referencedBy: string
+): MethodAndPath => {
+  if (!(operationId in operationLookup)) {
+    throw new Error(
+      `${referencedBy} references operation ${operationId} which is not defined in the operationLookup`
+    );
+  }
+  return operationLookup[operationId];
+};
+
+/**
+ * Validate the cache key parameters for an operation, which must be method request parameters. Path parameters must
+ * be present in the operation's path.
+ */
+const validateCacheKeyParameters = (
+  operationId: string,
+  { path }: MethodAndPath,
+  cacheKeyParameters: string[]
+) => {
+  cacheKeyParameters.forEach((cacheKeyParameter) => {
+    const match = cacheKeyParameter.match(
+      /^method\.request\.(path|querystring|multivaluequerystring|header|multivalueheader)\.(.+)$/
+    );
+    if (!match) {
+      throw new Error(
+        `Invalid cache key parameter ${cacheKeyParameter} for operation ${operationId}. Cache key parameters must be of the form method.request.{path|querystring|header}.{name}`
+      );
+    }
+    if (match[1] === "path" && !path.includes(`{${match[2]}}`)) {
+      throw new Error(
+        `Cache key parameter ${cacheKeyParameter} for operation ${operationId} is not a path parameter of ${path}`
+      );
+    }
+  });
+};
+
+/**
+ * Return the integration properties which configure caching for the given operation
+ */
+export const getIntegrationCacheOptions = (
+  operationId: string,
+  integration: TypeSafeApiIntegration,
+  operationLookup: OperationLookup
+): { cacheKeyParameters?: string[] } => {
+  const cacheKeyParameters =
+    integration.options?.caching?.cacheKeyParameters ?? [];
+  if (cacheKeyParameters.length === 0) {
+    return {};
+  }
+  validateCacheKeyParameters(
+    operationId,
+    lookupOperation(
+      operationLookup,
+      operationId,
+      `Caching options for operation ${operationId}`
+    ),
+    cacheKeyParameters
+  );
+  return { cacheKeyParameters };
+};
+
+/**
+ * Return stage method options for all operations with caching or throttling options, keyed by method options path
+ */
+export const getMethodDeploymentOptions = ({
+  integrations,
+  operationLookup,
+}: TypeSafeApiOptions): { [path: string]: MethodDeploymentOptions } =>
+  Object.fromEntries(
+    Object.entries(integrations)
+      .filter(([, { options }]) => options?.caching || options?.throttling)
+      .map(([operationId, { options }]) => {
+        const { caching, throttling } = options!;
+        return [
+          getMethodOptionsPath(
+            lookupOperation(
+              operationLookup,
+              operationId,
+              `Caching or throttling options for operation ${operationId}`
+            )
+          ),
+          {
+            ...(caching
+              ? {
+                  cachingEnabled: caching.enabled ?? true,
+                  cacheTtl: caching.ttl,
+                  cacheDataEncrypted: caching.dataEncrypted,
+                }
+              : {}),
+            ...(throttling
+              ? {
+                  throttlingRateLimit: throttling.rateLimit,
+                  throttlingBurstLimit: throttling.burstLimit,
+                }
+              : {}),
+          },
+        ];
+      })
+  );
@@ -0,0 +1,246 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as path from "path";
+import { PDKNag } from "@aws/pdk-nag";
+import { Duration, Stack } from "aws-cdk-lib";
+import {
+  Effect,
+  PolicyDocument,
+  PolicyStatement,
+  Role,
+  ServicePrincipal,
+} from "aws-cdk-lib/aws-iam";
+import {
+  Code,
+  Function as LambdaFunction,
+  Runtime,
+} from "aws-cdk-lib/aws-lambda";
+import { IBucket } from "aws-cdk-lib/aws-s3";
+import { Asset } from "aws-cdk-lib/aws-s3-assets";
+import { Provider } from "aws-cdk-lib/custom-resources";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+
+/**
+ * Options for creating the custom resource provider which prepares the spec
+ */
+export interface PrepareSpecProviderOptions {
+  /**
+   * Path to the JSON open api spec
+   */
+  readonly specPath: string;
+  /**
+   * Bucket to write the prepared spec to
+   * @default - the CDK assets bucket
+   */
+  readonly outputSpecBucket?: IBucket;
+}
+
+/**
+ * Resources for preparing the spec for deployment in a custom resource
+ */
+export interface PrepareSpecProvider {
+  /**
+   * The asset for the input spec
+   */
+  readonly inputSpecAsset: Asset;
+  /**
+   * The bucket the prepared spec is written to
+   */
+  readonly outputSpecBucket: IBucket;
+  /**
+   * Key prefix under which the prepared spec is written
+   */
+  readonly outputSpecKeyPrefix: string;
+  /**
+   * The custom resource provider which prepares the spec
+   */
+  readonly provider: Provider;
+}
+
+/**
+ * Create the resources for preparing the spec for deployment (adding integrations, authorizers, etc) in a custom
+ * resource, such that references to lambda integrations etc can be resolved
+ * @param scope the api construct in which to create the resources
+ * @param options options for the provider
+ */
+export const createPrepareSpecProvider = (
+  scope: Construct,
+  { specPath, outputSpecBucket }: PrepareSpecProviderOptions
+): PrepareSpecProvider => {
+  // Upload the spec to s3 as an asset
+  const inputSpecAsset = new Asset(scope, "InputSpec", {
+    path: specPath,
+  });
+
+  const prepareSpecOutputBucket = outputSpecBucket ?? inputSpecAsset.bucket;
+  // We'll output the prepared spec in the same asset bucket
+  const preparedSpecOutputKeyPrefix = `${inputSpecAsset.s3ObjectKey}-prepared`;
+
+  const stack = Stack.of(scope);
+
+  // Lambda name prefix is truncated to 48 characters (16 below the max of 64)
+  const lambdaNamePrefix = `${PDKNag.getStackPrefix(stack)
+    .split("/")
+    .join("-")
+    .slice(0, 40)}${scope.node.addr.slice(-8).toUpperCase()}`;
+  const prepareSpecLambdaName = `${lambdaNamePrefix}PrepSpec`;
+  const prepareSpecRole = new Role(scope, "PrepareSpecRole", {
+    assumedBy: new ServicePrincipal("lambda.amazonaws.com"),
+    inlinePolicies: {
+      logs: new PolicyDocument({
+        statements: [
+          new PolicyStatement({
+            effect: Effect.ALLOW,
+            actions: [
+              "logs:CreateLogGroup",
+              "logs:CreateLogStream",
+              "logs:PutLogEvents",
+            ],
+            resources: [
+              `arn:aws:logs:${stack.region}:${stack.account}:log-group:/aws/lambda/${prepareSpecLambdaName}`,
+              `arn:aws:logs:${stack.region}:${stack.account}:log-group:/aws/lambda/${prepareSpecLambdaName}:*`,
+            ],
+          }),
+        ],
+      }),
+      s3: new PolicyDocument({
+        statements: [
+          new PolicyStatement({
+            effect: Effect.ALLOW,
+            actions: ["s3:getObject"],
+            resources: [
+              inputSpecAsset.bucket.arnForObjects(inputSpecAsset.s3ObjectKey),
+            ],
+          }),
+          new PolicyStatement({
+            effect: Effect.ALLOW,
+            actions: ["s3:putObject"],
+            resources: [
+              // The output file will include a hash of the prepared spec, which is not known until deploy time since
+              // tokens must be resolved
+              prepareSpecOutputBucket.arnForObjects(
+                `${preparedSpecOutputKeyPrefix}/*`
+              ),
+            ],
+          }),
+        ],
+      }),
+    },
+  });
+
+  ["AwsSolutions-IAM5", "AwsPrototyping-IAMNoWildcardPermissions"].forEach(
+    (RuleId) => {
+      NagSuppressions.addResourceSuppressions(
+        prepareSpecRole,
+        [
+          {
+            id: RuleId,
+            reason:
+              "Cloudwatch resources have been scoped down to the LogGroup level, however * is still needed as stream names are created just in time.",
+            appliesTo: [
+              {
+                regex: `/^Resource::arn:aws:logs:${PDKNag.getStackRegionRegex(
+                  stack
+                )}:${PDKNag.getStackAccountRegex(
+                  stack
+                )}:log-group:/aws/lambda/${prepareSpecLambdaName}:\*/g`,
+              },
+            ],
+          },
+          {
+            id: RuleId,
+            reason:
+              "S3 resources have been scoped down to the appropriate prefix in the CDK asset bucket, however * is still needed as since the prepared spec hash is not known until deploy time.",
+            appliesTo: [
+              {
+                regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
+                  stack
+                )}:s3:.*/${preparedSpecOutputKeyPrefix}/\*/g`,
+              },
+            ],
+          },
+        ],
+        true
+      );
+    }
+  );
+
+  // Create a custom resource for preparing the spec for deployment (adding integrations, authorizers, etc)
+  const prepareSpec = new LambdaFunction(scope, "PrepareSpecHandler", {
+    handler: "index.handler",
+    runtime: Runtime.NODEJS_18_X,
+    code: Code.fromAsset(path.join(__dirname, "../prepare-spec-event-handler")),
+    timeout: Duration.seconds(30),
+    role: prepareSpecRole,
+    functionName: prepareSpecLambdaName,
+  });
+
+  const providerFunctionName = `${lambdaNamePrefix}PrepSpecProvider`;
+  const providerRole = new Role(scope, "PrepareSpecProviderRole", {
+    assumedBy: new ServicePrincipal("lambda.amazonaws.com"),
+    inlinePolicies: {
+      logs: new PolicyDocument({
+        statements: [
+          new PolicyStatement({
+            effect: Effect.ALLOW,
+            actions: [
+              "logs:CreateLogGroup",
+              "logs:CreateLogStream",
+              "logs:PutLogEvents",
+            ],
+            resources: [
+              `arn:aws:logs:${stack.region}:${stack.account}:log-group:/aws/lambda/${providerFunctionName}`,
+              `arn:aws:logs:${stack.region}:${stack.account}:log-group:/aws/lambda/${providerFunctionName}:*`,
+            ],
+          }),
+        ],
+      }),
+    },
+  });
+
+  const provider = new Provider(scope, "PrepareSpecProvider", {
+    onEventHandler: prepareSpec,
+    role: providerRole,
+    providerFunctionName,
+  });
+
+  ["AwsSolutions-IAM5", "AwsPrototyping-IAMNoWildcardPermissions"].forEach(
+    (RuleId) => {
+      NagSuppressions.addResourceSuppressions(
+        providerRole,
+        [
+          {
+            id: RuleId,
+            reason:
+              "Cloudwatch resources have been scoped down to the LogGroup level, however * is still needed as stream names are created just in time.",
+          },
+        ],
+        true
+      );
+    }
+  );
+
+  ["AwsSolutions-L1", "AwsPrototyping-LambdaLatestVersion"].forEach(
+    (RuleId) => {
+      NagSuppressions.addResourceSuppressions(
+        provider,
+        [
+          {
+            id: RuleId,
+            reason:
+              "Latest runtime cannot be configured. CDK will need to upgrade the Provider construct accordingly.",
+          },
+        ],
+        true
+      );
+    }
+  );
+
+  return {
+    inputSpecAsset,
+    outputSpecBucket: prepareSpecOutputBucket,
+    outputSpecKeyPrefix: preparedSpecOutputKeyPrefix,
+    provider,
+  };
+};
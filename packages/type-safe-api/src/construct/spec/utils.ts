@@ -3,6 +3,7 @@ SPDX-License-Identifier: Apache-2.0 */
 import { Stack } from "aws-cdk-lib";
 import { IFunction } from "aws-cdk-lib/aws-lambda";
 import { IBucket } from "aws-cdk-lib/aws-s3";
+import { IConstruct } from "constructs";
 
 /**
  * Generate the lambda function invocation uri for the given lambda within the given scope
@@ -24,3 +25,35 @@ export const bucketInvocationUri = (bucket: IBucket, path?: string): string => {
     bucket.bucketName
   }/${path ?? ""}`;
 };
+
+/**
+ * Generate the invocation uri for an AWS service action, for use in an AWS service integration
+ * @param scope the scope in which the integration is defined
+ * @param service the service subdomain, eg. dynamodb
+ * @param action the service action to invoke, eg. GetItem
+ */
+export const serviceActionInvocationUri = (
+  scope: IConstruct,
+  service: string,
+  action: string
+): string => {
+  const stack = Stack.of(scope);
+  return `arn:${stack.partition}:apigateway:${stack.region}:${service}:action/${action}`;
+};
+
+/**
+ * Generate the invocation uri for an AWS service path, for use in an AWS service integration
+ * @param scope the scope in which the integration is defined
+ * @param service the service subdomain, eg. events
+ * @param path the path to invoke, defaults to the service root
+ */
+export const servicePathInvocationUri = (
+  scope: IConstruct,
+  service: string,
+  path?: string
+): string => {
+  const stack = Stack.of(scope);
+  return `arn:${stack.partition}:apigateway:${stack.region}:${service}:path/${
+    path ?? "/"
+  }`;
+};
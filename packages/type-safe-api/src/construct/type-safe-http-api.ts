@@ -0,0 +1,310 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as fs from "fs";
+import { CustomResource, Stack } from "aws-cdk-lib";
+import { CorsOptions, ThrottleSettings } from "aws-cdk-lib/aws-apigateway";
+import { CfnApi, CfnStage } from "aws-cdk-lib/aws-apigatewayv2";
+import { CfnPermission } from "aws-cdk-lib/aws-lambda";
+import { LogGroup } from "aws-cdk-lib/aws-logs";
+import { IBucket } from "aws-cdk-lib/aws-s3";
+import { Construct } from "constructs";
+import { Authorizer } from "./authorizers";
+import { PrepareHttpApiSpecCustomResourceProperties } from "./prepare-spec-event-handler";
+import {
+  prepareHttpApiSpec,
+  PrepareHttpApiSpecOptions,
+} from "./prepare-spec-event-handler/prepare-spec";
+import {
+  MethodAndPath,
+  OperationLookup,
+  TypeSafeApiIntegrations,
+} from "./spec";
+import {
+  prepareHttpApiSecuritySchemes,
+  serializeAsAuthorizerReference,
+} from "./spec/api-gateway-auth";
+import {
+  getAuthorizerFunctions,
+  getResponseStatusCodes,
+  serializeCorsOptions,
+} from "./spec/api-gateway-integrations";
+import { createPrepareSpecProvider } from "./spec/prepare-spec-provider";
+
+/**
+ * Configuration for the TypeSafeHttpApi construct
+ */
+export interface TypeSafeHttpApiProps {
+  /**
+   * Path to the JSON open api spec
+   */
+  readonly specPath: string;
+  /**
+   * A mapping of API operation to its integration
+   */
+  readonly integrations: TypeSafeApiIntegrations;
+  /**
+   * Details about each operation
+   */
+  readonly operationLookup: OperationLookup;
+  /**
+   * The default authorizer to use for your api. When omitted, no default authorizer is used.
+   * Authorizers specified at the integration level will override this for that operation.
+   */
+  readonly defaultAuthorizer?: Authorizer;
+  /**
+   * Cross Origin Resource Sharing options for the API. Preflight requests are handled by the HTTP API.
+   * @default - cors is not enabled
+   */
+  readonly corsOptions?: CorsOptions;
+  /**
+   * By default, the spec is prepared and outputted into the CDK assets bucket. If this is undesired,
+   * use this option to specify the output bucket.
+   */
+  readonly outputSpecBucket?: IBucket;
+  /**
+   * Name of the HTTP API
+   * @default - the title of the api in the spec
+   */
+  readonly apiName?: string;
+  /**
+   * Description of the HTTP API
+   * @default - the description of the api in the spec
+   */
+  readonly description?: string;
+  /**
+   * Disable the default execute-api endpoint, such that clients must invoke the api via a custom domain
+   * @default false
+   */
+  readonly disableExecuteApiEndpoint?: boolean;
+  /**
+   * Roll back the import of the spec when a warning is encountered
+   * @default false
+   */
+  readonly failOnWarnings?: boolean;
+  /**
+   * Throttling limits for all operations, which may be overridden by the throttling options of each integration
+   * @default - the account level throttling limits apply
+   */
+  readonly throttle?: ThrottleSettings;
+  /**
+   * Disable access logging
+   * @default false
+   */
+  readonly disableAccessLogging?: boolean;
+}
+
+/**
+ * Return the HTTP API route key for an operation, eg. "GET /pets/{petId}"
+ */
+const getRouteKey = ({ method, path }: MethodAndPath): string =>
+  `${method.toUpperCase()} ${path}`;
+
+/**
+ * A construct for creating an api gateway HTTP api based on the definition in the OpenAPI spec. HTTP APIs are lower
+ * cost and lower latency than REST APIs, but support fewer features.
+ * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/http-api-vs-rest.html
+ */
+export class TypeSafeHttpApi extends Construct {
+  /**
+   * Underlying API Gateway HTTP API
+   */
+  public readonly api: CfnApi;
+  /**
+   * The $default stage to which the api is automatically deployed
+   */
+  public readonly stage: CfnStage;
+  /**
+   * The url of the $default stage of the api
+   */
+  public readonly url: string;
+  /**
+   * The OpenAPI specification with applied API gateway extensions
+   */
+  readonly extendedApiSpecification: any;
+
+  constructor(scope: Construct, id: string, props: TypeSafeHttpApiProps) {
+    super(scope, id);
+
+    const {
+      integrations,
+      specPath,
+      operationLookup,
+      defaultAuthorizer,
+      corsOptions,
+      outputSpecBucket,
+      throttle,
+    } = props;
+
+    // API keys and caching are configured in the deployment stage of a REST API, and have no HTTP API equivalent
+    Object.entries(integrations).forEach(([operationId, { options }]) => {
+      if (options?.apiKeyRequired || options?.caching) {
+        throw new Error(
+          `API keys and caching are not supported by HTTP APIs, but were configured for operation ${operationId}`
+        );
+      }
+    });
+
+    const {
+      inputSpecAsset,
+      outputSpecBucket: prepareSpecOutputBucket,
+      outputSpecKeyPrefix: preparedSpecOutputKeyPrefix,
+      provider,
+    } = createPrepareSpecProvider(this, { specPath, outputSpecBucket });
+
+    const stack = Stack.of(this);
+
+    const serializedCorsOptions = serializeCorsOptions(corsOptions);
+
+    const spec = JSON.parse(fs.readFileSync(specPath, "utf-8"));
+
+    const prepareSpecOptions: PrepareHttpApiSpecOptions = {
+      defaultAuthorizerReference:
+        serializeAsAuthorizerReference(defaultAuthorizer),
+      integrations: Object.fromEntries(
+        Object.entries(integrations).map(([operationId, integration]) => [
+          operationId,
+          {
+            integration: integration.integration.renderHttpApi({
+              operationId,
+              scope: this,
+              ...operationLookup[operationId],
+              corsOptions: serializedCorsOptions,
+              operationLookup,
+              responseStatusCodes: getResponseStatusCodes(
+                spec,
+                operationLookup[operationId]
+              ),
+            }),
+            methodAuthorizer: serializeAsAuthorizerReference(
+              integration.authorizer
+            ),
+          },
+        ])
+      ),
+      securitySchemes: prepareHttpApiSecuritySchemes(
+        integrations,
+        defaultAuthorizer
+      ),
+      corsOptions: serializedCorsOptions,
+      operationLookup,
+    };
+
+    // Spec preparation will happen in a custom resource lambda so that references to lambda integrations etc can be
+    // resolved. However, we also prepare inline to perform some additional validation at synth time.
+    this.extendedApiSpecification = prepareHttpApiSpec(
+      spec,
+      prepareSpecOptions
+    );
+
+    const prepareApiSpecCustomResourceProperties: PrepareHttpApiSpecCustomResourceProperties =
+      {
+        apiType: "http",
+        inputSpecLocation: {
+          bucket: inputSpecAsset.bucket.bucketName,
+          key: inputSpecAsset.s3ObjectKey,
+        },
+        outputSpecLocation: {
+          bucket: prepareSpecOutputBucket.bucketName,
+          key: preparedSpecOutputKeyPrefix,
+        },
+        ...prepareSpecOptions,
+      };
+
+    const prepareSpecCustomResource = new CustomResource(
+      this,
+      "PrepareSpecCustomResource",
+      {
+        serviceToken: provider.serviceToken,
+        properties: prepareApiSpecCustomResourceProperties,
+      }
+    );
+
+    // Import the prepared spec into the HTTP API. The output key includes a hash of the prepared spec, so the api is
+    // re-imported whenever the spec changes.
+    this.api = new CfnApi(this, id, {
+      ...(this.node.tryGetContext("type-safe-api-local")
+        ? { body: this.extendedApiSpecification }
+        : {
+            bodyS3Location: {
+              bucket: prepareSpecOutputBucket.bucketName,
+              key: prepareSpecCustomResource.getAttString("outputSpecKey"),
+            },
+          }),
+      name: props.apiName,
+      description: props.description,
+      disableExecuteApiEndpoint: props.disableExecuteApiEndpoint,
+      failOnWarnings: props.failOnWarnings,
+    });
+
+    this.api.node.addDependency(prepareSpecCustomResource);
+
+    // Throttling for individual operations is configured in the route settings of the stage, keyed by route
+    const routeSettings = Object.fromEntries(
+      Object.entries(integrations).flatMap(([operationId, { options }]) =>
+        options?.throttling
+          ? [
+              [
+                getRouteKey(operationLookup[operationId]),
+                {
+                  ThrottlingRateLimit: options.throttling.rateLimit,
+                  ThrottlingBurstLimit: options.throttling.burstLimit,
+                },
+              ],
+            ]
+          : []
+      )
+    );
+
+    // The $default stage is served from the base url of the api, and changes to the api are deployed automatically
+    this.stage = new CfnStage(this, "DefaultStage", {
+      apiId: this.api.attrApiId,
+      stageName: "$default",
+      autoDeploy: true,
+      ...(throttle
+        ? {
+            defaultRouteSettings: {
+              throttlingRateLimit: throttle.rateLimit,
+              throttlingBurstLimit: throttle.burstLimit,
+            },
+          }
+        : {}),
+      ...(Object.keys(routeSettings).length > 0 ? { routeSettings } : {}),
+    });
+
+    // Enable access logging by default
+    if (!props.disableAccessLogging) {
+      const logGroup = new LogGroup(this, `AccessLogs`);
+      this.stage.accessLogSettings = {
+        destinationArn: logGroup.logGroupArn,
+        format: `$context.identity.sourceIp - - [$context.requestTime] "$context.httpMethod $context.routeKey $context.protocol" $context.status $context.responseLength $context.requestId`,
+      };
+    }
+
+    this.url = `${this.api.attrApiEndpoint}/`;
+
+    // Grant API Gateway permission to invoke the integrations
+    Object.keys(integrations).forEach((operationId) => {
+      integrations[operationId].integration.grantHttpApi({
+        operationId,
+        scope: this,
+        api: this.api,
+        ...operationLookup[operationId],
+        operationLookup,
+      });
+    });
+
+    // Grant API Gateway permission to invoke each custom authorizer lambda (if any)
+    getAuthorizerFunctions(props).forEach(({ label, function: lambda }) => {
+      new CfnPermission(this, `LambdaPermission-${label}`, {
+        action: "lambda:InvokeFunction",
+        principal: "apigateway.amazonaws.com",
+        functionName: lambda.functionArn,
+        sourceArn: stack.formatArn({
+          service: "execute-api",
+          resource: this.api.attrApiId,
+          resourceName: "*/*",
+        }),
+      });
+    });
+  }
+}
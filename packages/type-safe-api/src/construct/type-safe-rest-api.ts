@@ -1,40 +1,26 @@
 /*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
 SPDX-License-Identifier: Apache-2.0 */
 import * as fs from "fs";
-import * as path from "path";
 import { PDKNag } from "@aws/pdk-nag";
-import { CustomResource, Duration, Size, Stack } from "aws-cdk-lib";
+import { CustomResource, Size, Stack } from "aws-cdk-lib";
 import {
   AccessLogFormat,
   ApiDefinition,
-  Cors,
+  CfnUsagePlan,
   LogGroupLogDestination,
   MethodLoggingLevel,
   RestApiBaseProps,
   SpecRestApi,
+  UsagePlan,
 } from "aws-cdk-lib/aws-apigateway";
-import {
-  Effect,
-  PolicyDocument,
-  PolicyStatement,
-  Role,
-  ServicePrincipal,
-} from "aws-cdk-lib/aws-iam";
-import {
-  CfnPermission,
-  Code,
-  Function as LambdaFunction,
-  Runtime,
-} from "aws-cdk-lib/aws-lambda";
+import { CfnPermission } from "aws-cdk-lib/aws-lambda";
 import { LogGroup } from "aws-cdk-lib/aws-logs";
 import { IBucket } from "aws-cdk-lib/aws-s3";
-import { Asset } from "aws-cdk-lib/aws-s3-assets";
 import {
   CfnIPSet,
   CfnWebACL,
   CfnWebACLAssociation,
 } from "aws-cdk-lib/aws-wafv2";
-import { Provider } from "aws-cdk-lib/custom-resources";
 import { NagSuppressions } from "cdk-nag";
 import { Construct } from "constructs";
 import { PrepareApiSpecCustomResourceProperties } from "./prepare-spec-event-handler";
@@ -42,12 +28,21 @@ import {
   prepareApiSpec,
   PrepareApiSpecOptions,
 } from "./prepare-spec-event-handler/prepare-spec";
-import { SerializedCorsOptions, TypeSafeApiOptions } from "./spec";
+import { TypeSafeApiOptions, TypeSafeApiUsagePlan } from "./spec";
 import {
   prepareSecuritySchemes,
   serializeAsAuthorizerReference,
 } from "./spec/api-gateway-auth";
-import { getAuthorizerFunctions } from "./spec/api-gateway-integrations";
+import {
+  getAuthorizerFunctions,
+  getIntegrationCacheOptions,
+  getMethodDeploymentOptions,
+  getMethodOptionsPath,
+  getResponseStatusCodes,
+  lookupOperation,
+  serializeCorsOptions,
+} from "./spec/api-gateway-integrations";
+import { createPrepareSpecProvider } from "./spec/prepare-spec-provider";
 import { OpenApiGatewayWebAcl } from "./waf/open-api-gateway-web-acl";
 import { TypeSafeApiWebAclOptions } from "./waf/types";
 
@@ -84,6 +79,13 @@ export interface TypeSafeRestApiProps
    * use this option to specify the output bucket.
    */
   readonly outputSpecBucket?: IBucket;
+
+  /**
+   * Usage plans to create for the API's deployment stage, keyed by a unique identifier for the usage plan.
+   * Per-operation throttling limits may be defined by referencing operations by their operation id.
+   * @default - no usage plans are created
+   */
+  readonly usagePlans?: { [id: string]: TypeSafeApiUsagePlan };
 }
 
 /**
@@ -110,6 +112,10 @@ export class TypeSafeRestApi extends Construct {
    * Reference to the web acl association if created
    */
   readonly webAclAssociation?: CfnWebACLAssociation;
+  /**
+   * Usage plans created for the api, keyed by the identifiers given in the usagePlans property
+   */
+  readonly usagePlans: { [id: string]: UsagePlan };
 
   constructor(scope: Construct, id: string, props: TypeSafeRestApiProps) {
     super(scope, id);
@@ -121,190 +127,23 @@ export class TypeSafeRestApi extends Construct {
       defaultAuthorizer,
       corsOptions,
       outputSpecBucket,
+      deployOptions,
+      usagePlans,
       ...options
     } = props;
 
-    // Upload the spec to s3 as an asset
-    const inputSpecAsset = new Asset(this, "InputSpec", {
-      path: specPath,
-    });
-
-    const prepareSpecOutputBucket = outputSpecBucket ?? inputSpecAsset.bucket;
-    // We'll output the prepared spec in the same asset bucket
-    const preparedSpecOutputKeyPrefix = `${inputSpecAsset.s3ObjectKey}-prepared`;
+    const {
+      inputSpecAsset,
+      outputSpecBucket: prepareSpecOutputBucket,
+      outputSpecKeyPrefix: preparedSpecOutputKeyPrefix,
+      provider,
+    } = createPrepareSpecProvider(this, { specPath, outputSpecBucket });
 
     const stack = Stack.of(this);
 
-    // Lambda name prefix is truncated to 48 characters (16 below the max of 64)
-    const lambdaNamePrefix = `${PDKNag.getStackPrefix(stack)
-      .split("/")
-      .join("-")
-      .slice(0, 40)}${this.node.addr.slice(-8).toUpperCase()}`;
-    const prepareSpecLambdaName = `${lambdaNamePrefix}PrepSpec`;
-    const prepareSpecRole = new Role(this, "PrepareSpecRole", {
-      assumedBy: new ServicePrincipal("lambda.amazonaws.com"),
-      inlinePolicies: {
-        logs: new PolicyDocument({
-          statements: [
-            new PolicyStatement({
-              effect: Effect.ALLOW,
-              actions: [
-                "logs:CreateLogGroup",
-                "logs:CreateLogStream",
-                "logs:PutLogEvents",
-              ],
-              resources: [
-                `arn:aws:logs:${stack.region}:${stack.account}:log-group:/aws/lambda/${prepareSpecLambdaName}`,
-                `arn:aws:logs:${stack.region}:${stack.account}:log-group:/aws/lambda/${prepareSpecLambdaName}:*`,
-              ],
-            }),
-          ],
-        }),
-        s3: new PolicyDocument({
-          statements: [
-            new PolicyStatement({
-              effect: Effect.ALLOW,
-              actions: ["s3:getObject"],
-              resources: [
-                inputSpecAsset.bucket.arnForObjects(inputSpecAsset.s3ObjectKey),
-              ],
-            }),
-            new PolicyStatement({
-              effect: Effect.ALLOW,
-              actions: ["s3:putObject"],
-              resources: [
-                // The output file will include a hash of the prepared spec, which is not known until deploy time since
-                // tokens must be resolved
-                prepareSpecOutputBucket.arnForObjects(
-                  `${preparedSpecOutputKeyPrefix}/*`
-                ),
-              ],
-            }),
-          ],
-        }),
-      },
-    });
-
-    ["AwsSolutions-IAM5", "AwsPrototyping-IAMNoWildcardPermissions"].forEach(
-      (RuleId) => {
-        NagSuppressions.addResourceSuppressions(
-          prepareSpecRole,
-          [
-            {
-              id: RuleId,
-              reason:
-                "Cloudwatch resources have been scoped down to the LogGroup level, however * is still needed as stream names are created just in time.",
-              appliesTo: [
-                {
-                  regex: `/^Resource::arn:aws:logs:${PDKNag.getStackRegionRegex(
-                    stack
-                  )}:${PDKNag.getStackAccountRegex(
-                    stack
-                  )}:log-group:/aws/lambda/${prepareSpecLambdaName}:\*/g`,
-                },
-              ],
-            },
-            {
-              id: RuleId,
-              reason:
-                "S3 resources have been scoped down to the appropriate prefix in the CDK asset bucket, however * is still needed as since the prepared spec hash is not known until deploy time.",
-              appliesTo: [
-                {
-                  regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
-                    stack
-                  )}:s3:.*/${preparedSpecOutputKeyPrefix}/\*/g`,
-                },
-              ],
-            },
-          ],
-          true
-        );
-      }
-    );
-
-    // Create a custom resource for preparing the spec for deployment (adding integrations, authorizers, etc)
-    const prepareSpec = new LambdaFunction(this, "PrepareSpecHandler", {
-      handler: "index.handler",
-      runtime: Runtime.NODEJS_18_X,
-      code: Code.fromAsset(
-        path.join(__dirname, "./prepare-spec-event-handler")
-      ),
-      timeout: Duration.seconds(30),
-      role: prepareSpecRole,
-      functionName: prepareSpecLambdaName,
-    });
-
-    const providerFunctionName = `${lambdaNamePrefix}PrepSpecProvider`;
-    const providerRole = new Role(this, "PrepareSpecProviderRole", {
-      assumedBy: new ServicePrincipal("lambda.amazonaws.com"),
-      inlinePolicies: {
-        logs: new PolicyDocument({
-          statements: [
-            new PolicyStatement({
-              effect: Effect.ALLOW,
-              actions: [
-                "logs:CreateLogGroup",
-                "logs:CreateLogStream",
-                "logs:PutLogEvents",
-              ],
-              resources: [
-                `arn:aws:logs:${stack.region}:${stack.account}:log-group:/aws/lambda/${providerFunctionName}`,
-                `arn:aws:logs:${stack.region}:${stack.account}:log-group:/aws/lambda/${providerFunctionName}:*`,
-              ],
-            }),
-          ],
-        }),
-      },
-    });
-
-    const provider = new Provider(this, "PrepareSpecProvider", {
-      onEventHandler: prepareSpec,
-      role: providerRole,
-      providerFunctionName,
-    });
-
-    ["AwsSolutions-IAM5", "AwsPrototyping-IAMNoWildcardPermissions"].forEach(
-      (RuleId) => {
-        NagSuppressions.addResourceSuppressions(
-          providerRole,
-          [
-            {
-              id: RuleId,
-              reason:
-                "Cloudwatch resources have been scoped down to the LogGroup level, however * is still needed as stream names are created just in time.",
-            },
-          ],
-          true
-        );
-      }
-    );
+    const serializedCorsOptions = serializeCorsOptions(corsOptions);
 
-    ["AwsSolutions-L1", "AwsPrototyping-LambdaLatestVersion"].forEach(
-      (RuleId) => {
-        NagSuppressions.addResourceSuppressions(
-          provider,
-          [
-            {
-              id: RuleId,
-              reason:
-                "Latest runtime cannot be configured. CDK will need to upgrade the Provider construct accordingly.",
-            },
-          ],
-          true
-        );
-      }
-    );
-
-    const serializedCorsOptions: SerializedCorsOptions | undefined =
-      corsOptions && {
-        allowHeaders: corsOptions.allowHeaders || [
-          ...Cors.DEFAULT_HEADERS,
-          "x-amz-content-sha256",
-        ],
-        allowMethods: corsOptions.allowMethods || Cors.ALL_METHODS,
-        allowOrigins: corsOptions.allowOrigins,
-        statusCode: corsOptions.statusCode || 204,
-      };
+    const spec = JSON.parse(fs.readFileSync(specPath, "utf-8"));
 
     const prepareSpecOptions: PrepareApiSpecOptions = {
       defaultAuthorizerReference:
@@ -313,17 +152,32 @@ export class TypeSafeRestApi extends Construct {
         Object.entries(integrations).map(([operationId, integration]) => [
           operationId,
           {
-            integration: integration.integration.render({
-              operationId,
-              scope: this,
-              ...operationLookup[operationId],
-              corsOptions: serializedCorsOptions,
-              operationLookup,
-            }),
+            integration: {
+              ...integration.integration.render({
+                operationId,
+                scope: this,
+                ...operationLookup[operationId],
+                corsOptions: serializedCorsOptions,
+                operationLookup,
+                responseStatusCodes: getResponseStatusCodes(
+                  spec,
+                  operationLookup[operationId]
+                ),
+              }),
+              ...getIntegrationCacheOptions(
+                operationId,
+                integration,
+                operationLookup
+              ),
+            },
             methodAuthorizer: serializeAsAuthorizerReference(
               integration.authorizer
             ),
-            options: integration.options,
+            // Caching and throttling options are applied to the deployment stage rather than the spec
+            options:
+              integration.options?.apiKeyRequired !== undefined
+                ? { apiKeyRequired: integration.options.apiKeyRequired }
+                : undefined,
           },
         ])
       ),
@@ -340,7 +194,6 @@ export class TypeSafeRestApi extends Construct {
 
     // Spec preparation will happen in a custom resource lambda so that references to lambda integrations etc can be
     // resolved. However, we also prepare inline to perform some additional validation at synth time.
-    const spec = JSON.parse(fs.readFileSync(specPath, "utf-8"));
     this.extendedApiSpecification = prepareApiSpec(spec, prepareSpecOptions);
 
     const prepareApiSpecCustomResourceProperties: PrepareApiSpecCustomResourceProperties =
@@ -365,6 +218,9 @@ export class TypeSafeRestApi extends Construct {
       }
     );
 
+    // Caching and throttling for individual operations is configured in the deployment stage's method options
+    const methodOptions = getMethodDeploymentOptions(props);
+
     // Create the api gateway resources from the spec, augmenting the spec with the properties specific to api gateway
     // such as integrations or auth types
     this.api = new SpecRestApi(this, id, {
@@ -375,11 +231,21 @@ export class TypeSafeRestApi extends Construct {
             prepareSpecCustomResource.getAttString("outputSpecKey")
           ),
       deployOptions: {
-        accessLogDestination: new LogGroupLogDestination(
-          new LogGroup(this, `AccessLogs`)
-        ),
-        accessLogFormat: AccessLogFormat.clf(),
-        loggingLevel: MethodLoggingLevel.INFO,
+        ...(deployOptions ?? {
+          accessLogDestination: new LogGroupLogDestination(
+            new LogGroup(this, `AccessLogs`)
+          ),
+          accessLogFormat: AccessLogFormat.clf(),
+          loggingLevel: MethodLoggingLevel.INFO,
+        }),
+        ...(Object.keys(methodOptions).length > 0
+          ? {
+              methodOptions: {
+                ...methodOptions,
+                ...deployOptions?.methodOptions,
+              },
+            }
+          : {}),
       },
       ...options,
     });
@@ -391,6 +257,52 @@ export class TypeSafeRestApi extends Construct {
     // addToLogicalId method since this is how changes of individual resources/methods etc trigger redeployments in CDK)
     this.api.latestDeployment?.addToLogicalId(this.extendedApiSpecification);
 
+    // Create the usage plans for the deployment stage
+    this.usagePlans = Object.fromEntries(
+      Object.entries(usagePlans ?? {}).map(
+        ([usagePlanId, { operationThrottles, apiKeys, ...usagePlanProps }]) => {
+          const throttledOperations = Object.entries(
+            operationThrottles ?? {}
+          ).map(
+            ([operationId, throttle]) =>
+              [
+                lookupOperation(
+                  operationLookup,
+                  operationId,
+                  `Usage plan ${usagePlanId}`
+                ),
+                throttle,
+              ] as const
+          );
+
+          const usagePlan = this.api.addUsagePlan(`UsagePlan-${usagePlanId}`, {
+            ...usagePlanProps,
+            apiStages: [{ api: this.api, stage: this.api.deploymentStage }],
+          });
+          apiKeys?.forEach((apiKey) => usagePlan.addApiKey(apiKey));
+
+          // Per-method throttling in the usage plan construct requires Method constructs, which are not available for
+          // a SpecRestApi, so we configure the throttling for each operation's method options path directly
+          if (throttledOperations.length > 0) {
+            (usagePlan.node.defaultChild as CfnUsagePlan).addPropertyOverride(
+              "ApiStages.0.Throttle",
+              Object.fromEntries(
+                throttledOperations.map(([operation, throttle]) => [
+                  getMethodOptionsPath(operation),
+                  {
+                    RateLimit: throttle.rateLimit,
+                    BurstLimit: throttle.burstLimit,
+                  },
+                ])
+              )
+            );
+          }
+
+          return [usagePlanId, usagePlan];
+        }
+      )
+    );
+
     // Grant API Gateway permission to invoke the integrations
     Object.keys(integrations).forEach((operationId) => {
       integrations[operationId].integration.grant({
@@ -43,6 +43,10 @@ import { OpenAPIV3 } from "openapi-types";
 import { extractWebSocketSchemas } from "./prepare-spec-event-handler/websocket-schema";
 import { WebSocketSchemaResourceProperties } from "./prepare-spec-event-handler/websocket-schema-handler";
 import { WebSocketApiProps } from "./websocket/websocket-api-props";
+import {
+  WebSocketConnectionStore,
+  WebSocketConnectionStoreOptions,
+} from "./websocket/websocket-connection-store";
 import { WebSocketStageProps } from "./websocket/websocket-stage-props";
 
 /**
@@ -55,6 +59,22 @@ export interface TypeSafeWebsocketApiIntegration {
   readonly integration: WebSocketRouteIntegration;
 }
 
+/**
+ * Creates integrations for the $connect, $disconnect and $default routes, with the api construct as their scope
+ */
+export interface ITypeSafeWebsocketApiSpecialRouteIntegrations {
+  /**
+   * Create the integration for a special route
+   * @param scope the api construct, to be used as the scope of any resources created for the integration
+   * @param routeKey the key of the route, ie. $connect, $disconnect or $default
+   * @returns the integration for the route, or undefined to use the route's default integration
+   */
+  createIntegration(
+    scope: Construct,
+    routeKey: string
+  ): TypeSafeWebsocketApiIntegration | undefined;
+}
+
 export interface WebsocketOperationDetails {
   /**
    * Path in the OpenAPI spec for the operation
@@ -94,6 +114,18 @@ export interface TypeSafeWebsocketApiProps extends WebSocketApiProps {
    * @default mocked
    */
   readonly disconnect?: TypeSafeWebsocketApiIntegration;
+  /**
+   * Integration for the $default route (invoked when a message's route does not match any operation). The response of
+   * the integration is returned to the client.
+   * @default - no $default route, API Gateway responds to messages for unknown routes with a "Forbidden" error
+   */
+  readonly default?: TypeSafeWebsocketApiIntegration;
+  /**
+   * Creates integrations for any of the $connect, $disconnect and $default routes which are not given an integration
+   * above. Use this where the integration's resources (eg. lambda functions) should be nested under the api construct.
+   * @default - special routes use their default integrations
+   */
+  readonly specialRouteIntegrations?: ITypeSafeWebsocketApiSpecialRouteIntegrations;
   /**
    * Authorizer to use for the API (applied to the $connect route)
    * @default NONE
@@ -120,6 +152,13 @@ export interface TypeSafeWebsocketApiProps extends WebSocketApiProps {
    * @default false
    */
   readonly disableAccessLogging?: boolean;
+  /**
+   * When specified, a DynamoDB table of connections is managed for the api. Connections are added and removed by the
+   * $connect and $disconnect routes, and lambda integrations are granted access so the server sdk can broadcast messages
+   * and publish messages to topics.
+   * @default - connections are not stored
+   */
+  readonly connectionStore?: WebSocketConnectionStoreOptions;
 }
 
 /**
@@ -134,6 +173,10 @@ export class TypeSafeWebsocketApi extends Construct {
    * Reference to the default deploy stage
    */
   public readonly defaultStage: WebSocketStage;
+  /**
+   * The managed connection store, if enabled
+   */
+  public readonly connectionStore?: WebSocketConnectionStore;
 
   private readonly _props: TypeSafeWebsocketApiProps;
 
@@ -147,28 +190,63 @@ export class TypeSafeWebsocketApi extends Construct {
       routeSelectionExpression: "$request.body.route",
     });
 
+    if (props.connectionStore) {
+      this.connectionStore = new WebSocketConnectionStore(
+        this,
+        "ConnectionStore",
+        props.connectionStore
+      );
+    }
+
+    // Resolve the integrations for the special routes, falling back to any created by specialRouteIntegrations
+    const specialRouteIntegration = (
+      routeKey: string,
+      integration?: TypeSafeWebsocketApiIntegration
+    ) =>
+      integration ??
+      props.specialRouteIntegrations?.createIntegration(this, routeKey);
+    const connect = specialRouteIntegration("$connect", props.connect);
+    const disconnect = specialRouteIntegration("$disconnect", props.disconnect);
+    const defaultIntegration = specialRouteIntegration(
+      "$default",
+      props.default
+    );
+
     // Add the connect/disconnect routes
     this.addRoute("$connect", {
       integration:
-        props.connect?.integration ??
+        connect?.integration ??
+        this.connectionStore?.connectIntegration ??
         new WebSocketMockIntegration("ConnectIntegration"),
       authorizer: props.authorizer,
     });
     const disconnectRoute = this.addRoute("$disconnect", {
       integration:
-        props.connect?.integration ??
+        disconnect?.integration ??
+        this.connectionStore?.disconnectIntegration ??
         new WebSocketMockIntegration("DisconnectIntegration"),
     });
-    NagSuppressions.addResourceSuppressions(
-      disconnectRoute,
-      ["AwsPrototyping-APIGWAuthorization", "AwsSolutions-APIG4"].map(
-        (ruleId) => ({
-          id: ruleId,
-          reason: `Authorizers only apply to the $connect route`,
+    // Add the default route for messages with unknown routes, returning the integration's response to the client
+    const defaultRoute = defaultIntegration
+      ? this.addRoute("$default", {
+          integration: defaultIntegration.integration,
+          returnResponse: true,
         })
-      ),
-      true
-    );
+      : undefined;
+    [disconnectRoute, defaultRoute].forEach((route) => {
+      if (route) {
+        NagSuppressions.addResourceSuppressions(
+          route,
+          ["AwsPrototyping-APIGWAuthorization", "AwsSolutions-APIG4"].map(
+            (ruleId) => ({
+              id: ruleId,
+              reason: `Authorizers only apply to the $connect route`,
+            })
+          ),
+          true
+        );
+      }
+    });
 
     // Create a default stage
     this.defaultStage = new WebSocketStage(this, "default", {
@@ -195,8 +273,9 @@ export class TypeSafeWebsocketApi extends Construct {
 
     const lambdaHandlers: IFunction[] = [
       ...Object.values(props.integrations),
-      props.connect,
-      props.disconnect,
+      connect,
+      disconnect,
+      defaultIntegration,
     ].flatMap((integration) =>
       integration?.integration instanceof WebSocketLambdaIntegration &&
       (integration.integration as any).handler?.grantPrincipal
@@ -245,6 +324,9 @@ export class TypeSafeWebsocketApi extends Construct {
       }
       uniqueLambdaHandlers.add(fn);
     });
+    // Grant lambda handlers access to the connection store (if any)
+    [...uniqueLambdaHandlers].forEach((fn) => this.connectionStore?.grant(fn));
+
     [...duplicateLambdaHandlers].forEach((fn, i) => {
       new CfnPermission(this, `GrantRouteInvoke${i}`, {
         action: "lambda:InvokeFunction",
@@ -486,7 +568,7 @@ export class TypeSafeWebsocketApi extends Construct {
 
     const route = this.api.addRoute(routeKey, {
       ...options,
-      returnResponse: shouldAddMockResponse,
+      returnResponse: options.returnResponse || shouldAddMockResponse,
     });
 
     if (
@@ -0,0 +1,222 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { Duration, RemovalPolicy, Stack } from "aws-cdk-lib";
+import { WebSocketRouteIntegration } from "aws-cdk-lib/aws-apigatewayv2";
+import { WebSocketAwsIntegration } from "aws-cdk-lib/aws-apigatewayv2-integrations";
+import {
+  AttributeType,
+  BillingMode,
+  ProjectionType,
+  Table,
+} from "aws-cdk-lib/aws-dynamodb";
+import { PolicyStatement, Role, ServicePrincipal } from "aws-cdk-lib/aws-iam";
+import { Function as LambdaFunction, IFunction } from "aws-cdk-lib/aws-lambda";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+
+/**
+ * Options for the managed connection store of a websocket api
+ */
+export interface WebSocketConnectionStoreOptions {
+  /**
+   * How long connections and topic subscriptions are retained in the store. API Gateway closes websocket connections
+   * after at most 2 hours, and expired items are removed by DynamoDB.
+   * @default Duration.hours(2)
+   */
+  readonly timeToLive?: Duration;
+  /**
+   * Removal policy for the connection table
+   * @default RemovalPolicy.DESTROY
+   */
+  readonly removalPolicy?: RemovalPolicy;
+}
+
+/**
+ * A DynamoDB table of the connections to a websocket api, and the topics each connection is subscribed to.
+ *
+ * Each connection is stored as an item with the sort key "CONNECTION", and the user identity from the authorizer (if
+ * any) in the "userId" attribute. Each topic subscription is stored as an item with the sort key "TOPIC#<topic>".
+ */
+export class WebSocketConnectionStore extends Construct {
+  /**
+   * Environment variable for the name of the connection table, used by the generated server sdk
+   */
+  public static readonly TABLE_NAME_ENVIRONMENT_VARIABLE =
+    "TYPE_SAFE_API_CONNECTION_TABLE_NAME";
+  /**
+   * Environment variable for the time to live of connections in seconds, used by the generated server sdk
+   */
+  public static readonly TIME_TO_LIVE_ENVIRONMENT_VARIABLE =
+    "TYPE_SAFE_API_CONNECTION_TTL_SECONDS";
+  /**
+   * Name of the index for looking up connections by user
+   */
+  public static readonly USER_INDEX_NAME = "userId";
+  /**
+   * Name of the index for looking up connections by topic
+   */
+  public static readonly TOPIC_INDEX_NAME = "topic";
+
+  /**
+   * The table in which connections are stored
+   */
+  public readonly table: Table;
+  /**
+   * How long connections and topic subscriptions are retained in the store
+   */
+  public readonly timeToLive: Duration;
+  /**
+   * Integration for the $connect route which stores the connection, used when no $connect integration is provided
+   */
+  public readonly connectIntegration: WebSocketRouteIntegration;
+  /**
+   * Integration for the $disconnect route which removes the connection, used when no $disconnect integration is provided
+   */
+  public readonly disconnectIntegration: WebSocketRouteIntegration;
+
+  constructor(
+    scope: Construct,
+    id: string,
+    props?: WebSocketConnectionStoreOptions
+  ) {
+    super(scope, id);
+
+    this.timeToLive = props?.timeToLive ?? Duration.hours(2);
+
+    this.table = new Table(this, "Table", {
+      partitionKey: { name: "connectionId", type: AttributeType.STRING },
+      sortKey: { name: "sortKey", type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: "expiresAt",
+      removalPolicy: props?.removalPolicy ?? RemovalPolicy.DESTROY,
+    });
+    this.table.addGlobalSecondaryIndex({
+      indexName: WebSocketConnectionStore.USER_INDEX_NAME,
+      partitionKey: { name: "userId", type: AttributeType.STRING },
+      sortKey: { name: "connectionId", type: AttributeType.STRING },
+      projectionType: ProjectionType.KEYS_ONLY,
+    });
+    this.table.addGlobalSecondaryIndex({
+      indexName: WebSocketConnectionStore.TOPIC_INDEX_NAME,
+      partitionKey: { name: "topic", type: AttributeType.STRING },
+      sortKey: { name: "connectionId", type: AttributeType.STRING },
+      projectionType: ProjectionType.KEYS_ONLY,
+    });
+
+    NagSuppressions.addResourceSuppressions(
+      this.table,
+      ["AwsPrototyping-DynamoDBPITREnabled", "AwsSolutions-DDB3"].map(
+        (ruleId) => ({
+          id: ruleId,
+          reason: "Connections are short lived and do not require backups",
+        })
+      )
+    );
+
+    // Connections are written directly from API Gateway when there is no lambda integration for $connect/$disconnect
+    const integrationRole = new Role(this, "IntegrationRole", {
+      assumedBy: new ServicePrincipal("apigateway.amazonaws.com"),
+    });
+    integrationRole.addToPolicy(
+      new PolicyStatement({
+        actions: ["dynamodb:PutItem", "dynamodb:DeleteItem"],
+        resources: [this.table.tableArn],
+      })
+    );
+
+    const stack = Stack.of(this);
+    const integrationUri = (action: string) =>
+      `arn:${stack.partition}:apigateway:${stack.region}:dynamodb:action/${action}`;
+
+    // The user identity is the principal id returned by a lambda authorizer, or the caller for an iam authorizer
+    this.connectIntegration = new WebSocketAwsIntegration(
+      "ConnectionStoreConnect",
+      {
+        integrationUri: integrationUri("PutItem"),
+        integrationMethod: "POST",
+        credentialsRole: integrationRole,
+        templateSelectionExpression: "\\$default",
+        requestTemplates: {
+          $default: `#set($userId = "$!context.authorizer.principalId")
+#if($userId == "")#set($userId = "$!context.identity.userArn")#end
+#set($expiresAt = $context.requestTimeEpoch / 1000 + ${this.timeToLive.toSeconds()})
+{
+  "TableName": "${this.table.tableName}",
+  "Item": {
+    "connectionId": { "S": "$context.connectionId" },
+    "sortKey": { "S": "CONNECTION" },
+    #if($userId != "")"userId": { "S": "$util.escapeJavaScript($userId)" },#end
+    "expiresAt": { "N": "$expiresAt" }
+  }
+}`,
+        },
+      }
+    );
+
+    // Topic subscriptions for the connection are left to expire, and are removed when publishing to the topic fails
+    this.disconnectIntegration = new WebSocketAwsIntegration(
+      "ConnectionStoreDisconnect",
+      {
+        integrationUri: integrationUri("DeleteItem"),
+        integrationMethod: "POST",
+        credentialsRole: integrationRole,
+        templateSelectionExpression: "\\$default",
+        requestTemplates: {
+          $default: `{
+  "TableName": "${this.table.tableName}",
+  "Key": {
+    "connectionId": { "S": "$context.connectionId" },
+    "sortKey": { "S": "CONNECTION" }
+  }
+}`,
+        },
+      }
+    );
+  }
+
+  /**
+   * Grant the given lambda function access to the connection store. Where possible, the environment variables used by
+   * the generated server sdk to locate the store are also added to the function.
+   */
+  public grant(fn: IFunction) {
+    fn.addToRolePolicy(
+      new PolicyStatement({
+        actions: [
+          "dynamodb:PutItem",
+          "dynamodb:DeleteItem",
+          "dynamodb:Query",
+          "dynamodb:Scan",
+        ],
+        resources: [this.table.tableArn, `${this.table.tableArn}/index/*`],
+      })
+    );
+    NagSuppressions.addResourceSuppressions(
+      fn,
+      ["AwsPrototyping-IAMNoWildcardPermissions", "AwsSolutions-IAM5"].map(
+        (ruleId) => ({
+          id: ruleId,
+          reason:
+            "WebSocket handlers are granted permissions to look up connections by any index of the connection store",
+          appliesTo: [
+            {
+              regex:
+                "/^Resource::<.*ConnectionStoreTable.*\\.Arn>\\/index\\/\\*$/g",
+            },
+          ],
+        })
+      ),
+      true
+    );
+
+    if (fn instanceof LambdaFunction) {
+      fn.addEnvironment(
+        WebSocketConnectionStore.TABLE_NAME_ENVIRONMENT_VARIABLE,
+        this.table.tableName
+      );
+      fn.addEnvironment(
+        WebSocketConnectionStore.TIME_TO_LIVE_ENVIRONMENT_VARIABLE,
+        `${this.timeToLive.toSeconds()}`
+      );
+    }
+  }
+}
@@ -23,6 +23,8 @@ export enum OtherGenerators {
   TYPESCRIPT_LAMBDA_HANDLERS = "typescript-lambda-handlers",
   PYTHON_LAMBDA_HANDLERS = "python-lambda-handlers",
   JAVA_LAMBDA_HANDLERS = "java-lambda-handlers",
+  GO_LAMBDA_HANDLERS = "go-lambda-handlers",
+  RUST_LAMBDA_HANDLERS = "rust-lambda-handlers",
   TYPESCRIPT_ASYNC_LAMBDA_HANDLERS = "typescript-async-lambda-handlers",
   PYTHON_ASYNC_LAMBDA_HANDLERS = "python-async-lambda-handlers",
   JAVA_ASYNC_LAMBDA_HANDLERS = "java-async-lambda-handlers",
@@ -43,6 +45,12 @@ export enum TypeSafeApiScript {
   COPY_GRADLE_WRAPPER = "type-safe-api copy-gradle-wrapper",
   COPY_ASYNC_SMITHY_TRANSFORMER = "type-safe-api copy-async-smithy-transformer",
   GENERATE_ASYNCAPI_SPEC = "type-safe-api generate-asyncapi-spec",
+  LOCAL_SERVER = "type-safe-api local-server",
+  LOCAL_WEBSOCKET_SERVER = "type-safe-api local-websocket-server",
+  BREAKING_CHANGES = "type-safe-api breaking-changes",
+  CONTRACT_TESTS = "type-safe-api contract-tests",
+  GENERATE_REQUEST_COLLECTION = "type-safe-api generate-request-collection",
+  GENERATE_LOAD_TESTS = "type-safe-api generate-load-tests",
 }
 
 /**
@@ -131,7 +139,7 @@ export const buildInvokeMockDataGeneratorCommand = (
  */
 export const getHandlersProjectVendorExtensions = (
   targetProject: Project,
-  { java, python, typescript }: GeneratedHandlersProjects
+  { java, python, typescript, go, rust }: GeneratedHandlersProjects
 ): Record<string, string | boolean> => ({
   "x-handlers-python-module": python?.moduleName ?? "",
   "x-handlers-java-package": java?.packageName ?? "",
@@ -159,6 +167,22 @@ export const getHandlersProjectVendorExtensions = (
         `${java.pom.artifactId}-${java.pom.version}.jar`
       )
     : "",
+  "x-handlers-go-asset-path": go
+    ? path.join(
+        path.relative(targetProject.outdir, go.outdir),
+        "dist",
+        "lambda"
+      )
+    : "",
+  "x-handlers-go-architecture": go?.architecture ?? "",
+  "x-handlers-rust-asset-path": rust
+    ? path.join(
+        path.relative(targetProject.outdir, rust.outdir),
+        "dist",
+        "lambda"
+      )
+    : "",
+  "x-handlers-rust-architecture": rust?.architecture ?? "",
   "x-handlers-node-lambda-runtime-version": typescript
     ? RuntimeVersionUtils.NODE.getLambdaRuntime(typescript.runtimeVersion)
     : "",
@@ -169,3 +193,83 @@ export const getHandlersProjectVendorExtensions = (
     ? RuntimeVersionUtils.JAVA.getLambdaRuntime(java.runtimeVersion)
     : "",
 });
+
+/**
+ * Options for the local development server
+ */
+export interface LocalServerOptions {
+  /**
+   * The path of the OpenAPI spec to serve
+   */
+  readonly specPath: string;
+  /**
+   * Directory containing mock response data, used for operations without a handler
+   * @default - no mock responses are served
+   */
+  readonly mocksPath?: string;
+}
+
+/**
+ * Invoke the local development server, which routes requests to the packaged handlers for the target project
+ */
+export const buildInvokeLocalServerCommand = (
+  targetProject: Project,
+  generatedHandlers: GeneratedHandlersProjects,
+  options: LocalServerOptions
+): string => {
+  const handlers = getHandlersProjectVendorExtensions(
+    targetProject,
+    generatedHandlers
+  );
+  const args: Record<string, string | boolean | undefined> = {
+    specPath: options.specPath,
+    mocksPath: options.mocksPath,
+    typescriptHandlersPath: handlers["x-handlers-typescript-asset-path"],
+    pythonHandlersPath: handlers["x-handlers-python-asset-path"],
+    pythonHandlersModule: handlers["x-handlers-python-module"],
+    javaHandlersPath: handlers["x-handlers-java-asset-path"],
+    javaHandlersPackage: handlers["x-handlers-java-package"],
+  };
+  return buildTypeSafeApiExecCommand(
+    TypeSafeApiScript.LOCAL_SERVER,
+    Object.entries(args)
+      .filter(([, value]) => value)
+      .map(([name, value]) => `--${name} ${value}`)
+      .join(" ")
+  );
+};
+
+/**
+ * Options for the local websocket development server
+ */
+export interface LocalWebSocketServerOptions {
+  /**
+   * The path of the OpenAPI spec for the websocket api
+   */
+  readonly specPath: string;
+}
+
+/**
+ * Invoke the local websocket development server, which routes messages to the packaged handlers for the target project
+ */
+export const buildInvokeLocalWebSocketServerCommand = (
+  targetProject: Project,
+  generatedHandlers: GeneratedHandlersProjects,
+  options: LocalWebSocketServerOptions
+): string => {
+  const handlers = getHandlersProjectVendorExtensions(
+    targetProject,
+    generatedHandlers
+  );
+  const args: Record<string, string | boolean | undefined> = {
+    specPath: options.specPath,
+    typescriptHandlersPath: handlers["x-handlers-typescript-asset-path"],
+  };
+  return buildTypeSafeApiExecCommand(
+    TypeSafeApiScript.LOCAL_WEBSOCKET_SERVER,
+    Object.entries(args)
+      .filter(([, value]) => value)
+      .map(([name, value]) => `--${name} ${value}`)
+      .join(" ")
+  );
+};
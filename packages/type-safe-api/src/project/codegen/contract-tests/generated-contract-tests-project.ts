@@ -0,0 +1,61 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { Project, ProjectOptions, Task } from "projen";
+import { GeneratedContractTestsOptions } from "../../types";
+import { TypeSafeApiCommandEnvironment } from "../components/type-safe-api-command-environment";
+import {
+  buildTypeSafeApiExecCommand,
+  TypeSafeApiScript,
+} from "../components/utils";
+
+export interface GeneratedContractTestsProjectOptions
+  extends ProjectOptions,
+    GeneratedContractTestsOptions {
+  /**
+   * Path to the OpenAPI Specification to test the api against, relative to the project outdir
+   */
+  readonly specPath: string;
+}
+
+/**
+ * Project for contract testing a deployed or locally running api against its model.
+ * Contract tests are not run as part of the build, since they require a running api.
+ */
+export class GeneratedContractTestsProject extends Project {
+  /**
+   * Task which sends a valid request to every operation, and checks the responses conform to the model
+   */
+  public readonly contractTestTask: Task;
+
+  constructor(options: GeneratedContractTestsProjectOptions) {
+    super(options);
+    TypeSafeApiCommandEnvironment.ensure(this);
+
+    const args: Record<string, string | number | undefined> = {
+      specPath: options.specPath,
+      baseUrl: options.baseUrl,
+      skipOperations: options.skipOperations?.join(" "),
+      locale: options.locale,
+      maxArrayLength: options.maxArrayLength,
+      seed: options.seed,
+      outputPath: "contract-test-results.json",
+    };
+
+    this.contractTestTask = this.addTask("test:contract", {
+      description:
+        "Test the api against its model. Pass --baseUrl, or set API_BASE_URL, to specify the api to test",
+    });
+    this.contractTestTask.exec(
+      buildTypeSafeApiExecCommand(
+        TypeSafeApiScript.CONTRACT_TESTS,
+        Object.entries(args)
+          .filter(([, value]) => value !== undefined && value !== "")
+          .map(([name, value]) => `--${name} ${value}`)
+          .join(" ")
+      ),
+      { receiveArgs: true }
+    );
+
+    this.gitignore.addPatterns("contract-test-results.json");
+  }
+}
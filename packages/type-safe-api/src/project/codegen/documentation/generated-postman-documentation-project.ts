@@ -0,0 +1,46 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { Project, ProjectOptions, Task } from "projen";
+import { GeneratedPostmanDocumentationOptions } from "../../types";
+import { TypeSafeApiCommandEnvironment } from "../components/type-safe-api-command-environment";
+import {
+  buildTypeSafeApiExecCommand,
+  TypeSafeApiScript,
+} from "../components/utils";
+
+export interface GeneratedPostmanDocumentationProjectOptions
+  extends ProjectOptions,
+    GeneratedPostmanDocumentationOptions {
+  /**
+   * Path to the OpenAPI Specification for which to generate docs, relative to the project outdir
+   */
+  readonly specPath: string;
+}
+
+/**
+ * Project which exports the model as a Postman collection, with an example request for every operation
+ */
+export class GeneratedPostmanDocumentationProject extends Project {
+  private readonly generateTask: Task;
+
+  constructor(options: GeneratedPostmanDocumentationProjectOptions) {
+    super(options);
+    TypeSafeApiCommandEnvironment.ensure(this);
+
+    this.generateTask = this.addTask("generate");
+    this.generateTask.exec(
+      buildTypeSafeApiExecCommand(
+        TypeSafeApiScript.GENERATE_REQUEST_COLLECTION,
+        `--specPath ${options.specPath} --outputPath . --format postman${
+          options.baseUrl ? ` --baseUrl ${options.baseUrl}` : ""
+        }`
+      )
+    );
+
+    this.compileTask.spawn(this.generateTask);
+
+    if (!options.commitGeneratedCode) {
+      this.gitignore.addPatterns("postman_collection.json");
+    }
+  }
+}
@@ -11,30 +11,62 @@ import {
   WebSocketDocumentationFormat,
   WebSocketLibrary,
 } from "../languages";
+import {
+  GeneratedDocumentationOptions,
+  GeneratedWebSocketDocumentationOptions,
+  ModelLanguage,
+  ModelProject,
+  WebSocketModelProject,
+} from "../types";
 import { GeneratedAsyncApiHtmlDocumentationProject } from "./documentation/generated-asyncapi-html-documentation-project";
 import { GeneratedAsyncApiMarkdownDocumentationProject } from "./documentation/generated-asyncapi-markdown-documentation-project";
+import { GeneratedBrunoDocumentationProject } from "./documentation/generated-bruno-documentation-project";
 import { GeneratedHtmlRedocDocumentationProject } from "./documentation/generated-html-redoc-documentation-project";
+import { GeneratedHttpFileDocumentationProject } from "./documentation/generated-http-file-documentation-project";
 import { GeneratedMarkdownDocumentationProject } from "./documentation/generated-markdown-documentation-project";
 import { GeneratedPlantumlDocumentationProject } from "./documentation/generated-plantuml-documentation-project";
+import { GeneratedPostmanDocumentationProject } from "./documentation/generated-postman-documentation-project";
+import { GeneratedGoHandlersProject } from "./handlers/generated-go-handlers-project";
 import { GeneratedJavaAsyncHandlersProject } from "./handlers/generated-java-async-handlers-project";
 import { GeneratedJavaHandlersBaseProject } from "./handlers/generated-java-handlers-base-project";
 import { GeneratedJavaHandlersProject } from "./handlers/generated-java-handlers-project";
 import { GeneratedPythonAsyncHandlersProject } from "./handlers/generated-python-async-handlers-project";
 import { GeneratedPythonHandlersBaseProject } from "./handlers/generated-python-handlers-base-project";
 import { GeneratedPythonHandlersProject } from "./handlers/generated-python-handlers-project";
+import { GeneratedRustHandlersProject } from "./handlers/generated-rust-handlers-project";
 import { GeneratedTypescriptAsyncHandlersProject } from "./handlers/generated-typescript-async-handlers-project";
 import { GeneratedTypescriptHandlersBaseProject } from "./handlers/generated-typescript-handlers-base-project";
 import { GeneratedTypescriptHandlersProject } from "./handlers/generated-typescript-handlers-project";
+import { TypeSafeApiAsyncModelBuildOutputOptions } from "../model/type-safe-api-async-model-build";
+import { TypeSafeApiModelBuildOutputOptions } from "../model/type-safe-api-model-build";
+import { TypeSafeApiModelProjectOptions } from "../model/type-safe-api-model-project";
+import { TypeSafeWebSocketApiModelProjectOptions } from "../model/type-safe-websocket-api-model-project";
 import { GeneratedJavaAsyncCdkInfrastructureProject } from "./infrastructure/cdk/generated-java-async-cdk-infrastructure-project";
 import { GeneratedJavaCdkInfrastructureProject } from "./infrastructure/cdk/generated-java-cdk-infrastructure-project";
 import { GeneratedPythonAsyncCdkInfrastructureProject } from "./infrastructure/cdk/generated-python-async-cdk-infrastructure-project";
 import { GeneratedPythonCdkInfrastructureProject } from "./infrastructure/cdk/generated-python-cdk-infrastructure-project";
 import { GeneratedTypescriptAsyncCdkInfrastructureProject } from "./infrastructure/cdk/generated-typescript-async-cdk-infrastructure-project";
 import { GeneratedTypescriptCdkInfrastructureProject } from "./infrastructure/cdk/generated-typescript-cdk-infrastructure-project";
+import {
+  JavaWebsocketClientLibrary,
+  JavaWebsocketClientLibraryOptions,
+} from "./library/java-websocket-client-library";
+import {
+  PythonWebsocketClientLibrary,
+  PythonWebsocketClientLibraryOptions,
+} from "./library/python-websocket-client-library";
 import {
   GeneratedTypescriptReactQueryHooksProjectOptions,
   TypescriptReactQueryHooksLibrary,
 } from "./library/typescript-react-query-hooks-library";
+import {
+  GeneratedTypescriptSwrHooksProjectOptions,
+  TypescriptSwrHooksLibrary,
+} from "./library/typescript-swr-hooks-library";
+import {
+  GeneratedTypescriptVueQueryProjectOptions,
+  TypescriptVueQueryLibrary,
+} from "./library/typescript-vue-query-library";
 import {
   TypescriptWebsocketClientLibrary,
   TypescriptWebsocketClientLibraryOptions,
@@ -43,18 +75,38 @@ import {
   TypescriptWebsocketHooksLibrary,
   TypescriptWebsocketHooksLibraryOptions,
 } from "./library/typescript-websocket-hooks-library";
+import {
+  GeneratedTypescriptZodSchemasProjectOptions,
+  TypescriptZodSchemasLibrary,
+} from "./library/typescript-zod-schemas-library";
+import {
+  GeneratedDotNetRuntimeProject,
+  GeneratedDotNetRuntimeProjectOptions,
+} from "./runtime/generated-dotnet-runtime-project";
+import {
+  GeneratedGoRuntimeProject,
+  GeneratedGoRuntimeProjectOptions,
+} from "./runtime/generated-go-runtime-project";
 import { GeneratedJavaAsyncRuntimeProject } from "./runtime/generated-java-async-runtime-project";
 import { GeneratedJavaRuntimeBaseProject } from "./runtime/generated-java-runtime-base-project";
 import {
   GeneratedJavaRuntimeProject,
   GeneratedJavaTypesProjectOptions,
 } from "./runtime/generated-java-runtime-project";
+import {
+  GeneratedKotlinRuntimeProject,
+  GeneratedKotlinRuntimeProjectOptions,
+} from "./runtime/generated-kotlin-runtime-project";
 import { GeneratedPythonAsyncRuntimeProject } from "./runtime/generated-python-async-runtime-project";
 import { GeneratedPythonRuntimeBaseProject } from "./runtime/generated-python-runtime-base-project";
 import {
   GeneratedPythonRuntimeProject,
   GeneratedPythonTypesProjectOptions,
 } from "./runtime/generated-python-runtime-project";
+import {
+  GeneratedRustRuntimeProject,
+  GeneratedRustRuntimeProjectOptions,
+} from "./runtime/generated-rust-runtime-project";
 import { GeneratedTypescriptAsyncRuntimeProject } from "./runtime/generated-typescript-async-runtime-project";
 import { GeneratedTypescriptRuntimeBaseProject } from "./runtime/generated-typescript-runtime-base-project";
 import {
@@ -65,19 +117,8 @@ import { OpenApiAsyncModelProject } from "../model/openapi/open-api-async-model-
 import { OpenApiModelProject } from "../model/openapi/open-api-model-project";
 import { SmithyAsyncModelProject } from "../model/smithy/smithy-async-model-project";
 import { SmithyModelProject } from "../model/smithy/smithy-model-project";
-import { TypeSafeApiAsyncModelBuildOutputOptions } from "../model/type-safe-api-async-model-build";
-import { TypeSafeApiModelBuildOutputOptions } from "../model/type-safe-api-model-build";
-import { TypeSafeApiModelProjectOptions } from "../model/type-safe-api-model-project";
-import { TypeSafeWebSocketApiModelProjectOptions } from "../model/type-safe-websocket-api-model-project";
 import { TypeSpecAsyncModelProject } from "../model/type-spec/type-spec-async-model-project";
 import { TypeSpecModelProject } from "../model/type-spec/type-spec-model-project";
-import {
-  GeneratedDocumentationOptions,
-  GeneratedWebSocketDocumentationOptions,
-  ModelLanguage,
-  ModelProject,
-  WebSocketModelProject,
-} from "../types";
 
 const logger = getLogger();
 
@@ -144,6 +185,38 @@ export interface GenerateRuntimeProjectsOptions
     GeneratedJavaTypesProjectOptions,
     CommonProjectOptions
   >;
+  /**
+   * Options for the go project
+   * These will override any inferred properties (such as the module name).
+   */
+  readonly goOptions?: Omit<
+    GeneratedGoRuntimeProjectOptions,
+    CommonProjectOptions
+  >;
+  /**
+   * Options for the kotlin project
+   * These will override any inferred properties (such as the package name).
+   */
+  readonly kotlinOptions?: Omit<
+    GeneratedKotlinRuntimeProjectOptions,
+    CommonProjectOptions
+  >;
+  /**
+   * Options for the .NET project
+   * These will override any inferred properties (such as the namespace).
+   */
+  readonly dotnetOptions?: Omit<
+    GeneratedDotNetRuntimeProjectOptions,
+    CommonProjectOptions
+  >;
+  /**
+   * Options for the rust project
+   * These will override any inferred properties (such as the crate name).
+   */
+  readonly rustOptions?: Omit<
+    GeneratedRustRuntimeProjectOptions,
+    CommonProjectOptions
+  >;
 }
 
 export interface GenerateLanguageProjectOptions
@@ -175,6 +248,42 @@ export interface GenerateLanguageProjectOptions
     CommonProjectOptions
   > &
     Record<string, any>;
+  /**
+   * Options for the go project
+   * These will override any inferred properties (such as the module name).
+   */
+  readonly goOptions?: Omit<
+    GeneratedGoRuntimeProjectOptions,
+    CommonProjectOptions
+  > &
+    Record<string, any>;
+  /**
+   * Options for the kotlin project
+   * These will override any inferred properties (such as the package name).
+   */
+  readonly kotlinOptions?: Omit<
+    GeneratedKotlinRuntimeProjectOptions,
+    CommonProjectOptions
+  > &
+    Record<string, any>;
+  /**
+   * Options for the .NET project
+   * These will override any inferred properties (such as the namespace).
+   */
+  readonly dotnetOptions?: Omit<
+    GeneratedDotNetRuntimeProjectOptions,
+    CommonProjectOptions
+  > &
+    Record<string, any>;
+  /**
+   * Options for the rust project
+   * These will override any inferred properties (such as the crate name).
+   */
+  readonly rustOptions?: Omit<
+    GeneratedRustRuntimeProjectOptions,
+    CommonProjectOptions
+  > &
+    Record<string, any>;
 }
 
 /**
@@ -190,6 +299,30 @@ export interface GenerateLibraryProjectsOptions
     GeneratedTypescriptReactQueryHooksProjectOptions,
     CommonProjectOptions
   >;
+  /**
+   * Options for the vue-query project
+   * These will override any inferred properties (such as the package name)
+   */
+  readonly typescriptVueQueryOptions: Omit<
+    GeneratedTypescriptVueQueryProjectOptions,
+    CommonProjectOptions
+  >;
+  /**
+   * Options for the swr hooks project
+   * These will override any inferred properties (such as the package name)
+   */
+  readonly typescriptSwrHooksOptions: Omit<
+    GeneratedTypescriptSwrHooksProjectOptions,
+    CommonProjectOptions
+  >;
+  /**
+   * Options for the zod schemas project
+   * These will override any inferred properties (such as the package name)
+   */
+  readonly typescriptZodSchemasOptions: Omit<
+    GeneratedTypescriptZodSchemasProjectOptions,
+    CommonProjectOptions
+  >;
 }
 
 /**
@@ -215,6 +348,24 @@ export interface GenerateAsyncLibraryProjectsOptions
     CommonProjectOptions | "clientPackageName"
   > &
     Partial<Pick<TypescriptWebsocketHooksLibraryOptions, "clientPackageName">>;
+
+  /**
+   * Options for the python websocket client project
+   * These will override any inferred properties (such as the package name)
+   */
+  readonly pythonWebSocketClientOptions: Omit<
+    PythonWebsocketClientLibraryOptions,
+    CommonProjectOptions
+  >;
+
+  /**
+   * Options for the java websocket client project
+   * These will override any inferred properties (such as the package name)
+   */
+  readonly javaWebSocketClientOptions: Omit<
+    JavaWebsocketClientLibraryOptions,
+    CommonProjectOptions
+  >;
 }
 
 // No dashes or underscores since this is used in the package name in imports
@@ -237,9 +388,16 @@ const sanitisePythonModuleName = (name: string) =>
 const sanitisePythonPackageName = (name: string) =>
   name.replace(/@/g, "").replace(/[_/]/g, "-");
 
-type LanguageProjectConstructors = Record<
-  Language,
-  new (...args: any[]) => Project
+// kebab-case for go module paths
+const sanitiseGoModuleName = (name: string) =>
+  name.replace(/@/g, "").replace(/_/g, "-");
+
+// kebab-case for rust crates, which may not contain slashes
+const sanitiseRustCrateName = (name: string) =>
+  name.replace(/@/g, "").replace(/[_/]/g, "-");
+
+type LanguageProjectConstructors = Partial<
+  Record<Language, new (...args: any[]) => Project>
 >;
 
 const generateLanguageProject = (
@@ -255,10 +413,14 @@ const generateLanguageProject = (
     parent: options.parent,
   };
 
+  if (!projectConstructors[language]) {
+    throw new Error(`${language} is not supported for ${suffix} projects`);
+  }
+
   switch (language) {
     case Language.TYPESCRIPT: {
       logger.trace(`Attempting to generate TYPESCRIPT ${suffix} project.`);
-      return new projectConstructors[language]({
+      return new projectConstructors[language]!({
         ...options,
         ...commonOptions,
         name: sanitiseTypescriptPackageName(packageName),
@@ -268,7 +430,7 @@ const generateLanguageProject = (
     }
     case Language.PYTHON: {
       logger.trace(`Attempting to generate PYTHON ${suffix} project.`);
-      return new projectConstructors[language]({
+      return new projectConstructors[language]!({
         ...options,
         ...commonOptions,
         name: sanitisePythonPackageName(packageName),
@@ -278,7 +440,7 @@ const generateLanguageProject = (
     }
     case Language.JAVA: {
       logger.trace(`Attempting to generate JAVA ${suffix} project.`);
-      return new projectConstructors[language]({
+      return new projectConstructors[language]!({
         ...options,
         ...commonOptions,
         name: sanitiseJavaProjectName(packageName),
@@ -287,6 +449,46 @@ const generateLanguageProject = (
         ...options.javaOptions,
       });
     }
+    case Language.GO: {
+      logger.trace(`Attempting to generate GO ${suffix} project.`);
+      return new projectConstructors[language]!({
+        ...options,
+        ...commonOptions,
+        name: sanitiseGoModuleName(packageName),
+        moduleName: sanitiseGoModuleName(packageName),
+        ...options.goOptions,
+      });
+    }
+    case Language.KOTLIN: {
+      logger.trace(`Attempting to generate KOTLIN ${suffix} project.`);
+      return new projectConstructors[language]!({
+        ...options,
+        ...commonOptions,
+        name: sanitiseJavaProjectName(packageName),
+        artifactId: sanitiseJavaArtifactId(packageName),
+        groupId: "com.generated.api",
+        ...options.kotlinOptions,
+      });
+    }
+    case Language.DOTNET: {
+      logger.trace(`Attempting to generate DOTNET ${suffix} project.`);
+      return new projectConstructors[language]!({
+        ...options,
+        ...commonOptions,
+        name: packageName,
+        ...options.dotnetOptions,
+      });
+    }
+    case Language.RUST: {
+      logger.trace(`Attempting to generate RUST ${suffix} project.`);
+      return new projectConstructors[language]!({
+        ...options,
+        ...commonOptions,
+        name: sanitiseRustCrateName(packageName),
+        crateName: sanitiseRustCrateName(packageName),
+        ...options.rustOptions,
+      });
+    }
     default:
       throw new Error(`Unknown ${suffix} language ${language}`);
   }
@@ -295,7 +497,7 @@ const generateLanguageProject = (
 const generateLanguageProjects = (
   suffix: string,
   languages: Language[],
-  projectConstructors: Record<Language, new (...args: any[]) => Project>,
+  projectConstructors: LanguageProjectConstructors,
   options: GenerateLanguageProjectOptions
 ) => {
   const projects: { [language: string]: Project } = {};
@@ -330,6 +532,14 @@ export interface GeneratedHandlersProjects {
    * TypeScript handlers project
    */
   readonly typescript?: GeneratedTypescriptHandlersBaseProject;
+  /**
+   * Go handlers project
+   */
+  readonly go?: GeneratedGoHandlersProject;
+  /**
+   * Rust handlers project
+   */
+  readonly rust?: GeneratedRustHandlersProject;
 }
 
 export interface GenerateInfraProjectOptions
@@ -341,6 +551,8 @@ export interface GenerateInfraProjectOptions
     readonly java?: GeneratedJavaRuntimeBaseProject;
     readonly python?: GeneratedPythonRuntimeBaseProject;
     readonly typescript?: GeneratedTypescriptRuntimeBaseProject;
+    readonly go?: GeneratedGoRuntimeProject;
+    readonly rust?: GeneratedRustRuntimeProject;
   };
   readonly generatedHandlers: GeneratedHandlersProjects;
 }
@@ -425,6 +637,8 @@ export interface GenerateHandlersBaseProjectOptions
     readonly java?: GeneratedJavaRuntimeBaseProject;
     readonly python?: GeneratedPythonRuntimeBaseProject;
     readonly typescript?: GeneratedTypescriptRuntimeBaseProject;
+    readonly go?: GeneratedGoRuntimeProject;
+    readonly rust?: GeneratedRustRuntimeProject;
   };
 }
 
@@ -437,6 +651,8 @@ export interface GenerateHandlersProjectOptions
     readonly java?: GeneratedJavaRuntimeProject;
     readonly python?: GeneratedPythonRuntimeProject;
     readonly typescript?: GeneratedTypescriptRuntimeProject;
+    readonly go?: GeneratedGoRuntimeProject;
+    readonly rust?: GeneratedRustRuntimeProject;
   };
 }
 
@@ -467,6 +683,8 @@ export const generateHandlersProjects = (
       [Language.JAVA]: GeneratedJavaHandlersProject,
       [Language.PYTHON]: GeneratedPythonHandlersProject,
       [Language.TYPESCRIPT]: GeneratedTypescriptHandlersProject,
+      [Language.GO]: GeneratedGoHandlersProject,
+      [Language.RUST]: GeneratedRustHandlersProject,
     },
     options
   );
@@ -528,6 +746,14 @@ const _generateHandlersProjects = (
       ...options.javaOptions,
       generatedJavaTypes: options.generatedRuntimes.java,
     },
+    goOptions: {
+      ...options.goOptions,
+      generatedGoTypes: options.generatedRuntimes.go,
+    },
+    rustOptions: {
+      ...options.rustOptions,
+      generatedRustTypes: options.generatedRuntimes.rust,
+    },
   });
 };
 
@@ -546,6 +772,10 @@ export const generateRuntimeProjects = (
       [Language.JAVA]: GeneratedJavaRuntimeProject,
       [Language.PYTHON]: GeneratedPythonRuntimeProject,
       [Language.TYPESCRIPT]: GeneratedTypescriptRuntimeProject,
+      [Language.GO]: GeneratedGoRuntimeProject,
+      [Language.KOTLIN]: GeneratedKotlinRuntimeProject,
+      [Language.DOTNET]: GeneratedDotNetRuntimeProject,
+      [Language.RUST]: GeneratedRustRuntimeProject,
     },
     options
   );
@@ -622,6 +852,30 @@ const generateLibraryProject = (
         isWithinMonorepo: options.isWithinMonorepo,
       });
     }
+    case Library.TYPESCRIPT_VUE_QUERY: {
+      return new TypescriptVueQueryLibrary({
+        ...commonOptions,
+        name: sanitiseTypescriptPackageName(packageName),
+        ...options.typescriptVueQueryOptions,
+        isWithinMonorepo: options.isWithinMonorepo,
+      });
+    }
+    case Library.TYPESCRIPT_SWR_HOOKS: {
+      return new TypescriptSwrHooksLibrary({
+        ...commonOptions,
+        name: sanitiseTypescriptPackageName(packageName),
+        ...options.typescriptSwrHooksOptions,
+        isWithinMonorepo: options.isWithinMonorepo,
+      });
+    }
+    case Library.TYPESCRIPT_ZOD_SCHEMAS: {
+      return new TypescriptZodSchemasLibrary({
+        ...commonOptions,
+        name: sanitiseTypescriptPackageName(packageName),
+        ...options.typescriptZodSchemasOptions,
+        isWithinMonorepo: options.isWithinMonorepo,
+      });
+    }
     default:
       throw new Error(`Unknown library ${library}`);
   }
@@ -689,6 +943,7 @@ export const generateModelProject = ({
 
     const smithy = new SmithyModelProject({
       ...options,
+      breakingChanges: modelOptions.breakingChanges,
       smithyOptions: modelOptions.smithy,
     });
     return {
@@ -706,6 +961,7 @@ export const generateModelProject = ({
 
     const openapi = new OpenApiModelProject({
       ...options,
+      breakingChanges: modelOptions.breakingChanges,
       openApiOptions: modelOptions.openapi,
     });
     return {
@@ -723,6 +979,7 @@ export const generateModelProject = ({
 
     const typeSpec = new TypeSpecModelProject({
       ...options,
+      breakingChanges: modelOptions.breakingChanges,
       name: sanitiseTypescriptPackageName(options.name),
       typeSpecOptions: modelOptions.typeSpec,
     });
@@ -757,6 +1014,7 @@ export const generateAsyncModelProject = ({
 
     const smithy = new SmithyAsyncModelProject({
       ...options,
+      breakingChanges: modelOptions.breakingChanges,
       smithyOptions: modelOptions.smithy,
     });
     return {
@@ -775,6 +1033,7 @@ export const generateAsyncModelProject = ({
 
     const openapi = new OpenApiAsyncModelProject({
       ...options,
+      breakingChanges: modelOptions.breakingChanges,
       openApiOptions: modelOptions.openapi,
     });
     return {
@@ -793,6 +1052,7 @@ export const generateAsyncModelProject = ({
 
     const typeSpec = new TypeSpecAsyncModelProject({
       ...options,
+      breakingChanges: modelOptions.breakingChanges,
       name: sanitiseTypescriptPackageName(options.name),
       typeSpecOptions: modelOptions.typeSpec,
     });
@@ -844,6 +1104,23 @@ const generateAsyncLibraryProject = (
         isWithinMonorepo: options.isWithinMonorepo,
       });
     }
+    case WebSocketLibrary.PYTHON_WEBSOCKET_CLIENT: {
+      return new PythonWebsocketClientLibrary({
+        ...commonOptions,
+        name: sanitisePythonPackageName(packageName),
+        moduleName: sanitisePythonModuleName(packageName),
+        ...options.pythonWebSocketClientOptions,
+      });
+    }
+    case WebSocketLibrary.JAVA_WEBSOCKET_CLIENT: {
+      return new JavaWebsocketClientLibrary({
+        ...commonOptions,
+        name: sanitiseJavaProjectName(packageName),
+        artifactId: sanitiseJavaArtifactId(packageName),
+        groupId: "com.generated.api",
+        ...options.javaWebSocketClientOptions,
+      });
+    }
     default:
       throw new Error(`Unknown library ${library}`);
   }
@@ -945,6 +1222,24 @@ const generateDocsProject = (
         ...options.documentationOptions?.plantuml,
       });
     }
+    case DocumentationFormat.POSTMAN: {
+      return new GeneratedPostmanDocumentationProject({
+        ...commonProps,
+        ...options.documentationOptions?.postman,
+      });
+    }
+    case DocumentationFormat.BRUNO: {
+      return new GeneratedBrunoDocumentationProject({
+        ...commonProps,
+        ...options.documentationOptions?.bruno,
+      });
+    }
+    case DocumentationFormat.HTTP_FILE: {
+      return new GeneratedHttpFileDocumentationProject({
+        ...commonProps,
+        ...options.documentationOptions?.httpFile,
+      });
+    }
     case WebSocketDocumentationFormat.HTML: {
       return new GeneratedAsyncApiHtmlDocumentationProject({
         ...commonProps,
@@ -0,0 +1,107 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as path from "path";
+import { Project, ProjectOptions, Task } from "projen";
+import {
+  Architecture,
+  CodeGenerationSourceOptions,
+  GeneratedGoHandlersOptions,
+} from "../../types";
+import { TypeSafeApiCommandEnvironment } from "../components/type-safe-api-command-environment";
+import {
+  buildCodegenCommandArgs,
+  buildTypeSafeApiExecCommand,
+  CodegenOptions,
+  OtherGenerators,
+  TypeSafeApiScript,
+} from "../components/utils";
+import { GeneratedGoRuntimeProject } from "../runtime/generated-go-runtime-project";
+
+export interface GeneratedGoHandlersProjectOptions
+  extends ProjectOptions,
+    GeneratedGoHandlersOptions,
+    CodeGenerationSourceOptions {
+  /**
+   * The generated go types
+   */
+  readonly generatedGoTypes: GeneratedGoRuntimeProject;
+}
+
+export class GeneratedGoHandlersProject extends Project {
+  /**
+   * Path of the go module
+   */
+  public readonly moduleName: string;
+  /**
+   * The architecture the lambda handlers are built for
+   */
+  public readonly architecture: Architecture;
+
+  /**
+   * Options configured for the project
+   */
+  protected readonly options: GeneratedGoHandlersProjectOptions;
+
+  /**
+   * Directory containing the handlers package
+   */
+  protected readonly srcDir: string;
+
+  private readonly generateTask: Task;
+
+  constructor(options: GeneratedGoHandlersProjectOptions) {
+    super(options);
+    TypeSafeApiCommandEnvironment.ensure(this);
+    this.options = options;
+    this.moduleName = options.moduleName ?? options.name;
+    this.architecture = options.architecture ?? Architecture.X86_64;
+    this.srcDir = "handlers";
+
+    this.generateTask = this.addTask("generate");
+    this.generateTask.exec(
+      buildTypeSafeApiExecCommand(
+        TypeSafeApiScript.GENERATE,
+        this.buildGenerateCommandArgs()
+      )
+    );
+
+    this.preCompileTask.spawn(this.generateTask);
+    this.compileTask.exec("go mod tidy");
+    this.compileTask.exec("go build ./...");
+
+    this.testTask.exec("go test ./...");
+
+    // Ignore the generated code
+    this.gitignore.addPatterns(".tsapi-manifest", "dist");
+
+    // Package task to build a bootstrap executable for each handler, which can be deployed to the lambda provided runtime
+    // See: https://docs.aws.amazon.com/lambda/latest/dg/golang-package.html
+    const goarch =
+      this.architecture === Architecture.ARM_64 ? "arm64" : "amd64";
+    this.packageTask.exec("mkdir -p dist/lambda && rm -rf dist/lambda/*");
+    this.packageTask.exec(
+      `for dir in cmd/*/; do name=$(basename $dir); GOOS=linux GOARCH=${goarch} CGO_ENABLED=0 go build -tags lambda.norpc -o dist/lambda/$name/bootstrap ./cmd/$name; done`
+    );
+  }
+
+  public buildGenerateCommandArgs = () => {
+    return buildCodegenCommandArgs(this.buildCodegenOptions());
+  };
+
+  public buildCodegenOptions(): CodegenOptions {
+    return {
+      specPath: this.options.specPath,
+      templateDirs: [OtherGenerators.GO_LAMBDA_HANDLERS],
+      metadata: {
+        srcDir: this.srcDir,
+        moduleName: this.moduleName,
+        runtimeModuleName: this.options.generatedGoTypes.moduleName,
+        runtimePackageName: this.options.generatedGoTypes.packageName,
+        runtimePath: path.relative(
+          this.outdir,
+          this.options.generatedGoTypes.outdir
+        ),
+      },
+    };
+  }
+}
@@ -0,0 +1,100 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as path from "path";
+import { Project, ProjectOptions, Task } from "projen";
+import {
+  Architecture,
+  CodeGenerationSourceOptions,
+  GeneratedRustHandlersOptions,
+} from "../../types";
+import { TypeSafeApiCommandEnvironment } from "../components/type-safe-api-command-environment";
+import {
+  buildCodegenCommandArgs,
+  buildTypeSafeApiExecCommand,
+  CodegenOptions,
+  OtherGenerators,
+  TypeSafeApiScript,
+} from "../components/utils";
+import { GeneratedRustRuntimeProject } from "../runtime/generated-rust-runtime-project";
+
+export interface GeneratedRustHandlersProjectOptions
+  extends ProjectOptions,
+    GeneratedRustHandlersOptions,
+    CodeGenerationSourceOptions {
+  /**
+   * The generated rust types
+   */
+  readonly generatedRustTypes: GeneratedRustRuntimeProject;
+}
+
+export class GeneratedRustHandlersProject extends Project {
+  /**
+   * Name of the crate
+   */
+  public readonly crateName: string;
+  /**
+   * The architecture the lambda handlers are built for
+   */
+  public readonly architecture: Architecture;
+
+  /**
+   * Options configured for the project
+   */
+  protected readonly options: GeneratedRustHandlersProjectOptions;
+
+  private readonly generateTask: Task;
+
+  constructor(options: GeneratedRustHandlersProjectOptions) {
+    super(options);
+    TypeSafeApiCommandEnvironment.ensure(this);
+    this.options = options;
+    this.crateName =
+      options.crateName ??
+      options.name.replace(/[^a-zA-Z0-9_-]/g, "-").toLowerCase();
+    this.architecture = options.architecture ?? Architecture.X86_64;
+
+    this.generateTask = this.addTask("generate");
+    this.generateTask.exec(
+      buildTypeSafeApiExecCommand(
+        TypeSafeApiScript.GENERATE,
+        this.buildGenerateCommandArgs()
+      )
+    );
+
+    this.preCompileTask.spawn(this.generateTask);
+    this.compileTask.exec("cargo build");
+
+    this.testTask.exec("cargo test");
+
+    // Ignore the generated code
+    this.gitignore.addPatterns(".tsapi-manifest", "target", "dist");
+
+    // Package task to build a bootstrap executable for each handler, which can be deployed to the lambda provided runtime
+    // See: https://docs.aws.amazon.com/lambda/latest/dg/rust-package.html
+    this.packageTask.exec("mkdir -p dist/lambda && rm -rf dist/lambda/*");
+    this.packageTask.exec(
+      `cargo lambda build --release${
+        this.architecture === Architecture.ARM_64 ? " --arm64" : ""
+      } --lambda-dir dist/lambda`
+    );
+  }
+
+  public buildGenerateCommandArgs = () => {
+    return buildCodegenCommandArgs(this.buildCodegenOptions());
+  };
+
+  public buildCodegenOptions(): CodegenOptions {
+    return {
+      specPath: this.options.specPath,
+      templateDirs: [OtherGenerators.RUST_LAMBDA_HANDLERS],
+      metadata: {
+        crateName: this.crateName,
+        runtimeCrateName: this.options.generatedRustTypes.crateName,
+        runtimePath: path.relative(
+          this.outdir,
+          this.options.generatedRustTypes.outdir
+        ),
+      },
+    };
+  }
+}
@@ -4,8 +4,13 @@ import {
   GeneratedJavaCdkInfrastructureBaseProject,
   GeneratedJavaCdkInfrastructureBaseProjectOptions,
 } from "./generated-java-cdk-infrastructure-base-project";
-import { MockResponseGenerationOptions } from "../../../types";
 import {
+  ApiType,
+  ApiTypeOptions,
+  MockResponseGenerationOptions,
+} from "../../../types";
+import {
+  buildInvokeLocalServerCommand,
   buildInvokeMockDataGeneratorCommand,
   CodegenOptions,
   getHandlersProjectVendorExtensions,
@@ -14,7 +19,8 @@ import {
 
 export interface GeneratedJavaCdkInfrastructureProjectOptions
   extends GeneratedJavaCdkInfrastructureBaseProjectOptions,
-    MockResponseGenerationOptions {}
+    MockResponseGenerationOptions,
+    ApiTypeOptions {}
 
 export class GeneratedJavaCdkInfrastructureProject extends GeneratedJavaCdkInfrastructureBaseProject {
   protected readonly options: GeneratedJavaCdkInfrastructureProjectOptions;
@@ -26,6 +32,22 @@ export class GeneratedJavaCdkInfrastructureProject extends GeneratedJavaCdkInfra
     if (!this.options.mockDataOptions?.disable) {
       this.generateTask.exec(this.buildGenerateMockDataCommand());
     }
+
+    this.addTask("local", {
+      description:
+        "Run the API locally, invoking the packaged handlers or returning mock responses for operations without handlers",
+      receiveArgs: true,
+      exec: buildInvokeLocalServerCommand(
+        this,
+        this.options.generatedHandlers,
+        {
+          specPath: this.options.specPath,
+          mocksPath: this.options.mockDataOptions?.disable
+            ? undefined
+            : "src/main/resources/mocks",
+        }
+      ),
+    });
   }
 
   public buildCodegenOptions(): CodegenOptions {
@@ -36,7 +58,11 @@ export class GeneratedJavaCdkInfrastructureProject extends GeneratedJavaCdkInfra
         srcDir: this.srcDir,
         packageName: this.packageName,
         runtimePackageName: this.options.generatedJavaTypes.packageName,
-        enableMockIntegrations: !this.options.mockDataOptions?.disable,
+        apiType: this.options.apiType,
+        // Mock integrations are not supported by HTTP APIs
+        enableMockIntegrations:
+          !this.options.mockDataOptions?.disable &&
+          this.options.apiType !== ApiType.HTTP,
         ...getHandlersProjectVendorExtensions(
           this,
           this.options.generatedHandlers
@@ -5,8 +5,13 @@ import {
   GeneratedPythonCdkInfrastructureBaseProject,
   GeneratedPythonCdkInfrastructureBaseProjectOptions,
 } from "./generated-python-cdk-infrastructure-base-project";
-import { MockResponseGenerationOptions } from "../../../types";
 import {
+  ApiType,
+  ApiTypeOptions,
+  MockResponseGenerationOptions,
+} from "../../../types";
+import {
+  buildInvokeLocalServerCommand,
   buildInvokeMockDataGeneratorCommand,
   CodegenOptions,
   getHandlersProjectVendorExtensions,
@@ -15,7 +20,8 @@ import {
 
 export interface GeneratedPythonCdkInfrastructureProjectOptions
   extends GeneratedPythonCdkInfrastructureBaseProjectOptions,
-    MockResponseGenerationOptions {}
+    MockResponseGenerationOptions,
+    ApiTypeOptions {}
 
 export class GeneratedPythonCdkInfrastructureProject extends GeneratedPythonCdkInfrastructureBaseProject {
   /**
@@ -30,6 +36,22 @@ export class GeneratedPythonCdkInfrastructureProject extends GeneratedPythonCdkI
     if (!this.options.mockDataOptions?.disable) {
       this.generateTask.exec(this.buildGenerateMockDataCommand());
     }
+
+    this.addTask("local", {
+      description:
+        "Run the API locally, invoking the packaged handlers or returning mock responses for operations without handlers",
+      receiveArgs: true,
+      exec: buildInvokeLocalServerCommand(
+        this,
+        this.options.generatedHandlers,
+        {
+          specPath: this.options.specPath,
+          mocksPath: this.options.mockDataOptions?.disable
+            ? undefined
+            : "mocks",
+        }
+      ),
+    });
   }
 
   public buildCodegenOptions(): CodegenOptions {
@@ -40,7 +62,11 @@ export class GeneratedPythonCdkInfrastructureProject extends GeneratedPythonCdkI
         srcDir: this.moduleName,
         runtimeModuleName: this.options.generatedPythonTypes.moduleName,
         relativeSpecPath: path.join("..", this.options.specPath),
-        enableMockIntegrations: !this.options.mockDataOptions?.disable,
+        apiType: this.options.apiType,
+        // Mock integrations are not supported by HTTP APIs
+        enableMockIntegrations:
+          !this.options.mockDataOptions?.disable &&
+          this.options.apiType !== ApiType.HTTP,
         ...getHandlersProjectVendorExtensions(
           this,
           this.options.generatedHandlers
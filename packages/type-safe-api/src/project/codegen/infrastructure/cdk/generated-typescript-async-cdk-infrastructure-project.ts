@@ -6,6 +6,7 @@ import {
   GeneratedTypescriptCdkInfrastructureBaseProjectOptions,
 } from "./generated-typescript-cdk-infrastructure-base-project";
 import {
+  buildInvokeLocalWebSocketServerCommand,
   CodegenOptions,
   getHandlersProjectVendorExtensions,
   OtherGenerators,
@@ -19,6 +20,17 @@ export class GeneratedTypescriptAsyncCdkInfrastructureProject extends GeneratedT
     options: GeneratedTypescriptAsyncCdkInfrastructureProjectOptions
   ) {
     super(options);
+
+    this.addTask("local", {
+      description:
+        "Run the WebSocket API locally, invoking the packaged TypeScript handlers for each route",
+      receiveArgs: true,
+      exec: buildInvokeLocalWebSocketServerCommand(
+        this,
+        this.options.generatedHandlers,
+        { specPath: this.options.specPath }
+      ),
+    });
   }
 
   public buildCodegenOptions(): CodegenOptions {
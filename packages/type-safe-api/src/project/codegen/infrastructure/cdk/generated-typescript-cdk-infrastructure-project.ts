@@ -5,8 +5,13 @@ import {
   GeneratedTypescriptCdkInfrastructureBaseProject,
   GeneratedTypescriptCdkInfrastructureBaseProjectOptions,
 } from "./generated-typescript-cdk-infrastructure-base-project";
-import { MockResponseGenerationOptions } from "../../../types";
 import {
+  ApiType,
+  ApiTypeOptions,
+  MockResponseGenerationOptions,
+} from "../../../types";
+import {
+  buildInvokeLocalServerCommand,
   buildInvokeMockDataGeneratorCommand,
   CodegenOptions,
   getHandlersProjectVendorExtensions,
@@ -15,7 +20,8 @@ import {
 
 export interface GeneratedTypescriptCdkInfrastructureProjectOptions
   extends GeneratedTypescriptCdkInfrastructureBaseProjectOptions,
-    MockResponseGenerationOptions {}
+    MockResponseGenerationOptions,
+    ApiTypeOptions {}
 
 export class GeneratedTypescriptCdkInfrastructureProject extends GeneratedTypescriptCdkInfrastructureBaseProject {
   /**
@@ -31,6 +37,22 @@ export class GeneratedTypescriptCdkInfrastructureProject extends GeneratedTypesc
     if (!this.options.mockDataOptions?.disable) {
       this.generateTask.exec(this.buildGenerateMockDataCommand());
     }
+
+    this.addTask("local", {
+      description:
+        "Run the API locally, invoking the packaged handlers or returning mock responses for operations without handlers",
+      receiveArgs: true,
+      exec: buildInvokeLocalServerCommand(
+        this,
+        this.options.generatedHandlers,
+        {
+          specPath: this.options.specPath,
+          mocksPath: this.options.mockDataOptions?.disable
+            ? undefined
+            : "mocks",
+        }
+      ),
+    });
   }
 
   protected buildCodegenOptions(): CodegenOptions {
@@ -43,8 +65,11 @@ export class GeneratedTypescriptCdkInfrastructureProject extends GeneratedTypesc
           this.options.generatedTypescriptTypes.package.packageName,
         // Spec path relative to the source directory
         relativeSpecPath: path.join("..", this.packagedSpecPath),
-        // Enable mock integration generation by default
-        enableMockIntegrations: !this.options.mockDataOptions?.disable,
+        apiType: this.options.apiType,
+        // Enable mock integration generation by default. Mock integrations are not supported by HTTP APIs.
+        enableMockIntegrations:
+          !this.options.mockDataOptions?.disable &&
+          this.options.apiType !== ApiType.HTTP,
         ...getHandlersProjectVendorExtensions(
           this,
           this.options.generatedHandlers
@@ -0,0 +1,49 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as path from "path";
+import { WebSocketLibrary } from "../../languages";
+import { CodegenOptions } from "../components/utils";
+import {
+  GeneratedJavaRuntimeBaseProject,
+  GeneratedJavaRuntimeBaseProjectOptions,
+} from "../runtime/generated-java-runtime-base-project";
+
+/**
+ * Configuration for the generated java websocket client project
+ */
+export interface JavaWebsocketClientLibraryOptions
+  extends GeneratedJavaRuntimeBaseProjectOptions {}
+
+/**
+ * Java project containing a generated websocket client
+ */
+export class JavaWebsocketClientLibrary extends GeneratedJavaRuntimeBaseProject {
+  constructor(options: JavaWebsocketClientLibraryOptions) {
+    super(options);
+  }
+
+  protected buildCodegenOptions(): CodegenOptions {
+    return {
+      specPath: this.options.specPath,
+      templateDirs: [
+        WebSocketLibrary.JAVA_WEBSOCKET_CLIENT,
+        "java/templates/client/models",
+        // Models depend on the JSON serialiser and its supporting classes
+        "java/templates/client/generic",
+        "java/templates/client/auth",
+      ],
+      metadata: {
+        groupId: this.pom.groupId,
+        artifactId: this.pom.artifactId,
+        artifactVersion: this.pom.version,
+        packageName: this.packageName,
+        srcDir: path.join(
+          "src",
+          "main",
+          "java",
+          ...this.packageName.split(".")
+        ),
+      },
+    };
+  }
+}
@@ -0,0 +1,41 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { WebSocketLibrary } from "../../languages";
+import { CodegenOptions } from "../components/utils";
+import {
+  GeneratedPythonRuntimeBaseProject,
+  GeneratedPythonRuntimeBaseProjectOptions,
+} from "../runtime/generated-python-runtime-base-project";
+
+/**
+ * Configuration for the generated python websocket client project
+ */
+export interface PythonWebsocketClientLibraryOptions
+  extends GeneratedPythonRuntimeBaseProjectOptions {}
+
+/**
+ * Python project containing a generated websocket client
+ */
+export class PythonWebsocketClientLibrary extends GeneratedPythonRuntimeBaseProject {
+  constructor(options: PythonWebsocketClientLibraryOptions) {
+    super(options);
+
+    // botocore, used to sign connection requests with IAM authentication, is already a dependency of the base project
+    this.addDependency("websockets@^12");
+  }
+
+  protected buildCodegenOptions(): CodegenOptions {
+    return {
+      specPath: this.options.specPath,
+      templateDirs: [
+        WebSocketLibrary.PYTHON_WEBSOCKET_CLIENT,
+        "python/templates/client/models",
+      ],
+      metadata: {
+        srcDir: this.moduleName,
+        moduleName: this.moduleName,
+        projectName: this.name,
+      },
+    };
+  }
+}
@@ -0,0 +1,50 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { TypeScriptJsxMode } from "projen/lib/javascript";
+import {
+  GeneratedTypescriptLibraryProject,
+  GeneratedTypescriptLibraryProjectOptions,
+} from "./generated-typescript-library-project";
+import { Language, Library } from "../../languages";
+import { CodegenOptions } from "../components/utils";
+
+/**
+ * Configuration for the generated swr hooks project
+ */
+export interface GeneratedTypescriptSwrHooksProjectOptions
+  extends GeneratedTypescriptLibraryProjectOptions {}
+
+/**
+ * Typescript project containing generated swr hooks
+ */
+export class TypescriptSwrHooksLibrary extends GeneratedTypescriptLibraryProject {
+  constructor(options: GeneratedTypescriptSwrHooksProjectOptions) {
+    super({
+      ...options,
+      tsconfig: options.tsconfig ?? {
+        compilerOptions: {
+          jsx: TypeScriptJsxMode.REACT,
+        },
+      },
+    });
+
+    // Add dependencies on swr and react
+    this.addDeps("swr@^2");
+    this.addDevDeps("react", "@types/react");
+    this.addPeerDeps("react");
+  }
+
+  public buildCodegenOptions(): CodegenOptions {
+    return {
+      specPath: this.options.specPath,
+      // Include the typescript client code in the hooks library
+      templateDirs: [
+        `${Language.TYPESCRIPT}/templates/client`,
+        Library.TYPESCRIPT_SWR_HOOKS,
+      ],
+      metadata: {
+        srcDir: this.srcdir,
+      },
+    };
+  }
+}
@@ -0,0 +1,42 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import {
+  GeneratedTypescriptLibraryProject,
+  GeneratedTypescriptLibraryProjectOptions,
+} from "./generated-typescript-library-project";
+import { Language, Library } from "../../languages";
+import { CodegenOptions } from "../components/utils";
+
+/**
+ * Configuration for the generated vue-query project
+ */
+export interface GeneratedTypescriptVueQueryProjectOptions
+  extends GeneratedTypescriptLibraryProjectOptions {}
+
+/**
+ * Typescript project containing generated vue-query composables
+ */
+export class TypescriptVueQueryLibrary extends GeneratedTypescriptLibraryProject {
+  constructor(options: GeneratedTypescriptVueQueryProjectOptions) {
+    super(options);
+
+    // Add dependencies on vue-query and vue
+    this.addDeps("@tanstack/vue-query@^5");
+    this.addDevDeps("vue");
+    this.addPeerDeps("vue");
+  }
+
+  public buildCodegenOptions(): CodegenOptions {
+    return {
+      specPath: this.options.specPath,
+      // Include the typescript client code in the composables library
+      templateDirs: [
+        `${Language.TYPESCRIPT}/templates/client`,
+        Library.TYPESCRIPT_VUE_QUERY,
+      ],
+      metadata: {
+        srcDir: this.srcdir,
+      },
+    };
+  }
+}
@@ -0,0 +1,40 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import {
+  GeneratedTypescriptLibraryProject,
+  GeneratedTypescriptLibraryProjectOptions,
+} from "./generated-typescript-library-project";
+import { Library } from "../../languages";
+import { CodegenOptions } from "../components/utils";
+
+/**
+ * Configuration for the generated zod schemas project
+ */
+export interface GeneratedTypescriptZodSchemasProjectOptions
+  extends GeneratedTypescriptLibraryProjectOptions {}
+
+/**
+ * Typescript project containing generated zod schemas, as well as standalone JSON Schema files
+ */
+export class TypescriptZodSchemasLibrary extends GeneratedTypescriptLibraryProject {
+  constructor(options: GeneratedTypescriptZodSchemasProjectOptions) {
+    super(options);
+
+    this.addDeps("zod@^3");
+
+    if (!options.commitGeneratedCode) {
+      // Ignore the generated JSON Schema files
+      this.gitignore.addPatterns("json-schemas");
+    }
+  }
+
+  public buildCodegenOptions(): CodegenOptions {
+    return {
+      specPath: this.options.specPath,
+      templateDirs: [Library.TYPESCRIPT_ZOD_SCHEMAS],
+      metadata: {
+        srcDir: this.srcdir,
+      },
+    };
+  }
+}
@@ -0,0 +1,81 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { JsonFile, Project, ProjectOptions, Task } from "projen";
+import { GeneratedLoadTestsOptions } from "../../types";
+import { TypeSafeApiCommandEnvironment } from "../components/type-safe-api-command-environment";
+import {
+  buildTypeSafeApiExecCommand,
+  TypeSafeApiScript,
+} from "../components/utils";
+
+export interface GeneratedLoadTestsProjectOptions
+  extends ProjectOptions,
+    GeneratedLoadTestsOptions {
+  /**
+   * Path to the OpenAPI Specification to generate load tests from, relative to the project outdir
+   */
+  readonly specPath: string;
+}
+
+/**
+ * Project which generates a k6 load test script with a scenario for every operation.
+ * Load tests are not run as part of the build, since they require a deployed api.
+ * @see https://k6.io/
+ */
+export class GeneratedLoadTestsProject extends Project {
+  /**
+   * Task which runs the load tests with k6
+   */
+  public readonly loadTestTask: Task;
+
+  private readonly generateTask: Task;
+
+  constructor(options: GeneratedLoadTestsProjectOptions) {
+    super(options);
+    TypeSafeApiCommandEnvironment.ensure(this);
+
+    const configPath = "load-test-config.json";
+    new JsonFile(this, configPath, {
+      obj: {
+        baseUrl: options.baseUrl,
+        defaultProfile: options.defaultProfile,
+        profiles: options.profiles,
+        thresholds: options.thresholds,
+        operationThresholds: options.operationThresholds,
+        skipOperations: options.skipOperations,
+      },
+    });
+
+    const args: Record<string, string | number | undefined> = {
+      specPath: options.specPath,
+      configPath,
+      outputPath: "load-test.js",
+      examplesPerOperation: options.examplesPerOperation,
+      locale: options.locale,
+      maxArrayLength: options.maxArrayLength,
+      seed: options.seed,
+    };
+
+    this.generateTask = this.addTask("generate");
+    this.generateTask.exec(
+      buildTypeSafeApiExecCommand(
+        TypeSafeApiScript.GENERATE_LOAD_TESTS,
+        Object.entries(args)
+          .filter(([, value]) => value !== undefined)
+          .map(([name, value]) => `--${name} ${value}`)
+          .join(" ")
+      )
+    );
+    this.compileTask.spawn(this.generateTask);
+
+    this.loadTestTask = this.addTask("test:load", {
+      description:
+        "Load test the api with k6. Pass -e LOAD_PROFILE=<name> to choose a profile, and -e API_BASE_URL=<url> to specify the api",
+    });
+    this.loadTestTask.exec("k6 run load-test.js", { receiveArgs: true });
+
+    if (!options.commitGeneratedCode) {
+      this.gitignore.addPatterns("load-test.js");
+    }
+  }
+}
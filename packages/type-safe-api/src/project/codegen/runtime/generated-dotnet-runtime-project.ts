@@ -0,0 +1,86 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { Project, ProjectOptions, Task } from "projen";
+import { Language } from "../../languages";
+import {
+  CodeGenerationSourceOptions,
+  GeneratedDotNetRuntimeOptions,
+} from "../../types";
+import { TypeSafeApiCommandEnvironment } from "../components/type-safe-api-command-environment";
+import {
+  buildCodegenCommandArgs,
+  buildTypeSafeApiExecCommand,
+  CodegenOptions,
+  TypeSafeApiScript,
+} from "../components/utils";
+
+/**
+ * Configuration for the generated .NET runtime project
+ */
+export interface GeneratedDotNetRuntimeProjectOptions
+  extends ProjectOptions,
+    GeneratedDotNetRuntimeOptions,
+    CodeGenerationSourceOptions {}
+
+/**
+ * .NET project containing types, client and server code generated from an OpenAPI specification
+ */
+export class GeneratedDotNetRuntimeProject extends Project {
+  /**
+   * Root namespace of the generated code, for use in using directives
+   */
+  public readonly namespace: string;
+
+  /**
+   * Options configured for the project
+   */
+  protected readonly options: GeneratedDotNetRuntimeProjectOptions;
+
+  private readonly generateTask: Task;
+
+  constructor(options: GeneratedDotNetRuntimeProjectOptions) {
+    super(options);
+    TypeSafeApiCommandEnvironment.ensure(this);
+    this.options = options;
+    this.namespace =
+      options.namespace ??
+      options.name
+        .split(/[^a-zA-Z0-9]+/)
+        .filter((part) => part)
+        .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+        .join(".");
+
+    this.generateTask = this.addTask("generate");
+    this.generateTask.exec(
+      buildTypeSafeApiExecCommand(
+        TypeSafeApiScript.GENERATE,
+        this.buildGenerateCommandArgs()
+      )
+    );
+
+    this.preCompileTask.spawn(this.generateTask);
+    this.compileTask.exec("dotnet build --configuration Release");
+
+    if (!options.commitGeneratedCode) {
+      // Ignore all the generated code
+      this.gitignore.addPatterns("src", "*.csproj");
+    }
+    this.gitignore.addPatterns("bin", "obj", ".tsapi-manifest");
+  }
+
+  public buildGenerateCommandArgs = () => {
+    return buildCodegenCommandArgs(this.buildCodegenOptions());
+  };
+
+  protected buildCodegenOptions(): CodegenOptions {
+    return {
+      specPath: this.options.specPath,
+      templateDirs: [Language.DOTNET],
+      metadata: {
+        namespace: this.namespace,
+        projectName: this.namespace,
+        srcDir: "src",
+      },
+    };
+  }
+}
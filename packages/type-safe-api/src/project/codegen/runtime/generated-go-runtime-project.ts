@@ -0,0 +1,92 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { Project, ProjectOptions, Task } from "projen";
+import { Language } from "../../languages";
+import {
+  CodeGenerationSourceOptions,
+  GeneratedGoRuntimeOptions,
+} from "../../types";
+import { TypeSafeApiCommandEnvironment } from "../components/type-safe-api-command-environment";
+import {
+  buildCodegenCommandArgs,
+  buildTypeSafeApiExecCommand,
+  CodegenOptions,
+  TypeSafeApiScript,
+} from "../components/utils";
+
+/**
+ * Configuration for the generated go runtime project
+ */
+export interface GeneratedGoRuntimeProjectOptions
+  extends ProjectOptions,
+    GeneratedGoRuntimeOptions,
+    CodeGenerationSourceOptions {}
+
+/**
+ * Go project containing types, client and server code generated from an OpenAPI specification
+ */
+export class GeneratedGoRuntimeProject extends Project {
+  /**
+   * Path of the go module
+   */
+  public readonly moduleName: string;
+  /**
+   * Name of the go package containing the generated code
+   */
+  public readonly packageName: string;
+
+  /**
+   * Options configured for the project
+   */
+  protected readonly options: GeneratedGoRuntimeProjectOptions;
+
+  private readonly generateTask: Task;
+
+  constructor(options: GeneratedGoRuntimeProjectOptions) {
+    super(options);
+    TypeSafeApiCommandEnvironment.ensure(this);
+    this.options = options;
+    this.moduleName = options.moduleName ?? options.name;
+    this.packageName =
+      options.packageName ??
+      this.moduleName
+        .split("/")
+        .pop()!
+        .replace(/[^a-zA-Z0-9]/g, "")
+        .toLowerCase();
+
+    this.generateTask = this.addTask("generate");
+    this.generateTask.exec(
+      buildTypeSafeApiExecCommand(
+        TypeSafeApiScript.GENERATE,
+        this.buildGenerateCommandArgs()
+      )
+    );
+    this.generateTask.exec("gofmt -w .");
+
+    this.preCompileTask.spawn(this.generateTask);
+    this.compileTask.exec("go mod tidy");
+    this.compileTask.exec("go build ./...");
+
+    if (!options.commitGeneratedCode) {
+      // Ignore all the generated code
+      this.gitignore.addPatterns("*.go", "go.mod", "go.sum");
+    }
+    this.gitignore.addPatterns(".tsapi-manifest");
+  }
+
+  public buildGenerateCommandArgs = () => {
+    return buildCodegenCommandArgs(this.buildCodegenOptions());
+  };
+
+  protected buildCodegenOptions(): CodegenOptions {
+    return {
+      specPath: this.options.specPath,
+      templateDirs: [Language.GO],
+      metadata: {
+        moduleName: this.moduleName,
+        packageName: this.packageName,
+      },
+    };
+  }
+}
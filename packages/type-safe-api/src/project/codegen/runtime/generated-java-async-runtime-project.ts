@@ -6,7 +6,7 @@ import {
   GeneratedJavaRuntimeBaseProjectOptions,
 } from "./generated-java-runtime-base-project";
 import { Language } from "../../languages";
-import { CodegenOptions } from "../components/utils";
+import { CodegenOptions, OtherGenerators } from "../components/utils";
 
 /**
  * Configuration for the generated java runtime project
@@ -20,6 +20,9 @@ export interface GeneratedJavaAsyncRuntimeProjectOptions
 export class GeneratedJavaAsyncRuntimeProject extends GeneratedJavaRuntimeBaseProject {
   constructor(options: GeneratedJavaAsyncRuntimeProjectOptions) {
     super(options);
+
+    // Used by the server sdk to send messages to connected clients
+    this.addDependency("software.amazon.awssdk/apigatewaymanagementapi@2.25.0");
   }
 
   protected buildCodegenOptions(): CodegenOptions {
@@ -28,6 +31,7 @@ export class GeneratedJavaAsyncRuntimeProject extends GeneratedJavaRuntimeBasePr
       templateDirs: [
         // TODO: when implemented, swap to OtherGenerators.JAVA_ASYNC_RUNTIME and "java/templates/client/models"
         Language.JAVA,
+        `${OtherGenerators.JAVA_ASYNC_RUNTIME}/templates/server/sdk`,
       ],
       metadata: {
         groupId: this.pom.groupId,
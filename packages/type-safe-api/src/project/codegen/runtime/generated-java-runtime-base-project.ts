@@ -45,6 +45,10 @@ const DEPENDENCIES: string[] = [
   "software.amazon.lambda/powertools-metrics@1.18.0",
   // SnapStart
   "io.github.crac/org-crac@0.1.3",
+  // For signing requests to operations authorized with AWS IAM
+  "software.amazon.awssdk/auth@2.25.0",
+  "software.amazon.awssdk/http-auth-aws@2.25.0",
+  "software.amazon.awssdk/regions@2.25.0",
 ];
 
 const TEST_DEPENDENCIES: string[] = [
@@ -0,0 +1,132 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as path from "path";
+import { DependencyType } from "projen";
+import { JavaProject } from "projen/lib/java";
+import { Language } from "../../languages";
+import {
+  CodeGenerationSourceOptions,
+  GeneratedKotlinRuntimeOptions,
+} from "../../types";
+import { TypeSafeApiCommandEnvironment } from "../components/type-safe-api-command-environment";
+import {
+  buildCodegenCommandArgs,
+  buildTypeSafeApiExecCommand,
+  CodegenOptions,
+  TypeSafeApiScript,
+} from "../components/utils";
+
+/**
+ * Configuration for the generated kotlin runtime project
+ */
+export interface GeneratedKotlinRuntimeProjectOptions
+  extends GeneratedKotlinRuntimeOptions,
+    CodeGenerationSourceOptions {}
+
+const KOTLIN_VERSION = "1.9.24";
+
+const DEPENDENCIES: string[] = [
+  `org.jetbrains.kotlin/kotlin-stdlib@${KOTLIN_VERSION}`,
+  // Serialisation of models
+  "com.fasterxml.jackson.core/jackson-databind@2.17.1",
+  "com.fasterxml.jackson.module/jackson-module-kotlin@2.17.1",
+  "com.fasterxml.jackson.datatype/jackson-datatype-jsr310@2.17.1",
+  // For handler wrappers
+  "com.amazonaws/aws-lambda-java-core@1.2.1",
+  "com.amazonaws/aws-lambda-java-events@3.11.0",
+];
+
+/**
+ * Kotlin project containing types, client and server code generated from an OpenAPI specification
+ */
+export class GeneratedKotlinRuntimeProject extends JavaProject {
+  /**
+   * The package name, for use in imports
+   */
+  public readonly packageName: string;
+
+  /**
+   * Options configured for the project
+   */
+  protected readonly options: GeneratedKotlinRuntimeProjectOptions;
+
+  constructor(options: GeneratedKotlinRuntimeProjectOptions) {
+    super({
+      ...(options as any),
+      sample: false,
+      junit: false,
+    });
+    TypeSafeApiCommandEnvironment.ensure(this);
+    this.options = options;
+
+    // Add dependencies
+    DEPENDENCIES.forEach((dep) => this.addDependency(dep));
+
+    // Pin constructs version
+    this.deps.removeDependency(
+      "software.constructs/constructs",
+      DependencyType.BUILD
+    );
+    this.addDependency("software.constructs/constructs@10.3.0");
+
+    // Compile the kotlin sources
+    this.pom.addPlugin(
+      `org.jetbrains.kotlin/kotlin-maven-plugin@${KOTLIN_VERSION}`,
+      {
+        configuration: {
+          jvmTarget: "17",
+          sourceDirs: [{ sourceDir: "${project.basedir}/src/main/kotlin" }],
+        },
+        executions: [
+          {
+            id: "compile",
+            phase: "compile",
+            goals: ["compile"],
+          },
+        ],
+      }
+    );
+
+    this.packageName = `${this.pom.groupId}.${this.name}.runtime`;
+
+    // Generate the kotlin code
+    const generateTask = this.addTask("generate");
+    generateTask.exec(
+      buildTypeSafeApiExecCommand(
+        TypeSafeApiScript.GENERATE,
+        this.buildGenerateCommandArgs()
+      )
+    );
+
+    this.preCompileTask.spawn(generateTask);
+
+    if (!options.commitGeneratedCode) {
+      // Ignore all the generated code
+      this.gitignore.addPatterns("src", "docs", "api", "README.md");
+    }
+    this.gitignore.addPatterns(".openapi-generator", ".tsapi-manifest");
+  }
+
+  public buildGenerateCommandArgs = () => {
+    return buildCodegenCommandArgs(this.buildCodegenOptions());
+  };
+
+  protected buildCodegenOptions(): CodegenOptions {
+    return {
+      specPath: this.options.specPath,
+      templateDirs: [Language.KOTLIN],
+      metadata: {
+        groupId: this.pom.groupId,
+        artifactId: this.pom.artifactId,
+        artifactVersion: this.pom.version,
+        packageName: this.packageName,
+        srcDir: path.join(
+          "src",
+          "main",
+          "kotlin",
+          ...this.packageName.split(".")
+        ),
+      },
+    };
+  }
+}
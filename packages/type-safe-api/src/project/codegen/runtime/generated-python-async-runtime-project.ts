@@ -5,7 +5,7 @@ import {
   GeneratedPythonRuntimeBaseProjectOptions,
 } from "./generated-python-runtime-base-project";
 import { Language } from "../../languages";
-import { CodegenOptions } from "../components/utils";
+import { CodegenOptions, OtherGenerators } from "../components/utils";
 
 /**
  * Configuration for the generated python types project
@@ -25,7 +25,10 @@ export class GeneratedPythonAsyncRuntimeProject extends GeneratedPythonRuntimeBa
     return {
       specPath: this.options.specPath,
       // TODO: when implemented, point to OtherGenerators.PYTHON_ASYNC_RUNTIME, and 'python/templates/client/models'
-      templateDirs: [Language.PYTHON],
+      templateDirs: [
+        Language.PYTHON,
+        `${OtherGenerators.PYTHON_ASYNC_RUNTIME}/templates/server/sdk`,
+      ],
       metadata: {
         srcDir: this.moduleName,
         moduleName: this.moduleName,
@@ -50,6 +50,7 @@ export abstract class GeneratedPythonRuntimeBaseProject extends PythonProject {
       "pydantic@^2.5.2",
       "aenum@^3.1.11",
       "urllib3@~1.26.7",
+      "botocore@^1.34.0",
       `aws-lambda-powertools@{extras=["tracer", "aws-sdk"],version="^2.28.0"}`,
       "python@^3.9",
     ].forEach((dep) => this.addDependency(dep));
@@ -0,0 +1,81 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { Project, ProjectOptions, Task } from "projen";
+import { Language } from "../../languages";
+import {
+  CodeGenerationSourceOptions,
+  GeneratedRustRuntimeOptions,
+} from "../../types";
+import { TypeSafeApiCommandEnvironment } from "../components/type-safe-api-command-environment";
+import {
+  buildCodegenCommandArgs,
+  buildTypeSafeApiExecCommand,
+  CodegenOptions,
+  TypeSafeApiScript,
+} from "../components/utils";
+
+/**
+ * Configuration for the generated rust runtime project
+ */
+export interface GeneratedRustRuntimeProjectOptions
+  extends ProjectOptions,
+    GeneratedRustRuntimeOptions,
+    CodeGenerationSourceOptions {}
+
+/**
+ * Cargo project containing types, client and server code generated from an OpenAPI specification
+ */
+export class GeneratedRustRuntimeProject extends Project {
+  /**
+   * Name of the crate
+   */
+  public readonly crateName: string;
+
+  /**
+   * Options configured for the project
+   */
+  protected readonly options: GeneratedRustRuntimeProjectOptions;
+
+  private readonly generateTask: Task;
+
+  constructor(options: GeneratedRustRuntimeProjectOptions) {
+    super(options);
+    TypeSafeApiCommandEnvironment.ensure(this);
+    this.options = options;
+    this.crateName =
+      options.crateName ??
+      options.name.replace(/[^a-zA-Z0-9_-]/g, "-").toLowerCase();
+
+    this.generateTask = this.addTask("generate");
+    this.generateTask.exec(
+      buildTypeSafeApiExecCommand(
+        TypeSafeApiScript.GENERATE,
+        this.buildGenerateCommandArgs()
+      )
+    );
+
+    this.preCompileTask.spawn(this.generateTask);
+    this.compileTask.exec("cargo build --release");
+
+    if (!options.commitGeneratedCode) {
+      // Ignore all the generated code
+      this.gitignore.addPatterns("src", "Cargo.toml", "Cargo.lock");
+    }
+    this.gitignore.addPatterns("target", ".tsapi-manifest");
+  }
+
+  public buildGenerateCommandArgs = () => {
+    return buildCodegenCommandArgs(this.buildCodegenOptions());
+  };
+
+  protected buildCodegenOptions(): CodegenOptions {
+    return {
+      specPath: this.options.specPath,
+      templateDirs: [Language.RUST],
+      metadata: {
+        crateName: this.crateName,
+        srcDir: "src",
+      },
+    };
+  }
+}
@@ -20,7 +20,10 @@ export class GeneratedTypescriptAsyncRuntimeProject extends GeneratedTypescriptR
   constructor(options: GeneratedTypescriptAsyncRuntimeProjectOptions) {
     super(options);
 
-    this.addDeps("@aws-sdk/client-apigatewaymanagementapi");
+    this.addDeps(
+      "@aws-sdk/client-apigatewaymanagementapi",
+      "@aws-sdk/client-dynamodb"
+    );
   }
 
   protected buildCodegenOptions(): CodegenOptions {
@@ -19,6 +19,15 @@ export interface GeneratedTypescriptTypesProjectOptions
 export class GeneratedTypescriptRuntimeProject extends GeneratedTypescriptRuntimeBaseProject {
   constructor(options: GeneratedTypescriptTypesProjectOptions) {
     super(options);
+
+    this.addDeps(
+      // For signing requests to operations authorized with AWS IAM
+      "@aws-crypto/sha256-js@^5",
+      "@smithy/signature-v4@^5",
+      "@smithy/protocol-http@^5",
+      "@aws-sdk/types@^3",
+      "@aws-sdk/credential-provider-node@^3"
+    );
   }
 
   protected buildCodegenOptions(): CodegenOptions {
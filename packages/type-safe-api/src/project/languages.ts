@@ -7,6 +7,10 @@ export enum Language {
   TYPESCRIPT = "typescript",
   PYTHON = "python",
   JAVA = "java",
+  GO = "go",
+  KOTLIN = "kotlin",
+  DOTNET = "dotnet",
+  RUST = "rust",
 }
 
 /**
@@ -42,11 +46,16 @@ export enum PythonVersion {
  */
 export enum Library {
   TYPESCRIPT_REACT_QUERY_HOOKS = "typescript-react-query-hooks",
+  TYPESCRIPT_VUE_QUERY = "typescript-vue-query",
+  TYPESCRIPT_SWR_HOOKS = "typescript-swr-hooks",
+  TYPESCRIPT_ZOD_SCHEMAS = "typescript-zod-schemas",
 }
 
 export enum WebSocketLibrary {
   TYPESCRIPT_WEBSOCKET_CLIENT = "typescript-websocket-client",
   TYPESCRIPT_WEBSOCKET_HOOKS = "typescript-websocket-hooks",
+  PYTHON_WEBSOCKET_CLIENT = "python-websocket-client",
+  JAVA_WEBSOCKET_CLIENT = "java-websocket-client",
 }
 
 /**
@@ -66,6 +75,21 @@ export enum DocumentationFormat {
    * PlantUML schema diagrams
    */
   PLANTUML = "plantuml",
+  /**
+   * Postman v2.1 collection of example requests
+   * @see https://www.postman.com/
+   */
+  POSTMAN = "postman",
+  /**
+   * Bruno collection of example requests
+   * @see https://www.usebruno.com/
+   */
+  BRUNO = "bruno",
+  /**
+   * .http file of example requests, for the VS Code REST Client
+   * @see https://github.com/Huachao/vscode-restclient
+   */
+  HTTP_FILE = "http_file",
 }
 
 /**
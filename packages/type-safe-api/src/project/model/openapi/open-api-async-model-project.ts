@@ -14,6 +14,7 @@ import {
 } from "../type-safe-api-async-model-build";
 import {
   TypeSafeApiModelBuild,
+  TypeSafeApiModelBuildBreakingChangeOptions,
   TypeSafeApiModelBuildOutputOptions,
 } from "../type-safe-api-model-build";
 
@@ -24,7 +25,8 @@ export interface OpenApiAsyncModelProjectOptions
   extends ProjectOptions,
     OpenApiAsyncDefinitionOptions,
     TypeSafeApiModelBuildOutputOptions,
-    TypeSafeApiAsyncModelBuildOutputOptions {}
+    TypeSafeApiAsyncModelBuildOutputOptions,
+    TypeSafeApiModelBuildBreakingChangeOptions {}
 
 /**
  * Project for defining an OpenAPI model for a WebSocket API
@@ -50,6 +52,7 @@ export class OpenApiAsyncModelProject extends Project {
     new TypeSafeApiModelBuild(this, {
       openApiSpecificationPath: this.definition.openApiSpecificationPath,
       parsedSpecFile: options.parsedSpecFile,
+      breakingChanges: options.breakingChanges,
     });
 
     new TypeSafeApiAsyncModelBuild(this, {
@@ -10,13 +10,15 @@ import { ModelLanguage } from "../../types";
 import { ModelReadme } from "../model-readme";
 import {
   TypeSafeApiModelBuild,
+  TypeSafeApiModelBuildBreakingChangeOptions,
   TypeSafeApiModelBuildOutputOptions,
 } from "../type-safe-api-model-build";
 
 export interface OpenApiModelProjectOptions
   extends ProjectOptions,
     OpenApiDefinitionOptions,
-    TypeSafeApiModelBuildOutputOptions {}
+    TypeSafeApiModelBuildOutputOptions,
+    TypeSafeApiModelBuildBreakingChangeOptions {}
 
 /**
  * Project for defining an OpenAPI model for a REST API
@@ -43,6 +45,7 @@ export class OpenApiModelProject extends Project {
     new TypeSafeApiModelBuild(this, {
       openApiSpecificationPath: this.definition.openApiSpecificationPath,
       parsedSpecFile: options.parsedSpecFile,
+      breakingChanges: options.breakingChanges,
     });
 
     new ModelReadme(this, {
@@ -42,7 +42,7 @@ export class SmithyAwsPdkPrelude extends FileBase {
       configuration: {
           bindToTrait: ${traitFqn}
           selector: """
-              [@trait|${traitFqn}: @{language} = typescript, java, python]
+              [@trait|${traitFqn}: @{language} = typescript, java, python, go, rust]
               :not([@trait|${traitFqn}: @{language} = ${handlerLanguages?.join(
           ", "
         )}])
@@ -78,11 +78,11 @@ export class SmithyAwsPdkPrelude extends FileBase {
       configuration: {
           bindToTrait: ${traitFqn}
           selector: """
-              :not([@trait|${traitFqn}: @{language} = typescript, java, python])
+              :not([@trait|${traitFqn}: @{language} = typescript, java, python, go, rust])
           """
           messageTemplate: """
               @{trait|${traitFqn}|language} is not supported by type-safe-api.
-              Supported languages are "typescript", "java" and "python".
+              Supported languages are "typescript", "java", "python", "go" and "rust".
           """
       }
     }
@@ -132,11 +132,16 @@ namespace ${this.options.serviceNamespace}
 @trait(selector: "operation")
 structure handler {
     /// The language you will implement the lambda in.
-    /// Valid values: typescript, java, python
+    /// Valid values: typescript, java, python, go, rust
     @required
     language: String
 }
 
+/// Add this trait to an operation to stream its responses as Server-Sent Events.
+/// The output of the operation is the shape of each event.
+@trait(selector: "operation")
+structure streaming {}
+
 `;
   }
 }
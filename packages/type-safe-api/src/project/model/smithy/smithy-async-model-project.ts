@@ -9,6 +9,7 @@ import {
 } from "../type-safe-api-async-model-build";
 import {
   TypeSafeApiModelBuild,
+  TypeSafeApiModelBuildBreakingChangeOptions,
   TypeSafeApiModelBuildOutputOptions,
 } from "../type-safe-api-model-build";
 import { SmithyAsyncSampleCode } from "./components/smithy-async-sample-code";
@@ -35,7 +36,8 @@ export interface SmithyAsyncModelProjectOptions
   extends SmithyBaseProjectOptions,
     SmithyServiceProjectDefinitionOptions,
     TypeSafeApiModelBuildOutputOptions,
-    TypeSafeApiAsyncModelBuildOutputOptions {}
+    TypeSafeApiAsyncModelBuildOutputOptions,
+    TypeSafeApiModelBuildBreakingChangeOptions {}
 
 /**
  * Smithy model project for a WebSocket API
@@ -112,6 +114,7 @@ export class SmithyAsyncModelProject extends SmithyBaseProject {
       openApiSpecificationPath: this.definition.openApiSpecificationPath,
       smithyJsonModelPath: this.definition.smithyJsonModelPath,
       parsedSpecFile: options.parsedSpecFile,
+      breakingChanges: options.breakingChanges,
     });
 
     new TypeSafeApiAsyncModelBuild(this, {
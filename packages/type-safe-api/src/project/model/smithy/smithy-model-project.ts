@@ -5,6 +5,7 @@ import { ModelLanguage } from "../../types";
 import { ModelReadme } from "../model-readme";
 import {
   TypeSafeApiModelBuild,
+  TypeSafeApiModelBuildBreakingChangeOptions,
   TypeSafeApiModelBuildOutputOptions,
 } from "../type-safe-api-model-build";
 import { SmithySampleCode } from "./components/smithy-sample-code";
@@ -24,7 +25,8 @@ import {
 export interface SmithyModelProjectOptions
   extends SmithyBaseProjectOptions,
     SmithyServiceProjectDefinitionOptions,
-    TypeSafeApiModelBuildOutputOptions {}
+    TypeSafeApiModelBuildOutputOptions,
+    TypeSafeApiModelBuildBreakingChangeOptions {}
 
 /**
  * Smithy model project for a REST API
@@ -62,6 +64,7 @@ export class SmithyModelProject extends SmithyBaseProject {
       openApiSpecificationPath: this.definition.openApiSpecificationPath,
       smithyJsonModelPath: this.definition.smithyJsonModelPath,
       parsedSpecFile: options.parsedSpecFile,
+      breakingChanges: options.breakingChanges,
     });
 
     new ModelReadme(this, {
@@ -6,6 +6,7 @@ import {
   buildTypeSafeApiExecCommand,
   TypeSafeApiScript,
 } from "../codegen/components/utils";
+import { BreakingChangeDetectionOptions } from "../types";
 
 /**
  * Output for the OpenAPI parse/bundle task
@@ -17,11 +18,23 @@ export interface TypeSafeApiModelBuildOutputOptions {
   readonly parsedSpecFile: string;
 }
 
+/**
+ * Options for detecting breaking changes to the parsed/bundled OpenAPI spec
+ */
+export interface TypeSafeApiModelBuildBreakingChangeOptions {
+  /**
+   * Detect breaking changes against a baseline version of the model as part of the build
+   * @default - breaking changes are not detected
+   */
+  readonly breakingChanges?: BreakingChangeDetectionOptions;
+}
+
 /**
  * Options for configuring the OpenAPI parse/bundle task
  */
 export interface TypeSafeApiModelBuildOptions
-  extends TypeSafeApiModelBuildOutputOptions {
+  extends TypeSafeApiModelBuildOutputOptions,
+    TypeSafeApiModelBuildBreakingChangeOptions {
   /**
    * Path to the OpenAPI specification
    */
@@ -39,8 +52,12 @@ export class TypeSafeApiModelBuild extends Component {
   constructor(project: Project, options: TypeSafeApiModelBuildOptions) {
     super(project);
 
-    const { openApiSpecificationPath, smithyJsonModelPath, parsedSpecFile } =
-      options;
+    const {
+      openApiSpecificationPath,
+      smithyJsonModelPath,
+      parsedSpecFile,
+      breakingChanges,
+    } = options;
 
     const generateTask = GenerateTask.ensure(project);
 
@@ -55,6 +72,23 @@ export class TypeSafeApiModelBuild extends Component {
 
     project.compileTask.spawn(generateTask);
 
+    if (breakingChanges) {
+      const breakingChangesTask = project.addTask("breaking-changes", {
+        description: `Detect breaking changes to the model compared to ${breakingChanges.baseline}`,
+        exec: buildTypeSafeApiExecCommand(
+          TypeSafeApiScript.BREAKING_CHANGES,
+          `--specPath ${parsedSpecFile} --baseline ${
+            breakingChanges.baseline
+          } --baselineSpecPath ${openApiSpecificationPath}${
+            breakingChanges.failOnBreakingChanges ?? true
+              ? " --failOnBreakingChanges"
+              : ""
+          }`
+        ),
+      });
+      project.compileTask.spawn(breakingChangesTask);
+    }
+
     project.addGitIgnore(parsedSpecFile);
   }
 }
@@ -29,14 +29,18 @@ export class TypeSpecAwsPdkPreludeJs extends FileBase {
   }
 
   public synthesizeContent(_: IResolver): string | undefined {
-    // Define the implementation for the @handler decorator. This reuses the @extension decorator
-    // for adding an OpenAPI extension, but abstracts the `x-handler` key.
+    // Define the implementations for the @handler and @streaming decorators. These reuse the @extension decorator
+    // for adding an OpenAPI extension, but abstract the `x-handler` and `x-streaming` keys.
     return `// ${this.marker}
 import { $extension } from "@typespec/openapi";
 
 export function $handler(context, target, value) {
   $extension(context, target, "x-handler", value);
 }
+
+export function $streaming(context, target) {
+  $extension(context, target, "x-streaming", true);
+}
 `;
   }
 }
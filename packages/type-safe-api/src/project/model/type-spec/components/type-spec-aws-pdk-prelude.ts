@@ -40,8 +40,8 @@ export class TypeSpecAwsPdkPrelude extends FileBase {
     const hasAnyHandlerProjects =
       (this.options.handlerLanguages ?? []).length > 0;
 
-    // If there are handler languages, we define the @handler decorator.
-    // The decorator implementation is defined in the prelude.js file.
+    // If there are handler languages, we define the @handler decorator. The @streaming decorator is always defined.
+    // The decorator implementations are defined in the prelude.js file.
     return `// ${this.marker}
 import "./prelude.js";
 
@@ -56,6 +56,12 @@ ${
 extern dec handler(target: Operation, options: HandlerOptions);`
     : ""
 }
+
+/**
+ * Add this decorator to an operation to stream its responses as Server-Sent Events.
+ * The type of the 200 response is the type of each event.
+ */
+extern dec streaming(target: Operation);
 `;
   }
 }
@@ -11,6 +11,7 @@ import {
 } from "../type-safe-api-async-model-build";
 import {
   TypeSafeApiModelBuild,
+  TypeSafeApiModelBuildBreakingChangeOptions,
   TypeSafeApiModelBuildOutputOptions,
 } from "../type-safe-api-model-build";
 import { TypeSpecAsyncDefinition } from "./type-spec-async-definition";
@@ -22,7 +23,8 @@ export interface TypeSpecAsyncModelProjectOptions
   extends NodeProjectOptions,
     TypeSpecDefinitionOptions,
     TypeSafeApiAsyncModelBuildOutputOptions,
-    TypeSafeApiModelBuildOutputOptions {}
+    TypeSafeApiModelBuildOutputOptions,
+    TypeSafeApiModelBuildBreakingChangeOptions {}
 
 /**
  * Model project for defining a WebSocket API in TypeSpec
@@ -43,6 +45,7 @@ export class TypeSpecAsyncModelProject extends NodeProject {
     new TypeSafeApiModelBuild(this, {
       openApiSpecificationPath: this.definition.openApiSpecificationPath,
       parsedSpecFile: options.parsedSpecFile,
+      breakingChanges: options.breakingChanges,
     });
 
     // Add the async model build to generate the AsyncAPI specification for docs generation
@@ -10,6 +10,7 @@ import { ModelLanguage } from "../../types";
 import { ModelReadme } from "../model-readme";
 import {
   TypeSafeApiModelBuild,
+  TypeSafeApiModelBuildBreakingChangeOptions,
   TypeSafeApiModelBuildOutputOptions,
 } from "../type-safe-api-model-build";
 
@@ -19,7 +20,8 @@ import {
 export interface TypeSpecModelProjectOptions
   extends NodeProjectOptions,
     TypeSpecDefinitionOptions,
-    TypeSafeApiModelBuildOutputOptions {}
+    TypeSafeApiModelBuildOutputOptions,
+    TypeSafeApiModelBuildBreakingChangeOptions {}
 
 /**
  * Model project for defining a REST API in TypeSpec
@@ -40,6 +42,7 @@ export class TypeSpecModelProject extends NodeProject {
     new TypeSafeApiModelBuild(this, {
       openApiSpecificationPath: this.definition.openApiSpecificationPath,
       parsedSpecFile: options.parsedSpecFile,
+      breakingChanges: options.breakingChanges,
     });
 
     new ModelReadme(this, {
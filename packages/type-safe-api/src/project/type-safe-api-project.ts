@@ -15,6 +15,7 @@ import { JavaProject } from "projen/lib/java";
 import { NodePackageManager, NodeProject } from "projen/lib/javascript";
 import { PythonProject } from "projen/lib/python";
 import { TypeScriptProject } from "projen/lib/typescript";
+import { GeneratedContractTestsProject } from "./codegen/contract-tests/generated-contract-tests-project";
 import {
   generateRuntimeProjects,
   generateDocsProjects,
@@ -23,16 +24,23 @@ import {
   generateHandlersProjects,
   generateModelProject,
 } from "./codegen/generate";
+import { GeneratedGoHandlersProject } from "./codegen/handlers/generated-go-handlers-project";
 import { GeneratedJavaHandlersProject } from "./codegen/handlers/generated-java-handlers-project";
 import { GeneratedPythonHandlersProject } from "./codegen/handlers/generated-python-handlers-project";
+import { GeneratedRustHandlersProject } from "./codegen/handlers/generated-rust-handlers-project";
 import { GeneratedTypescriptHandlersProject } from "./codegen/handlers/generated-typescript-handlers-project";
+import { GeneratedLoadTestsProject } from "./codegen/load-tests/generated-load-tests-project";
+import { GeneratedGoRuntimeProject } from "./codegen/runtime/generated-go-runtime-project";
 import { GeneratedJavaRuntimeProject } from "./codegen/runtime/generated-java-runtime-project";
 import { GeneratedPythonRuntimeProject } from "./codegen/runtime/generated-python-runtime-project";
+import { GeneratedRustRuntimeProject } from "./codegen/runtime/generated-rust-runtime-project";
 import { GeneratedTypescriptRuntimeProject } from "./codegen/runtime/generated-typescript-runtime-project";
 import { DocumentationFormat, Language, Library } from "./languages";
 import {
   GeneratedRuntimeCodeOptions,
   GeneratedCodeProjects,
+  GeneratedContractTestsOptions,
+  GeneratedLoadTestsOptions,
   GeneratedDocumentationOptions,
   GeneratedDocumentationProjects,
   GeneratedLibraryOptions,
@@ -160,6 +168,16 @@ export interface TypeSafeApiProjectOptions extends ProjectOptions {
    * fully-fledged runtimes, for example react hooks or clients in languages that aren't supported as runtimes.
    */
   readonly library?: LibraryConfiguration;
+  /**
+   * Configuration for generated contract tests, which test a deployed or locally running api against the model.
+   * When specified, a contract tests project is generated with a `test:contract` task.
+   */
+  readonly contractTests?: GeneratedContractTestsOptions;
+  /**
+   * Configuration for generated k6 load tests, which apply load to every operation of a deployed api.
+   * When specified, a load tests project is generated with a `test:load` task.
+   */
+  readonly loadTests?: GeneratedLoadTestsOptions;
   /**
    * Whether to commit the code generated by the OpenAPI Generator.
    * @default false
@@ -200,6 +218,14 @@ export class TypeSafeApiProject extends Project {
    * Generated documentation projects. Only the properties corresponding to specified `documentation.formats` will be defined.
    */
   public readonly documentation: GeneratedDocumentationProjects;
+  /**
+   * Generated contract tests project. Only defined when `contractTests` is specified.
+   */
+  public readonly contractTests?: Project;
+  /**
+   * Generated load tests project. Only defined when `loadTests` is specified.
+   */
+  public readonly loadTests?: Project;
   /**
    * Collections of all sub-projects managed by this project
    */
@@ -308,6 +334,35 @@ export class TypeSafeApiProject extends Project {
           false,
         ...options.runtime?.options?.java,
       },
+      goOptions: {
+        commitGeneratedCode:
+          options.runtime?.options?.go?.commitGeneratedCode ??
+          options.commitGeneratedCode ??
+          false,
+        ...options.runtime?.options?.go,
+      },
+      kotlinOptions: {
+        version: "0.0.0",
+        commitGeneratedCode:
+          options.runtime?.options?.kotlin?.commitGeneratedCode ??
+          options.commitGeneratedCode ??
+          false,
+        ...options.runtime?.options?.kotlin,
+      },
+      dotnetOptions: {
+        commitGeneratedCode:
+          options.runtime?.options?.dotnet?.commitGeneratedCode ??
+          options.commitGeneratedCode ??
+          false,
+        ...options.runtime?.options?.dotnet,
+      },
+      rustOptions: {
+        commitGeneratedCode:
+          options.runtime?.options?.rust?.commitGeneratedCode ??
+          options.commitGeneratedCode ??
+          false,
+        ...options.runtime?.options?.rust,
+      },
     });
 
     const documentationFormats = [
@@ -332,8 +387,49 @@ export class TypeSafeApiProject extends Project {
       htmlRedoc: generatedDocs[DocumentationFormat.HTML_REDOC],
       markdown: generatedDocs[DocumentationFormat.MARKDOWN],
       plantuml: generatedDocs[DocumentationFormat.PLANTUML],
+      postman: generatedDocs[DocumentationFormat.POSTMAN],
+      bruno: generatedDocs[DocumentationFormat.BRUNO],
+      httpFile: generatedDocs[DocumentationFormat.HTTP_FILE],
     };
 
+    if (options.contractTests) {
+      const contractTestsDir = path.join(generatedDir, "contract-tests");
+      this.contractTests = new GeneratedContractTestsProject({
+        ...options.contractTests,
+        parent: nxWorkspace ? this.parent! : this,
+        name: `${this.name}-contract-tests`,
+        outdir: nxWorkspace
+          ? path.join(options.outdir!, contractTestsDir)
+          : contractTestsDir,
+        specPath: path.join(
+          path.relative(
+            path.join(this.outdir, contractTestsDir),
+            path.join(this.outdir, modelDir)
+          ),
+          this.model.parsedSpecFile
+        ),
+      });
+    }
+
+    if (options.loadTests) {
+      const loadTestsDir = path.join(generatedDir, "load-tests");
+      this.loadTests = new GeneratedLoadTestsProject({
+        ...options.loadTests,
+        parent: nxWorkspace ? this.parent! : this,
+        name: `${this.name}-load-tests`,
+        outdir: nxWorkspace
+          ? path.join(options.outdir!, loadTestsDir)
+          : loadTestsDir,
+        specPath: path.join(
+          path.relative(
+            path.join(this.outdir, loadTestsDir),
+            path.join(this.outdir, modelDir)
+          ),
+          this.model.parsedSpecFile
+        ),
+      });
+    }
+
     const libraries = [...new Set(options.library?.libraries ?? [])];
 
     const libraryDir = path.join(generatedDir, "libraries");
@@ -359,14 +455,43 @@ export class TypeSafeApiProject extends Project {
           false,
         ...options.library?.options?.typescriptReactQueryHooks,
       },
+      typescriptVueQueryOptions: {
+        defaultReleaseBranch,
+        packageManager,
+        commitGeneratedCode:
+          options.library?.options?.typescriptVueQuery?.commitGeneratedCode ??
+          options.commitGeneratedCode ??
+          false,
+        ...options.library?.options?.typescriptVueQuery,
+      },
+      typescriptSwrHooksOptions: {
+        defaultReleaseBranch,
+        packageManager,
+        commitGeneratedCode:
+          options.library?.options?.typescriptSwrHooks?.commitGeneratedCode ??
+          options.commitGeneratedCode ??
+          false,
+        ...options.library?.options?.typescriptSwrHooks,
+      },
+      typescriptZodSchemasOptions: {
+        defaultReleaseBranch,
+        packageManager,
+        commitGeneratedCode:
+          options.library?.options?.typescriptZodSchemas?.commitGeneratedCode ??
+          options.commitGeneratedCode ??
+          false,
+        ...options.library?.options?.typescriptZodSchemas,
+      },
     });
 
-    // Ensure the generated runtime, libraries and docs projects have a dependency on the model project
+    // Ensure the generated runtime, libraries, docs, contract tests and load tests projects have a dependency on the model project
     if (this.parent) {
       [
         ...Object.values(generatedRuntimeProjects),
         ...Object.values(generatedDocs),
         ...Object.values(generatedLibraryProjects),
+        ...(this.contractTests ? [this.contractTests] : []),
+        ...(this.loadTests ? [this.loadTests] : []),
       ].forEach((project) => {
         NxProject.ensure(project).addImplicitDependency(modelProject);
       });
@@ -382,6 +507,12 @@ export class TypeSafeApiProject extends Project {
       python: generatedRuntimeProjects[Language.PYTHON]
         ? (generatedRuntimeProjects[Language.PYTHON] as PythonProject)
         : undefined,
+      go: generatedRuntimeProjects[Language.GO],
+      kotlin: generatedRuntimeProjects[Language.KOTLIN]
+        ? (generatedRuntimeProjects[Language.KOTLIN] as JavaProject)
+        : undefined,
+      dotnet: generatedRuntimeProjects[Language.DOTNET],
+      rust: generatedRuntimeProjects[Language.RUST],
     };
 
     this.library = {
@@ -392,6 +523,23 @@ export class TypeSafeApiProject extends Project {
             Library.TYPESCRIPT_REACT_QUERY_HOOKS
           ] as TypeScriptProject)
         : undefined,
+      typescriptVueQuery: generatedLibraryProjects[Library.TYPESCRIPT_VUE_QUERY]
+        ? (generatedLibraryProjects[
+            Library.TYPESCRIPT_VUE_QUERY
+          ] as TypeScriptProject)
+        : undefined,
+      typescriptSwrHooks: generatedLibraryProjects[Library.TYPESCRIPT_SWR_HOOKS]
+        ? (generatedLibraryProjects[
+            Library.TYPESCRIPT_SWR_HOOKS
+          ] as TypeScriptProject)
+        : undefined,
+      typescriptZodSchemas: generatedLibraryProjects[
+        Library.TYPESCRIPT_ZOD_SCHEMAS
+      ]
+        ? (generatedLibraryProjects[
+            Library.TYPESCRIPT_ZOD_SCHEMAS
+          ] as TypeScriptProject)
+        : undefined,
     };
 
     const handlersDir = "handlers";
@@ -450,6 +598,20 @@ export class TypeSafeApiProject extends Project {
             false,
           ...options.handlers?.options?.java,
         },
+        goOptions: {
+          commitGeneratedCode:
+            options.handlers?.options?.go?.commitGeneratedCode ??
+            options.commitGeneratedCode ??
+            false,
+          ...options.handlers?.options?.go,
+        },
+        rustOptions: {
+          commitGeneratedCode:
+            options.handlers?.options?.rust?.commitGeneratedCode ??
+            options.commitGeneratedCode ??
+            false,
+          ...options.handlers?.options?.rust,
+        },
         generatedRuntimes: {
           typescript: this.runtime.typescript as
             | GeneratedTypescriptRuntimeProject
@@ -458,6 +620,8 @@ export class TypeSafeApiProject extends Project {
             | GeneratedPythonRuntimeProject
             | undefined,
           java: this.runtime.java as GeneratedJavaRuntimeProject | undefined,
+          go: this.runtime.go as GeneratedGoRuntimeProject | undefined,
+          rust: this.runtime.rust as GeneratedRustRuntimeProject | undefined,
         },
       }
     );
@@ -472,6 +636,8 @@ export class TypeSafeApiProject extends Project {
       python: generatedHandlersProjects[Language.PYTHON]
         ? (generatedHandlersProjects[Language.PYTHON] as PythonProject)
         : undefined,
+      go: generatedHandlersProjects[Language.GO],
+      rust: generatedHandlersProjects[Language.RUST],
     };
 
     // Ensure the handlers project depends on the appropriate runtime projects
@@ -490,6 +656,16 @@ export class TypeSafeApiProject extends Project {
         this.runtime.python!
       );
     }
+    if (this.handlers.go) {
+      NxProject.ensure(this.handlers.go).addImplicitDependency(
+        this.runtime.go!
+      );
+    }
+    if (this.handlers.rust) {
+      NxProject.ensure(this.handlers.rust).addImplicitDependency(
+        this.runtime.rust!
+      );
+    }
 
     const infraDir = path.join(generatedDir, "infrastructure");
     const infraDirRelativeToParent = nxWorkspace
@@ -539,6 +715,8 @@ export class TypeSafeApiProject extends Project {
           | GeneratedPythonRuntimeProject
           | undefined,
         java: this.runtime.java as GeneratedJavaRuntimeProject | undefined,
+        go: this.runtime.go as GeneratedGoRuntimeProject | undefined,
+        rust: this.runtime.rust as GeneratedRustRuntimeProject | undefined,
       },
       generatedHandlers: {
         typescript: this.handlers.typescript as
@@ -548,6 +726,8 @@ export class TypeSafeApiProject extends Project {
           | GeneratedPythonHandlersProject
           | undefined,
         java: this.handlers.java as GeneratedJavaHandlersProject | undefined,
+        go: this.handlers.go as GeneratedGoHandlersProject | undefined,
+        rust: this.handlers.rust as GeneratedRustHandlersProject | undefined,
       },
     });
 
@@ -605,6 +785,8 @@ export class TypeSafeApiProject extends Project {
         ...allLibraries,
         ...allDocumentation,
         ...allHandlers,
+        ...(this.contractTests ? [this.contractTests] : []),
+        ...(this.loadTests ? [this.loadTests] : []),
       ],
     };
 
@@ -616,6 +798,7 @@ export class TypeSafeApiProject extends Project {
         infraProject,
         ...Object.values(generatedLibraryProjects),
         ...Object.values(generatedDocs),
+        ...(this.loadTests ? [this.loadTests] : []),
       ].forEach((project) => {
         this.compileTask.exec("npx projen build", {
           cwd: path.relative(this.outdir, project.outdir),
@@ -379,6 +379,16 @@ export class TypeSafeWebSocketApiProject extends Project {
         packageManager,
         ...options.library?.options?.typescriptWebSocketHooks,
       },
+      pythonWebSocketClientOptions: {
+        authorName: "APJ Cope",
+        authorEmail: "apj-cope@amazon.com",
+        version: "0.0.0",
+        ...options.library?.options?.pythonWebSocketClient,
+      },
+      javaWebSocketClientOptions: {
+        version: "0.0.0",
+        ...options.library?.options?.javaWebSocketClient,
+      },
     });
 
     // Ensure the generated runtime, libraries and docs projects have a dependency on the model project
@@ -419,6 +429,20 @@ export class TypeSafeWebSocketApiProject extends Project {
             WebSocketLibrary.TYPESCRIPT_WEBSOCKET_HOOKS
           ] as TypeScriptProject)
         : undefined,
+      pythonWebSocketClient: generatedLibraryProjects[
+        WebSocketLibrary.PYTHON_WEBSOCKET_CLIENT
+      ]
+        ? (generatedLibraryProjects[
+            WebSocketLibrary.PYTHON_WEBSOCKET_CLIENT
+          ] as PythonProject)
+        : undefined,
+      javaWebSocketClient: generatedLibraryProjects[
+        WebSocketLibrary.JAVA_WEBSOCKET_CLIENT
+      ]
+        ? (generatedLibraryProjects[
+            WebSocketLibrary.JAVA_WEBSOCKET_CLIENT
+          ] as JavaProject)
+        : undefined,
     };
 
     // For the hooks library, add a dependency on the client
@@ -51,6 +51,21 @@ export enum Architecture {
   ARM_64 = "ARM_64",
 }
 
+/**
+ * The type of API Gateway API deployed by generated infrastructure
+ */
+export enum ApiType {
+  /**
+   * An API Gateway REST API
+   */
+  REST = "REST",
+  /**
+   * An API Gateway HTTP API, which is lower cost and lower latency than a REST API but supports fewer features
+   * @see https://docs.aws.amazon.com/apigateway/latest/developerguide/http-api-vs-rest.html
+   */
+  HTTP = "HTTP",
+}
+
 /**
  * Options for a Smithy model
  */
@@ -83,6 +98,24 @@ export interface TypeSpecModelOptions {
   readonly namespace: string;
 }
 
+/**
+ * Options for detecting breaking changes to the model
+ */
+export interface BreakingChangeDetectionOptions {
+  /**
+   * The version of the model to compare against. Either a path (relative to the model project) to a saved
+   * specification such as a previously parsed .api.json, or a git ref (eg. origin/mainline) at which the OpenAPI
+   * specification is read. Git refs are supported only for OpenAPI models, since Smithy and TypeSpec models do not
+   * commit their generated OpenAPI specification.
+   */
+  readonly baseline: string;
+  /**
+   * Whether to fail the build when breaking changes are detected. When false, changes are reported only.
+   * @default true
+   */
+  readonly failOnBreakingChanges?: boolean;
+}
+
 /**
  * Options for models
  */
@@ -101,6 +134,12 @@ export interface ModelOptions {
    * Options for the TypeSpec model - required when the model language is TYPESPEC.
    */
   readonly typeSpec?: TypeSpecModelOptions;
+
+  /**
+   * Options for detecting breaking changes to the model as part of the build. Breaking changes are not detected
+   * unless specified.
+   */
+  readonly breakingChanges?: BreakingChangeDetectionOptions;
 }
 
 /**
@@ -135,6 +174,51 @@ export interface GeneratedJavaRuntimeOptions
   extends JavaProjectOptions,
     GeneratedProjectOptions {}
 
+/**
+ * Options for configuring a generated go runtime project
+ */
+export interface GeneratedGoRuntimeOptions extends GeneratedProjectOptions {
+  /**
+   * Path of the go module, used when importing the runtime
+   * @default - inferred from the project name
+   */
+  readonly moduleName?: string;
+  /**
+   * Name of the go package for the generated code
+   * @default - the last element of the module path, with non-alphanumeric characters removed
+   */
+  readonly packageName?: string;
+}
+
+/**
+ * Options for configuring a generated kotlin runtime project
+ */
+export interface GeneratedKotlinRuntimeOptions
+  extends JavaProjectOptions,
+    GeneratedProjectOptions {}
+
+/**
+ * Options for configuring a generated .NET runtime project
+ */
+export interface GeneratedDotNetRuntimeOptions extends GeneratedProjectOptions {
+  /**
+   * Root namespace of the generated code
+   * @default - inferred from the project name
+   */
+  readonly namespace?: string;
+}
+
+/**
+ * Options for configuring a generated rust runtime project
+ */
+export interface GeneratedRustRuntimeOptions extends GeneratedProjectOptions {
+  /**
+   * Name of the crate, used when depending on the runtime
+   * @default - inferred from the project name
+   */
+  readonly crateName?: string;
+}
+
 /**
  * Options for generating mock data
  */
@@ -172,13 +256,26 @@ export interface MockResponseGenerationOptions {
   readonly mockDataOptions?: MockResponseDataGenerationOptions;
 }
 
+/**
+ * Options for the type of API targeted by generated infrastructure
+ */
+export interface ApiTypeOptions {
+  /**
+   * The type of API Gateway API created by the generated Api construct. HTTP APIs are created with the
+   * TypeSafeHttpApi construct, and mock integrations are not generated for them.
+   * @default ApiType.REST
+   */
+  readonly apiType?: ApiType;
+}
+
 /**
  * Options for configuring a generated typescript infrastructure project
  */
 export interface GeneratedTypeScriptInfrastructureOptions
   extends TypeScriptProjectOptions,
     GeneratedProjectOptions,
-    MockResponseGenerationOptions {}
+    MockResponseGenerationOptions,
+    ApiTypeOptions {}
 
 /**
  * Options for configuring a generated python infrastructure project
@@ -186,7 +283,8 @@ export interface GeneratedTypeScriptInfrastructureOptions
 export interface GeneratedPythonInfrastructureOptions
   extends PythonProjectOptions,
     GeneratedProjectOptions,
-    MockResponseGenerationOptions {}
+    MockResponseGenerationOptions,
+    ApiTypeOptions {}
 
 /**
  * Options for configuring a generated java infrastructure project
@@ -194,7 +292,8 @@ export interface GeneratedPythonInfrastructureOptions
 export interface GeneratedJavaInfrastructureOptions
   extends JavaProjectOptions,
     GeneratedProjectOptions,
-    MockResponseGenerationOptions {}
+    MockResponseGenerationOptions,
+    ApiTypeOptions {}
 
 /**
  * Options for configuring a generated typescript handlers project
@@ -249,6 +348,40 @@ export interface GeneratedJavaHandlersOptions
   readonly runtimeVersion?: JavaVersion;
 }
 
+/**
+ * Options for configuring a generated go handlers project
+ */
+export interface GeneratedGoHandlersOptions extends GeneratedProjectOptions {
+  /**
+   * Path of the go module for the handlers
+   * @default - inferred from the project name
+   */
+  readonly moduleName?: string;
+  /**
+   * The architecture to target for go handlers.
+   * This determines the GOARCH used to build the lambda distributables.
+   * @default Architecture.X86_64
+   */
+  readonly architecture?: Architecture;
+}
+
+/**
+ * Options for configuring a generated rust handlers project
+ */
+export interface GeneratedRustHandlersOptions extends GeneratedProjectOptions {
+  /**
+   * Name of the crate for the handlers
+   * @default - inferred from the project name
+   */
+  readonly crateName?: string;
+  /**
+   * The architecture to target for rust handlers.
+   * This determines the target used by cargo lambda to build the lambda distributables.
+   * @default Architecture.X86_64
+   */
+  readonly architecture?: Architecture;
+}
+
 /**
  * Options for configuring a generated typescript hooks library project
  */
@@ -262,6 +395,27 @@ export interface GeneratedTypeScriptReactQueryHooksOptions
   readonly useReactQueryV5?: boolean;
 }
 
+/**
+ * Options for configuring a generated typescript vue-query library project
+ */
+export interface GeneratedTypeScriptVueQueryOptions
+  extends TypeScriptProjectOptions,
+    GeneratedProjectOptions {}
+
+/**
+ * Options for configuring a generated typescript swr hooks library project
+ */
+export interface GeneratedTypeScriptSwrHooksOptions
+  extends TypeScriptProjectOptions,
+    GeneratedProjectOptions {}
+
+/**
+ * Options for configuring a generated typescript zod schemas library project
+ */
+export interface GeneratedTypeScriptZodSchemasOptions
+  extends TypeScriptProjectOptions,
+    GeneratedProjectOptions {}
+
 /**
  * Options for configuring a generated typescript websocket client library project
  */
@@ -276,6 +430,20 @@ export interface GeneratedTypeScriptWebSocketHooksOptions
   extends TypeScriptProjectOptions,
     GeneratedProjectOptions {}
 
+/**
+ * Options for configuring a generated python websocket client library project
+ */
+export interface GeneratedPythonWebSocketClientOptions
+  extends PythonProjectOptions,
+    GeneratedProjectOptions {}
+
+/**
+ * Options for configuring a generated java websocket client library project
+ */
+export interface GeneratedJavaWebSocketClientOptions
+  extends JavaProjectOptions,
+    GeneratedProjectOptions {}
+
 /**
  * Options for generated runtimes
  */
@@ -292,6 +460,22 @@ export interface GeneratedRuntimeCodeOptions {
    * Options for a generated java project. These override the default inferred options.
    */
   readonly java?: GeneratedJavaRuntimeOptions;
+  /**
+   * Options for a generated go project. These override the default inferred options.
+   */
+  readonly go?: GeneratedGoRuntimeOptions;
+  /**
+   * Options for a generated kotlin project. These override the default inferred options.
+   */
+  readonly kotlin?: GeneratedKotlinRuntimeOptions;
+  /**
+   * Options for a generated .NET project. These override the default inferred options.
+   */
+  readonly dotnet?: GeneratedDotNetRuntimeOptions;
+  /**
+   * Options for a generated rust project. These override the default inferred options.
+   */
+  readonly rust?: GeneratedRustRuntimeOptions;
 }
 
 /**
@@ -328,6 +512,14 @@ export interface GeneratedHandlersCodeOptions {
    * Options for the java handlers project. These override the default inferred options.
    */
   readonly java?: GeneratedJavaHandlersOptions;
+  /**
+   * Options for the go handlers project. These override the default inferred options.
+   */
+  readonly go?: GeneratedGoHandlersOptions;
+  /**
+   * Options for the rust handlers project. These override the default inferred options.
+   */
+  readonly rust?: GeneratedRustHandlersOptions;
 }
 
 /**
@@ -380,6 +572,22 @@ export interface GeneratedCodeProjects {
    * Generated java project
    */
   readonly java?: JavaProject;
+  /**
+   * Generated go project
+   */
+  readonly go?: Project;
+  /**
+   * Generated kotlin project
+   */
+  readonly kotlin?: JavaProject;
+  /**
+   * Generated .NET project
+   */
+  readonly dotnet?: Project;
+  /**
+   * Generated rust project
+   */
+  readonly rust?: Project;
 }
 
 /**
@@ -453,6 +661,18 @@ export interface GeneratedLibraryOptions {
    * Options for the generated typescript react-query hooks library. These override the default inferred options.
    */
   readonly typescriptReactQueryHooks?: GeneratedTypeScriptReactQueryHooksOptions;
+  /**
+   * Options for the generated typescript vue-query library. These override the default inferred options.
+   */
+  readonly typescriptVueQuery?: GeneratedTypeScriptVueQueryOptions;
+  /**
+   * Options for the generated typescript swr hooks library. These override the default inferred options.
+   */
+  readonly typescriptSwrHooks?: GeneratedTypeScriptSwrHooksOptions;
+  /**
+   * Options for the generated typescript zod schemas library. These override the default inferred options.
+   */
+  readonly typescriptZodSchemas?: GeneratedTypeScriptZodSchemasOptions;
 }
 
 export interface GeneratedWebSocketLibraryOptions {
@@ -464,6 +684,14 @@ export interface GeneratedWebSocketLibraryOptions {
    * Options for the generated typescript websocket hooks library. These override the default inferred options.
    */
   readonly typescriptWebSocketHooks?: GeneratedTypeScriptWebSocketHooksOptions;
+  /**
+   * Options for the generated python websocket client library. These override the default inferred options.
+   */
+  readonly pythonWebSocketClient?: GeneratedPythonWebSocketClientOptions;
+  /**
+   * Options for the generated java websocket client library. These override the default inferred options.
+   */
+  readonly javaWebSocketClient?: GeneratedJavaWebSocketClientOptions;
 }
 
 /**
@@ -474,6 +702,18 @@ export interface GeneratedLibraryProjects {
    * Generated typescript react-query hooks project
    */
   readonly typescriptReactQueryHooks?: TypeScriptProject;
+  /**
+   * Generated typescript vue-query project
+   */
+  readonly typescriptVueQuery?: TypeScriptProject;
+  /**
+   * Generated typescript swr hooks project
+   */
+  readonly typescriptSwrHooks?: TypeScriptProject;
+  /**
+   * Generated typescript zod schemas project
+   */
+  readonly typescriptZodSchemas?: TypeScriptProject;
 }
 
 /**
@@ -489,6 +729,16 @@ export interface GeneratedWebSocketLibraryProjects {
    * Generated typescript websocket hooks project
    */
   readonly typescriptWebSocketHooks?: TypeScriptProject;
+
+  /**
+   * Generated python websocket client project
+   */
+  readonly pythonWebSocketClient?: PythonProject;
+
+  /**
+   * Generated java websocket client project
+   */
+  readonly javaWebSocketClient?: JavaProject;
 }
 
 /**
@@ -515,6 +765,36 @@ export interface GeneratedMarkdownDocumentationOptions
 export interface GeneratedPlantumlDocumentationOptions
   extends GeneratedProjectOptions {}
 
+/**
+ * Options for documentation projects which export the model as a collection of example requests
+ */
+export interface GeneratedRequestCollectionDocumentationOptions
+  extends GeneratedProjectOptions {
+  /**
+   * Default value for the baseUrl variable in the collection, for example the url of a deployed stage
+   * @default http://localhost:3000
+   */
+  readonly baseUrl?: string;
+}
+
+/**
+ * Options for the postman collection documentation project
+ */
+export interface GeneratedPostmanDocumentationOptions
+  extends GeneratedRequestCollectionDocumentationOptions {}
+
+/**
+ * Options for the bruno collection documentation project
+ */
+export interface GeneratedBrunoDocumentationOptions
+  extends GeneratedRequestCollectionDocumentationOptions {}
+
+/**
+ * Options for the .http file documentation project
+ */
+export interface GeneratedHttpFileDocumentationOptions
+  extends GeneratedRequestCollectionDocumentationOptions {}
+
 /**
  * Options for the async api html documentation project
  */
@@ -527,6 +807,155 @@ export interface GeneratedAsyncApiHtmlDocumentationOptions
 export interface GeneratedAsyncApiMarkdownDocumentationOptions
   extends GeneratedProjectOptions {}
 
+/**
+ * Options for the contract tests project
+ */
+export interface GeneratedContractTestsOptions {
+  /**
+   * Base URL of the API to test, for example a deployed stage or the local development server.
+   * When omitted, pass `--baseUrl` to the `test:contract` task, or set the API_BASE_URL environment variable.
+   * @default - the API_BASE_URL environment variable
+   */
+  readonly baseUrl?: string;
+  /**
+   * Operation ids of operations to exclude from the contract tests, for example those with side effects
+   * @default - all operations are tested
+   */
+  readonly skipOperations?: string[];
+  /**
+   * Locale of generated request data
+   * @see https://fakerjs.dev/guide/localization.html#available-locales
+   * @default en
+   */
+  readonly locale?: string;
+  /**
+   * Maximum length of generated arrays
+   * @default 3
+   */
+  readonly maxArrayLength?: number;
+  /**
+   * Seed for faker to generate request data with
+   * @default 1337
+   */
+  readonly seed?: number;
+}
+
+/**
+ * A stage of a load test profile, during which the request rate to each operation ramps linearly to the target
+ */
+export interface LoadTestStage {
+  /**
+   * Duration of the stage in seconds
+   */
+  readonly durationSeconds: number;
+  /**
+   * Target requests per second to each operation by the end of the stage
+   */
+  readonly requestsPerSecond: number;
+}
+
+/**
+ * A load test profile, which describes the request rate applied to every operation over time
+ */
+export interface LoadTestProfile {
+  /**
+   * Stages of the load test
+   */
+  readonly stages: LoadTestStage[];
+  /**
+   * Requests per second to each operation at the start of the first stage
+   * @default 0
+   */
+  readonly startRequestsPerSecond?: number;
+  /**
+   * Number of virtual users to allocate per operation before the test starts
+   * @default 10
+   */
+  readonly preAllocatedVirtualUsers?: number;
+  /**
+   * Maximum number of virtual users per operation, which limits the number of concurrent requests
+   * @default 100
+   */
+  readonly maxVirtualUsers?: number;
+}
+
+/**
+ * Criteria for an operation to pass the load test
+ */
+export interface LoadTestThresholds {
+  /**
+   * Maximum 95th percentile response time in milliseconds
+   * @default 500
+   */
+  readonly p95ResponseTimeMs?: number;
+  /**
+   * Maximum rate (between 0 and 1) of responses which are not successful responses modelled for the operation
+   * @default 0.01
+   */
+  readonly maxErrorRate?: number;
+  /**
+   * Maximum rate (between 0 and 1) of responses with a status code which is not modelled for the operation
+   * @default 0
+   */
+  readonly maxUnexpectedResponseRate?: number;
+}
+
+/**
+ * Options for the generated load tests project
+ */
+export interface GeneratedLoadTestsOptions extends GeneratedProjectOptions {
+  /**
+   * Base URL of the API to load test, for example a deployed stage.
+   * When omitted, pass `-e API_BASE_URL=<url>` to the `test:load` task.
+   * @default - the API_BASE_URL k6 environment variable
+   */
+  readonly baseUrl?: string;
+  /**
+   * Load test profiles, keyed by name. These are added to the default "smoke" and "load" profiles.
+   * @default - smoke and load profiles only
+   */
+  readonly profiles?: { [name: string]: LoadTestProfile };
+  /**
+   * Profile to use when one is not specified with `-e LOAD_PROFILE=<name>`
+   * @default smoke
+   */
+  readonly defaultProfile?: string;
+  /**
+   * Criteria for every operation to pass the load test
+   */
+  readonly thresholds?: LoadTestThresholds;
+  /**
+   * Criteria for specific operations to pass the load test, keyed by operation id. These override `thresholds`.
+   */
+  readonly operationThresholds?: { [operationId: string]: LoadTestThresholds };
+  /**
+   * Operation ids of operations to exclude from the load tests, for example those with side effects
+   * @default - all operations are load tested
+   */
+  readonly skipOperations?: string[];
+  /**
+   * Number of different example requests to generate for each operation
+   * @default 5
+   */
+  readonly examplesPerOperation?: number;
+  /**
+   * Locale of generated request data
+   * @see https://fakerjs.dev/guide/localization.html#available-locales
+   * @default en
+   */
+  readonly locale?: string;
+  /**
+   * Maximum length of generated arrays
+   * @default 3
+   */
+  readonly maxArrayLength?: number;
+  /**
+   * Seed for faker to generate request data with
+   * @default 1337
+   */
+  readonly seed?: number;
+}
+
 /**
  * Options for generated documentation projects
  */
@@ -543,6 +972,18 @@ export interface GeneratedDocumentationOptions {
    * Generated plantuml documentation project options
    */
   readonly plantuml?: GeneratedPlantumlDocumentationOptions;
+  /**
+   * Generated postman collection documentation project options
+   */
+  readonly postman?: GeneratedPostmanDocumentationOptions;
+  /**
+   * Generated bruno collection documentation project options
+   */
+  readonly bruno?: GeneratedBrunoDocumentationOptions;
+  /**
+   * Generated .http file documentation project options
+   */
+  readonly httpFile?: GeneratedHttpFileDocumentationOptions;
 }
 
 /**
@@ -575,6 +1016,18 @@ export interface GeneratedDocumentationProjects {
    * Generated plantuml documentation project
    */
   readonly plantuml?: Project;
+  /**
+   * Generated postman collection documentation project
+   */
+  readonly postman?: Project;
+  /**
+   * Generated bruno collection documentation project
+   */
+  readonly bruno?: Project;
+  /**
+   * Generated .http file documentation project
+   */
+  readonly httpFile?: Project;
 }
 
 export interface GeneratedWebSocketDocumentationProjects {
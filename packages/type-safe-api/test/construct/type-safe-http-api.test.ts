@@ -0,0 +1,561 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { PDKNag } from "@aws/pdk-nag";
+import { Duration, Stack } from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import { Cors } from "aws-cdk-lib/aws-apigateway";
+import { UserPool } from "aws-cdk-lib/aws-cognito";
+import { Vpc } from "aws-cdk-lib/aws-ec2";
+import { NetworkLoadBalancer } from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { CfnFunction, Code, Function, Runtime } from "aws-cdk-lib/aws-lambda";
+import { NagSuppressions } from "cdk-nag";
+import * as _ from "lodash";
+import { OpenAPIV3 } from "openapi-types";
+import { withTempSpec } from "./utils";
+import { Integrations } from "../../src";
+import {
+  Authorizers,
+  CustomAuthorizerType,
+  MethodAndPath,
+  TypeSafeHttpApi,
+} from "../../src/construct";
+
+const testOperation: OpenAPIV3.OperationObject = {
+  operationId: "testOperation",
+  parameters: [
+    {
+      in: "header",
+      name: "x-test-header",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Successful response",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: {
+                type: "string",
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const sampleSpec: OpenAPIV3.Document = {
+  openapi: "3.0.3",
+  info: {
+    version: "1.0.0",
+    title: "Test API",
+  },
+  paths: {
+    "/test": {
+      get: testOperation,
+    },
+  },
+};
+
+const operationLookup = {
+  testOperation: <MethodAndPath>{
+    method: "get",
+    path: "/test",
+  },
+};
+
+const multiOperationSpec: OpenAPIV3.Document = {
+  openapi: "3.0.3",
+  info: {
+    version: "1.0.0",
+    title: "Test API",
+  },
+  paths: {
+    "/test/{id}": Object.fromEntries(
+      ["get", "put", "post", "delete"].map((method) => [
+        method,
+        {
+          operationId: `${method}Operation`,
+          parameters: [
+            {
+              in: "path",
+              name: "id",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: testOperation.responses,
+        },
+      ])
+    ),
+  },
+};
+
+const multiOperationLookup = Object.fromEntries(
+  ["get", "put", "post", "delete"].map((method) => [
+    `${method}Operation`,
+    <MethodAndPath>{
+      method,
+      path: "/test/{id}",
+    },
+  ])
+);
+
+const snapshotExtendedSpec = (api: TypeSafeHttpApi) => {
+  const specWithoutTokens = _.cloneDeepWith(
+    api.extendedApiSpecification,
+    (v) => {
+      if (_.isString(v)) {
+        // Replace any CDK tokens since these have non-deterministic identifiers which
+        // would change the snapshot every time
+        return (v as string).replace(/Token\[[^\]]+]/g, "<TOKEN>");
+      }
+      return undefined;
+    }
+  );
+  expect(specWithoutTokens).toMatchSnapshot();
+};
+
+const createFunction = (stack: Stack, id: string = "Lambda") => {
+  const func = new Function(stack, id, {
+    code: Code.fromInline("code"),
+    handler: "handler",
+    runtime: Runtime.NODEJS_16_X,
+  });
+  ["AwsSolutions-IAM4", "AwsPrototyping-IAMNoManagedPolicies"].forEach(
+    (RuleId) => {
+      NagSuppressions.addResourceSuppressions(
+        func,
+        [
+          {
+            id: RuleId,
+            reason: "This is a test construct.",
+          },
+        ],
+        true
+      );
+    }
+  );
+  return func;
+};
+
+describe("Type Safe Http Api Construct Unit Tests", () => {
+  it("Synth", () => {
+    const stack = new Stack(PDKNag.app());
+    const func = createFunction(stack);
+    withTempSpec(sampleSpec, (specPath) => {
+      const api = new TypeSafeHttpApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        integrations: {
+          testOperation: {
+            integration: Integrations.lambda(func),
+          },
+        },
+      });
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("Synth with local spec", () => {
+    const stack = new Stack(PDKNag.app());
+    stack.node.setContext("type-safe-api-local", true);
+    const func = createFunction(stack);
+    withTempSpec(sampleSpec, (specPath) => {
+      new TypeSafeHttpApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        integrations: {
+          testOperation: {
+            integration: Integrations.lambda(func),
+          },
+        },
+      });
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::ApiGatewayV2::Api", {
+        Body: Match.objectLike({
+          "x-amazon-apigateway-importexport-version": "1.0",
+        }),
+      });
+    });
+  });
+
+  it("Grants a single permission for a lambda reused by multiple operations", () => {
+    const stack = new Stack(PDKNag.app());
+    const func = createFunction(stack);
+    withTempSpec(multiOperationSpec, (specPath) => {
+      new TypeSafeHttpApi(stack, "ApiTest", {
+        specPath,
+        operationLookup: multiOperationLookup as any,
+        integrations: Object.fromEntries(
+          Object.keys(multiOperationLookup).map((operationId) => [
+            operationId,
+            { integration: Integrations.lambda(func) },
+          ])
+        ),
+      });
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::Lambda::Permission", 1);
+      template.hasResourceProperties("AWS::Lambda::Permission", {
+        SourceArn: {
+          "Fn::Join": [
+            "",
+            Match.arrayWith([
+              Match.stringLikeRegexp(":execute-api:"),
+              { "Fn::GetAtt": [Match.anyValue(), "ApiId"] },
+              "/*/*/*",
+            ]),
+          ],
+        },
+      });
+    });
+  });
+
+  it("With Http Integrations", () => {
+    const stack = new Stack(PDKNag.app());
+    withTempSpec(multiOperationSpec, (specPath) => {
+      const api = new TypeSafeHttpApi(stack, "ApiTest", {
+        specPath,
+        operationLookup: multiOperationLookup as any,
+        integrations: {
+          getOperation: {
+            integration: Integrations.http("https://example.com/"),
+          },
+          putOperation: {
+            integration: Integrations.http("https://example.com", {
+              httpMethod: "post",
+              path: "/other/{id}",
+              timeout: Duration.seconds(10),
+            }),
+          },
+          postOperation: {
+            integration: Integrations.http("https://example.com", {
+              path: "/greedy/{id+}",
+            }),
+          },
+          deleteOperation: {
+            integration: Integrations.http("https://example.com"),
+          },
+        },
+      });
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("Throws for integrations which are not supported", () => {
+    const stack = new Stack(PDKNag.app());
+    const nlb = new NetworkLoadBalancer(stack, "Nlb", {
+      vpc: new Vpc(stack, "Vpc"),
+    });
+    withTempSpec(sampleSpec, (specPath) => {
+      expect(
+        () =>
+          new TypeSafeHttpApi(stack, "MockApi", {
+            specPath,
+            operationLookup,
+            integrations: {
+              testOperation: {
+                integration: Integrations.mock({ statusCode: 200 }),
+              },
+            },
+          })
+      ).toThrow(
+        /The integration for operation testOperation is not supported by HTTP APIs/
+      );
+      expect(
+        () =>
+          new TypeSafeHttpApi(stack, "HttpApi", {
+            specPath,
+            operationLookup,
+            integrations: {
+              testOperation: {
+                integration: Integrations.http("https://example.com", {
+                  proxy: false,
+                }),
+              },
+            },
+          })
+      ).toThrow(
+        /only proxy integrations without requestParameters or tlsConfig are supported/
+      );
+      expect(
+        () =>
+          new TypeSafeHttpApi(stack, "VpcLinkApi", {
+            specPath,
+            operationLookup,
+            integrations: {
+              testOperation: {
+                integration: Integrations.vpcLink(nlb),
+              },
+            },
+          })
+      ).toThrow(
+        /The VPC Link integration for operation testOperation is not supported by HTTP APIs/
+      );
+    });
+  });
+
+  it("Throws for api keys and caching", () => {
+    const stack = new Stack(PDKNag.app());
+    const func = createFunction(stack);
+    withTempSpec(sampleSpec, (specPath) => {
+      expect(
+        () =>
+          new TypeSafeHttpApi(stack, "ApiKeyApi", {
+            specPath,
+            operationLookup,
+            integrations: {
+              testOperation: {
+                integration: Integrations.lambda(func),
+                options: { apiKeyRequired: true },
+              },
+            },
+          })
+      ).toThrow(
+        /API keys and caching are not supported by HTTP APIs, but were configured for operation testOperation/
+      );
+      expect(
+        () =>
+          new TypeSafeHttpApi(stack, "CachingApi", {
+            specPath,
+            operationLookup,
+            integrations: {
+              testOperation: {
+                integration: Integrations.lambda(func),
+                options: { caching: { ttl: Duration.minutes(1) } },
+              },
+            },
+          })
+      ).toThrow(
+        /API keys and caching are not supported by HTTP APIs, but were configured for operation testOperation/
+      );
+    });
+  });
+
+  it("With Cors", () => {
+    const stack = new Stack(PDKNag.app());
+    const func = createFunction(stack);
+    withTempSpec(sampleSpec, (specPath) => {
+      const api = new TypeSafeHttpApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        integrations: {
+          testOperation: {
+            integration: Integrations.lambda(func),
+          },
+        },
+        corsOptions: {
+          allowOrigins: Cors.ALL_ORIGINS,
+          allowMethods: Cors.ALL_METHODS,
+        },
+      });
+      expect(api.extendedApiSpecification["x-amazon-apigateway-cors"]).toEqual({
+        allowOrigins: Cors.ALL_ORIGINS,
+        allowMethods: Cors.ALL_METHODS,
+        allowHeaders: [
+          ...Cors.DEFAULT_HEADERS,
+          "x-amz-content-sha256",
+          "x-test-header",
+        ],
+      });
+      // Preflight requests are handled by the HTTP API
+      expect(api.extendedApiSpecification.paths["/test"].options).toBe(
+        undefined
+      );
+    });
+  });
+
+  it("With Throttling", () => {
+    const stack = new Stack(PDKNag.app());
+    const func = createFunction(stack);
+    withTempSpec(multiOperationSpec, (specPath) => {
+      new TypeSafeHttpApi(stack, "ApiTest", {
+        specPath,
+        operationLookup: multiOperationLookup as any,
+        integrations: Object.fromEntries(
+          Object.keys(multiOperationLookup).map((operationId) => [
+            operationId,
+            {
+              integration: Integrations.lambda(func),
+              ...(operationId === "getOperation"
+                ? { options: { throttling: { rateLimit: 5, burstLimit: 1 } } }
+                : {}),
+            },
+          ])
+        ),
+        throttle: { rateLimit: 100, burstLimit: 50 },
+      });
+      Template.fromStack(stack).hasResourceProperties(
+        "AWS::ApiGatewayV2::Stage",
+        {
+          StageName: "$default",
+          AutoDeploy: true,
+          DefaultRouteSettings: {
+            ThrottlingRateLimit: 100,
+            ThrottlingBurstLimit: 50,
+          },
+          RouteSettings: {
+            "GET /test/{id}": {
+              ThrottlingRateLimit: 5,
+              ThrottlingBurstLimit: 1,
+            },
+          },
+        }
+      );
+    });
+  });
+
+  it("With IAM Default Authorizer And None Override", () => {
+    const stack = new Stack(PDKNag.app());
+    const func = createFunction(stack);
+    withTempSpec(multiOperationSpec, (specPath) => {
+      const api = new TypeSafeHttpApi(stack, "ApiTest", {
+        specPath,
+        operationLookup: multiOperationLookup as any,
+        defaultAuthorizer: Authorizers.iam(),
+        integrations: Object.fromEntries(
+          Object.keys(multiOperationLookup).map((operationId) => [
+            operationId,
+            {
+              integration: Integrations.lambda(func),
+              ...(operationId === "getOperation"
+                ? { authorizer: Authorizers.none() }
+                : {}),
+            },
+          ])
+        ),
+      });
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With JWT Authorizer", () => {
+    const stack = new Stack(PDKNag.app());
+    const func = createFunction(stack);
+    withTempSpec(multiOperationSpec, (specPath) => {
+      const jwtAuthorizer = Authorizers.jwt({
+        authorizerId: "myJwtAuthorizer",
+        issuer: "https://issuer.example.com",
+        audience: ["my-audience"],
+      });
+      const api = new TypeSafeHttpApi(stack, "ApiTest", {
+        specPath,
+        operationLookup: multiOperationLookup as any,
+        defaultAuthorizer: jwtAuthorizer,
+        integrations: Object.fromEntries(
+          Object.keys(multiOperationLookup).map((operationId) => [
+            operationId,
+            {
+              integration: Integrations.lambda(func),
+              ...(operationId === "putOperation"
+                ? { authorizer: jwtAuthorizer.withScopes("write") }
+                : {}),
+            },
+          ])
+        ),
+      });
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With Cognito Authorizer", () => {
+    const stack = new Stack(PDKNag.app());
+    const func = createFunction(stack);
+    const userPool = new UserPool(stack, "UserPool");
+    const userPoolClient = userPool.addClient("Client");
+    ["AwsSolutions-COG1", "AwsSolutions-COG2", "AwsSolutions-COG3"].forEach(
+      (RuleId) => {
+        NagSuppressions.addResourceSuppressions(userPool, [
+          { id: RuleId, reason: "This is a test construct." },
+        ]);
+      }
+    );
+    withTempSpec(sampleSpec, (specPath) => {
+      const api = new TypeSafeHttpApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        defaultAuthorizer: Authorizers.cognito({
+          authorizerId: "myCognitoAuthorizer",
+          userPools: [userPool],
+          userPoolClients: [userPoolClient],
+        }),
+        integrations: {
+          testOperation: {
+            integration: Integrations.lambda(func),
+          },
+        },
+      });
+      snapshotExtendedSpec(api);
+
+      expect(
+        () =>
+          new TypeSafeHttpApi(stack, "ApiWithoutClients", {
+            specPath,
+            operationLookup,
+            defaultAuthorizer: Authorizers.cognito({
+              authorizerId: "myCognitoAuthorizer",
+              userPools: [userPool],
+            }),
+            integrations: {
+              testOperation: {
+                integration: Integrations.lambda(func),
+              },
+            },
+          })
+      ).toThrow(
+        /Cognito authorizer myCognitoAuthorizer must specify a single user pool and its user pool clients for use with an HTTP API/
+      );
+    });
+  });
+
+  it("With Custom Authorizer", () => {
+    const stack = new Stack(PDKNag.app());
+    const func = createFunction(stack);
+    const authorizerFunc = createFunction(stack, "Authorizer");
+    withTempSpec(multiOperationSpec, (specPath) => {
+      const api = new TypeSafeHttpApi(stack, "ApiTest", {
+        specPath,
+        operationLookup: multiOperationLookup as any,
+        defaultAuthorizer: Authorizers.custom({
+          authorizerId: "myCustomAuthorizer",
+          function: authorizerFunc,
+        }),
+        integrations: Object.fromEntries(
+          Object.keys(multiOperationLookup).map((operationId) => [
+            operationId,
+            {
+              integration: Integrations.lambda(func),
+              ...(operationId === "getOperation"
+                ? {
+                    authorizer: Authorizers.custom({
+                      authorizerId: "myRequestAuthorizer",
+                      function: authorizerFunc,
+                      type: CustomAuthorizerType.REQUEST,
+                      identitySource:
+                        "method.request.header.Authorization, method.request.querystring.token, context.requestId",
+                    }),
+                  }
+                : {}),
+            },
+          ])
+        ),
+      });
+      snapshotExtendedSpec(api);
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::Lambda::Permission", {
+        FunctionName: {
+          "Fn::GetAtt": [
+            stack.getLogicalId(authorizerFunc.node.defaultChild as CfnFunction),
+            "Arn",
+          ],
+        },
+        Principal: "apigateway.amazonaws.com",
+      });
+    });
+  });
+});
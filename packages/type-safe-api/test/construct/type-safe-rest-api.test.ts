@@ -1,12 +1,34 @@
 /*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
 SPDX-License-Identifier: Apache-2.0 */
 import { PDKNag } from "@aws/pdk-nag";
-import { App, CfnOutput, Size, Stack } from "aws-cdk-lib";
-import { Template } from "aws-cdk-lib/assertions";
-import { ApiKeySourceType, Cors } from "aws-cdk-lib/aws-apigateway";
+import { App, CfnOutput, Duration, Size, Stack } from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
+import {
+  ApiKey,
+  ApiKeySourceType,
+  Cors,
+  Period,
+  VpcLink,
+} from "aws-cdk-lib/aws-apigateway";
 import { UserPool } from "aws-cdk-lib/aws-cognito";
-import { Code, Function, Runtime } from "aws-cdk-lib/aws-lambda";
+import { AttributeType, Table } from "aws-cdk-lib/aws-dynamodb";
+import { Vpc } from "aws-cdk-lib/aws-ec2";
+import { NetworkLoadBalancer } from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { EventBus } from "aws-cdk-lib/aws-events";
+import {
+  Code,
+  Function,
+  FunctionUrlAuthType,
+  Runtime,
+} from "aws-cdk-lib/aws-lambda";
 import { BlockPublicAccess, Bucket } from "aws-cdk-lib/aws-s3";
+import { Queue } from "aws-cdk-lib/aws-sqs";
+import {
+  Pass,
+  StateMachine,
+  StateMachineType,
+  DefinitionBody,
+} from "aws-cdk-lib/aws-stepfunctions";
 import { NagSuppressions } from "cdk-nag";
 import * as _ from "lodash";
 import { OpenAPIV3 } from "openapi-types";
@@ -376,126 +398,1045 @@ describe("Type Safe Rest Api Construct Unit Tests", () => {
         operationLookup,
         integrations: {
           testOperation: {
-            integration: Integrations.s3({
-              bucket: new Bucket(stack, "Bucket"),
-              method: "delete",
-              path: "/my-pets/{petId}/details.json",
-              integrationResponseSet: IntegrationResponseSets.composite(
-                IntegrationResponseSets.defaultPassthrough({ statusCode: 204 }),
-                IntegrationResponseSets.s3JsonErrorMessage()
-              ),
+            integration: Integrations.s3({
+              bucket: new Bucket(stack, "Bucket"),
+              method: "delete",
+              path: "/my-pets/{petId}/details.json",
+              integrationResponseSet: IntegrationResponseSets.composite(
+                IntegrationResponseSets.defaultPassthrough({ statusCode: 204 }),
+                IntegrationResponseSets.s3JsonErrorMessage()
+              ),
+            }),
+          },
+        },
+      });
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With S3 Integration and custom error responses", () => {
+    const stack = new Stack();
+    withTempSpec(sampleSpec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        integrations: {
+          testOperation: {
+            integration: Integrations.s3({
+              bucket: new Bucket(stack, "Bucket"),
+              integrationResponseSet: IntegrationResponseSets.composite(
+                IntegrationResponseSets.defaultPassthrough(),
+                IntegrationResponseSets.custom({
+                  responses: {
+                    "4\\d{2}": {
+                      statusCode: "400",
+                      responseParameters: {},
+                      responseTemplates: {},
+                    },
+                    "5\\d{2}": {
+                      statusCode: "500",
+                      responseParameters: {},
+                      responseTemplates: {},
+                    },
+                  },
+                })
+              ),
+            }),
+          },
+        },
+      });
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With S3 Integration and catch all error response", () => {
+    const stack = new Stack();
+    withTempSpec(sampleSpec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        integrations: {
+          testOperation: {
+            integration: Integrations.s3({
+              bucket: new Bucket(stack, "Bucket"),
+              integrationResponseSet: IntegrationResponseSets.composite(
+                IntegrationResponseSets.defaultPassthrough(),
+                IntegrationResponseSets.catchAll()
+              ),
+            }),
+          },
+        },
+      });
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("S3 Integration validates shared role is a role", () => {
+    const stack = new Stack();
+
+    class HackIntegration extends Integration {
+      public render({ scope }: IntegrationRenderProps) {
+        if (!scope.node.tryFindChild("S3IntegrationsExecutionRole")) {
+          new CfnOutput(scope, "S3IntegrationsExecutionRole", {
+            value: "hack",
+          });
+        }
+        return {};
+      }
+    }
+    const hackIntegration = new HackIntegration();
+
+    withTempSpec(multiOperationSpec, (specPath) => {
+      expect(() => {
+        new TypeSafeRestApi(stack, "ApiTest", {
+          defaultAuthorizer: Authorizers.iam(),
+          specPath,
+          operationLookup: multiOperationLookup as any,
+          integrations: {
+            getOperation: {
+              integration: hackIntegration,
+            },
+            putOperation: {
+              integration: hackIntegration,
+            },
+            postOperation: {
+              integration: hackIntegration,
+            },
+            deleteOperation: {
+              integration: Integrations.s3({
+                bucket: new Bucket(stack, "Bucket"),
+              }),
+            },
+          },
+        });
+      }).toThrow(
+        "Found construct with ID S3IntegrationsExecutionRole in API scope which was not a role"
+      );
+    });
+  });
+
+  it("With DynamoDB Integration", () => {
+    const stack = new Stack();
+    const spec = {
+      ...sampleSpec,
+      paths: {
+        "/test/{id}": {
+          get: testOperation,
+        },
+      },
+    };
+    withTempSpec(spec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup: {
+          testOperation: {
+            path: "/test/{id}",
+            method: "get",
+          },
+        },
+        integrations: {
+          testOperation: {
+            integration: Integrations.dynamoDb({
+              table: new Table(stack, "Table", {
+                partitionKey: { name: "id", type: AttributeType.STRING },
+              }),
+              action: "GetItem",
+            }),
+          },
+        },
+      });
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With DynamoDB Integration and CORS", () => {
+    const stack = new Stack();
+    withTempSpec(sampleSpec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        corsOptions: {
+          allowOrigins: Cors.ALL_ORIGINS,
+          allowMethods: Cors.ALL_METHODS,
+        },
+        integrations: {
+          testOperation: {
+            integration: Integrations.dynamoDb({
+              table: new Table(stack, "Table", {
+                partitionKey: { name: "id", type: AttributeType.STRING },
+              }),
+              action: "Scan",
+            }),
+          },
+        },
+      });
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With DynamoDB Integrations for multiple actions", () => {
+    const stack = new Stack();
+    const table = new Table(stack, "Table", {
+      partitionKey: { name: "pk", type: AttributeType.STRING },
+      sortKey: { name: "sk", type: AttributeType.STRING },
+    });
+    table.addGlobalSecondaryIndex({
+      indexName: "byOwner",
+      partitionKey: { name: "owner", type: AttributeType.STRING },
+    });
+    withTempSpec(multiOperationSpec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup: multiOperationLookup as any,
+        integrations: {
+          getOperation: {
+            integration: Integrations.dynamoDb({
+              table,
+              action: "Query",
+              indexName: "byOwner",
+              keyParameters: { owner: "owner" },
+            }),
+          },
+          putOperation: {
+            integration: Integrations.dynamoDb({
+              table,
+              action: "PutItem",
+              keyParameters: { pk: "$.id", sk: "$.name" },
+              bodyAttribute: "data",
+            }),
+          },
+          postOperation: {
+            integration: Integrations.dynamoDb({
+              table,
+              action: "GetItem",
+              keyParameters: { pk: "$.id", sk: "$.name" },
+              integrationResponseSet: IntegrationResponseSets.catchAll(),
+            }),
+          },
+          deleteOperation: {
+            integration: Integrations.dynamoDb({
+              table,
+              action: "DeleteItem",
+              keyParameters: { pk: "id", sk: "name" },
+            }),
+          },
+        },
+      });
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("DynamoDB Integration requires key parameters", () => {
+    const stack = new Stack();
+    withTempSpec(sampleSpec, (specPath) => {
+      expect(() => {
+        new TypeSafeRestApi(stack, "ApiTest", {
+          specPath,
+          operationLookup,
+          integrations: {
+            testOperation: {
+              integration: Integrations.dynamoDb({
+                table: new Table(stack, "Table", {
+                  partitionKey: { name: "id", type: AttributeType.STRING },
+                }),
+                action: "GetItem",
+              }),
+            },
+          },
+        });
+      }).toThrow(
+        "DynamoDB GetItem integration for operation testOperation requires at least one key parameter"
+      );
+    });
+  });
+
+  it("With DynamoDB Integrations using key attribute types, modelled responses and pagination", () => {
+    const stack = new Stack();
+    const table = new Table(stack, "Table", {
+      partitionKey: { name: "pk", type: AttributeType.NUMBER },
+      sortKey: { name: "sk", type: AttributeType.STRING },
+    });
+    const spec: OpenAPIV3.Document = {
+      ...multiOperationSpec,
+      paths: {
+        "/test": Object.fromEntries(
+          Object.entries(multiOperationSpec.paths["/test"]!).map(
+            ([method, operation]) => [
+              method,
+              {
+                ...(operation as OpenAPIV3.OperationObject),
+                responses: {
+                  200: {
+                    description: "Successful response",
+                  },
+                  403: {
+                    description: "Forbidden",
+                  },
+                },
+              },
+            ]
+          )
+        ),
+      },
+    };
+    withTempSpec(spec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup: multiOperationLookup as any,
+        integrations: {
+          getOperation: {
+            integration: Integrations.dynamoDb({
+              table,
+              action: "Query",
+              keyParameters: { pk: "pk" },
+              itemsProperty: "pets",
+              pagination: {
+                inputToken: "nextToken",
+                outputToken: "nextToken",
+              },
+            }),
+          },
+          putOperation: {
+            integration: Integrations.dynamoDb({
+              table,
+              action: "PutItem",
+              keyParameters: { pk: "$.id", sk: "$.name" },
+            }),
+          },
+          postOperation: {
+            integration: Integrations.dynamoDb({
+              table,
+              action: "GetItem",
+              keyParameters: { pk: "$.id", sk: "$.name" },
+            }),
+          },
+          deleteOperation: {
+            integration: Integrations.dynamoDb({
+              table,
+              action: "DeleteItem",
+              keyParameters: { pk: "id", sk: "name" },
+              keyAttributeTypes: { sk: AttributeType.BINARY },
+            }),
+          },
+        },
+      });
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("DynamoDB Integration only supports pagination for Query and Scan", () => {
+    const stack = new Stack();
+    expect(() =>
+      Integrations.dynamoDb({
+        table: new Table(stack, "Table", {
+          partitionKey: { name: "id", type: AttributeType.STRING },
+        }),
+        action: "GetItem",
+        pagination: {
+          inputToken: "nextToken",
+          outputToken: "nextToken",
+        },
+      })
+    ).toThrow(
+      "Pagination is only supported for DynamoDB Query and Scan integrations, but action was GetItem"
+    );
+  });
+
+  it("With Step Functions Integration", () => {
+    const stack = new Stack();
+    withTempSpec(sampleSpec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        integrations: {
+          testOperation: {
+            integration: Integrations.stepFunctions(
+              new StateMachine(stack, "StateMachine", {
+                definitionBody: DefinitionBody.fromChainable(
+                  new Pass(stack, "Pass")
+                ),
+              })
+            ),
+          },
+        },
+      });
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With Synchronous Step Functions Integration", () => {
+    const stack = new Stack();
+    withTempSpec(sampleSpec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        corsOptions: {
+          allowOrigins: Cors.ALL_ORIGINS,
+          allowMethods: Cors.ALL_METHODS,
+        },
+        integrations: {
+          testOperation: {
+            integration: Integrations.stepFunctions(
+              new StateMachine(stack, "StateMachine", {
+                stateMachineType: StateMachineType.EXPRESS,
+                definitionBody: DefinitionBody.fromChainable(
+                  new Pass(stack, "Pass")
+                ),
+              }),
+              { sync: true }
+            ),
+          },
+        },
+      });
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With SQS Integration", () => {
+    const stack = new Stack();
+    withTempSpec(sampleSpec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        integrations: {
+          testOperation: {
+            integration: Integrations.sqs(new Queue(stack, "Queue")),
+          },
+        },
+      });
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With SQS Integration for FIFO queue", () => {
+    const stack = new Stack();
+    const queue = new Queue(stack, "Queue", {
+      fifo: true,
+      contentBasedDeduplication: true,
+    });
+    withTempSpec(sampleSpec, (specPath) => {
+      expect(() => {
+        new TypeSafeRestApi(stack, "ApiTestInvalid", {
+          specPath,
+          operationLookup,
+          integrations: {
+            testOperation: {
+              integration: Integrations.sqs(queue),
+            },
+          },
+        });
+      }).toThrow(
+        "SQS integration for operation testOperation requires a messageGroupId since the queue is a FIFO queue"
+      );
+
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        integrations: {
+          testOperation: {
+            integration: Integrations.sqs(queue, {
+              messageGroupId: "$.customerId",
+            }),
+          },
+        },
+      });
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With EventBridge Integration", () => {
+    const stack = new Stack();
+    withTempSpec(sampleSpec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        integrations: {
+          testOperation: {
+            integration: Integrations.eventBridge(
+              new EventBus(stack, "EventBus"),
+              {
+                source: "com.example.test",
+              }
+            ),
+          },
+        },
+      });
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With AWS Service Integrations mapped to modelled responses", () => {
+    const stack = new Stack();
+    const spec: OpenAPIV3.Document = {
+      ...multiOperationSpec,
+      paths: {
+        "/test": Object.fromEntries(
+          Object.entries(multiOperationSpec.paths["/test"]!).map(
+            ([method, operation]) => [
+              method,
+              {
+                ...(operation as OpenAPIV3.OperationObject),
+                responses: {
+                  202: {
+                    description: "Accepted",
+                  },
+                  403: {
+                    description: "Forbidden",
+                  },
+                },
+              },
+            ]
+          )
+        ),
+      },
+    };
+    withTempSpec(spec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup: multiOperationLookup as any,
+        integrations: {
+          getOperation: {
+            integration: Integrations.stepFunctions(
+              new StateMachine(stack, "StateMachine", {
+                definitionBody: DefinitionBody.fromChainable(
+                  new Pass(stack, "Pass")
+                ),
+              })
+            ),
+          },
+          putOperation: {
+            integration: Integrations.sqs(new Queue(stack, "Queue")),
+          },
+          postOperation: {
+            integration: Integrations.eventBridge(
+              new EventBus(stack, "EventBus"),
+              {
+                source: "com.example.test",
+                detailType: "TestEvent",
+              }
+            ),
+          },
+          deleteOperation: {
+            integration: Integrations.dynamoDb({
+              table: new Table(stack, "Table", {
+                partitionKey: { name: "id", type: AttributeType.STRING },
+              }),
+              action: "DeleteItem",
+              keyParameters: { id: "id" },
+            }),
+          },
+        },
+      });
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With AWS Service JSON Error Message Integration Response Set", () => {
+    const stack = new Stack();
+    const spec: OpenAPIV3.Document = {
+      ...multiOperationSpec,
+      paths: {
+        "/test": _.pick(multiOperationSpec.paths["/test"], ["get", "put"]),
+      },
+    };
+    withTempSpec(spec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup: _.pick(multiOperationLookup, [
+          "getOperation",
+          "putOperation",
+        ]) as any,
+        integrations: {
+          getOperation: {
+            integration: Integrations.sqs(new Queue(stack, "Queue"), {
+              integrationResponseSet: IntegrationResponseSets.composite(
+                IntegrationResponseSets.defaultPassthrough(),
+                IntegrationResponseSets.awsServiceJsonErrorMessage()
+              ),
+            }),
+          },
+          putOperation: {
+            integration: Integrations.sqs(new Queue(stack, "OtherQueue"), {
+              integrationResponseSet: IntegrationResponseSets.composite(
+                IntegrationResponseSets.defaultPassthrough(),
+                IntegrationResponseSets.awsServiceJsonErrorMessage({
+                  modelledErrorResponses: true,
+                })
+              ),
+            }),
+          },
+        },
+      });
+      const responsesFor = (method: string) =>
+        api.extendedApiSpecification.paths["/test"][method][
+          "x-amazon-apigateway-integration"
+        ].responses;
+      expect(Object.keys(responsesFor("get")).sort()).toEqual([
+        "400",
+        "500",
+        "default",
+      ]);
+      expect(responsesFor("get")["400"].statusCode).toBe("400");
+      expect(Object.keys(responsesFor("put")).sort()).toEqual([
+        "4\\d{2}",
+        "5\\d{2}",
+        "default",
+      ]);
+    });
+  });
+
+  it("With HTTP Proxy Integration", () => {
+    const stack = new Stack();
+    const spec = {
+      ...sampleSpec,
+      paths: {
+        "/test/{param1}/fixed/{param2}": {
+          get: testOperation,
+        },
+      },
+    };
+    withTempSpec(spec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup: {
+          testOperation: {
+            path: "/test/{param1}/fixed/{param2}",
+            method: "get",
+          },
+        },
+        integrations: {
+          testOperation: {
+            integration: Integrations.http("https://example.com/"),
+          },
+        },
+      });
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With HTTP Integration and options", () => {
+    const stack = new Stack();
+    withTempSpec(sampleSpec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        corsOptions: {
+          allowOrigins: Cors.ALL_ORIGINS,
+          allowMethods: Cors.ALL_METHODS,
+        },
+        integrations: {
+          testOperation: {
+            integration: Integrations.http("https://example.com/api", {
+              proxy: false,
+              httpMethod: "post",
+              path: "/legacy/test",
+              requestParameters: {
+                "integration.request.header.x-source": "'type-safe-api'",
+              },
+              timeout: Duration.seconds(10),
+              tlsConfig: {
+                insecureSkipVerification: true,
+              },
+            }),
+          },
+        },
+      });
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With VPC Link Integrations for a Network Load Balancer", () => {
+    const stack = new Stack();
+    const nlb = new NetworkLoadBalancer(stack, "Nlb", {
+      vpc: new Vpc(stack, "Vpc"),
+    });
+    withTempSpec(multiOperationSpec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup: multiOperationLookup as any,
+        integrations: Object.fromEntries(
+          Object.keys(multiOperationLookup).map((operationId) => [
+            operationId,
+            {
+              integration: Integrations.vpcLink(nlb),
+            },
+          ])
+        ),
+      });
+      // A single VPC Link should be shared by all operations
+      Template.fromStack(stack).resourceCountIs("AWS::ApiGateway::VpcLink", 1);
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
+      snapshotExtendedSpec(api);
+    });
+  });
+
+  it("With VPC Link Integration for a VPC Link", () => {
+    const stack = new Stack();
+    const vpcLink = VpcLink.fromVpcLinkId(stack, "VpcLink", "vpc-link-id");
+    expect(() => Integrations.vpcLink(vpcLink)).toThrow(
+      "A url must be provided for a VPC Link integration which targets a VPC Link rather than a network load balancer"
+    );
+    withTempSpec(sampleSpec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        integrations: {
+          testOperation: {
+            integration: Integrations.vpcLink(vpcLink, {
+              url: "http://internal.example.com",
             }),
           },
         },
       });
-      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
       snapshotExtendedSpec(api);
     });
   });
 
-  it("With S3 Integration and custom error responses", () => {
+  it("With Streaming Lambda Integrations", () => {
     const stack = new Stack();
-    withTempSpec(sampleSpec, (specPath) => {
+    const func = new Function(stack, "Lambda", {
+      code: Code.fromInline("code"),
+      handler: "handler",
+      runtime: Runtime.NODEJS_18_X,
+    });
+    withTempSpec(multiOperationSpec, (specPath) => {
+      const getIntegration = Integrations.streamingLambda(func, {
+        authType: FunctionUrlAuthType.NONE,
+      });
+      const postIntegration = Integrations.streamingLambda(func, {
+        authType: FunctionUrlAuthType.NONE,
+      });
       const api = new TypeSafeRestApi(stack, "ApiTest", {
         specPath,
-        operationLookup,
+        operationLookup: multiOperationLookup as any,
         integrations: {
-          testOperation: {
-            integration: Integrations.s3({
-              bucket: new Bucket(stack, "Bucket"),
-              integrationResponseSet: IntegrationResponseSets.composite(
-                IntegrationResponseSets.defaultPassthrough(),
-                IntegrationResponseSets.custom({
-                  responses: {
-                    "4\\d{2}": {
-                      statusCode: "400",
-                      responseParameters: {},
-                      responseTemplates: {},
-                    },
-                    "5\\d{2}": {
-                      statusCode: "500",
-                      responseParameters: {},
-                      responseTemplates: {},
-                    },
-                  },
-                })
-              ),
-            }),
+          getOperation: {
+            integration: getIntegration,
+          },
+          putOperation: {
+            integration: Integrations.lambda(func),
+          },
+          postOperation: {
+            integration: postIntegration,
+          },
+          deleteOperation: {
+            integration: Integrations.lambda(func),
           },
         },
       });
-      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
+
+      // The function url is shared by operations serviced by the same function
+      expect(postIntegration.functionUrl).toBe(getIntegration.functionUrl);
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::Lambda::Url", 1);
+      template.hasResourceProperties("AWS::Lambda::Url", {
+        AuthType: "NONE",
+        InvokeMode: "RESPONSE_STREAM",
+      });
+      expect(template.toJSON()).toMatchSnapshot();
       snapshotExtendedSpec(api);
     });
   });
 
-  it("With S3 Integration and catch all error response", () => {
+  it("Throws For Streaming Lambda Integrations With Conflicting Options", () => {
     const stack = new Stack();
-    withTempSpec(sampleSpec, (specPath) => {
+    const func = new Function(stack, "Lambda", {
+      code: Code.fromInline("code"),
+      handler: "handler",
+      runtime: Runtime.NODEJS_18_X,
+    });
+    Integrations.streamingLambda(func);
+    expect(() =>
+      Integrations.streamingLambda(func, {
+        authType: FunctionUrlAuthType.NONE,
+      })
+    ).toThrow(
+      "Function Default/Lambda is used by streaming lambda integrations with conflicting authType or cors options"
+    );
+    expect(() =>
+      Integrations.streamingLambda(func, {
+        cors: { allowedOrigins: ["https://example.com"] },
+      })
+    ).toThrow(
+      "Function Default/Lambda is used by streaming lambda integrations with conflicting authType or cors options"
+    );
+
+    const otherFunc = new Function(stack, "OtherLambda", {
+      code: Code.fromInline("code"),
+      handler: "handler",
+      runtime: Runtime.NODEJS_18_X,
+    });
+    otherFunc.addFunctionUrl();
+    expect(() => Integrations.streamingLambda(otherFunc)).toThrow(
+      "Function Default/OtherLambda already has a function url which was not created by a streaming lambda integration"
+    );
+  });
+
+  it("With Caching And Throttling Options", () => {
+    const stack = new Stack();
+    const spec = {
+      ...sampleSpec,
+      paths: {
+        "/test/{id}": {
+          get: { ...testOperation, operationId: "getOperation" },
+          put: { ...testOperation, operationId: "putOperation" },
+        },
+      },
+    };
+    withTempSpec(spec, (specPath) => {
+      const func = new Function(stack, "Lambda", {
+        code: Code.fromInline("code"),
+        handler: "handler",
+        runtime: Runtime.NODEJS_16_X,
+      });
       const api = new TypeSafeRestApi(stack, "ApiTest", {
         specPath,
-        operationLookup,
+        operationLookup: {
+          getOperation: { path: "/test/{id}", method: "get" },
+          putOperation: { path: "/test/{id}", method: "put" },
+        },
         integrations: {
-          testOperation: {
-            integration: Integrations.s3({
-              bucket: new Bucket(stack, "Bucket"),
-              integrationResponseSet: IntegrationResponseSets.composite(
-                IntegrationResponseSets.defaultPassthrough(),
-                IntegrationResponseSets.catchAll()
-              ),
-            }),
+          getOperation: {
+            integration: Integrations.lambda(func),
+            options: {
+              caching: {
+                ttl: Duration.minutes(10),
+                cacheKeyParameters: [
+                  "method.request.path.id",
+                  "method.request.querystring.page",
+                ],
+                dataEncrypted: true,
+              },
+            },
+          },
+          putOperation: {
+            integration: Integrations.lambda(func),
+            options: {
+              throttling: {
+                rateLimit: 10,
+                burstLimit: 5,
+              },
+            },
           },
         },
       });
-      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot();
-      snapshotExtendedSpec(api);
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::ApiGateway::Stage", {
+        CacheClusterEnabled: true,
+        MethodSettings: Match.arrayWith([
+          Match.objectLike({
+            HttpMethod: "GET",
+            ResourcePath: "/~1test~1{id}",
+            CachingEnabled: true,
+            CacheTtlInSeconds: 600,
+            CacheDataEncrypted: true,
+          }),
+          Match.objectLike({
+            HttpMethod: "PUT",
+            ResourcePath: "/~1test~1{id}",
+            ThrottlingRateLimit: 10,
+            ThrottlingBurstLimit: 5,
+          }),
+        ]),
+      });
+      expect(
+        api.extendedApiSpecification.paths["/test/{id}"].get[
+          "x-amazon-apigateway-integration"
+        ].cacheKeyParameters
+      ).toEqual(["method.request.path.id", "method.request.querystring.page"]);
+      expect(
+        api.extendedApiSpecification.paths["/test/{id}"].put[
+          "x-amazon-apigateway-integration"
+        ].cacheKeyParameters
+      ).toBeUndefined();
     });
   });
 
-  it("S3 Integration validates shared role is a role", () => {
+  it("Caching Options Fail With Invalid Cache Key Parameters", () => {
     const stack = new Stack();
-
-    class HackIntegration extends Integration {
-      public render({ scope }: IntegrationRenderProps) {
-        if (!scope.node.tryFindChild("S3IntegrationsExecutionRole")) {
-          new CfnOutput(scope, "S3IntegrationsExecutionRole", {
-            value: "hack",
-          });
-        }
-        return {};
-      }
-    }
-    const hackIntegration = new HackIntegration();
-
-    withTempSpec(multiOperationSpec, (specPath) => {
-      expect(() => {
-        new TypeSafeRestApi(stack, "ApiTest", {
-          defaultAuthorizer: Authorizers.iam(),
+    withTempSpec(sampleSpec, (specPath) => {
+      const createApi = (id: string, cacheKeyParameters: string[]) =>
+        new TypeSafeRestApi(stack, id, {
           specPath,
-          operationLookup: multiOperationLookup as any,
+          operationLookup,
           integrations: {
-            getOperation: {
-              integration: hackIntegration,
+            testOperation: {
+              integration: Integrations.mock({ statusCode: 200 }),
+              options: { caching: { cacheKeyParameters } },
             },
-            putOperation: {
-              integration: hackIntegration,
+          },
+        });
+      expect(() => createApi("ApiTest1", ["page"])).toThrow(
+        "Invalid cache key parameter page for operation testOperation"
+      );
+      expect(() => createApi("ApiTest2", ["method.request.path.id"])).toThrow(
+        "Cache key parameter method.request.path.id for operation testOperation is not a path parameter of /test"
+      );
+    });
+  });
+
+  it("Throttling Options Fail For Operation Not In Operation Lookup", () => {
+    const stack = new Stack();
+    withTempSpec(sampleSpec, (specPath) => {
+      expect(
+        () =>
+          new TypeSafeRestApi(stack, "ApiTest", {
+            specPath,
+            operationLookup,
+            integrations: {
+              testOperation: {
+                integration: Integrations.mock({ statusCode: 200 }),
+              },
+              unknownOperation: {
+                integration: Integrations.mock({ statusCode: 200 }),
+                options: { throttling: { rateLimit: 10 } },
+              },
+            } as any,
+          })
+      ).toThrow(
+        "Caching or throttling options for operation unknownOperation references operation unknownOperation which is not defined in the operationLookup"
+      );
+    });
+  });
+
+  it("With Usage Plans", () => {
+    const stack = new Stack();
+    withTempSpec(multiOperationSpec, (specPath) => {
+      const apiKey = new ApiKey(stack, "ApiKey");
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        operationLookup: multiOperationLookup as any,
+        apiKeyOptions: {
+          source: ApiKeySourceType.HEADER,
+          requiredByDefault: true,
+        },
+        integrations: Object.fromEntries(
+          Object.keys(multiOperationLookup).map((operationId) => [
+            operationId,
+            {
+              integration: Integrations.mock({ statusCode: 200 }),
             },
-            postOperation: {
-              integration: hackIntegration,
+          ])
+        ),
+        usagePlans: {
+          basic: {
+            name: "Basic",
+            throttle: { rateLimit: 100, burstLimit: 50 },
+            quota: { limit: 1000, period: Period.DAY },
+            operationThrottles: {
+              postOperation: { rateLimit: 10, burstLimit: 5 },
             },
-            deleteOperation: {
-              integration: Integrations.s3({
-                bucket: new Bucket(stack, "Bucket"),
-              }),
+            apiKeys: [apiKey],
+          },
+          unlimited: {
+            name: "Unlimited",
+          },
+        },
+      });
+      expect(Object.keys(api.usagePlans)).toEqual(["basic", "unlimited"]);
+
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::ApiGateway::UsagePlan", 2);
+      template.hasResourceProperties("AWS::ApiGateway::UsagePlan", {
+        UsagePlanName: "Basic",
+        Throttle: { RateLimit: 100, BurstLimit: 50 },
+        Quota: { Limit: 1000, Period: "DAY" },
+        ApiStages: [
+          {
+            Throttle: {
+              "/test/POST": { RateLimit: 10, BurstLimit: 5 },
             },
           },
-        });
-      }).toThrow(
-        "Found construct with ID S3IntegrationsExecutionRole in API scope which was not a role"
+        ],
+      });
+      template.resourceCountIs("AWS::ApiGateway::UsagePlanKey", 1);
+    });
+  });
+
+  it("Usage Plans Fail For Operation Not In Operation Lookup", () => {
+    const stack = new Stack();
+    withTempSpec(sampleSpec, (specPath) => {
+      expect(
+        () =>
+          new TypeSafeRestApi(stack, "ApiTest", {
+            specPath,
+            operationLookup,
+            integrations: {
+              testOperation: {
+                integration: Integrations.mock({ statusCode: 200 }),
+              },
+            },
+            usagePlans: {
+              basic: {
+                operationThrottles: {
+                  unknownOperation: { rateLimit: 10 },
+                },
+              },
+            },
+          })
+      ).toThrow(
+        "Usage plan basic references operation unknownOperation which is not defined in the operationLookup"
       );
     });
   });
 
+  it("With AWS Service Integrations mapped to modelled responses for upper case operation lookup methods", () => {
+    const stack = new Stack();
+    const spec: OpenAPIV3.Document = {
+      ...sampleSpec,
+      paths: {
+        "/test": {
+          post: {
+            ...testOperation,
+            responses: {
+              202: {
+                description: "Accepted",
+              },
+              403: {
+                description: "Forbidden",
+              },
+            },
+          },
+        },
+      },
+    };
+    withTempSpec(spec, (specPath) => {
+      const api = new TypeSafeRestApi(stack, "ApiTest", {
+        specPath,
+        // The generated operation lookup uses upper case methods, and is passed to the construct "as any"
+        operationLookup: {
+          testOperation: {
+            method: "POST",
+            path: "/test",
+          },
+        } as any,
+        integrations: {
+          testOperation: {
+            integration: Integrations.sqs(new Queue(stack, "Queue")),
+          },
+        },
+      });
+      const statusCodes = Object.values(
+        (api.extendedApiSpecification as any).paths["/test"].post[
+          "x-amazon-apigateway-integration"
+        ].responses
+      ).map((response: any) => response.statusCode);
+      expect(statusCodes).toEqual(expect.arrayContaining(["202", "403"]));
+      expect(statusCodes).not.toContain("200");
+    });
+  });
+
   it("With IAM Auth and CORS", () => {
     const stack = new Stack();
     withTempSpec(sampleSpec, (specPath) => {
@@ -1305,6 +2246,13 @@ describe("Type Safe Rest Api Construct Unit Tests", () => {
         },
         methodOptions: { apiKeyRequired: false },
       },
+    "15. Header Required By Default With Caching Options For Method": {
+      apiKeyOptions: {
+        source: ApiKeySourceType.HEADER,
+        requiredByDefault: true,
+      },
+      methodOptions: { caching: { ttl: Duration.minutes(1) } },
+    },
   };
 
   it.each(Object.keys(happyApiKeyCases).sort())(
@@ -1610,4 +2558,34 @@ describe("Type Safe Rest Api Construct Unit Tests", () => {
       expect(functionName.length).toBeLessThanOrEqual(64);
     });
   });
+
+  it("Throws for JWT authorizers", () => {
+    const stack = new Stack(PDKNag.app());
+    const func = new Function(stack, "Lambda", {
+      code: Code.fromInline("code"),
+      handler: "handler",
+      runtime: Runtime.NODEJS_16_X,
+    });
+    withTempSpec(sampleSpec, (specPath) => {
+      expect(
+        () =>
+          new TypeSafeRestApi(stack, "ApiTest", {
+            specPath,
+            operationLookup,
+            defaultAuthorizer: Authorizers.jwt({
+              authorizerId: "myJwtAuthorizer",
+              issuer: "https://issuer.example.com",
+              audience: ["my-audience"],
+            }),
+            integrations: {
+              testOperation: {
+                integration: Integrations.lambda(func),
+              },
+            },
+          })
+      ).toThrow(
+        /JWT authorizer myJwtAuthorizer is supported by HTTP APIs only/
+      );
+    });
+  });
 });
@@ -1,8 +1,8 @@
 /*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
 SPDX-License-Identifier: Apache-2.0 */
 import { AwsPrototypingChecks, PDKNag } from "@aws/pdk-nag";
-import { Stack } from "aws-cdk-lib";
-import { Template } from "aws-cdk-lib/assertions";
+import { CfnElement, Duration, Stack } from "aws-cdk-lib";
+import { Match, Template } from "aws-cdk-lib/assertions";
 import { WebSocketIamAuthorizer } from "aws-cdk-lib/aws-apigatewayv2-authorizers";
 import {
   WebSocketLambdaIntegration,
@@ -144,6 +144,156 @@ describe("Type Safe WebSocket Api Construct Unit Tests", () => {
     });
   });
 
+  it("Uses Separate Disconnect And Default Integrations", () => {
+    const stack = new Stack(PDKNag.app());
+    const [connectFunc, disconnectFunc, defaultFunc] = [
+      "Connect",
+      "Disconnect",
+      "Default",
+    ].map(
+      (name) =>
+        new Function(stack, `${name}Lambda`, {
+          code: Code.fromInline("code"),
+          handler: "handler",
+          runtime: Runtime.NODEJS_LATEST,
+        })
+    );
+    withTempSpec(sampleSpec, (specPath) => {
+      new TypeSafeWebsocketApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        connect: {
+          integration: new WebSocketLambdaIntegration("Connect", connectFunc),
+        },
+        disconnect: {
+          integration: new WebSocketLambdaIntegration(
+            "Disconnect",
+            disconnectFunc
+          ),
+        },
+        default: {
+          integration: new WebSocketLambdaIntegration(
+            "DefaultIntegration",
+            defaultFunc
+          ),
+        },
+        integrations: {
+          testOperation: {
+            integration: new WebSocketMockIntegration("Mock"),
+          },
+        },
+      });
+      const template = Template.fromStack(stack);
+      const integrationIdFor = (func: Function) =>
+        Object.entries(
+          template.findResources("AWS::ApiGatewayV2::Integration", {
+            Properties: {
+              IntegrationUri: Match.objectLike({
+                "Fn::Join": [
+                  "",
+                  Match.arrayWith([
+                    {
+                      "Fn::GetAtt": [
+                        stack.getLogicalId(
+                          func.node.defaultChild as CfnElement
+                        ),
+                        "Arn",
+                      ],
+                    },
+                  ]),
+                ],
+              }),
+            },
+          })
+        )[0][0];
+      (
+        [
+          ["$connect", connectFunc],
+          ["$disconnect", disconnectFunc],
+          ["$default", defaultFunc],
+        ] as const
+      ).forEach(([routeKey, func]) => {
+        template.hasResourceProperties("AWS::ApiGatewayV2::Route", {
+          RouteKey: routeKey,
+          Target: {
+            "Fn::Join": [
+              "",
+              ["integrations/", { Ref: integrationIdFor(func) }],
+            ],
+          },
+        });
+      });
+      template.hasResourceProperties("AWS::ApiGatewayV2::RouteResponse", {
+        RouteResponseKey: "$default",
+        RouteId: {
+          Ref: Object.entries(
+            template.findResources("AWS::ApiGatewayV2::Route", {
+              Properties: { RouteKey: "$default" },
+            })
+          )[0][0],
+        },
+      });
+    });
+  });
+
+  it("Creates Special Route Integrations Under The Api", () => {
+    const stack = new Stack(PDKNag.app());
+    const connectFunc = new Function(stack, "ConnectLambda", {
+      code: Code.fromInline("code"),
+      handler: "handler",
+      runtime: Runtime.NODEJS_LATEST,
+    });
+    const requestedRouteKeys: string[] = [];
+    withTempSpec(sampleSpec, (specPath) => {
+      const api = new TypeSafeWebsocketApi(stack, "ApiTest", {
+        specPath,
+        operationLookup,
+        connect: {
+          integration: new WebSocketLambdaIntegration("Connect", connectFunc),
+        },
+        specialRouteIntegrations: {
+          createIntegration: (scope, routeKey) => {
+            requestedRouteKeys.push(routeKey);
+            return routeKey === "$default"
+              ? {
+                  integration: new WebSocketLambdaIntegration(
+                    "DefaultIntegration",
+                    new Function(scope, "DefaultFunction", {
+                      code: Code.fromInline("code"),
+                      handler: "handler",
+                      runtime: Runtime.NODEJS_LATEST,
+                    })
+                  ),
+                }
+              : undefined;
+          },
+        },
+        integrations: {
+          testOperation: {
+            integration: new WebSocketMockIntegration("Mock"),
+          },
+        },
+      });
+
+      // Integrations are only created for special routes which aren't given one
+      expect(requestedRouteKeys).toEqual(["$disconnect", "$default"]);
+
+      const defaultFunc = api.node.findChild("DefaultFunction") as Function;
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::ApiGatewayV2::Route", {
+        RouteKey: "$default",
+      });
+      template.hasResourceProperties("AWS::Lambda::Permission", {
+        FunctionName: {
+          "Fn::GetAtt": [
+            stack.getLogicalId(defaultFunc.node.defaultChild as CfnElement),
+            "Arn",
+          ],
+        },
+      });
+    });
+  });
+
   it("Synthesizes With Mock Integrations", () => {
     const stack = new Stack(PDKNag.app());
     withTempSpec(sampleSpec, (specPath) => {
@@ -161,6 +311,153 @@ describe("Type Safe WebSocket Api Construct Unit Tests", () => {
     });
   });
 
+  it("Synthesizes With Connection Store", () => {
+    const stack = new Stack(PDKNag.app());
+    const func = new Function(stack, "Lambda", {
+      code: Code.fromInline("code"),
+      handler: "handler",
+      runtime: Runtime.NODEJS_LATEST,
+    });
+    withTempSpec(sampleSpec, (specPath) => {
+      const api = new TypeSafeWebsocketApi(stack, "ApiTest", {
+        authorizer: new WebSocketIamAuthorizer(),
+        specPath,
+        operationLookup,
+        integrations: {
+          testOperation: {
+            integration: new WebSocketLambdaIntegration("Integration", func),
+          },
+        },
+        connectionStore: {
+          timeToLive: Duration.hours(1),
+        },
+      });
+      const template = Template.fromStack(stack);
+      template.hasResourceProperties("AWS::DynamoDB::Table", {
+        TimeToLiveSpecification: {
+          AttributeName: "expiresAt",
+          Enabled: true,
+        },
+      });
+      template.hasResourceProperties("AWS::ApiGatewayV2::Integration", {
+        IntegrationType: "AWS",
+        IntegrationUri: {
+          "Fn::Join": ["", Match.arrayWith([":dynamodb:action/PutItem"])],
+        },
+      });
+      template.hasResourceProperties("AWS::ApiGatewayV2::Integration", {
+        IntegrationType: "AWS",
+        IntegrationUri: {
+          "Fn::Join": ["", Match.arrayWith([":dynamodb:action/DeleteItem"])],
+        },
+      });
+      template.hasResourceProperties("AWS::Lambda::Function", {
+        Environment: {
+          Variables: {
+            TYPE_SAFE_API_CONNECTION_TABLE_NAME: {
+              Ref: stack.getLogicalId(
+                api.connectionStore!.table.node.defaultChild as CfnElement
+              ),
+            },
+            TYPE_SAFE_API_CONNECTION_TTL_SECONDS: "3600",
+          },
+        },
+      });
+      expect(template.toJSON()).toMatchSnapshot();
+    });
+  });
+
+  it("Uses Connect and Disconnect Integrations With Connection Store", () => {
+    const stack = new Stack(PDKNag.app());
+    const func = new Function(stack, "Lambda", {
+      code: Code.fromInline("code"),
+      handler: "handler",
+      runtime: Runtime.NODEJS_LATEST,
+    });
+    withTempSpec(sampleSpec, (specPath) => {
+      new TypeSafeWebsocketApi(stack, "ApiTest", {
+        authorizer: new WebSocketIamAuthorizer(),
+        specPath,
+        operationLookup,
+        connect: {
+          integration: new WebSocketLambdaIntegration("Connect", func),
+        },
+        disconnect: {
+          integration: new WebSocketLambdaIntegration("Disconnect", func),
+        },
+        integrations: {
+          testOperation: {
+            integration: new WebSocketLambdaIntegration("Integration", func),
+          },
+        },
+        connectionStore: {},
+      });
+      const template = Template.fromStack(stack);
+      template.resourcePropertiesCountIs(
+        "AWS::ApiGatewayV2::Integration",
+        { IntegrationType: "AWS" },
+        0
+      );
+      template.hasResourceProperties("AWS::IAM::Policy", {
+        PolicyDocument: {
+          Statement: Match.arrayWith([
+            Match.objectLike({
+              Action: [
+                "dynamodb:PutItem",
+                "dynamodb:DeleteItem",
+                "dynamodb:Query",
+                "dynamodb:Scan",
+              ],
+            }),
+          ]),
+        },
+      });
+    });
+  });
+
+  it.each([
+    ["AwsPrototypingChecks", new AwsPrototypingChecks()],
+    ["AwsSolutionsChecks", new AwsSolutionsChecks()],
+  ])(
+    "Has no nag errors with connection store for pack %s",
+    (_name, nagPack) => {
+      const app = PDKNag.app({ nagPacks: [nagPack], failOnError: true });
+      const stack = new Stack(app);
+      const func = new Function(stack, "Lambda", {
+        code: Code.fromInline("code"),
+        handler: "handler",
+        runtime: Runtime.NODEJS_LATEST,
+      });
+      NagSuppressions.addResourceSuppressions(
+        func,
+        [
+          "AwsPrototyping-IAMNoManagedPolicies",
+          "AwsPrototyping-LambdaLatestVersion",
+          "AwsSolutions-IAM4",
+          "AwsSolutions-L1",
+        ].map((ruleId) => ({
+          id: ruleId,
+          reason: "This lambda function is not the resource under test",
+        })),
+        true
+      );
+      withTempSpec(sampleSpec, (specPath) => {
+        new TypeSafeWebsocketApi(stack, "ApiTest", {
+          authorizer: new WebSocketIamAuthorizer(),
+          specPath,
+          operationLookup,
+          integrations: {
+            testOperation: {
+              integration: new WebSocketLambdaIntegration("Integration", func),
+            },
+          },
+          connectionStore: {},
+        });
+      });
+      app.synth(); // Should not throw
+    }
+  );
+
   it("Throws for missing integrations", () => {
     const stack = new Stack(PDKNag.app());
     withTempSpec(sampleSpec, (specPath) => {
@@ -0,0 +1,28 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import path from "path";
+import { GeneratedContractTestsProject } from "../../../../src/project/codegen/contract-tests/generated-contract-tests-project";
+import { synthProject } from "../../snapshot-utils";
+
+describe("GeneratedContractTestsProject Unit Tests", () => {
+  it("Synth", () => {
+    const project = new GeneratedContractTestsProject({
+      outdir: path.resolve(__dirname, "contract-tests"),
+      name: "contract-tests",
+      specPath: "my-spec.json",
+    });
+    expect(synthProject(project)).toMatchSnapshot();
+  });
+
+  it("Synth With Options", () => {
+    const project = new GeneratedContractTestsProject({
+      outdir: path.resolve(__dirname, "contract-tests-with-options"),
+      name: "contract-tests",
+      specPath: "my-spec.json",
+      baseUrl: "http://localhost:3000",
+      skipOperations: ["deletePet", "deleteOwner"],
+      seed: 42,
+    });
+    expect(synthProject(project)).toMatchSnapshot();
+  });
+});
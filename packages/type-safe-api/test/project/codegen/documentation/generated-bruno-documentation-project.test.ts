@@ -0,0 +1,16 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import path from "path";
+import { GeneratedBrunoDocumentationProject } from "../../../../src/project/codegen/documentation/generated-bruno-documentation-project";
+import { synthProject } from "../../snapshot-utils";
+
+describe("GeneratedBrunoDocumentationProject Unit Tests", () => {
+  it("Synth", () => {
+    const project = new GeneratedBrunoDocumentationProject({
+      outdir: path.resolve(__dirname, "bruno-docs"),
+      name: "docs",
+      specPath: "my-spec.json",
+    });
+    expect(synthProject(project)).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,16 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import path from "path";
+import { GeneratedHttpFileDocumentationProject } from "../../../../src/project/codegen/documentation/generated-http-file-documentation-project";
+import { synthProject } from "../../snapshot-utils";
+
+describe("GeneratedHttpFileDocumentationProject Unit Tests", () => {
+  it("Synth", () => {
+    const project = new GeneratedHttpFileDocumentationProject({
+      outdir: path.resolve(__dirname, "http-file-docs"),
+      name: "docs",
+      specPath: "my-spec.json",
+    });
+    expect(synthProject(project)).toMatchSnapshot();
+  });
+});
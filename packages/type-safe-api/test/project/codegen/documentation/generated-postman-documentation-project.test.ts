@@ -0,0 +1,16 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import path from "path";
+import { GeneratedPostmanDocumentationProject } from "../../../../src/project/codegen/documentation/generated-postman-documentation-project";
+import { synthProject } from "../../snapshot-utils";
+
+describe("GeneratedPostmanDocumentationProject Unit Tests", () => {
+  it("Synth", () => {
+    const project = new GeneratedPostmanDocumentationProject({
+      outdir: path.resolve(__dirname, "postman-docs"),
+      name: "docs",
+      specPath: "my-spec.json",
+    });
+    expect(synthProject(project)).toMatchSnapshot();
+  });
+});
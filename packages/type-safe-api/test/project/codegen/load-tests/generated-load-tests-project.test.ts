@@ -0,0 +1,47 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import path from "path";
+import { GeneratedLoadTestsProject } from "../../../../src/project/codegen/load-tests/generated-load-tests-project";
+import { synthProject } from "../../snapshot-utils";
+
+describe("GeneratedLoadTestsProject Unit Tests", () => {
+  it("Synth", () => {
+    const project = new GeneratedLoadTestsProject({
+      outdir: path.resolve(__dirname, "load-tests"),
+      name: "load-tests",
+      specPath: "my-spec.json",
+    });
+    expect(synthProject(project)).toMatchSnapshot();
+  });
+
+  it("Synth With Options", () => {
+    const project = new GeneratedLoadTestsProject({
+      outdir: path.resolve(__dirname, "load-tests-with-options"),
+      name: "load-tests",
+      specPath: "my-spec.json",
+      baseUrl: "https://example.com/prod",
+      profiles: {
+        spike: {
+          stages: [
+            { durationSeconds: 10, requestsPerSecond: 100 },
+            { durationSeconds: 10, requestsPerSecond: 0 },
+          ],
+          maxVirtualUsers: 500,
+        },
+      },
+      defaultProfile: "spike",
+      thresholds: {
+        p95ResponseTimeMs: 300,
+      },
+      operationThresholds: {
+        createPet: {
+          maxErrorRate: 0.05,
+        },
+      },
+      skipOperations: ["deletePet"],
+      examplesPerOperation: 10,
+      seed: 42,
+    });
+    expect(synthProject(project)).toMatchSnapshot();
+  });
+});
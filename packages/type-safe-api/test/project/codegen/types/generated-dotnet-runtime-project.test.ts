@@ -0,0 +1,18 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as path from "path";
+import { GeneratedDotNetRuntimeProject } from "../../../../src/project/codegen/runtime/generated-dotnet-runtime-project";
+import { synthProject } from "../../snapshot-utils";
+
+describe("Generated .NET Runtime Unit Tests", () => {
+  it("Synth", () => {
+    const project = new GeneratedDotNetRuntimeProject({
+      outdir: path.resolve(__dirname, "dotnet-runtime"),
+      name: "test-dotnet-runtime",
+      specPath: "my-spec.json",
+    });
+
+    expect(project.namespace).toBe("Test.Dotnet.Runtime");
+    expect(synthProject(project)).toMatchSnapshot();
+  });
+});
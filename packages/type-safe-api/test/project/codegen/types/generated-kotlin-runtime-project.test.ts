@@ -0,0 +1,20 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as path from "path";
+import { GeneratedKotlinRuntimeProject } from "../../../../src/project/codegen/runtime/generated-kotlin-runtime-project";
+import { synthProject } from "../../snapshot-utils";
+
+describe("Generated Kotlin Runtime Unit Tests", () => {
+  it("Synth", () => {
+    const project = new GeneratedKotlinRuntimeProject({
+      outdir: path.resolve(__dirname, "kotlin-runtime"),
+      name: "test-kotlin-runtime",
+      artifactId: "com.aws.pdk.test",
+      groupId: "test",
+      version: "1.0.0",
+      specPath: "my-spec.json",
+    });
+
+    expect(synthProject(project)).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,18 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as path from "path";
+import { GeneratedRustRuntimeProject } from "../../../../src/project/codegen/runtime/generated-rust-runtime-project";
+import { synthProject } from "../../snapshot-utils";
+
+describe("Generated Rust Runtime Unit Tests", () => {
+  it("Synth", () => {
+    const project = new GeneratedRustRuntimeProject({
+      outdir: path.resolve(__dirname, "rust-runtime"),
+      name: "test-rust-runtime",
+      specPath: "my-spec.json",
+    });
+
+    expect(project.crateName).toBe("test-rust-runtime");
+    expect(synthProject(project)).toMatchSnapshot();
+  });
+});
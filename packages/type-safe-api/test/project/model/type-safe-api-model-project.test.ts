@@ -104,6 +104,27 @@ describe("Type Safe Api Model Project Unit Tests", () => {
     expect(synthProject(project)).toMatchSnapshot();
   });
 
+  it("OpenAPI With Breaking Change Detection", () => {
+    const project = new OpenApiModelProject({
+      outdir: path.resolve(__dirname, "openapi-breaking-changes"),
+      name: "openapi-breaking-changes",
+      openApiOptions: {
+        title: "MyService",
+      },
+      parsedSpecFile: ".api.json",
+      breakingChanges: {
+        baseline: "origin/mainline",
+      },
+    });
+
+    const tasks = synthProject(project)[".projen/tasks.json"].tasks;
+    expect(tasks["breaking-changes"]).toMatchSnapshot();
+    expect(tasks.compile.steps).toEqual([
+      { spawn: "generate" },
+      { spawn: "breaking-changes" },
+    ]);
+  });
+
   it("Smithy With Handlers", () => {
     const project = new SmithyModelProject({
       outdir: path.resolve(__dirname, "smithy-handlers"),
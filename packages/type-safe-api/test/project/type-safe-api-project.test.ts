@@ -5,6 +5,7 @@ import { MonorepoTsProject } from "@aws/monorepo";
 import { NodePackageManager } from "projen/lib/javascript";
 import { synthProject, synthSmithyProject } from "./snapshot-utils";
 import {
+  Architecture,
   DocumentationFormat,
   Language,
   Library,
@@ -315,6 +316,164 @@ describe("Type Safe Api Project Unit Tests", () => {
     expect(synthSmithyProject(project)).toMatchSnapshot();
   });
 
+  it("Smithy With TypeScript vue-query and swr hooks libraries", () => {
+    const project = new TypeSafeApiProject({
+      name: `smithy-typescript-vue-query-swr-hooks`,
+      outdir: path.resolve(__dirname, `smithy-typescript-vue-query-swr-hooks`),
+      infrastructure: {
+        language: Language.TYPESCRIPT,
+      },
+      model: {
+        language: ModelLanguage.SMITHY,
+        options: {
+          smithy: {
+            serviceName: {
+              namespace: "com.test",
+              serviceName: "MyService",
+            },
+          },
+        },
+      },
+      library: {
+        libraries: [Library.TYPESCRIPT_VUE_QUERY, Library.TYPESCRIPT_SWR_HOOKS],
+      },
+    });
+
+    expect(project.library.typescriptReactQueryHooks).not.toBeDefined();
+    expect(project.library.typescriptVueQuery).toBeDefined();
+    expect(project.library.typescriptSwrHooks).toBeDefined();
+
+    expect(synthSmithyProject(project)).toMatchSnapshot();
+  });
+
+  it("Smithy With TypeScript zod schemas library", () => {
+    const project = new TypeSafeApiProject({
+      name: `smithy-typescript-zod-schemas`,
+      outdir: path.resolve(__dirname, `smithy-typescript-zod-schemas`),
+      infrastructure: {
+        language: Language.TYPESCRIPT,
+      },
+      model: {
+        language: ModelLanguage.SMITHY,
+        options: {
+          smithy: {
+            serviceName: {
+              namespace: "com.test",
+              serviceName: "MyService",
+            },
+          },
+        },
+      },
+      library: {
+        libraries: [Library.TYPESCRIPT_ZOD_SCHEMAS],
+      },
+    });
+
+    expect(project.library.typescriptZodSchemas).toBeDefined();
+
+    expect(synthSmithyProject(project)).toMatchSnapshot();
+  });
+
+  it("Smithy With Contract Tests", () => {
+    const project = new TypeSafeApiProject({
+      name: `smithy-contract-tests`,
+      outdir: path.resolve(__dirname, `smithy-contract-tests`),
+      infrastructure: {
+        language: Language.TYPESCRIPT,
+      },
+      model: {
+        language: ModelLanguage.SMITHY,
+        options: {
+          smithy: {
+            serviceName: {
+              namespace: "com.test",
+              serviceName: "MyService",
+            },
+          },
+        },
+      },
+      contractTests: {
+        baseUrl: "http://localhost:3000",
+      },
+    });
+
+    expect(project.contractTests).toBeDefined();
+    expect(project.all.projects).toContain(project.contractTests);
+
+    expect(synthSmithyProject(project)).toMatchSnapshot();
+  });
+
+  it("Smithy With Load Tests", () => {
+    const project = new TypeSafeApiProject({
+      name: `smithy-load-tests`,
+      outdir: path.resolve(__dirname, `smithy-load-tests`),
+      infrastructure: {
+        language: Language.TYPESCRIPT,
+      },
+      model: {
+        language: ModelLanguage.SMITHY,
+        options: {
+          smithy: {
+            serviceName: {
+              namespace: "com.test",
+              serviceName: "MyService",
+            },
+          },
+        },
+      },
+      loadTests: {
+        baseUrl: "https://example.com/prod",
+        thresholds: {
+          p95ResponseTimeMs: 300,
+        },
+      },
+    });
+
+    expect(project.loadTests).toBeDefined();
+    expect(project.all.projects).toContain(project.loadTests);
+
+    expect(synthSmithyProject(project)).toMatchSnapshot();
+  });
+
+  it("Smithy With Request Collection Documentation", () => {
+    const project = new TypeSafeApiProject({
+      name: `smithy-request-collections`,
+      outdir: path.resolve(__dirname, `smithy-request-collections`),
+      infrastructure: {
+        language: Language.TYPESCRIPT,
+      },
+      documentation: {
+        formats: [
+          DocumentationFormat.POSTMAN,
+          DocumentationFormat.BRUNO,
+          DocumentationFormat.HTTP_FILE,
+        ],
+        options: {
+          postman: {
+            baseUrl: "https://example.com/prod",
+          },
+        },
+      },
+      model: {
+        language: ModelLanguage.SMITHY,
+        options: {
+          smithy: {
+            serviceName: {
+              namespace: "com.test",
+              serviceName: "MyService",
+            },
+          },
+        },
+      },
+    });
+
+    expect(project.documentation.postman).toBeDefined();
+    expect(project.documentation.bruno).toBeDefined();
+    expect(project.documentation.httpFile).toBeDefined();
+
+    expect(synthSmithyProject(project)).toMatchSnapshot();
+  });
+
   it("Smithy With Handlers", () => {
     const project = new TypeSafeApiProject({
       name: `smithy-handlers`,
@@ -354,6 +513,110 @@ describe("Type Safe Api Project Unit Tests", () => {
     expect(synthSmithyProject(project)).toMatchSnapshot();
   });
 
+  it("Smithy With Go Handlers", () => {
+    const project = new TypeSafeApiProject({
+      name: `smithy-go-handlers`,
+      outdir: path.resolve(__dirname, `smithy-go-handlers`),
+      infrastructure: {
+        language: Language.TYPESCRIPT,
+      },
+      model: {
+        language: ModelLanguage.SMITHY,
+        options: {
+          smithy: {
+            serviceName: {
+              namespace: "com.test",
+              serviceName: "MyService",
+            },
+          },
+        },
+      },
+      handlers: {
+        languages: [Language.GO],
+        options: {
+          go: {
+            architecture: Architecture.ARM_64,
+          },
+        },
+      },
+    });
+
+    // Go runtime should be added for the go handlers
+    expect(project.runtime.go).toBeDefined();
+    expect(project.handlers.go).toBeDefined();
+
+    expect(synthSmithyProject(project)).toMatchSnapshot();
+  });
+
+  it("Smithy With Rust Handlers", () => {
+    const project = new TypeSafeApiProject({
+      name: `smithy-rust-handlers`,
+      outdir: path.resolve(__dirname, `smithy-rust-handlers`),
+      infrastructure: {
+        language: Language.TYPESCRIPT,
+      },
+      model: {
+        language: ModelLanguage.SMITHY,
+        options: {
+          smithy: {
+            serviceName: {
+              namespace: "com.test",
+              serviceName: "MyService",
+            },
+          },
+        },
+      },
+      handlers: {
+        languages: [Language.RUST],
+        options: {
+          rust: {
+            architecture: Architecture.ARM_64,
+          },
+        },
+      },
+    });
+
+    // Rust runtime should be added for the rust handlers
+    expect(project.runtime.rust).toBeDefined();
+    expect(project.handlers.rust).toBeDefined();
+
+    expect(synthSmithyProject(project)).toMatchSnapshot();
+  });
+
+  it("Smithy With Kotlin And .NET Runtimes", () => {
+    const project = new TypeSafeApiProject({
+      name: `smithy-kotlin-dotnet`,
+      outdir: path.resolve(__dirname, `smithy-kotlin-dotnet`),
+      infrastructure: {
+        language: Language.TYPESCRIPT,
+      },
+      runtime: {
+        languages: [Language.KOTLIN, Language.DOTNET],
+        options: {
+          dotnet: {
+            namespace: "Test.Api",
+          },
+        },
+      },
+      model: {
+        language: ModelLanguage.SMITHY,
+        options: {
+          smithy: {
+            serviceName: {
+              namespace: "com.test",
+              serviceName: "MyService",
+            },
+          },
+        },
+      },
+    });
+
+    expect(project.runtime.kotlin).toBeDefined();
+    expect(project.runtime.dotnet).toBeDefined();
+
+    expect(synthSmithyProject(project)).toMatchSnapshot();
+  });
+
   it("commitGeneratedCode includes generated code", () => {
     const project = new TypeSafeApiProject({
       name: `openapi-commitAll`,
@@ -589,4 +852,27 @@ describe("Type Safe Api Project Unit Tests", () => {
       });
     }).toThrow(/modelOptions.typeSpec is required.*/);
   });
+
+  it("Throws For Go Infrastructure", () => {
+    expect(() => {
+      new TypeSafeApiProject({
+        outdir: path.resolve(__dirname, "go-infra"),
+        name: "go-infra",
+        model: {
+          language: ModelLanguage.SMITHY,
+          options: {
+            smithy: {
+              serviceName: {
+                namespace: "com.test",
+                serviceName: "MyService",
+              },
+            },
+          },
+        },
+        infrastructure: {
+          language: Language.GO,
+        },
+      });
+    }).toThrow(/go is not supported for infra projects/);
+  });
 });
@@ -321,6 +321,42 @@ describe("Type Safe Api Project Unit Tests", () => {
     expect(synthSmithyProject(project)).toMatchSnapshot();
   });
 
+  it("Smithy With Python and Java websocket client libraries", () => {
+    const project = new TypeSafeWebSocketApiProject({
+      name: `smithy-python-java-websocket-client`,
+      outdir: path.resolve(
+        __dirname,
+        `async-smithy-python-java-websocket-client`
+      ),
+      infrastructure: {
+        language: Language.TYPESCRIPT,
+      },
+      model: {
+        language: ModelLanguage.SMITHY,
+        options: {
+          smithy: {
+            serviceName: {
+              namespace: "com.test",
+              serviceName: "MyService",
+            },
+          },
+        },
+      },
+      library: {
+        libraries: [
+          WebSocketLibrary.PYTHON_WEBSOCKET_CLIENT,
+          WebSocketLibrary.JAVA_WEBSOCKET_CLIENT,
+        ],
+      },
+    });
+
+    expect(project.library.pythonWebSocketClient).toBeDefined();
+    expect(project.library.javaWebSocketClient).toBeDefined();
+    expect(project.library.typescriptWebSocketClient).not.toBeDefined();
+
+    expect(synthSmithyProject(project)).toMatchSnapshot();
+  });
+
   it("Smithy With Handlers", () => {
     const project = new TypeSafeWebSocketApiProject({
       name: `smithy-handlers`,
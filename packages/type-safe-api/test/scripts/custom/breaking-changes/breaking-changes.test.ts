@@ -0,0 +1,70 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { spawnSync } from "child_process";
+import * as fs from "fs";
+import os from "os";
+import * as path from "path";
+
+describe("Breaking Changes Script Unit Tests", () => {
+  const specsDir = "../../../resources/specs/breaking-changes";
+
+  const detectBreakingChanges = (
+    specPath: string,
+    baseline: string,
+    ...args: string[]
+  ) => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "breaking-changes-"));
+    try {
+      const outputPath = path.join(tmpDir, "changes.json");
+      const result = spawnSync(
+        "../../../../scripts/type-safe-api/run.js",
+        [
+          "breaking-changes",
+          "--specPath",
+          path.join(specsDir, specPath),
+          "--baseline",
+          path.join(specsDir, baseline),
+          "--outputPath",
+          outputPath,
+          ...args,
+        ],
+        { cwd: path.resolve(__dirname), encoding: "utf-8" }
+      );
+      return {
+        status: result.status,
+        changes: JSON.parse(fs.readFileSync(outputPath, "utf-8")),
+      };
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  };
+
+  it("Classifies Changes", () => {
+    const { status, changes } = detectBreakingChanges(
+      "current.yaml",
+      "baseline.yaml"
+    );
+    expect(status).toBe(0);
+    expect(changes).toMatchSnapshot();
+  });
+
+  it("Fails On Breaking Changes", () => {
+    expect(
+      detectBreakingChanges(
+        "current.yaml",
+        "baseline.yaml",
+        "--failOnBreakingChanges"
+      ).status
+    ).toBe(1);
+  });
+
+  it("Succeeds When There Are No Breaking Changes", () => {
+    const { status, changes } = detectBreakingChanges(
+      "baseline.yaml",
+      "baseline.yaml",
+      "--failOnBreakingChanges"
+    );
+    expect(status).toBe(0);
+    expect(changes).toEqual([]);
+  });
+});
@@ -0,0 +1,666 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { execFileSync, execSync } from "child_process";
+import * as fs from "fs";
+import os from "os";
+import path from "path";
+import { exec } from "projen/lib/util";
+import * as ts from "typescript";
+import { GeneratedPythonRuntimeProject } from "../../../../src/project/codegen/runtime/generated-python-runtime-project";
+import { GeneratedTypescriptRuntimeProject } from "../../../../src/project/codegen/runtime/generated-typescript-runtime-project";
+
+const generate = (
+  project: { buildGenerateCommandArgs: () => string },
+  outdir: string
+) => {
+  fs.copyFileSync(
+    path.resolve(__dirname, "../../../resources/specs/iam-authorized.yaml"),
+    path.join(outdir, "spec.yaml")
+  );
+  exec(
+    `${path.resolve(
+      __dirname,
+      "../../../../scripts/type-safe-api/run.js generate"
+    )} ${project.buildGenerateCommandArgs()}`,
+    { cwd: outdir }
+  );
+};
+
+/**
+ * Transpile the generated typescript such that it can be required directly
+ */
+const transpile = (dir: string) => {
+  fs.readdirSync(dir, { withFileTypes: true }).forEach((entry) => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      transpile(entryPath);
+    } else if (entry.name.endsWith(".ts")) {
+      fs.writeFileSync(
+        entryPath.replace(/\.ts$/, ".js"),
+        ts.transpileModule(fs.readFileSync(entryPath, "utf-8"), {
+          compilerOptions: {
+            module: ts.ModuleKind.CommonJS,
+            target: ts.ScriptTarget.ES2019,
+          },
+        }).outputText
+      );
+    }
+  });
+};
+
+describe("Typescript Client Interceptors Unit Tests", () => {
+  let tmpDir: string;
+  let client: any;
+  let delays: number[];
+  let requests: { url: string; init: RequestInit }[];
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ts-client-test-"));
+    generate(
+      new GeneratedTypescriptRuntimeProject({
+        name: "test",
+        defaultReleaseBranch: "main",
+        outdir: tmpDir,
+        specPath: "spec.yaml",
+      }),
+      tmpDir
+    );
+    transpile(path.join(tmpDir, "src"));
+
+    client = {
+      ...(await import(path.join(tmpDir, "src", "runtime.js"))),
+      ...(await import(path.join(tmpDir, "src", "apis", "DefaultApi.js"))),
+    };
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    requests = [];
+    delays = [];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Record the delays between retries, and skip waiting for them
+   */
+  const skipDelays = () => {
+    const setTimeout = global.setTimeout;
+    jest.spyOn(global, "setTimeout").mockImplementation(((
+      callback: () => void,
+      ms: number
+    ) => {
+      delays.push(ms);
+      return setTimeout(callback, 0);
+    }) as any);
+  };
+
+  /**
+   * Build an api which receives the given responses (or throws the given errors) in turn
+   */
+  const buildApi = (
+    responses: (Response | Error | (() => Promise<Response>))[],
+    parameters: any = {}
+  ) =>
+    new client.DefaultApi(
+      new client.Configuration({
+        basePath: "http://localhost",
+        fetchApi: async (url: string, init: RequestInit) => {
+          requests.push({ url, init });
+          const response = responses.shift();
+          if (response instanceof Error) {
+            throw response;
+          }
+          return typeof response === "function" ? response() : response;
+        },
+        ...parameters,
+      })
+    );
+
+  const pet = (name: string = "Fido") =>
+    new Response(JSON.stringify({ name }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  const error = (status: number, headers: { [key: string]: string } = {}) =>
+    new Response(JSON.stringify({ message: "error" }), { status, headers });
+
+  describe("Retry Interceptor", () => {
+    beforeEach(skipDelays);
+
+    it("Retries Retryable Status Codes For Idempotent Requests", async () => {
+      const api = buildApi([error(503), error(429), pet()], {
+        interceptors: [client.buildRetryInterceptor()],
+      });
+
+      expect(await api.getPet({ petId: "fido" })).toEqual({ name: "Fido" });
+      expect(requests).toHaveLength(3);
+    });
+
+    it("Returns The Last Response After The Maximum Attempts", async () => {
+      const api = buildApi([error(500), error(500), error(500)], {
+        interceptors: [client.buildRetryInterceptor({ maxAttempts: 2 })],
+      });
+
+      await expect(api.getPet({ petId: "fido" })).rejects.toThrow(
+        client.ResponseError
+      );
+      expect(requests).toHaveLength(2);
+    });
+
+    it("Does Not Retry Non Retryable Status Codes", async () => {
+      const api = buildApi([error(400), pet()], {
+        interceptors: [client.buildRetryInterceptor()],
+      });
+
+      await expect(api.getPet({ petId: "fido" })).rejects.toThrow(
+        client.ResponseError
+      );
+      expect(requests).toHaveLength(1);
+    });
+
+    it("Retries Failed Requests", async () => {
+      const api = buildApi([new TypeError("socket hang up"), pet()], {
+        interceptors: [client.buildRetryInterceptor()],
+      });
+
+      expect(await api.getPet({ petId: "fido" })).toEqual({ name: "Fido" });
+      expect(requests).toHaveLength(2);
+    });
+
+    it("Backs Off Exponentially", async () => {
+      jest.spyOn(Math, "random").mockReturnValue(0.5);
+      const api = buildApi([error(503), error(503), error(503), pet()], {
+        interceptors: [
+          client.buildRetryInterceptor({
+            maxAttempts: 4,
+            baseDelayMs: 100,
+            maxDelayMs: 300,
+          }),
+        ],
+      });
+
+      await api.getPet({ petId: "fido" });
+      // Delays are a random proportion of 100, 200 and 400 (capped at 300) milliseconds
+      expect(delays).toEqual([50, 100, 150]);
+    });
+
+    it("Honours Retry After Headers", async () => {
+      jest.spyOn(Date, "now").mockReturnValue(Date.UTC(2024, 0, 1));
+      const api = buildApi(
+        [
+          error(429, { "Retry-After": "2" }),
+          error(503, { "Retry-After": "Mon, 01 Jan 2024 00:00:05 GMT" }),
+          error(503, { "Retry-After": "60" }),
+          pet(),
+        ],
+        {
+          interceptors: [
+            client.buildRetryInterceptor({ maxAttempts: 4, maxDelayMs: 10000 }),
+          ],
+        }
+      );
+
+      await api.getPet({ petId: "fido" });
+      expect(delays).toEqual([2000, 5000, 10000]);
+    });
+
+    it("Does Not Retry Non Idempotent Requests By Default", async () => {
+      const api = buildApi([error(503), pet()], {
+        interceptors: [client.buildRetryInterceptor()],
+      });
+
+      await expect(api.createPet({ pet: { name: "Fido" } })).rejects.toThrow(
+        client.ResponseError
+      );
+      expect(requests).toHaveLength(1);
+    });
+
+    it("Retries Non Idempotent Requests When Enabled", async () => {
+      const api = buildApi([error(503), pet()], {
+        interceptors: [
+          client.buildRetryInterceptor({ retryNonIdempotent: true }),
+        ],
+      });
+
+      expect(await api.createPet({ pet: { name: "Fido" } })).toEqual({
+        name: "Fido",
+      });
+      expect(requests).toHaveLength(2);
+      expect(
+        (requests[0].init.headers as any)["Idempotency-Key"]
+      ).toBeUndefined();
+    });
+
+    it("Sends The Same Idempotency Key With Each Attempt", async () => {
+      const api = buildApi([error(503), error(503), pet()], {
+        interceptors: [
+          client.buildRetryInterceptor({
+            idempotencyKeyHeader: "Idempotency-Key",
+          }),
+        ],
+      });
+
+      expect(await api.createPet({ pet: { name: "Fido" } })).toEqual({
+        name: "Fido",
+      });
+      expect(requests).toHaveLength(3);
+      const keys = requests.map(
+        ({ init }) => (init.headers as any)["Idempotency-Key"]
+      );
+      expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+      expect(new Set(keys).size).toBe(1);
+    });
+
+    it("Does Not Replace An Existing Idempotency Key", async () => {
+      const api = buildApi([error(503), pet()], {
+        interceptors: [
+          client.buildRetryInterceptor({
+            idempotencyKeyHeader: "Idempotency-Key",
+          }),
+        ],
+        headers: { "idempotency-key": "my-key" },
+      });
+
+      await api.createPet({ pet: { name: "Fido" } });
+      expect(
+        requests.map(({ init }) => (init.headers as any)["idempotency-key"])
+      ).toEqual(["my-key", "my-key"]);
+      expect(
+        (requests[0].init.headers as any)["Idempotency-Key"]
+      ).toBeUndefined();
+    });
+  });
+
+  describe("Timeout Interceptor", () => {
+    /**
+     * A response which never arrives unless the request is aborted
+     */
+    const hang = (init: () => RequestInit) => () =>
+      new Promise<Response>((_resolve, reject) => {
+        const signal = init().signal!;
+        const abort = () =>
+          reject(Object.assign(new Error("aborted"), { name: "AbortError" }));
+        if (signal.aborted) {
+          abort();
+        }
+        signal.addEventListener("abort", abort);
+      });
+    const lastInit = () => requests[requests.length - 1].init;
+
+    it("Throws A Timeout Error When A Request Takes Too Long", async () => {
+      const api = buildApi([hang(lastInit)], { timeoutMs: 10 });
+
+      await expect(api.getPet({ petId: "fido" })).rejects.toThrow(
+        client.TimeoutError
+      );
+    });
+
+    it("Applies The Timeout To Each Attempt", async () => {
+      const api = buildApi([hang(lastInit), pet()], {
+        timeoutMs: 10,
+        interceptors: [client.buildRetryInterceptor({ baseDelayMs: 1 })],
+      });
+
+      expect(await api.getPet({ petId: "fido" })).toEqual({ name: "Fido" });
+      expect(requests).toHaveLength(2);
+    });
+
+    it("Does Not Time Out Fast Requests", async () => {
+      const api = buildApi([pet()]).withTimeout(1000);
+
+      expect(await api.getPet({ petId: "fido" })).toEqual({ name: "Fido" });
+    });
+
+    it("Aborts When The Caller Aborts", async () => {
+      const controller = new AbortController();
+      const api = buildApi([hang(lastInit)], { timeoutMs: 1000 });
+
+      const response = api.getPet(
+        { petId: "fido" },
+        {
+          signal: controller.signal,
+        }
+      );
+      controller.abort();
+      await expect(response).rejects.toThrow(client.FetchError);
+    });
+  });
+
+  describe("Logging Interceptor", () => {
+    beforeEach(skipDelays);
+
+    it("Invokes Hooks For Each Attempt", async () => {
+      const events: any[] = [];
+      const api = buildApi([error(503), pet()], {
+        interceptors: [
+          client.buildRetryInterceptor(),
+          client.buildLoggingInterceptor({
+            onRequest: (request: any) =>
+              events.push(["request", request.url, request.attempt]),
+            onResponse: async (request: any, response: Response) =>
+              events.push([
+                "response",
+                request.attempt,
+                response.status,
+                await response.json(),
+              ]),
+          }),
+        ],
+      });
+
+      // The response body remains readable, since the hook is passed a clone
+      expect(await api.getPet({ petId: "fido" })).toEqual({ name: "Fido" });
+      expect(events).toEqual([
+        ["request", "http://localhost/pets/fido", 1],
+        ["response", 1, 503, { message: "error" }],
+        ["request", "http://localhost/pets/fido", 2],
+        ["response", 2, 200, { name: "Fido" }],
+      ]);
+    });
+
+    it("Invokes The Error Hook For Failed Requests", async () => {
+      const onError = jest.fn();
+      const api = buildApi([new TypeError("socket hang up")], {
+        interceptors: [client.buildLoggingInterceptor({ onError })],
+      });
+
+      await expect(api.getPet({ petId: "fido" })).rejects.toThrow(
+        client.FetchError
+      );
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ attempt: 1 }),
+        expect.any(client.FetchError),
+        expect.any(Number)
+      );
+    });
+
+    it("Logs To The Console By Default", async () => {
+      const debug = jest.spyOn(console, "debug").mockImplementation(() => {});
+      const api = buildApi([pet()], {
+        interceptors: [client.buildLoggingInterceptor()],
+      });
+
+      await api.getPet({ petId: "fido" });
+      expect(debug).toHaveBeenCalledWith(
+        "GET http://localhost/pets/fido (attempt 1)"
+      );
+      expect(debug).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^GET http:\/\/localhost\/pets\/fido returned 200 in \d+ms$/
+        )
+      );
+    });
+  });
+});
+
+// Python tests require python 3 and the generated runtime's dependencies to be installed
+const describeIfPython = (() => {
+  try {
+    execSync('python3 -c "import pydantic, dateutil, urllib3"', {
+      stdio: "ignore",
+    });
+    return describe;
+  } catch {
+    return describe.skip;
+  }
+})();
+
+/**
+ * Sends a request with the rest client configured by the scenario given as the first argument, substituting a pool
+ * manager which returns the scenario's responses in turn. Prints the result, the requests sent, the delays between
+ * attempts and any logged events.
+ */
+const PYTHON_HARNESS = `import json
+import random
+import sys
+import time
+import urllib3
+
+from test_project.configuration import Configuration
+from test_project.rest import RESTClientObject, RetryInterceptor, LoggingInterceptor
+
+scenario = json.loads(sys.argv[1])
+requests = []
+delays = []
+events = []
+
+time.sleep = lambda seconds: delays.append(round(seconds, 3))
+random.uniform = lambda low, high: (low + high) / 2
+
+
+class StubPoolManager:
+    def request(self, method, url, **kwargs):
+        requests.append({ "method": method, "url": url, "headers": kwargs["headers"], "timeout": getattr(kwargs["timeout"], "total", None) })
+        response = scenario["responses"].pop(0)
+        if "error" in response:
+            raise urllib3.exceptions.ReadTimeoutError(None, url, response["error"])
+        return urllib3.HTTPResponse(
+            body=json.dumps(response.get("body", {})).encode("utf-8"),
+            status=response["status"],
+            headers=response.get("headers", {}),
+            preload_content=False,
+        )
+
+
+configuration = Configuration(host="http://localhost")
+configuration.timeout = scenario.get("timeout")
+if "retry" in scenario:
+    configuration.interceptors.append(RetryInterceptor(**scenario["retry"]))
+if scenario.get("logging"):
+    configuration.interceptors.append(LoggingInterceptor(
+        on_request=lambda request: events.append(["request", request.attempt]),
+        on_response=lambda request, response, duration: events.append(["response", request.attempt, response.status]),
+        on_error=lambda request, error, duration: events.append(["error", request.attempt, type(error).__name__]),
+    ))
+client = RESTClientObject(configuration)
+client.pool_manager = StubPoolManager()
+
+result = {}
+try:
+    response = client.request(scenario["method"], "http://localhost/pets", headers=scenario.get("headers"), body={ "name": "Fido" })
+    result = { "status": response.status, "body": json.loads(response.read()) }
+except urllib3.exceptions.HTTPError as e:
+    result = { "error": type(e).__name__ }
+
+print(json.dumps({ "result": result, "requests": requests, "delays": delays, "events": events }))
+`;
+
+describeIfPython("Python Client Interceptors Unit Tests", () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "py-client-test-"));
+    generate(
+      new GeneratedPythonRuntimeProject({
+        name: "test_project",
+        moduleName: "test_project",
+        authorEmail: "me@example.com",
+        authorName: "test",
+        version: "1.0.0",
+        outdir: tmpDir,
+        specPath: "spec.yaml",
+      }),
+      tmpDir
+    );
+    fs.writeFileSync(path.join(tmpDir, "harness.py"), PYTHON_HARNESS);
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const send = (scenario: any) =>
+    JSON.parse(
+      execFileSync("python3", ["harness.py", JSON.stringify(scenario)], {
+        cwd: tmpDir,
+        encoding: "utf-8",
+      })
+    );
+
+  const pet = { status: 200, body: { name: "Fido" } };
+
+  describe("Retry Interceptor", () => {
+    it("Retries Retryable Status Codes For Idempotent Requests", () => {
+      const { result, requests } = send({
+        method: "GET",
+        retry: {},
+        responses: [{ status: 503 }, { status: 429 }, pet],
+      });
+      expect(result).toEqual({ status: 200, body: { name: "Fido" } });
+      expect(requests).toHaveLength(3);
+    });
+
+    it("Returns The Last Response After The Maximum Attempts", () => {
+      const { result, requests } = send({
+        method: "GET",
+        retry: { max_attempts: 2 },
+        responses: [{ status: 500 }, { status: 500 }, pet],
+      });
+      expect(result.status).toBe(500);
+      expect(requests).toHaveLength(2);
+    });
+
+    it("Does Not Retry Non Retryable Status Codes", () => {
+      const { result, requests } = send({
+        method: "GET",
+        retry: {},
+        responses: [{ status: 400 }, pet],
+      });
+      expect(result.status).toBe(400);
+      expect(requests).toHaveLength(1);
+    });
+
+    it("Retries Failed Requests", () => {
+      const { result, requests } = send({
+        method: "GET",
+        retry: {},
+        responses: [{ error: "timed out" }, pet],
+      });
+      expect(result.status).toBe(200);
+      expect(requests).toHaveLength(2);
+    });
+
+    it("Raises The Last Error After The Maximum Attempts", () => {
+      const { result, requests } = send({
+        method: "GET",
+        retry: { max_attempts: 2 },
+        responses: [{ error: "timed out" }, { error: "timed out" }],
+      });
+      expect(result).toEqual({ error: "ReadTimeoutError" });
+      expect(requests).toHaveLength(2);
+    });
+
+    it("Backs Off Exponentially", () => {
+      const { delays } = send({
+        method: "GET",
+        retry: { max_attempts: 4, base_delay: 0.1, max_delay: 0.3 },
+        responses: [{ status: 503 }, { status: 503 }, { status: 503 }, pet],
+      });
+      // Delays are a random proportion of 0.1, 0.2 and 0.4 (capped at 0.3) seconds
+      expect(delays).toEqual([0.05, 0.1, 0.15]);
+    });
+
+    it("Honours Retry After Headers", () => {
+      const retryAfterDate = new Date(Date.now() + 5000).toUTCString();
+      const { delays } = send({
+        method: "GET",
+        retry: { max_attempts: 4, max_delay: 10 },
+        responses: [
+          { status: 429, headers: { "Retry-After": "2" } },
+          { status: 503, headers: { "Retry-After": retryAfterDate } },
+          { status: 503, headers: { "Retry-After": "60" } },
+          pet,
+        ],
+      });
+      expect(delays[0]).toBe(2);
+      // The http date is relative to the current time, so allow for the time taken to run the test
+      expect(delays[1]).toBeGreaterThan(0);
+      expect(delays[1]).toBeLessThanOrEqual(5);
+      expect(delays[2]).toBe(10);
+    });
+
+    it("Does Not Retry Non Idempotent Requests By Default", () => {
+      const { result, requests } = send({
+        method: "POST",
+        retry: {},
+        responses: [{ status: 503 }, pet],
+      });
+      expect(result.status).toBe(503);
+      expect(requests).toHaveLength(1);
+    });
+
+    it("Retries Non Idempotent Requests When Enabled", () => {
+      const { result, requests } = send({
+        method: "POST",
+        retry: { retry_non_idempotent: true },
+        responses: [{ status: 503 }, pet],
+      });
+      expect(result.status).toBe(200);
+      expect(requests).toHaveLength(2);
+    });
+
+    it("Sends The Same Idempotency Key With Each Attempt", () => {
+      const { result, requests } = send({
+        method: "POST",
+        retry: { idempotency_key_header: "Idempotency-Key" },
+        responses: [{ status: 503 }, { status: 503 }, pet],
+      });
+      expect(result.status).toBe(200);
+      expect(requests).toHaveLength(3);
+      const keys = requests.map((r: any) => r.headers["Idempotency-Key"]);
+      expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+      expect(new Set(keys).size).toBe(1);
+    });
+
+    it("Does Not Replace An Existing Idempotency Key", () => {
+      const { requests } = send({
+        method: "POST",
+        retry: { idempotency_key_header: "Idempotency-Key" },
+        headers: { "idempotency-key": "my-key" },
+        responses: [{ status: 503 }, pet],
+      });
+      expect(requests.map((r: any) => r.headers)).toEqual([
+        { "idempotency-key": "my-key" },
+        { "idempotency-key": "my-key" },
+      ]);
+    });
+  });
+
+  describe("Timeouts", () => {
+    it("Applies The Configured Timeout To Each Attempt", () => {
+      const { result, requests } = send({
+        method: "GET",
+        timeout: 5,
+        retry: {},
+        responses: [{ error: "timed out" }, pet],
+      });
+      expect(result.status).toBe(200);
+      expect(requests.map((r: any) => r.timeout)).toEqual([5, 5]);
+    });
+  });
+
+  describe("Logging Interceptor", () => {
+    it("Invokes Hooks For Each Attempt", () => {
+      const { events } = send({
+        method: "GET",
+        retry: {},
+        logging: true,
+        responses: [{ status: 503 }, { error: "timed out" }, pet],
+      });
+      expect(events).toEqual([
+        ["request", 1],
+        ["response", 1, 503],
+        ["request", 2],
+        ["error", 2, "ReadTimeoutError"],
+        ["request", 3],
+        ["response", 3, 200],
+      ]);
+    });
+  });
+});
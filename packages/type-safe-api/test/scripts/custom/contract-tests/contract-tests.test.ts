@@ -0,0 +1,320 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { spawn } from "child_process";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+
+const spec = {
+  openapi: "3.0.3",
+  info: { title: "Test API", version: "1.0.0" },
+  paths: {
+    "/pets/{petId}": {
+      get: {
+        operationId: "getPet",
+        parameters: [
+          {
+            in: "path",
+            name: "petId",
+            required: true,
+            schema: { type: "string", format: "uuid" },
+          },
+          {
+            in: "query",
+            name: "include",
+            required: true,
+            schema: { type: "array", items: { type: "string" }, minItems: 2 },
+          },
+          {
+            in: "query",
+            name: "optional",
+            schema: { type: "string" },
+          },
+          {
+            in: "header",
+            name: "x-tenant",
+            required: true,
+            schema: { type: "string", enum: ["tenant-a"] },
+          },
+        ],
+        responses: {
+          200: {
+            description: "Successful response",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Pet" },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/pets": {
+      post: {
+        operationId: "createPet",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/Pet" },
+            },
+          },
+        },
+        responses: {
+          201: {
+            description: "Created",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Pet" },
+              },
+            },
+          },
+          "4XX": {
+            description: "Client error",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Error" },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/ping": {
+      delete: {
+        operationId: "deletePing",
+        responses: {
+          204: { description: "No content" },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: "object",
+        required: ["name"],
+        properties: {
+          name: { type: "string" },
+          age: { type: "integer", minimum: 0 },
+        },
+      },
+      Error: {
+        type: "object",
+        required: ["message"],
+        properties: {
+          message: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+interface ReceivedRequest {
+  readonly method: string;
+  readonly url: string;
+  readonly headers: http.IncomingHttpHeaders;
+  readonly body: string;
+}
+
+type Responder = (request: ReceivedRequest) => {
+  statusCode: number;
+  body?: object;
+};
+
+describe("Contract Tests Unit Tests", () => {
+  let tmpDir: string;
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  let respond: Responder;
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "contract-tests-test-"));
+    fs.writeFileSync(path.join(tmpDir, "spec.json"), JSON.stringify(spec));
+
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const request = {
+          method: req.method!,
+          url: req.url!,
+          headers: req.headers,
+          body,
+        };
+        received.push(request);
+        const response = respond(request);
+        res.statusCode = response.statusCode;
+        if (response.body) {
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify(response.body));
+        } else {
+          res.end();
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  // The server runs in this process, so the script must be run asynchronously
+  const runContractTests = (
+    ...args: string[]
+  ): Promise<{ code: number | null; stdout: string; results: any[] }> =>
+    new Promise((resolve) => {
+      const outputPath = path.join(tmpDir, "results.json");
+      fs.rmSync(outputPath, { force: true });
+      const child = spawn(
+        path.resolve(__dirname, "../../../../scripts/type-safe-api/run.js"),
+        [
+          "contract-tests",
+          "--specPath",
+          path.join(tmpDir, "spec.json"),
+          "--outputPath",
+          outputPath,
+          ...args,
+        ],
+        { stdio: ["ignore", "pipe", "ignore"] }
+      );
+      let stdout = "";
+      child.stdout.on("data", (data) => (stdout += data));
+      child.on("close", (code) =>
+        resolve({
+          code,
+          stdout,
+          results: JSON.parse(fs.readFileSync(outputPath, "utf-8")),
+        })
+      );
+    });
+
+  const conformingResponder: Responder = ({ method, url }) => {
+    if (method === "DELETE") {
+      return { statusCode: 204 };
+    }
+    return {
+      statusCode: url.startsWith("/pets/") ? 200 : 201,
+      body: { name: "Fido", age: 3 },
+    };
+  };
+
+  it("Sends Valid Requests For Each Operation", async () => {
+    respond = conformingResponder;
+    const { code, results } = await runContractTests(
+      "--baseUrl",
+      baseUrl,
+      "--header",
+      "Authorization: Bearer token"
+    );
+
+    expect(code).toBe(0);
+    expect(results.map((r) => [r.operationId, r.status, r.mismatches])).toEqual(
+      [
+        ["getPet", 200, []],
+        ["createPet", 201, []],
+        ["deletePing", 204, []],
+      ]
+    );
+
+    const getPet = received.find((r) => r.method === "GET")!;
+    const url = new URL(getPet.url, baseUrl);
+    expect(url.pathname).toMatch(
+      /^\/pets\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+    );
+    expect(url.searchParams.getAll("include").length).toBeGreaterThanOrEqual(2);
+    expect(url.searchParams.has("optional")).toBe(false);
+    expect(getPet.headers["x-tenant"]).toBe("tenant-a");
+    expect(getPet.headers.authorization).toBe("Bearer token");
+
+    const createPet = received.find((r) => r.method === "POST")!;
+    expect(createPet.headers["content-type"]).toBe("application/json");
+    expect(typeof JSON.parse(createPet.body).name).toBe("string");
+  });
+
+  it("Reports Responses Which Do Not Conform To The Spec", async () => {
+    respond = ({ method }) => {
+      switch (method) {
+        case "GET":
+          return { statusCode: 200, body: { age: -1 } };
+        case "POST":
+          return { statusCode: 400, body: { error: "bad request" } };
+        default:
+          return { statusCode: 500, body: { message: "internal failure" } };
+      }
+    };
+    const { code, stdout, results } = await runContractTests(
+      "--baseUrl",
+      baseUrl
+    );
+
+    expect(code).toBe(1);
+    expect(results.map((r) => [r.operationId, r.mismatches])).toEqual([
+      [
+        "getPet",
+        [
+          'Invalid 200 response body: object at / has missing required properties (["name"])',
+          "Invalid 200 response body: numeric instance at /age is lower than the required minimum (minimum: 0, found: -1)",
+        ],
+      ],
+      [
+        "createPet",
+        [
+          "Unexpected status code 400 for a valid request (expected a 2XX response)",
+          'Invalid 400 response body: object at / has missing required properties (["message"])',
+        ],
+      ],
+      ["deletePing", ["Unexpected status code 500 (expected one of: 204)"]],
+    ]);
+    expect(stdout).toContain("0 of 3 operation(s) conform to the spec");
+  });
+
+  it("Reports Modelled Error Responses To Valid Requests", async () => {
+    respond = (request) =>
+      request.method === "POST"
+        ? { statusCode: 422, body: { message: "unprocessable" } }
+        : conformingResponder(request);
+    const { code, stdout, results } = await runContractTests(
+      "--baseUrl",
+      baseUrl
+    );
+
+    expect(code).toBe(1);
+    expect(results.map((r) => [r.operationId, r.mismatches])).toEqual([
+      ["getPet", []],
+      [
+        "createPet",
+        [
+          "Unexpected status code 422 for a valid request (expected a 2XX response)",
+        ],
+      ],
+      ["deletePing", []],
+    ]);
+    expect(stdout).toContain("2 of 3 operation(s) conform to the spec");
+  });
+
+  it("Skips Operations", async () => {
+    respond = conformingResponder;
+    const { code, results } = await runContractTests(
+      "--baseUrl",
+      baseUrl,
+      "--skipOperations",
+      "createPet",
+      "deletePing"
+    );
+
+    expect(code).toBe(0);
+    expect(results.map((r) => r.operationId)).toEqual(["getPet"]);
+    expect(received.map((r) => r.method)).toEqual(["GET"]);
+  });
+});
@@ -0,0 +1,78 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { exec } from "projen/lib/util";
+import { withTmpDirSnapshot } from "../../../project/snapshot-utils";
+
+describe("Generate Load Tests Unit Tests", () => {
+  it("Generates Load Tests", () => {
+    expect(
+      withTmpDirSnapshot(os.tmpdir(), (tmpDir) => {
+        const specPath = "../../../resources/specs/security-schemes.yaml";
+        const outputPath = path.join(
+          path.relative(path.resolve(__dirname), tmpDir),
+          "load-test.js"
+        );
+        const command = `../../../../scripts/type-safe-api/run.js generate-load-tests --specPath ${specPath} --outputPath ${outputPath} --examplesPerOperation 2`;
+        exec(command, {
+          cwd: path.resolve(__dirname),
+        });
+      })
+    ).toMatchSnapshot();
+  });
+
+  it("Generates Load Tests With Profiles And Thresholds", () => {
+    expect(
+      withTmpDirSnapshot(os.tmpdir(), (tmpDir) => {
+        fs.writeFileSync(
+          path.join(tmpDir, "load-test-config.json"),
+          JSON.stringify({
+            baseUrl: "https://example.com/prod",
+            defaultProfile: "spike",
+            profiles: {
+              spike: {
+                stages: [{ durationSeconds: 10, requestsPerSecond: 100 }],
+                maxVirtualUsers: 500,
+              },
+            },
+            thresholds: { p95ResponseTimeMs: 300 },
+            operationThresholds: { createPet: { maxErrorRate: 0.05 } },
+            skipOperations: ["getHealth", "createReport"],
+          })
+        );
+        const specPath = "../../../resources/specs/security-schemes.yaml";
+        const outputDir = path.relative(path.resolve(__dirname), tmpDir);
+        const command = `../../../../scripts/type-safe-api/run.js generate-load-tests --specPath ${specPath} --outputPath ${outputDir}/load-test.js --configPath ${outputDir}/load-test-config.json --examplesPerOperation 1`;
+        exec(command, {
+          cwd: path.resolve(__dirname),
+        });
+        return { excludeGlobs: ["load-test-config.json"] };
+      })
+    ).toMatchSnapshot();
+  });
+
+  it("Fails When The Default Profile Is Not Defined", () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "tmp."));
+    try {
+      fs.writeFileSync(
+        path.join(tmpDir, "load-test-config.json"),
+        JSON.stringify({ defaultProfile: "soak" })
+      );
+      const specPath = "../../../resources/specs/single.yaml";
+      const outputDir = path.relative(path.resolve(__dirname), tmpDir);
+      expect(() =>
+        exec(
+          `../../../../scripts/type-safe-api/run.js generate-load-tests --specPath ${specPath} --outputPath ${outputDir}/load-test.js --configPath ${outputDir}/load-test-config.json`,
+          {
+            cwd: path.resolve(__dirname),
+            stdio: "pipe",
+          }
+        )
+      ).toThrow();
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
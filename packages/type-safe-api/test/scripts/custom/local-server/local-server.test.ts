@@ -0,0 +1,214 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { ChildProcess, spawn } from "child_process";
+import * as fs from "fs";
+import os from "os";
+import path from "path";
+
+const PORT = 3917;
+
+const spec = {
+  openapi: "3.0.3",
+  info: { title: "Test API", version: "1.0.0" },
+  paths: {
+    "/hello/{name}": {
+      post: {
+        operationId: "sayHello",
+        "x-handler": { language: "typescript" },
+        parameters: [
+          {
+            in: "path",
+            name: "name",
+            required: true,
+            schema: { type: "string" },
+          },
+          {
+            in: "query",
+            name: "greeting",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/SayHelloRequestContent" },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: "Successful response",
+            content: { "application/json": { schema: { type: "object" } } },
+          },
+        },
+      },
+    },
+    "/mocked": {
+      get: {
+        operationId: "getMocked",
+        responses: {
+          200: {
+            description: "Successful response",
+            content: { "application/json": { schema: { type: "object" } } },
+          },
+        },
+      },
+    },
+    "/unimplemented": {
+      get: {
+        operationId: "getUnimplemented",
+        "x-handler": { language: "python" },
+        responses: {
+          200: {
+            description: "Successful response",
+            content: { "application/json": { schema: { type: "object" } } },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      SayHelloRequestContent: {
+        type: "object",
+        required: ["count"],
+        properties: {
+          count: { type: "integer", minimum: 1 },
+        },
+      },
+    },
+  },
+};
+
+const handler = `exports.handler = async (event) => ({
+  statusCode: 200,
+  headers: { "x-operation": "sayHello" },
+  body: JSON.stringify({
+    name: event.pathParameters.name,
+    greeting: event.queryStringParameters.greeting,
+    body: JSON.parse(event.body),
+  }),
+});
+`;
+
+describe("Local Server Unit Tests", () => {
+  let tmpDir: string;
+  let server: ChildProcess;
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "local-server-test-"));
+    fs.writeFileSync(path.join(tmpDir, "spec.json"), JSON.stringify(spec));
+    fs.mkdirSync(path.join(tmpDir, "handlers", "say-hello"), {
+      recursive: true,
+    });
+    fs.writeFileSync(
+      path.join(tmpDir, "handlers", "say-hello", "index.js"),
+      handler
+    );
+    fs.mkdirSync(path.join(tmpDir, "mocks"));
+    fs.writeFileSync(
+      path.join(tmpDir, "mocks", "get-mocked-200.json"),
+      JSON.stringify({ mocked: true })
+    );
+
+    server = spawn(
+      path.resolve(__dirname, "../../../../scripts/type-safe-api/run.js"),
+      [
+        "local-server",
+        "--specPath",
+        path.join(tmpDir, "spec.json"),
+        "--port",
+        `${PORT}`,
+        "--mocksPath",
+        path.join(tmpDir, "mocks"),
+        "--typescriptHandlersPath",
+        path.join(tmpDir, "handlers"),
+      ],
+      { stdio: ["ignore", "pipe", "inherit"] }
+    );
+
+    // Wait for the server to start listening
+    await new Promise<void>((resolve) => {
+      server.stdout!.on("data", (data) => {
+        if (data.toString().includes("Local server listening")) {
+          resolve();
+        }
+      });
+    });
+  });
+
+  afterAll(() => {
+    server.kill();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const request = (urlPath: string, init?: RequestInit) =>
+    fetch(`http://localhost:${PORT}${urlPath}`, init);
+
+  const sayHello = (urlPath: string, body?: object) =>
+    request(urlPath, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+  it("Invokes Handlers", async () => {
+    const response = await sayHello("/hello/bob?greeting=hi", { count: 2 });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("x-operation")).toBe("sayHello");
+    expect(response.headers.get("access-control-allow-origin")).toBe("*");
+    expect(await response.json()).toEqual({
+      name: "bob",
+      greeting: "hi",
+      body: { count: 2 },
+    });
+  });
+
+  it("Validates Requests", async () => {
+    const missingParameter = await sayHello("/hello/bob", { count: 2 });
+    expect(missingParameter.status).toBe(400);
+    expect(await missingParameter.json()).toEqual({
+      message: "Missing required request parameters: [querystring.greeting]",
+    });
+
+    const missingBody = await sayHello("/hello/bob?greeting=hi");
+    expect(missingBody.status).toBe(400);
+    expect(await missingBody.json()).toEqual({
+      message: "Required request body is missing",
+    });
+
+    const invalidBody = await sayHello("/hello/bob?greeting=hi", {
+      count: 0,
+    });
+    expect(invalidBody.status).toBe(400);
+    expect(await invalidBody.json()).toEqual({
+      message:
+        "[numeric instance at /count is lower than the required minimum (minimum: 1, found: 0)]",
+    });
+  });
+
+  it("Responds To CORS Preflight Requests", async () => {
+    const response = await request("/hello/bob", { method: "OPTIONS" });
+    expect(response.status).toBe(204);
+    expect(response.headers.get("access-control-allow-origin")).toBe("*");
+    expect(response.headers.get("access-control-allow-methods")).toContain(
+      "POST"
+    );
+  });
+
+  it("Returns Mock Responses For Operations Without Handlers", async () => {
+    const mocked = await request("/mocked");
+    expect(mocked.status).toBe(200);
+    expect(await mocked.json()).toEqual({ mocked: true });
+
+    const unimplemented = await request("/unimplemented");
+    expect(unimplemented.status).toBe(501);
+  });
+
+  it("Returns Not Found For Unknown Operations", async () => {
+    const response = await request("/unknown");
+    expect(response.status).toBe(404);
+  });
+});
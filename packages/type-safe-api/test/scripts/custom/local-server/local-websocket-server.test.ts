@@ -0,0 +1,296 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { ChildProcess, spawn } from "child_process";
+import { randomBytes } from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import os from "os";
+import path from "path";
+import { Duplex } from "stream";
+
+const PORT = 3918;
+
+const spec = {
+  openapi: "3.0.3",
+  info: { title: "Test API", version: "1.0.0" },
+  "x-connect-handler": { language: "typescript" },
+  paths: {
+    "/SayHello": {
+      post: {
+        operationId: "SayHello",
+        "x-async": { direction: "client_to_server" },
+        "x-handler": { language: "typescript" },
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/SayHelloRequestContent" },
+            },
+          },
+        },
+        responses: {},
+      },
+    },
+    "/SayGoodbye": {
+      post: {
+        operationId: "SayGoodbye",
+        "x-async": { direction: "client_to_server" },
+        "x-handler": { language: "python" },
+        responses: {},
+      },
+    },
+    "/HelloResponse": {
+      post: {
+        operationId: "HelloResponse",
+        "x-async": { direction: "server_to_client" },
+        responses: {},
+      },
+    },
+  },
+  components: {
+    schemas: {
+      SayHelloRequestContent: {
+        type: "object",
+        required: ["name"],
+        properties: {
+          name: { type: "string" },
+          options: { $ref: "#/components/schemas/HelloOptions" },
+        },
+      },
+      HelloOptions: {
+        type: "object",
+        properties: {
+          loud: { type: "boolean" },
+        },
+      },
+    },
+  },
+};
+
+const connectHandler = `exports.handler = async (event) => ({
+  statusCode: event.queryStringParameters && event.queryStringParameters.deny ? 403 : 200,
+});
+`;
+
+const sayHelloHandler = `exports.handler = async (event) => {
+  const { payload } = JSON.parse(event.body);
+  const connectionId = event.requestContext.connectionId;
+  await fetch(process.env.TYPE_SAFE_API_CALLBACK_URL + "/@connections/" + connectionId, {
+    method: "POST",
+    body: JSON.stringify({ route: "HelloResponse", payload: { message: "Hello " + payload.name } }),
+  });
+  return { statusCode: 200 };
+};
+`;
+
+/**
+ * Minimal websocket client which sends and receives short, unfragmented text frames
+ */
+class TestWebSocketClient {
+  public static async connect(
+    query: string = ""
+  ): Promise<TestWebSocketClient> {
+    return new Promise((resolve, reject) => {
+      const req = http.request({
+        host: "localhost",
+        port: PORT,
+        path: `/${query}`,
+        headers: {
+          Connection: "Upgrade",
+          Upgrade: "websocket",
+          "Sec-WebSocket-Key": randomBytes(16).toString("base64"),
+          "Sec-WebSocket-Version": "13",
+        },
+      });
+      req.on("upgrade", (_res, socket) =>
+        resolve(new TestWebSocketClient(socket))
+      );
+      req.on("response", (res) =>
+        reject(new Error(`Connection failed with status ${res.statusCode}`))
+      );
+      req.on("error", reject);
+      req.end();
+    });
+  }
+
+  private buffer = Buffer.alloc(0);
+  private readonly messages: string[] = [];
+  private readonly waiting: ((message: string) => void)[] = [];
+
+  private constructor(private readonly socket: Duplex) {
+    socket.on("data", (data: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, data]);
+      // Server frames are unmasked, so the second byte is the payload length, extended to 16 bits when 126
+      while (this.buffer.length >= 4) {
+        const extended = this.buffer[1] === 126;
+        const offset = extended ? 4 : 2;
+        const length = extended ? this.buffer.readUInt16BE(2) : this.buffer[1];
+        if (this.buffer.length < offset + length) {
+          return;
+        }
+        const payload = this.buffer
+          .subarray(offset, offset + length)
+          .toString("utf-8");
+        this.buffer = this.buffer.subarray(offset + length);
+        const next = this.waiting.shift();
+        next ? next(payload) : this.messages.push(payload);
+      }
+    });
+  }
+
+  public send(message: object) {
+    const payload = Buffer.from(JSON.stringify(message));
+    this.socket.write(
+      Buffer.concat([Buffer.from([0x81, payload.length]), payload])
+    );
+  }
+
+  public async receive(): Promise<any> {
+    const message =
+      this.messages.shift() ??
+      (await new Promise<string>((resolve) => this.waiting.push(resolve)));
+    return JSON.parse(message);
+  }
+
+  public close() {
+    this.socket.destroy();
+  }
+}
+
+describe("Local WebSocket Server Unit Tests", () => {
+  let tmpDir: string;
+  let server: ChildProcess;
+  let stderr = "";
+  let client: TestWebSocketClient;
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), "local-websocket-server-test-")
+    );
+    fs.writeFileSync(path.join(tmpDir, "spec.json"), JSON.stringify(spec));
+    const handlers = {
+      $connect: connectHandler,
+      "say-hello": sayHelloHandler,
+    };
+    Object.entries(handlers).forEach(([dir, handler]) => {
+      fs.mkdirSync(path.join(tmpDir, "handlers", dir), { recursive: true });
+      fs.writeFileSync(path.join(tmpDir, "handlers", dir, "index.js"), handler);
+    });
+
+    server = spawn(
+      path.resolve(__dirname, "../../../../scripts/type-safe-api/run.js"),
+      [
+        "local-websocket-server",
+        "--specPath",
+        path.join(tmpDir, "spec.json"),
+        "--port",
+        `${PORT}`,
+        "--typescriptHandlersPath",
+        path.join(tmpDir, "handlers"),
+      ],
+      { stdio: ["ignore", "pipe", "pipe"] }
+    );
+    server.stderr!.on("data", (data) => (stderr += data));
+
+    // Wait for the server to start listening
+    await new Promise<void>((resolve) => {
+      server.stdout!.on("data", (data) => {
+        if (data.toString().includes("Local websocket server listening")) {
+          resolve();
+        }
+      });
+    });
+
+    client = await TestWebSocketClient.connect();
+  });
+
+  afterAll(() => {
+    client.close();
+    server.kill();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("Routes Messages To Handlers Which Reply Via The Management Api", async () => {
+    client.send({ route: "SayHello", payload: { name: "bob" } });
+    expect(await client.receive()).toEqual({
+      route: "HelloResponse",
+      payload: { message: "Hello bob" },
+    });
+  });
+
+  it("Validates Message Payloads", async () => {
+    client.send({ route: "SayHello", payload: {} });
+    expect(await client.receive()).toEqual({
+      message:
+        'Invalid request body: [object at /payload has missing required properties (["name"])]',
+      connectionId: expect.any(String),
+      requestId: expect.any(String),
+    });
+  });
+
+  it("Validates Message Payloads Against Referenced Schemas", async () => {
+    client.send({
+      route: "SayHello",
+      payload: { name: "bob", options: { loud: "yes" } },
+    });
+    expect(await client.receive()).toEqual({
+      message:
+        "Invalid request body: [instance at /payload/options/loud has type string but boolean is required]",
+      connectionId: expect.any(String),
+      requestId: expect.any(String),
+    });
+  });
+
+  it("Returns Unknown Route Errors For Unknown Routes", async () => {
+    client.send({ route: "HelloResponse", payload: {} });
+    expect(await client.receive()).toEqual({
+      route: "WebSocketError",
+      payload: {
+        type: "UnknownRoute",
+        message: "No operation exists for route HelloResponse",
+        route: "HelloResponse",
+      },
+    });
+  });
+
+  it("Returns Unknown Route Errors For Messages Without A Route", async () => {
+    client.send({ payload: {} });
+    expect(await client.receive()).toEqual({
+      route: "WebSocketError",
+      payload: {
+        type: "UnknownRoute",
+        message: "Messages must include a route",
+      },
+    });
+  });
+
+  it("Accepts Messages For Operations Without Handlers", async () => {
+    client.send({ route: "SayGoodbye" });
+    client.send({ route: "SayHello", payload: { name: "alice" } });
+    expect(await client.receive()).toEqual({
+      route: "HelloResponse",
+      payload: { message: "Hello alice" },
+    });
+  });
+
+  it("Warns About Handlers Which Are Not Supported", () => {
+    expect(stderr).toContain(
+      "The python handler for SayGoodbye is not supported by the local server, so will not be invoked"
+    );
+  });
+
+  it("Rejects Connections Denied By The Connect Handler", async () => {
+    await expect(TestWebSocketClient.connect("?deny=true")).rejects.toThrow(
+      "403"
+    );
+  });
+
+  it("Returns Gone For Unknown Connections", async () => {
+    const response = await fetch(
+      `http://localhost:${PORT}/local/@connections/unknown`,
+      { method: "POST", body: "{}" }
+    );
+    expect(response.status).toBe(410);
+    expect(response.headers.get("x-amzn-errortype")).toBe("GoneException");
+  });
+});
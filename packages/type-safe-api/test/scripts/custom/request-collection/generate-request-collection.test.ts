@@ -0,0 +1,37 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import os from "os";
+import path from "path";
+import { exec } from "projen/lib/util";
+import { withTmpDirSnapshot } from "../../../project/snapshot-utils";
+
+describe("Generate Request Collection Unit Tests", () => {
+  it.each(["postman", "bruno", "http"])("Generates %s Collection", (format) => {
+    expect(
+      withTmpDirSnapshot(os.tmpdir(), (tmpDir) => {
+        const specPath = "../../../resources/specs/security-schemes.yaml";
+        const outputPath = path.relative(path.resolve(__dirname), tmpDir);
+        const command = `../../../../scripts/type-safe-api/run.js generate-request-collection --specPath ${specPath} --outputPath ${outputPath} --format ${format}`;
+        exec(command, {
+          cwd: path.resolve(__dirname),
+        });
+      })
+    ).toMatchSnapshot();
+  });
+
+  it.each(["postman", "bruno", "http"])(
+    "Generates %s Collection For Iam Authorized Operations",
+    (format) => {
+      expect(
+        withTmpDirSnapshot(os.tmpdir(), (tmpDir) => {
+          const specPath = "../../../resources/specs/iam-authorized.yaml";
+          const outputPath = path.relative(path.resolve(__dirname), tmpDir);
+          const command = `../../../../scripts/type-safe-api/run.js generate-request-collection --specPath ${specPath} --outputPath ${outputPath} --format ${format} --baseUrl https://example.com/prod`;
+          exec(command, {
+            cwd: path.resolve(__dirname),
+          });
+        })
+      ).toMatchSnapshot();
+    }
+  );
+});
@@ -0,0 +1,586 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { execFile, execSync } from "child_process";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import { exec } from "projen/lib/util";
+import * as ts from "typescript";
+import { GeneratedJavaRuntimeProject } from "../../../../src/project/codegen/runtime/generated-java-runtime-project";
+import { GeneratedPythonRuntimeProject } from "../../../../src/project/codegen/runtime/generated-python-runtime-project";
+import { GeneratedTypescriptRuntimeProject } from "../../../../src/project/codegen/runtime/generated-typescript-runtime-project";
+
+// The signing libraries are dependencies of the generated client rather than this package, so we substitute a signer
+// which records the requests it signs
+const mockSignedRequests: any[] = [];
+jest.mock(
+  "@smithy/signature-v4",
+  () => ({
+    SignatureV4: class {
+      constructor(readonly options: any) {}
+      async sign(request: any) {
+        mockSignedRequests.push({ request, options: this.options });
+        return {
+          ...request,
+          headers: {
+            ...request.headers,
+            authorization: "AWS4-HMAC-SHA256 Signature=test",
+            "x-amz-date": "20240101T000000Z",
+          },
+        };
+      }
+    },
+  }),
+  { virtual: true }
+);
+jest.mock(
+  "@smithy/protocol-http",
+  () => ({
+    HttpRequest: class {
+      constructor(options: any) {
+        Object.assign(this, options);
+      }
+    },
+  }),
+  { virtual: true }
+);
+jest.mock("@aws-crypto/sha256-js", () => ({ Sha256: class {} }), {
+  virtual: true,
+});
+jest.mock(
+  "@aws-sdk/credential-provider-node",
+  () => ({
+    defaultProvider: () => async () => ({
+      accessKeyId: "defaultKey",
+      secretAccessKey: "defaultSecret",
+    }),
+  }),
+  { virtual: true }
+);
+
+/**
+ * Transpile the generated typescript such that it can be required directly
+ */
+const transpile = (dir: string) => {
+  fs.readdirSync(dir, { withFileTypes: true }).forEach((entry) => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      transpile(entryPath);
+    } else if (entry.name.endsWith(".ts")) {
+      fs.writeFileSync(
+        entryPath.replace(/\.ts$/, ".js"),
+        ts.transpileModule(fs.readFileSync(entryPath, "utf-8"), {
+          compilerOptions: {
+            module: ts.ModuleKind.CommonJS,
+            target: ts.ScriptTarget.ES2019,
+          },
+        }).outputText
+      );
+    }
+  });
+};
+
+describe("SigV4 Client Unit Tests", () => {
+  let tmpDir: string;
+  let server: http.Server;
+  let basePath: string;
+  let client: any;
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "sigv4-client-test-"));
+    fs.copyFileSync(
+      path.resolve(__dirname, "../../../resources/specs/iam-authorized.yaml"),
+      path.join(tmpDir, "spec.yaml")
+    );
+    const project = new GeneratedTypescriptRuntimeProject({
+      name: "test",
+      defaultReleaseBranch: "main",
+      outdir: tmpDir,
+      specPath: "spec.yaml",
+    });
+    exec(
+      `${path.resolve(
+        __dirname,
+        "../../../../scripts/type-safe-api/run.js generate"
+      )} ${project.buildGenerateCommandArgs()}`,
+      { cwd: tmpDir }
+    );
+    transpile(path.join(tmpDir, "src"));
+
+    client = {
+      ...(await import(path.join(tmpDir, "src", "runtime.js"))),
+      ...(await import(path.join(tmpDir, "src", "apis", "DefaultApi.js"))),
+      ...(await import(path.join(tmpDir, "src", "auth", "sigv4.js"))),
+    };
+
+    // Echo the received request back in the response
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        res.setHeader("Content-Type", "application/json");
+        res.end(
+          JSON.stringify({
+            name: JSON.stringify({
+              method: req.method,
+              url: req.url,
+              authorization: req.headers.authorization,
+              amzDate: req.headers["x-amz-date"],
+              body,
+            }),
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    basePath = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mockSignedRequests.length = 0;
+  });
+
+  const credentials = { accessKeyId: "key", secretAccessKey: "secret" };
+
+  const buildApi = (options?: any) =>
+    new client.DefaultApi(
+      new client.Configuration({
+        basePath,
+        interceptors: [
+          client.buildSigV4Interceptor({
+            region: "ap-southeast-2",
+            credentials,
+            ...options,
+          }),
+        ],
+      })
+    );
+
+  const echo = async (response: Promise<{ name: string }>) =>
+    JSON.parse((await response).name);
+
+  it("Signs Requests For IAM Authorized Operations", async () => {
+    const api = buildApi();
+
+    expect(await echo(api.getPet({ petId: "fido" }))).toEqual({
+      method: "GET",
+      url: "/pets/fido",
+      authorization: "AWS4-HMAC-SHA256 Signature=test",
+      amzDate: "20240101T000000Z",
+      body: "",
+    });
+
+    expect(mockSignedRequests).toHaveLength(1);
+    const { request, options } = mockSignedRequests[0];
+    expect(options.region).toBe("ap-southeast-2");
+    expect(options.service).toBe("execute-api");
+    expect(request).toEqual(
+      expect.objectContaining({
+        method: "GET",
+        protocol: "http:",
+        hostname: "localhost",
+        path: "/pets/fido",
+        query: {},
+        headers: expect.objectContaining({
+          host: basePath.replace("http://", ""),
+        }),
+      })
+    );
+  });
+
+  it("Signs The Query And Body", async () => {
+    const api = buildApi();
+
+    const response = await echo(
+      api.createPet({ tags: ["a", "b c"], pet: { name: "Fido" } })
+    );
+    expect(response.method).toBe("POST");
+    expect(response.url).toBe("/pets?tags=a&tags=b%20c");
+    expect(response.authorization).toBe("AWS4-HMAC-SHA256 Signature=test");
+    expect(JSON.parse(response.body)).toEqual({ name: "Fido" });
+
+    expect(mockSignedRequests).toHaveLength(1);
+    const { request } = mockSignedRequests[0];
+    expect(request.path).toBe("/pets");
+    expect(request.query).toEqual({ tags: ["a", "b c"] });
+    expect(request.headers["content-type"]).toBe("application/json");
+    expect(request.body).toBe(response.body);
+  });
+
+  it("Does Not Sign Requests For Other Operations", async () => {
+    const api = buildApi();
+
+    const response = await echo(api.getPublic());
+    expect(response.url).toBe("/public");
+    expect(response.authorization).toBeUndefined();
+    expect(mockSignedRequests).toHaveLength(0);
+  });
+
+  it("Signs Requests With The Given Options", async () => {
+    const credentialsProvider = async () => credentials;
+    const api = buildApi({
+      region: "us-west-2",
+      credentials: credentialsProvider,
+      service: "lambda",
+    });
+
+    await echo(api.getPet({ petId: "fido" }));
+    const { options } = mockSignedRequests[0];
+    expect(options.region).toBe("us-west-2");
+    expect(options.credentials).toBe(credentialsProvider);
+    expect(options.service).toBe("lambda");
+  });
+
+  it("Signs Requests With The Region And Credentials From The Environment By Default", async () => {
+    const originalRegion = process.env.AWS_REGION;
+    process.env.AWS_REGION = "eu-west-1";
+    try {
+      const api = new client.DefaultApi(
+        new client.Configuration({
+          basePath,
+          interceptors: [client.buildSigV4Interceptor()],
+        })
+      );
+
+      await echo(api.getPet({ petId: "fido" }));
+      const { options } = mockSignedRequests[0];
+      expect(await options.region()).toBe("eu-west-1");
+      expect(await options.credentials()).toEqual({
+        accessKeyId: "defaultKey",
+        secretAccessKey: "defaultSecret",
+      });
+    } finally {
+      if (originalRegion === undefined) {
+        delete process.env.AWS_REGION;
+      } else {
+        process.env.AWS_REGION = originalRegion;
+      }
+    }
+  });
+});
+
+const generate = (
+  project: { buildGenerateCommandArgs: () => string },
+  outdir: string
+) => {
+  fs.copyFileSync(
+    path.resolve(__dirname, "../../../resources/specs/iam-authorized.yaml"),
+    path.join(outdir, "spec.yaml")
+  );
+  exec(
+    `${path.resolve(
+      __dirname,
+      "../../../../scripts/type-safe-api/run.js generate"
+    )} ${project.buildGenerateCommandArgs()}`,
+    { cwd: outdir }
+  );
+};
+
+const isAvailable = (command: string) => {
+  try {
+    execSync(command, { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const hmac = (key: crypto.BinaryLike, value: string) =>
+  crypto.createHmac("sha256", key).update(value).digest();
+
+const sha256 = (value: string) =>
+  crypto.createHash("sha256").update(value).digest("hex");
+
+// RFC 3986 encoding as used in canonical requests
+const uriEncode = (value: string) =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+/**
+ * Verify the AWS Signature Version 4 of a received request by computing the expected signature from the request,
+ * returning the details of the signature
+ * @see https://docs.aws.amazon.com/IAM/latest/UserGuide/create-signed-request.html
+ */
+const verifySignature = (
+  req: http.IncomingMessage,
+  body: string,
+  secretAccessKey: string
+) => {
+  const match =
+    /^AWS4-HMAC-SHA256 Credential=([^/]+)\/([^/]+)\/([^/]+)\/([^/]+)\/aws4_request, ?SignedHeaders=([^,]+), ?Signature=([0-9a-f]+)$/.exec(
+      req.headers.authorization ?? ""
+    );
+  if (!match) {
+    return undefined;
+  }
+  const [, accessKeyId, date, region, service, signedHeaders, signature] =
+    match;
+  const url = new URL(req.url!, "http://localhost");
+  const canonicalQuery = [...url.searchParams.entries()]
+    .map(([key, value]) => `${uriEncode(key)}=${uriEncode(value)}`)
+    .sort()
+    .join("&");
+  const canonicalRequest = [
+    req.method,
+    // Paths are encoded again for services other than S3
+    url.pathname.split("/").map(uriEncode).join("/"),
+    canonicalQuery,
+    ...signedHeaders
+      .split(";")
+      .map(
+        (header) =>
+          `${header}:${String(req.headers[header]).trim().replace(/\s+/g, " ")}`
+      ),
+    "",
+    signedHeaders,
+    req.headers["x-amz-content-sha256"] ?? sha256(body),
+  ].join("\n");
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    req.headers["x-amz-date"],
+    `${date}/${region}/${service}/aws4_request`,
+    sha256(canonicalRequest),
+  ].join("\n");
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${secretAccessKey}`, date), region), service),
+    "aws4_request"
+  );
+  return {
+    accessKeyId,
+    region,
+    service,
+    signedHeaders: signedHeaders.split(";"),
+    valid: hmac(signingKey, stringToSign).toString("hex") === signature,
+  };
+};
+
+/**
+ * Start a server which verifies the signature of each request and echoes the request back in the response
+ */
+const startVerifyingEchoServer = async () => {
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(
+        JSON.stringify({
+          name: JSON.stringify({
+            method: req.method,
+            url: req.url,
+            signature: verifySignature(req, body, "secret"),
+            body,
+          }),
+        })
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  return {
+    server,
+    basePath: `http://localhost:${(server.address() as AddressInfo).port}`,
+  };
+};
+
+/**
+ * Shared behaviour for clients which sign requests with the access key "key" and secret "secret" in ap-southeast-2,
+ * given a function which makes the getPet (for pet "fido"), createPet (for pet "Fido" with tags "a" and "b c") and
+ * getPublic requests and returns the echoed requests
+ */
+const describeSigningBehaviour = (sendRequests: () => () => Promise<any[]>) => {
+  let getPet: any;
+  let createPet: any;
+  let getPublic: any;
+
+  beforeAll(async () => {
+    [getPet, createPet, getPublic] = await sendRequests()();
+  }, 120000);
+
+  it("Signs Requests For IAM Authorized Operations", () => {
+    expect(getPet.method).toBe("GET");
+    expect(getPet.url).toBe("/pets/fido");
+    expect(getPet.signature).toEqual({
+      accessKeyId: "key",
+      region: "ap-southeast-2",
+      service: "execute-api",
+      signedHeaders: expect.arrayContaining(["host", "x-amz-date"]),
+      valid: true,
+    });
+  });
+
+  it("Signs The Query And Body", () => {
+    expect(createPet.method).toBe("POST");
+    expect(
+      new URL(createPet.url, "http://localhost").searchParams.getAll("tags")
+    ).toEqual(["a", "b c"]);
+    expect(JSON.parse(createPet.body)).toEqual({ name: "Fido" });
+    expect(createPet.signature).toEqual(
+      expect.objectContaining({
+        signedHeaders: expect.arrayContaining(["content-type", "host"]),
+        valid: true,
+      })
+    );
+  });
+
+  it("Does Not Sign Requests For Other Operations", () => {
+    expect(getPublic.url).toBe("/public");
+    expect(getPublic.signature).toBeUndefined();
+  });
+};
+
+// Python tests require python 3 and the generated runtime's dependencies (including botocore) to be installed
+const describeIfPython = isAvailable(
+  'python3 -c "import pydantic, dateutil, urllib3, botocore"'
+)
+  ? describe
+  : describe.skip;
+
+const PYTHON_HARNESS = `import json
+import sys
+
+from botocore.credentials import Credentials
+
+from test_project.api.default_api import DefaultApi
+from test_project.api_client import ApiClient
+from test_project.configuration import Configuration
+from test_project.models.pet import Pet
+from test_project.sigv4 import AwsSigV4Signer
+
+configuration = Configuration(host=sys.argv[1])
+configuration.aws_sigv4_signer = AwsSigV4Signer(region="ap-southeast-2", credentials=Credentials("key", "secret"))
+api = DefaultApi(ApiClient(configuration))
+
+responses = [api.get_pet(pet_id="fido"), api.create_pet(pet=Pet(name="Fido"), tags=["a", "b c"]), api.get_public()]
+print(json.dumps([json.loads(response.name) for response in responses]))
+`;
+
+describeIfPython("Python SigV4 Client Unit Tests", () => {
+  let tmpDir: string;
+  let server: http.Server;
+
+  afterAll(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describeSigningBehaviour(() => async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "py-sigv4-client-test-"));
+    generate(
+      new GeneratedPythonRuntimeProject({
+        name: "test_project",
+        moduleName: "test_project",
+        authorEmail: "me@example.com",
+        authorName: "test",
+        version: "1.0.0",
+        outdir: tmpDir,
+        specPath: "spec.yaml",
+      }),
+      tmpDir
+    );
+    fs.writeFileSync(path.join(tmpDir, "harness.py"), PYTHON_HARNESS);
+    let basePath: string;
+    ({ server, basePath } = await startVerifyingEchoServer());
+    // The harness is run asynchronously such that the echo server can respond
+    const { stdout } = await promisify(execFile)(
+      "python3",
+      ["harness.py", basePath],
+      { cwd: tmpDir, encoding: "utf-8" }
+    );
+    return JSON.parse(stdout);
+  });
+});
+
+// Java tests require a JDK and maven to compile the generated runtime, and access to its dependencies
+const describeIfJava = isAvailable("javac -version && mvn -v")
+  ? describe
+  : describe.skip;
+
+const javaHarness = (packageName: string) => `package ${packageName};
+
+import ${packageName}.api.DefaultApi;
+import ${packageName}.model.Pet;
+import software.amazon.awssdk.auth.credentials.AwsBasicCredentials;
+import software.amazon.awssdk.auth.credentials.StaticCredentialsProvider;
+
+import java.util.Arrays;
+import java.util.List;
+import java.util.stream.Collectors;
+
+public class SigV4Harness {
+    public static void main(final String[] args) throws Exception {
+        ApiClient client = new ApiClient();
+        client.setBasePath(args[0]);
+        client.setAWS4Configuration(StaticCredentialsProvider.create(AwsBasicCredentials.create("key", "secret")), "ap-southeast-2");
+        DefaultApi api = new DefaultApi(client);
+
+        List<Pet> responses = Arrays.asList(
+            api.getPet("fido").execute(),
+            api.createPet(new Pet().name("Fido")).tags(Arrays.asList("a", "b c")).execute(),
+            api.getPublic().execute());
+        System.out.println("[" + responses.stream().map(Pet::getName).collect(Collectors.joining(",")) + "]");
+    }
+}
+`;
+
+describeIfJava("Java SigV4 Client Unit Tests", () => {
+  let tmpDir: string;
+  let server: http.Server;
+
+  afterAll(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describeSigningBehaviour(() => async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "java-sigv4-client-test-"));
+    const project = new GeneratedJavaRuntimeProject({
+      name: "sigv4",
+      artifactId: "com.aws.pdk.test.runtime",
+      groupId: "test",
+      version: "1.0.0",
+      outdir: tmpDir,
+      specPath: "spec.yaml",
+    });
+    project.synth();
+    generate(project, tmpDir);
+    const packageName = project.packageName;
+    fs.writeFileSync(
+      path.join(
+        tmpDir,
+        "src",
+        "main",
+        "java",
+        ...packageName.split("."),
+        "SigV4Harness.java"
+      ),
+      javaHarness(packageName)
+    );
+    execSync(
+      "mvn -q compile dependency:build-classpath -Dmdep.outputFile=classpath.txt",
+      { cwd: tmpDir, stdio: "ignore" }
+    );
+    const classpath = `target/classes${path.delimiter}${fs.readFileSync(
+      path.join(tmpDir, "classpath.txt"),
+      "utf-8"
+    )}`;
+    let basePath: string;
+    ({ server, basePath } = await startVerifyingEchoServer());
+    const { stdout } = await promisify(execFile)(
+      "java",
+      ["-cp", classpath, `${packageName}.SigV4Harness`, basePath],
+      { cwd: tmpDir, encoding: "utf-8" }
+    );
+    return JSON.parse(stdout.trim().split("\n").pop()!);
+  });
+});
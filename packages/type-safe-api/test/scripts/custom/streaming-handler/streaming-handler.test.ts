@@ -0,0 +1,200 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import * as fs from "fs";
+import os from "os";
+import path from "path";
+import { exec } from "projen/lib/util";
+import * as ts from "typescript";
+import { GeneratedTypescriptRuntimeProject } from "../../../../src/project/codegen/runtime/generated-typescript-runtime-project";
+
+/**
+ * Transpile the generated typescript such that it can be required directly
+ */
+const transpile = (dir: string) => {
+  fs.readdirSync(dir, { withFileTypes: true }).forEach((entry) => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      transpile(entryPath);
+    } else if (entry.name.endsWith(".ts")) {
+      fs.writeFileSync(
+        entryPath.replace(/\.ts$/, ".js"),
+        ts.transpileModule(fs.readFileSync(entryPath, "utf-8"), {
+          compilerOptions: {
+            module: ts.ModuleKind.CommonJS,
+            target: ts.ScriptTarget.ES2019,
+          },
+        }).outputText
+      );
+    }
+  });
+};
+
+const event = ({
+  body = JSON.stringify({ prompt: "Hello" }),
+}: {
+  body?: string | null;
+} = {}) => ({
+  httpMethod: "POST",
+  path: "/chats/chat-1/completions",
+  resource: "/chats/{chatId}/completions",
+  pathParameters: { chatId: "chat-1" },
+  queryStringParameters: null,
+  multiValueQueryStringParameters: null,
+  headers: { "content-type": "application/json" },
+  multiValueHeaders: { "content-type": ["application/json"] },
+  body,
+});
+
+describe("Typescript Streaming Handler Unit Tests", () => {
+  let tmpDir: string;
+  let runtime: any;
+  let interceptors: any;
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ts-streaming-test-"));
+    fs.copyFileSync(
+      path.resolve(__dirname, "../../../resources/specs/streaming.yaml"),
+      path.join(tmpDir, "spec.yaml")
+    );
+    exec(
+      `${path.resolve(
+        __dirname,
+        "../../../../scripts/type-safe-api/run.js generate"
+      )} ${new GeneratedTypescriptRuntimeProject({
+        name: "test",
+        defaultReleaseBranch: "main",
+        outdir: tmpDir,
+        specPath: "spec.yaml",
+      }).buildGenerateCommandArgs()}`,
+      { cwd: tmpDir }
+    );
+    transpile(path.join(tmpDir, "src"));
+
+    runtime = await import(
+      path.join(tmpDir, "src", "apis", "DefaultApi", "OperationConfig.js")
+    );
+    interceptors = {
+      ...(await import(
+        path.join(tmpDir, "src", "interceptors", "validation.js")
+      )),
+      ...(await import(path.join(tmpDir, "src", "interceptors", "cors.js"))),
+      ...(await import(
+        path.join(tmpDir, "src", "interceptors", "try-catch.js")
+      )),
+    };
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    // Silence the errors logged by the try catch interceptor
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const tokens = async function* ({ input }: any) {
+    for (const [index, token] of input.body.prompt.split("").entries()) {
+      yield { token, index };
+    }
+  };
+
+  // Responses to rest api events are buffered, and written in the lambda proxy integration format
+  const invoke = async (handler: any, e: any) => {
+    let written = "";
+    await handler(
+      e,
+      {
+        write: (chunk: string) => (written += chunk),
+        end: () => {},
+      },
+      {}
+    );
+    return JSON.parse(written);
+  };
+
+  it("Streams Events Without Interceptors", async () => {
+    const response = await invoke(
+      runtime.streamCompletionStreamingHandler(tokens),
+      event({ body: JSON.stringify({ prompt: "Hi" }) })
+    );
+    expect(response.statusCode).toBe(200);
+    expect(response.headers["Content-Type"]).toBe("text/event-stream");
+    expect(response.body).toBe(
+      'data: {"token":"H","index":0}\n\ndata: {"token":"i","index":1}\n\n'
+    );
+  });
+
+  it("Applies Interceptors Before Streaming Events", async () => {
+    const handler = runtime.streamCompletionStreamingHandler(
+      interceptors.corsInterceptor,
+      async (request: any) => {
+        request.interceptorContext.prefix = ">";
+        return request.chain.next(request);
+      },
+      async function* ({ interceptorContext }: any) {
+        yield { token: interceptorContext.prefix, index: 0 };
+      }
+    );
+    const response = await invoke(handler, event());
+    expect(response.statusCode).toBe(200);
+    expect(response.headers["Access-Control-Allow-Origin"]).toBe("*");
+    expect(response.headers["Content-Type"]).toBe("text/event-stream");
+    expect(response.body).toBe('data: {"token":">","index":0}\n\n');
+  });
+
+  it("Returns Error Responses From Interceptors", async () => {
+    const handler = runtime.streamCompletionStreamingHandler(
+      async () => ({ statusCode: 400, body: { message: "Rejected" } }),
+      tokens
+    );
+    const response = await invoke(handler, event());
+    expect(response.statusCode).toBe(400);
+    expect(response.headers["Content-Type"]).toBe("application/json");
+    expect(JSON.parse(response.body)).toEqual({ message: "Rejected" });
+  });
+
+  it("Returns An Internal Error When An Interceptor Throws", async () => {
+    const handler = runtime.streamCompletionStreamingHandler(
+      interceptors.tryCatchInterceptor,
+      async () => {
+        throw new Error("Interceptor failed");
+      },
+      tokens
+    );
+    const response = await invoke(handler, event());
+    expect(response.statusCode).toBe(500);
+    expect(JSON.parse(response.body)).toEqual({ message: "Internal Error" });
+  });
+
+  it("Validates Requests With The Validation Interceptor", async () => {
+    const handler = runtime.streamCompletionStreamingHandler(
+      interceptors.corsInterceptor,
+      interceptors.validationInterceptor,
+      tokens
+    );
+    const response = await invoke(handler, event({ body: JSON.stringify({}) }));
+    expect(response.statusCode).toBe(400);
+    expect(response.headers["Access-Control-Allow-Origin"]).toBe("*");
+    expect(JSON.parse(response.body).message).toContain(
+      'object at / has missing required properties (["prompt"])'
+    );
+  });
+
+  it("Does Not Validate Streamed Events", async () => {
+    const handler = runtime.streamCompletionStreamingHandler(
+      interceptors.validationInterceptor,
+      tokens
+    );
+    const response = await invoke(
+      handler,
+      event({ body: JSON.stringify({ prompt: "A" }) })
+    );
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toBe('data: {"token":"A","index":0}\n\n');
+  });
+});
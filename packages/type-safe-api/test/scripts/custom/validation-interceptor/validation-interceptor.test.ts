@@ -0,0 +1,422 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { execFileSync, execSync } from "child_process";
+import * as fs from "fs";
+import os from "os";
+import path from "path";
+import { exec } from "projen/lib/util";
+import * as ts from "typescript";
+import { GeneratedJavaRuntimeProject } from "../../../../src/project/codegen/runtime/generated-java-runtime-project";
+import { GeneratedPythonRuntimeProject } from "../../../../src/project/codegen/runtime/generated-python-runtime-project";
+import { GeneratedTypescriptRuntimeProject } from "../../../../src/project/codegen/runtime/generated-typescript-runtime-project";
+
+/**
+ * A handler generated for the updatePet operation in validation.yaml, configured with the try catch interceptor and a
+ * validation interceptor. Handlers are one of:
+ * - echo: returns the request body as the response
+ * - invalidResponse: returns a response which does not match the response schema
+ * - noRequestValidation: the same as echo, but with request validation disabled
+ */
+type HandlerName = "echo" | "invalidResponse" | "noRequestValidation";
+type InvokeHandler = (handler: HandlerName, event: any) => Promise<any>;
+
+const generate = (
+  project: { buildGenerateCommandArgs: () => string },
+  outdir: string
+) => {
+  fs.copyFileSync(
+    path.resolve(__dirname, "../../../resources/specs/validation.yaml"),
+    path.join(outdir, "spec.yaml")
+  );
+  exec(
+    `${path.resolve(
+      __dirname,
+      "../../../../scripts/type-safe-api/run.js generate"
+    )} ${project.buildGenerateCommandArgs()}`,
+    { cwd: outdir }
+  );
+};
+
+const isAvailable = (command: string) => {
+  try {
+    execSync(command, { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const event = ({
+  petId = "1",
+  tags,
+  body = JSON.stringify({ name: "Fido", age: 2 }),
+}: {
+  petId?: string;
+  tags?: string[];
+  body?: string | null;
+} = {}) => ({
+  httpMethod: "PUT",
+  path: `/pets/${petId}`,
+  resource: "/pets/{petId}",
+  pathParameters: { petId },
+  queryStringParameters: tags ? { tags: tags[tags.length - 1] } : null,
+  multiValueQueryStringParameters: tags ? { tags } : null,
+  headers: { "content-type": "application/json" },
+  multiValueHeaders: { "content-type": ["application/json"] },
+  body,
+});
+
+/**
+ * Behaviour which all generated runtimes should share
+ */
+const describeValidationBehaviour = (getInvokeHandler: () => InvokeHandler) => {
+  const invoke = async (handler: HandlerName, e: any) => {
+    const response = await getInvokeHandler()(handler, e);
+    return {
+      statusCode: response.statusCode,
+      body: response.body ? JSON.parse(response.body) : response.body,
+    };
+  };
+
+  it("Invokes The Handler For Valid Requests", async () => {
+    expect(await invoke("echo", event({ tags: ["cute"] }))).toEqual({
+      statusCode: 200,
+      body: { name: "Fido", age: 2 },
+    });
+  });
+
+  it("Rejects Invalid Path Parameters", async () => {
+    const response = await invoke("echo", event({ petId: "0" }));
+    expect(response.statusCode).toBe(400);
+    expect(response.body.message).toContain(
+      "numeric instance at path.petId is lower than the required minimum (minimum: 1, found: 0)"
+    );
+  });
+
+  it("Rejects Invalid Query Parameters", async () => {
+    const response = await invoke("echo", event({ tags: ["cute", "fluffy"] }));
+    expect(response.statusCode).toBe(400);
+    expect(response.body.message).toContain(
+      "string at querystring.tags/1 is too long (length: 6, maximum allowed: 5)"
+    );
+  });
+
+  it("Rejects Invalid Request Bodies", async () => {
+    const response = await invoke(
+      "echo",
+      event({ body: JSON.stringify({ age: "two" }) })
+    );
+    expect(response.statusCode).toBe(400);
+    expect(response.body.message).toContain(
+      'object at / has missing required properties (["name"])'
+    );
+    expect(response.body.message).toContain(
+      "instance at /age has type string but integer is required"
+    );
+  });
+
+  it("Rejects Missing Request Bodies", async () => {
+    expect(await invoke("echo", event({ body: null }))).toEqual({
+      statusCode: 400,
+      body: { message: "Required request body is missing" },
+    });
+  });
+
+  it("Returns An Internal Error For Invalid Responses", async () => {
+    expect(await invoke("invalidResponse", event())).toEqual({
+      statusCode: 500,
+      body: { message: "Internal Error" },
+    });
+  });
+
+  it("Does Not Validate Requests When Disabled", async () => {
+    expect(await invoke("noRequestValidation", event({ petId: "0" }))).toEqual({
+      statusCode: 200,
+      body: { name: "Fido", age: 2 },
+    });
+  });
+};
+
+/**
+ * Transpile the generated typescript such that it can be required directly
+ */
+const transpile = (dir: string) => {
+  fs.readdirSync(dir, { withFileTypes: true }).forEach((entry) => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      transpile(entryPath);
+    } else if (entry.name.endsWith(".ts")) {
+      fs.writeFileSync(
+        entryPath.replace(/\.ts$/, ".js"),
+        ts.transpileModule(fs.readFileSync(entryPath, "utf-8"), {
+          compilerOptions: {
+            module: ts.ModuleKind.CommonJS,
+            target: ts.ScriptTarget.ES2019,
+          },
+        }).outputText
+      );
+    }
+  });
+};
+
+describe("Typescript Validation Interceptor Unit Tests", () => {
+  let tmpDir: string;
+  let handlers: { [name in HandlerName]: (event: any, context: any) => any };
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ts-validation-test-"));
+    generate(
+      new GeneratedTypescriptRuntimeProject({
+        name: "test",
+        defaultReleaseBranch: "main",
+        outdir: tmpDir,
+        specPath: "spec.yaml",
+      }),
+      tmpDir
+    );
+    transpile(path.join(tmpDir, "src"));
+
+    const { updatePetHandler } = await import(
+      path.join(tmpDir, "src", "apis", "DefaultApi", "OperationConfig.js")
+    );
+    const { validationInterceptor, buildValidationInterceptor } = await import(
+      path.join(tmpDir, "src", "interceptors", "validation.js")
+    );
+    const { tryCatchInterceptor } = await import(
+      path.join(tmpDir, "src", "interceptors", "try-catch.js")
+    );
+
+    const echo = async ({ input }: any) => ({
+      statusCode: 200,
+      body: input.body,
+    });
+    handlers = {
+      echo: updatePetHandler(tryCatchInterceptor, validationInterceptor, echo),
+      invalidResponse: updatePetHandler(
+        tryCatchInterceptor,
+        validationInterceptor,
+        async () => ({ statusCode: 200, body: { name: "" } })
+      ),
+      noRequestValidation: updatePetHandler(
+        tryCatchInterceptor,
+        buildValidationInterceptor({ validateRequests: false }),
+        echo
+      ),
+    };
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    // Silence the errors logged by the try catch interceptor
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describeValidationBehaviour(
+    () => async (handler, e) => handlers[handler](e, {})
+  );
+});
+
+// Python tests require python 3 and the generated runtime's dependencies to be installed
+const describeIfPython = isAvailable(
+  'python3 -c "import pydantic, dateutil, urllib3"'
+)
+  ? describe
+  : describe.skip;
+
+const PYTHON_HARNESS = `import json
+import sys
+import types
+
+# The powertools interceptors are not used in these tests, so stand in for the powertools library
+class _Powertools:
+    def __init__(self, *args, **kwargs):
+        pass
+
+for name in ["aws_lambda_powertools", "aws_lambda_powertools.logging", "aws_lambda_powertools.logging.logger"]:
+    module = types.ModuleType(name)
+    module.Logger = module.Tracer = module.Metrics = _Powertools
+    module._is_cold_start = False
+    sys.modules[name] = module
+
+from test_project.api.operation_config import update_pet_handler
+from test_project.interceptors import try_catch_interceptor
+from test_project.interceptors.validation import validation_interceptor, build_validation_interceptor
+from test_project.models.pet import Pet
+from test_project.response import Response
+
+@update_pet_handler(interceptors=[try_catch_interceptor, validation_interceptor])
+def echo(input, **kwargs):
+    return Response.success(input.body)
+
+@update_pet_handler(interceptors=[try_catch_interceptor, validation_interceptor])
+def invalidResponse(input, **kwargs):
+    return Response.success(Pet(name=""))
+
+@update_pet_handler(interceptors=[try_catch_interceptor, build_validation_interceptor(validate_requests=False)])
+def noRequestValidation(input, **kwargs):
+    return Response.success(input.body)
+
+print(json.dumps(globals()[sys.argv[1]](json.loads(sys.argv[2]), None)))
+`;
+
+describeIfPython("Python Validation Interceptor Unit Tests", () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "py-validation-test-"));
+    generate(
+      new GeneratedPythonRuntimeProject({
+        name: "test_project",
+        moduleName: "test_project",
+        authorEmail: "me@example.com",
+        authorName: "test",
+        version: "1.0.0",
+        outdir: tmpDir,
+        specPath: "spec.yaml",
+      }),
+      tmpDir
+    );
+    fs.writeFileSync(path.join(tmpDir, "harness.py"), PYTHON_HARNESS);
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describeValidationBehaviour(() => async (handler, e) => {
+    const output = execFileSync(
+      "python3",
+      ["harness.py", handler, JSON.stringify(e)],
+      { cwd: tmpDir, encoding: "utf-8" }
+    ).trim();
+    // The response is the last line, following any errors logged by the try catch interceptor
+    return JSON.parse(output.split("\n").pop()!);
+  });
+});
+
+// Java tests require a JDK and maven to compile the generated runtime, and access to its dependencies
+const describeIfJava = isAvailable("javac -version && mvn -v")
+  ? describe
+  : describe.skip;
+
+const javaHarness = (packageName: string) => `package ${packageName};
+
+import ${packageName}.api.handlers.Interceptor;
+import ${packageName}.api.handlers.update_pet.UpdatePet;
+import ${packageName}.api.handlers.update_pet.UpdatePet200Response;
+import ${packageName}.api.handlers.update_pet.UpdatePetInput;
+import ${packageName}.api.handlers.update_pet.UpdatePetRequestInput;
+import ${packageName}.api.handlers.update_pet.UpdatePetResponse;
+import ${packageName}.api.interceptors.TryCatchInterceptor;
+import ${packageName}.api.interceptors.ValidationInterceptor;
+import ${packageName}.model.Pet;
+import com.amazonaws.services.lambda.runtime.events.APIGatewayProxyRequestEvent;
+import com.amazonaws.services.lambda.runtime.events.APIGatewayProxyResponseEvent;
+
+import java.util.Arrays;
+import java.util.List;
+
+public class ValidationHarness {
+    private static class Echo extends UpdatePet {
+        private final boolean validateRequests;
+
+        Echo(final boolean validateRequests) {
+            this.validateRequests = validateRequests;
+        }
+
+        @Override
+        public List<Interceptor<UpdatePetInput>> getInterceptors() {
+            return Arrays.asList(new TryCatchInterceptor<>(), new ValidationInterceptor<>(this.validateRequests, true));
+        }
+
+        @Override
+        public UpdatePetResponse handle(final UpdatePetRequestInput request) {
+            return UpdatePet200Response.of(request.getInput().getBody());
+        }
+    }
+
+    private static class InvalidResponse extends Echo {
+        InvalidResponse() {
+            super(true);
+        }
+
+        @Override
+        public UpdatePetResponse handle(final UpdatePetRequestInput request) {
+            return UpdatePet200Response.of(new Pet().name(""));
+        }
+    }
+
+    public static void main(final String[] args) {
+        UpdatePet handler = "invalidResponse".equals(args[0]) ? new InvalidResponse() : new Echo(!"noRequestValidation".equals(args[0]));
+        APIGatewayProxyRequestEvent event = JSON.getGson().fromJson(args[1], APIGatewayProxyRequestEvent.class);
+        APIGatewayProxyResponseEvent response = handler.handleRequest(event, null);
+        System.out.println(JSON.getGson().toJson(response));
+    }
+}
+`;
+
+describeIfJava("Java Validation Interceptor Unit Tests", () => {
+  let tmpDir: string;
+  let classpath: string;
+  let packageName: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "java-validation-test-"));
+    const project = new GeneratedJavaRuntimeProject({
+      name: "validation",
+      artifactId: "com.aws.pdk.test.runtime",
+      groupId: "test",
+      version: "1.0.0",
+      outdir: tmpDir,
+      specPath: "spec.yaml",
+    });
+    project.synth();
+    generate(project, tmpDir);
+    packageName = project.packageName;
+    fs.writeFileSync(
+      path.join(
+        tmpDir,
+        "src",
+        "main",
+        "java",
+        ...packageName.split("."),
+        "ValidationHarness.java"
+      ),
+      javaHarness(packageName)
+    );
+    execSync(
+      "mvn -q compile dependency:build-classpath -Dmdep.outputFile=classpath.txt",
+      { cwd: tmpDir, stdio: "ignore" }
+    );
+    classpath = `target/classes${path.delimiter}${fs.readFileSync(
+      path.join(tmpDir, "classpath.txt"),
+      "utf-8"
+    )}`;
+  }, 600000);
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describeValidationBehaviour(() => async (handler, e) => {
+    const output = execFileSync(
+      "java",
+      [
+        "-cp",
+        classpath,
+        `${packageName}.ValidationHarness`,
+        handler,
+        JSON.stringify(e),
+      ],
+      { cwd: tmpDir, encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] }
+    ).trim();
+    return JSON.parse(output.split("\n").pop()!);
+  });
+});
@@ -0,0 +1,367 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import { execFile, execSync } from "child_process";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import { exec } from "projen/lib/util";
+import {
+  WebSocketConnection,
+  getWebSocketAccept,
+} from "../../../../scripts/type-safe-api/custom/local-server/websocket-connection";
+import { JavaWebsocketClientLibrary } from "../../../../src/project/codegen/library/java-websocket-client-library";
+import { PythonWebsocketClientLibrary } from "../../../../src/project/codegen/library/python-websocket-client-library";
+
+const generate = (
+  project: { buildGenerateCommandArgs: () => string },
+  outdir: string
+) => {
+  fs.copyFileSync(
+    path.resolve(__dirname, "../../../resources/specs/async/single.yaml"),
+    path.join(outdir, "spec.yaml")
+  );
+  exec(
+    `${path.resolve(
+      __dirname,
+      "../../../../scripts/type-safe-api/run.js generate"
+    )} ${project.buildGenerateCommandArgs()}`,
+    { cwd: outdir }
+  );
+};
+
+const isAvailable = (command: string) => {
+  try {
+    execSync(command, { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const hmac = (key: crypto.BinaryLike, value: string) =>
+  crypto.createHmac("sha256", key).update(value).digest();
+
+const sha256 = (value: string) =>
+  crypto.createHash("sha256").update(value).digest("hex");
+
+// RFC 3986 encoding as used in canonical requests
+const uriEncode = (value: string) =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+/**
+ * Verify the AWS Signature Version 4 in the query string of a connection request, returning the details of the
+ * signature
+ * @see https://docs.aws.amazon.com/IAM/latest/UserGuide/create-signed-request.html
+ */
+const verifyQuerySignature = (
+  req: http.IncomingMessage,
+  secretAccessKey: string
+) => {
+  const url = new URL(req.url!, "http://localhost");
+  const signature = url.searchParams.get("X-Amz-Signature");
+  if (!signature) {
+    return undefined;
+  }
+  const [accessKeyId, date, region, service] = url.searchParams
+    .get("X-Amz-Credential")!
+    .split("/");
+  const signedHeaders = url.searchParams.get("X-Amz-SignedHeaders")!;
+  const canonicalQuery = [...url.searchParams.entries()]
+    .filter(([key]) => key !== "X-Amz-Signature")
+    .map(([key, value]) => `${uriEncode(key)}=${uriEncode(value)}`)
+    .sort()
+    .join("&");
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${secretAccessKey}`, date), region), service),
+    "aws4_request"
+  );
+  // Signers may sign presigned urls with either an unsigned or an empty payload
+  const valid = [sha256(""), "UNSIGNED-PAYLOAD"].some((payloadHash) => {
+    const canonicalRequest = [
+      req.method,
+      url.pathname.split("/").map(uriEncode).join("/"),
+      canonicalQuery,
+      ...signedHeaders
+        .split(";")
+        .map((header) => `${header}:${String(req.headers[header]).trim()}`),
+      "",
+      signedHeaders,
+      payloadHash,
+    ].join("\n");
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      url.searchParams.get("X-Amz-Date"),
+      `${date}/${region}/${service}/aws4_request`,
+      sha256(canonicalRequest),
+    ].join("\n");
+    return hmac(signingKey, stringToSign).toString("hex") === signature;
+  });
+  return {
+    accessKeyId,
+    region,
+    service,
+    signedHeaders: signedHeaders.split(";"),
+    valid,
+  };
+};
+
+/**
+ * Start a websocket server which records each connection request and message it receives, and replies to each
+ * ClientToServer message with a ServerToClient message with the same payload
+ */
+const startEchoWebSocketServer = async () => {
+  const connections: any[] = [];
+  const messages: any[] = [];
+  const server = http.createServer((_req, res) => {
+    res.statusCode = 426;
+    res.end();
+  });
+  server.on("upgrade", (req: http.IncomingMessage, socket) => {
+    const accept = getWebSocketAccept(req);
+    if (!accept) {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+    connections.push({
+      path: new URL(req.url!, "http://localhost").pathname,
+      signature: verifyQuerySignature(req, "secret"),
+    });
+    socket.write(
+      [
+        "HTTP/1.1 101 Switching Protocols",
+        "Upgrade: websocket",
+        "Connection: Upgrade",
+        `Sec-WebSocket-Accept: ${accept}`,
+        "",
+        "",
+      ].join("\r\n")
+    );
+    const connection = new WebSocketConnection(socket);
+    connection.onMessage = (message) => {
+      const data = JSON.parse(message);
+      messages.push(data);
+      if (data.route === "ClientToServer") {
+        connection.send(
+          JSON.stringify({ route: "ServerToClient", payload: data.payload })
+        );
+      }
+    };
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  return {
+    server,
+    connections,
+    messages,
+    url: `ws://localhost:${(server.address() as AddressInfo).port}/prod`,
+  };
+};
+
+/**
+ * Shared behaviour for clients which connect with the access key "key" and secret "secret" in ap-southeast-2, send a
+ * ClientToServer message with myInput 1, and wait for the ServerToClient reply. Given a function which runs the client
+ * against the given url and returns the payloads of the messages it received.
+ */
+const describeWebSocketClientBehaviour = (
+  runClient: () => (url: string) => Promise<any[]>
+) => {
+  let server: http.Server;
+  let connections: any[];
+  let sent: any[];
+  let received: any[];
+
+  beforeAll(async () => {
+    let url: string;
+    ({
+      server,
+      connections,
+      messages: sent,
+      url,
+    } = await startEchoWebSocketServer());
+    received = await runClient()(url);
+  }, 300000);
+
+  afterAll(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+  });
+
+  it("Connects With A Signed Url", () => {
+    expect(connections).toEqual([
+      {
+        path: "/prod",
+        signature: {
+          accessKeyId: "key",
+          region: "ap-southeast-2",
+          service: "execute-api",
+          signedHeaders: ["host"],
+          valid: true,
+        },
+      },
+    ]);
+  });
+
+  it("Sends Messages", () => {
+    expect(sent).toEqual([
+      { route: "ClientToServer", payload: { myInput: 1 } },
+    ]);
+  });
+
+  it("Receives Messages", () => {
+    expect(received).toEqual([{ myInput: 1 }]);
+  });
+};
+
+// Python tests require python 3 and the generated client's dependencies (including botocore) to be installed
+const describeIfPython = isAvailable(
+  'python3 -c "import pydantic, websockets, botocore"'
+)
+  ? describe
+  : describe.skip;
+
+const PYTHON_HARNESS = `import asyncio
+import json
+import sys
+
+from botocore.credentials import Credentials
+
+from test_project.client import DefaultApiWebSocketClient, DefaultApiWebSocketClientOptions, IamAuthenticationStrategy
+from test_project.models.test_request import TestRequest
+
+
+async def main():
+    received = asyncio.get_running_loop().create_future()
+    options = DefaultApiWebSocketClientOptions(
+        url=sys.argv[1],
+        authentication=IamAuthenticationStrategy(region="ap-southeast-2", credentials=Credentials("key", "secret")),
+    )
+    async with await DefaultApiWebSocketClient.connect(options) as client:
+        client.on_server_to_client(lambda message: received.set_result(message))
+        await client.client_to_server(TestRequest(my_input=1))
+        message = await asyncio.wait_for(received, 30)
+    print(json.dumps([message.to_dict()]))
+
+
+asyncio.run(main())
+`;
+
+describeIfPython("Python WebSocket Client Unit Tests", () => {
+  let tmpDir: string;
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describeWebSocketClientBehaviour(() => async (url) => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "py-websocket-client-"));
+    generate(
+      new PythonWebsocketClientLibrary({
+        name: "test_project",
+        moduleName: "test_project",
+        authorEmail: "me@example.com",
+        authorName: "test",
+        version: "1.0.0",
+        outdir: tmpDir,
+        specPath: "spec.yaml",
+      }),
+      tmpDir
+    );
+    fs.writeFileSync(path.join(tmpDir, "harness.py"), PYTHON_HARNESS);
+    // The harness is run asynchronously such that the websocket server can respond
+    const { stdout } = await promisify(execFile)(
+      "python3",
+      ["harness.py", url],
+      { cwd: tmpDir, encoding: "utf-8" }
+    );
+    return JSON.parse(stdout);
+  });
+});
+
+// Java tests require a JDK and maven to compile the generated client, and access to its dependencies
+const describeIfJava = isAvailable("javac -version && mvn -v")
+  ? describe
+  : describe.skip;
+
+const javaHarness = (packageName: string) => `package ${packageName};
+
+import ${packageName}.model.TestRequest;
+import ${packageName}.websocket.AuthenticationStrategy;
+import ${packageName}.websocket.DefaultApiWebSocketClient;
+import ${packageName}.websocket.DefaultApiWebSocketClientOptions;
+import software.amazon.awssdk.auth.credentials.AwsBasicCredentials;
+import software.amazon.awssdk.auth.credentials.StaticCredentialsProvider;
+
+import java.math.BigDecimal;
+import java.util.concurrent.CompletableFuture;
+import java.util.concurrent.TimeUnit;
+
+public class WebSocketHarness {
+    public static void main(final String[] args) throws Exception {
+        CompletableFuture<TestRequest> received = new CompletableFuture<>();
+        DefaultApiWebSocketClientOptions options = DefaultApiWebSocketClientOptions.builder()
+            .url(args[0])
+            .authentication(AuthenticationStrategy.iam(StaticCredentialsProvider.create(AwsBasicCredentials.create("key", "secret")), "ap-southeast-2"))
+            .build();
+        try (DefaultApiWebSocketClient client = DefaultApiWebSocketClient.connect(options).get(30, TimeUnit.SECONDS)) {
+            client.onServerToClient(received::complete);
+            client.clientToServer(new TestRequest().myInput(BigDecimal.ONE)).get(30, TimeUnit.SECONDS);
+            System.out.println("[" + received.get(30, TimeUnit.SECONDS).toJson() + "]");
+        }
+        // Exit explicitly since the websocket client's threads may outlive the connection
+        System.exit(0);
+    }
+}
+`;
+
+describeIfJava("Java WebSocket Client Unit Tests", () => {
+  let tmpDir: string;
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describeWebSocketClientBehaviour(() => async (url) => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "java-websocket-client-"));
+    const project = new JavaWebsocketClientLibrary({
+      name: "test",
+      artifactId: "com.aws.pdk.test",
+      groupId: "test",
+      version: "1.0.0",
+      outdir: tmpDir,
+      specPath: "spec.yaml",
+    });
+    project.synth();
+    generate(project, tmpDir);
+    const packageName = project.packageName;
+    fs.writeFileSync(
+      path.join(
+        tmpDir,
+        "src",
+        "main",
+        "java",
+        ...packageName.split("."),
+        "WebSocketHarness.java"
+      ),
+      javaHarness(packageName)
+    );
+    execSync(
+      "mvn -q compile dependency:build-classpath -Dmdep.outputFile=classpath.txt",
+      { cwd: tmpDir, stdio: "ignore" }
+    );
+    const classpath = `target/classes${path.delimiter}${fs.readFileSync(
+      path.join(tmpDir, "classpath.txt"),
+      "utf-8"
+    )}`;
+    const { stdout } = await promisify(execFile)(
+      "java",
+      ["-cp", classpath, `${packageName}.WebSocketHarness`, url],
+      { cwd: tmpDir, encoding: "utf-8" }
+    );
+    return JSON.parse(stdout.trim().split("\n").pop()!);
+  });
+});
@@ -0,0 +1,66 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import os from "os";
+import * as path from "path";
+import { exec } from "projen/lib/util";
+import { GeneratedGoHandlersProject } from "../../../src/project/codegen/handlers/generated-go-handlers-project";
+import { GeneratedGoRuntimeProject } from "../../../src/project/codegen/runtime/generated-go-runtime-project";
+import { withTmpDirSnapshot } from "../../project/snapshot-utils";
+
+describe("Go Handlers Code Generation Script Unit Tests", () => {
+  it.each(["handlers.yaml"])("Generates With %s", (spec) => {
+    const specPath = path.resolve(__dirname, `../../resources/specs/${spec}`);
+
+    const snapshot = withTmpDirSnapshot(os.tmpdir(), (outdir) => {
+      exec(`cp ${specPath} ${outdir}/spec.yaml`, {
+        cwd: path.resolve(__dirname),
+      });
+      const clientOutdir = path.join(outdir, "client");
+      const client = new GeneratedGoRuntimeProject({
+        name: "test-client",
+        moduleName: "example.com/test-client",
+        outdir: clientOutdir,
+        specPath: "../spec.yaml",
+      });
+      const handlersOutdir = path.join(outdir, "handlers");
+      const project = new GeneratedGoHandlersProject({
+        name: "test-handlers",
+        moduleName: "example.com/test-handlers",
+        outdir: handlersOutdir,
+        specPath: "../spec.yaml",
+        generatedGoTypes: client,
+      });
+      project.synth();
+      exec(
+        `${path.resolve(
+          __dirname,
+          "../../../scripts/type-safe-api/run.js generate"
+        )} ${project.buildGenerateCommandArgs()}`,
+        {
+          cwd: handlersOutdir,
+        }
+      );
+    });
+
+    expect(snapshot["handlers/go.mod"]).toMatchSnapshot();
+    expect(snapshot["handlers/handlers/go_one.go"]).toMatchSnapshot();
+    expect(snapshot["handlers/handlers/go_two.go"]).toMatchSnapshot();
+    expect(snapshot["handlers/handlers/go_one_test.go"]).toMatchSnapshot();
+    expect(snapshot["handlers/handlers/go_two_test.go"]).toMatchSnapshot();
+    expect(snapshot["handlers/cmd/go-one/main.go"]).toMatchSnapshot();
+    expect(snapshot["handlers/cmd/go-two/main.go"]).toMatchSnapshot();
+
+    // Other language handlers should be skipped
+    expect(
+      Object.keys(snapshot).filter((p) =>
+        p.toLowerCase().includes("typescript")
+      )
+    ).toHaveLength(0);
+    expect(
+      Object.keys(snapshot).filter((p) => p.toLowerCase().includes("java"))
+    ).toHaveLength(0);
+    expect(
+      Object.keys(snapshot).filter((p) => p.toLowerCase().includes("python"))
+    ).toHaveLength(0);
+  });
+});
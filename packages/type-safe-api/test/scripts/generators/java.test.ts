@@ -17,6 +17,8 @@ describe("Java Client Code Generation Script Unit Tests", () => {
     "allof-model.yaml",
     "composite-models.yaml",
     "recursive.yaml",
+    "single-pagination.yaml",
+    "iam-authorized.yaml",
   ])("Generates With %s", (spec) => {
     const specPath = path.resolve(__dirname, `../../resources/specs/${spec}`);
 
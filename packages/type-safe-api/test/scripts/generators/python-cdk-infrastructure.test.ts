@@ -6,6 +6,7 @@ import { exec } from "projen/lib/util";
 import { getTestHandlerProjects } from "./utils";
 import { GeneratedPythonCdkInfrastructureProject } from "../../../src/project/codegen/infrastructure/cdk/generated-python-cdk-infrastructure-project";
 import { GeneratedPythonRuntimeProject } from "../../../src/project/codegen/runtime/generated-python-runtime-project";
+import { ApiType } from "../../../src/project/types";
 import { withTmpDirSnapshot } from "../../project/snapshot-utils";
 
 describe("Python Infrastructure Code Generation Script Unit Tests", () => {
@@ -105,6 +106,55 @@ describe("Python Infrastructure Code Generation Script Unit Tests", () => {
     expect(snapshot["infra/test_infra/mock_integrations.py"]).toMatchSnapshot();
   });
 
+  it("Generates For HTTP APIs", () => {
+    const specPath = path.resolve(
+      __dirname,
+      `../../resources/specs/single.yaml`
+    );
+
+    const snapshot = withTmpDirSnapshot(os.tmpdir(), (outdir) => {
+      exec(`cp ${specPath} ${outdir}/spec.yaml`, {
+        cwd: path.resolve(__dirname),
+      });
+      const clientOutdir = path.join(outdir, "client");
+      const client = new GeneratedPythonRuntimeProject({
+        name: "test-client",
+        moduleName: "test_client",
+        authorEmail: "me@example.com",
+        authorName: "test",
+        version: "1.0.0",
+        outdir: clientOutdir,
+        specPath: "../spec.yaml",
+      });
+      const infraOutdir = path.join(outdir, "infra");
+      const project = new GeneratedPythonCdkInfrastructureProject({
+        name: "test-infra",
+        moduleName: "test_infra",
+        authorEmail: "me@example.com",
+        authorName: "test",
+        version: "1.0.0",
+        outdir: infraOutdir,
+        specPath: "../spec.yaml",
+        generatedPythonTypes: client,
+        apiType: ApiType.HTTP,
+        generatedHandlers: {},
+      });
+      project.synth();
+      exec(
+        `${path.resolve(
+          __dirname,
+          "../../../scripts/type-safe-api/run.js generate"
+        )} ${project.buildGenerateCommandArgs()}`,
+        {
+          cwd: infraOutdir,
+        }
+      );
+    });
+
+    expect(snapshot["infra/test_infra/api.py"]).toMatchSnapshot();
+    expect(snapshot["infra/test_infra/mock_integrations.py"]).toMatchSnapshot();
+  });
+
   it.each(["handlers.yaml", "inline-body.yaml"])(
     "Generates Functions for %s",
     (specFile) => {
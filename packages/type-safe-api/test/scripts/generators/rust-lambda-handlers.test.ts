@@ -0,0 +1,63 @@
+/*! Copyright [Amazon.com](http://amazon.com/), Inc. or its affiliates. All Rights Reserved.
+SPDX-License-Identifier: Apache-2.0 */
+import os from "os";
+import * as path from "path";
+import { exec } from "projen/lib/util";
+import { GeneratedRustHandlersProject } from "../../../src/project/codegen/handlers/generated-rust-handlers-project";
+import { GeneratedRustRuntimeProject } from "../../../src/project/codegen/runtime/generated-rust-runtime-project";
+import { withTmpDirSnapshot } from "../../project/snapshot-utils";
+
+describe("Rust Handlers Code Generation Script Unit Tests", () => {
+  it.each(["handlers.yaml"])("Generates With %s", (spec) => {
+    const specPath = path.resolve(__dirname, `../../resources/specs/${spec}`);
+
+    const snapshot = withTmpDirSnapshot(os.tmpdir(), (outdir) => {
+      exec(`cp ${specPath} ${outdir}/spec.yaml`, {
+        cwd: path.resolve(__dirname),
+      });
+      const clientOutdir = path.join(outdir, "client");
+      const client = new GeneratedRustRuntimeProject({
+        name: "test-client",
+        outdir: clientOutdir,
+        specPath: "../spec.yaml",
+      });
+      const handlersOutdir = path.join(outdir, "handlers");
+      const project = new GeneratedRustHandlersProject({
+        name: "test-handlers",
+        outdir: handlersOutdir,
+        specPath: "../spec.yaml",
+        generatedRustTypes: client,
+      });
+      project.synth();
+      exec(
+        `${path.resolve(
+          __dirname,
+          "../../../scripts/type-safe-api/run.js generate"
+        )} ${project.buildGenerateCommandArgs()}`,
+        {
+          cwd: handlersOutdir,
+        }
+      );
+    });
+
+    expect(snapshot["handlers/Cargo.toml"]).toMatchSnapshot();
+    expect(snapshot["handlers/src/bin/rust-one.rs"]).toMatchSnapshot();
+    expect(snapshot["handlers/src/bin/rust-two.rs"]).toMatchSnapshot();
+
+    // Other language handlers should be skipped
+    expect(
+      Object.keys(snapshot).filter((p) =>
+        p.toLowerCase().includes("typescript")
+      )
+    ).toHaveLength(0);
+    expect(
+      Object.keys(snapshot).filter((p) => p.toLowerCase().includes("java"))
+    ).toHaveLength(0);
+    expect(
+      Object.keys(snapshot).filter((p) => p.toLowerCase().includes("python"))
+    ).toHaveLength(0);
+    expect(
+      Object.keys(snapshot).filter((p) => p.toLowerCase().endsWith(".go"))
+    ).toHaveLength(0);
+  });
+});
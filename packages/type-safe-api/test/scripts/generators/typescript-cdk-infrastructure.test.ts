@@ -6,6 +6,7 @@ import { exec } from "projen/lib/util";
 import { getTestHandlerProjects } from "./utils";
 import { GeneratedTypescriptCdkInfrastructureProject } from "../../../src/project/codegen/infrastructure/cdk/generated-typescript-cdk-infrastructure-project";
 import { GeneratedTypescriptRuntimeProject } from "../../../src/project/codegen/runtime/generated-typescript-runtime-project";
+import { ApiType } from "../../../src/project/types";
 import { withTmpDirSnapshot } from "../../project/snapshot-utils";
 
 describe("Typescript Infrastructure Code Generation Script Unit Tests", () => {
@@ -93,6 +94,49 @@ describe("Typescript Infrastructure Code Generation Script Unit Tests", () => {
     expect(snapshot["infra/src/mock-integrations.ts"]).toMatchSnapshot();
   });
 
+  it("Generates For HTTP APIs", () => {
+    const specPath = path.resolve(
+      __dirname,
+      `../../resources/specs/single.yaml`
+    );
+
+    const snapshot = withTmpDirSnapshot(os.tmpdir(), (outdir) => {
+      exec(`cp ${specPath} ${outdir}/spec.yaml`, {
+        cwd: path.resolve(__dirname),
+      });
+      const clientOutdir = path.join(outdir, "client");
+      const client = new GeneratedTypescriptRuntimeProject({
+        name: "test-client",
+        defaultReleaseBranch: "main",
+        outdir: clientOutdir,
+        specPath: "../spec.yaml",
+      });
+      const infraOutdir = path.join(outdir, "infra");
+      const project = new GeneratedTypescriptCdkInfrastructureProject({
+        name: "test-infra",
+        defaultReleaseBranch: "main",
+        outdir: infraOutdir,
+        specPath: "../spec.yaml",
+        generatedTypescriptTypes: client,
+        apiType: ApiType.HTTP,
+        generatedHandlers: {},
+      });
+      exec(`mkdir -p ${infraOutdir}`, { cwd: outdir });
+      exec(
+        `${path.resolve(
+          __dirname,
+          "../../../scripts/type-safe-api/run.js generate"
+        )} ${project.buildGenerateCommandArgs()}`,
+        {
+          cwd: infraOutdir,
+        }
+      );
+    });
+
+    expect(snapshot["infra/src/api.ts"]).toMatchSnapshot();
+    expect(snapshot["infra/src/mock-integrations.ts"]).toMatchSnapshot();
+  });
+
   it.each(["handlers.yaml", "inline-body.yaml"])(
     "Generates Functions for %s",
     (specFile) => {
@@ -62,4 +62,47 @@ describe("Typescript Handlers Code Generation Script Unit Tests", () => {
       )
     ).toHaveLength(0);
   });
+
+  it("Generates Streaming Handlers", () => {
+    const specPath = path.resolve(
+      __dirname,
+      `../../resources/specs/streaming.yaml`
+    );
+
+    const snapshot = withTmpDirSnapshot(os.tmpdir(), (outdir) => {
+      exec(`cp ${specPath} ${outdir}/spec.yaml`, {
+        cwd: path.resolve(__dirname),
+      });
+      const clientOutdir = path.join(outdir, "client");
+      const client = new GeneratedTypescriptRuntimeProject({
+        name: "test-client",
+        defaultReleaseBranch: "main",
+        outdir: clientOutdir,
+        specPath: "../spec.yaml",
+      });
+      const handlersOutdir = path.join(outdir, "handlers");
+      const project = new GeneratedTypescriptHandlersProject({
+        name: "test-handlers",
+        defaultReleaseBranch: "main",
+        outdir: handlersOutdir,
+        specPath: "../spec.yaml",
+        generatedTypescriptTypes: client,
+      });
+      project.synth();
+      exec(
+        `${path.resolve(
+          __dirname,
+          "../../../scripts/type-safe-api/run.js generate"
+        )} ${project.buildGenerateCommandArgs()}`,
+        {
+          cwd: handlersOutdir,
+        }
+      );
+    });
+
+    expect(snapshot["handlers/src/stream-completion.ts"]).toMatchSnapshot();
+    expect(
+      snapshot["handlers/test/stream-completion.test.ts"]
+    ).toMatchSnapshot();
+  });
 });
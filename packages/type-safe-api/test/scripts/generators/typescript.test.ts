@@ -17,6 +17,9 @@ describe("Typescript Client Code Generation Script Unit Tests", () => {
     "allof-model.yaml",
     "composite-models.yaml",
     "recursive.yaml",
+    "single-pagination.yaml",
+    "iam-authorized.yaml",
+    "streaming.yaml",
   ])("Generates With %s", (spec) => {
     const specPath = path.resolve(__dirname, `../../resources/specs/${spec}`);
 
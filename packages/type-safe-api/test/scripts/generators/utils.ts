@@ -2,11 +2,15 @@
 SPDX-License-Identifier: Apache-2.0 */
 import * as path from "path";
 import { GeneratedHandlersProjects } from "../../../src/project/codegen/generate";
+import { GeneratedGoHandlersProject } from "../../../src/project/codegen/handlers/generated-go-handlers-project";
 import { GeneratedJavaHandlersProject } from "../../../src/project/codegen/handlers/generated-java-handlers-project";
 import { GeneratedPythonHandlersProject } from "../../../src/project/codegen/handlers/generated-python-handlers-project";
+import { GeneratedRustHandlersProject } from "../../../src/project/codegen/handlers/generated-rust-handlers-project";
 import { GeneratedTypescriptHandlersProject } from "../../../src/project/codegen/handlers/generated-typescript-handlers-project";
+import { GeneratedGoRuntimeProject } from "../../../src/project/codegen/runtime/generated-go-runtime-project";
 import { GeneratedJavaRuntimeProject } from "../../../src/project/codegen/runtime/generated-java-runtime-project";
 import { GeneratedPythonRuntimeProject } from "../../../src/project/codegen/runtime/generated-python-runtime-project";
+import { GeneratedRustRuntimeProject } from "../../../src/project/codegen/runtime/generated-rust-runtime-project";
 import { GeneratedTypescriptRuntimeProject } from "../../../src/project/codegen/runtime/generated-typescript-runtime-project";
 
 export const getTestTypeScriptRuntimeProject = (baseOutdir: string) => {
@@ -41,6 +45,23 @@ export const getTestJavaRuntimeProject = (baseOutdir: string) => {
   });
 };
 
+export const getTestGoRuntimeProject = (baseOutdir: string) => {
+  return new GeneratedGoRuntimeProject({
+    name: "test-go-runtime",
+    moduleName: "example.com/test/runtime",
+    outdir: path.join(baseOutdir, "go-runtime"),
+    specPath: "../spec.yaml",
+  });
+};
+
+export const getTestRustRuntimeProject = (baseOutdir: string) => {
+  return new GeneratedRustRuntimeProject({
+    name: "test-rust-runtime",
+    outdir: path.join(baseOutdir, "rust-runtime"),
+    specPath: "../spec.yaml",
+  });
+};
+
 export const getTestHandlerProjects = (
   baseOutdir: string
 ): {
@@ -48,6 +69,8 @@ export const getTestHandlerProjects = (
     java: GeneratedJavaRuntimeProject;
     python: GeneratedPythonRuntimeProject;
     typescript: GeneratedTypescriptRuntimeProject;
+    go: GeneratedGoRuntimeProject;
+    rust: GeneratedRustRuntimeProject;
   };
   handlers: GeneratedHandlersProjects;
 } => {
@@ -55,6 +78,8 @@ export const getTestHandlerProjects = (
     typescript: getTestTypeScriptRuntimeProject(baseOutdir),
     java: getTestJavaRuntimeProject(baseOutdir),
     python: getTestPythonRuntimeProject(baseOutdir),
+    go: getTestGoRuntimeProject(baseOutdir),
+    rust: getTestRustRuntimeProject(baseOutdir),
   };
 
   const java = new GeneratedJavaHandlersProject({
@@ -86,11 +111,28 @@ export const getTestHandlerProjects = (
     generatedTypescriptTypes: runtimes.typescript,
   });
 
+  const go = new GeneratedGoHandlersProject({
+    name: "test-go-handlers",
+    moduleName: "example.com/test/handlers",
+    outdir: path.join(baseOutdir, "go-handlers"),
+    specPath: "../spec.yaml",
+    generatedGoTypes: runtimes.go,
+  });
+
+  const rust = new GeneratedRustHandlersProject({
+    name: "test-rust-handlers",
+    outdir: path.join(baseOutdir, "rust-handlers"),
+    specPath: "../spec.yaml",
+    generatedRustTypes: runtimes.rust,
+  });
+
   return {
     handlers: {
       java,
       python,
       typescript,
+      go,
+      rust,
     },
     runtimes,
   };
@@ -78,6 +78,24 @@ describe("Parse OpenAPI Spec Script Unit Tests", () => {
     });
   });
 
+  it("Throws for streaming operations without a json 200 response", () => {
+    withTmpDirSnapshot(os.tmpdir(), (tmpDir) => {
+      const specPath = "../../resources/specs/invalid-streaming.yaml";
+      const outputPath = path.join(
+        path.relative(path.resolve(__dirname), tmpDir),
+        ".api.json"
+      );
+      const command = `../../../scripts/type-safe-api/run.js parse-openapi-spec --specPath ${specPath} --outputPath ${outputPath}`;
+      expect(() => {
+        exec(command, {
+          cwd: path.resolve(__dirname),
+        });
+      }).toThrow(
+        /Streaming operations must define a 200 response with an application\/json schema for the streamed events. Found invalid operations:\nstreamEvents\nstreamText/
+      );
+    });
+  });
+
   it("Permits parameter references (and circular references)", () => {
     expect(
       withTmpDirSnapshot(os.tmpdir(), (tmpDir) => {